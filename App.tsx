@@ -10,6 +10,8 @@ import { Review } from './components/Review';
 import { Settings } from './components/Settings';
 import { Changelog } from './components/Changelog';
 import { FlashcardList } from './components/FlashcardList';
+import { Stats } from './components/Stats';
+import { VocabularyImport } from './components/VocabularyImport';
 
 const App: React.FC = () => {
   return (
@@ -20,11 +22,13 @@ const App: React.FC = () => {
           <Routes>
             <Route path="/" element={<Dashboard />} />
             <Route path="/cards" element={<FlashcardList />} />
+            <Route path="/cards/import" element={<VocabularyImport />} />
             <Route path="/import" element={<ArticleImport />} />
             {/* Supports optional segment index, defaulting to 0 */}
             <Route path="/select-words/:id/:segmentIndex?" element={<WordSelection />} />
             <Route path="/read/:id/:segmentIndex?" element={<Reader />} />
             <Route path="/review" element={<Review />} />
+            <Route path="/stats" element={<Stats />} />
             <Route path="/settings" element={<Settings />} />
             <Route path="/changelog" element={<Changelog />} />
             <Route path="*" element={<Navigate to="/" replace />} />
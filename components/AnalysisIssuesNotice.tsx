@@ -0,0 +1,31 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface Props {
+  issues: string[];
+}
+
+/**
+ * Lists what validation repaired or dropped from the model's answer. Renders nothing when it was clean.
+ */
+export const AnalysisIssuesNotice: React.FC<Props> = ({ issues }) => {
+  const [open, setOpen] = useState(false);
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-4 mb-6 text-sm">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between font-medium">
+        <span className="flex items-center">
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          The AI response needed {issues.length} {issues.length === 1 ? 'correction' : 'corrections'}
+        </span>
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+      {open && (
+        <ul className="mt-2 space-y-1 list-disc list-inside text-amber-700">
+          {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
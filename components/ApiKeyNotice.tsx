@@ -0,0 +1,37 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { KeyRound } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { LLMTask, PROVIDERS, TASK_SETTINGS, isTaskReady } from '../services/llm';
+
+interface Props {
+  task: LLMTask;
+  className?: string;
+}
+
+/**
+ * Explains why an AI action is unavailable and where to fix it. Renders nothing when the task can run.
+ */
+export const ApiKeyNotice: React.FC<Props> = ({ task, className = '' }) => {
+  const { settings, credentials, updateSettings } = useAppStore();
+  if (isTaskReady(settings, task)) return null;
+
+  const provider = settings[TASK_SETTINGS[task].provider] || 'gemini';
+  const label = PROVIDERS.find(p => p.id === provider)?.label || provider;
+  const locked = credentials[provider] === 'locked';
+
+  return (
+    <div className={`bg-amber-50 border border-amber-200 text-amber-800 p-4 rounded-lg flex items-start text-sm ${className}`}>
+      <KeyRound className="w-5 h-5 mr-2 mt-0.5 flex-shrink-0" />
+      <p>
+        {locked
+          ? <>Your {label} API key is locked. <Link to="/settings" className="font-medium underline">Unlock it in Settings</Link></>
+          : <>No {label} API key is configured on this device. <Link to="/settings" className="font-medium underline">Add one in Settings</Link></>}
+        {' '}or{' '}
+        <button onClick={() => updateSettings({ demoMode: true })} className="font-medium underline">
+          try Demo Mode
+        </button>.
+      </p>
+    </div>
+  );
+};
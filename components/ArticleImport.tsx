@@ -1,87 +1,381 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { useAppStore } from '../store/AppContext';
 import { analyzeTextForVocabulary } from '../services/geminiService';
-import { useNavigate } from 'react-router-dom';
-import { Loader2, FileText, Book, AlertCircle } from 'lucide-react';
+import { isTaskReady, resolveTask } from '../services/llm';
+import { describeRetry, isAbortError } from '../services/aiPipeline';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Loader2, FileText, Book, AlertCircle, Upload, X, Wand2, Captions, Paperclip } from 'lucide-react';
 import { nanoid } from 'nanoid';
 import { ArticleSegment } from '../types';
+import { CollectionModal } from './CollectionModal';
+import { ApiKeyNotice } from './ApiKeyNotice';
+import { DEMO_ARTICLE } from '../services/mockFixtures';
+import { LANGUAGES, countWords, matchLanguage, textDirection } from '../services/languages';
+import { RawSegment, chaptersToSegments, hardMaximum, segmentText } from '../services/segmentation';
+import { EpubBook, parseEpub } from '../services/epub';
+import { imageToDataUrl } from '../services/image';
+import { DOCUMENT_ACCEPT, ImportedDocument, documentKind, fileTitle, readDocument } from '../services/fileImport';
+import { SUBTITLE_ACCEPT, SubtitleCue, cuesToSentences, formatTimestamp, groupTimedSentences, isSubtitleFile, parseSubtitles } from '../services/subtitles';
+import { CLEANUP_LABELS, CleanupOptions, CleanupReport, DEFAULT_CLEANUP, cleanupPages, cleanupText } from '../services/textCleanup';
+
+// Collection select value for "create a collection for this book"
+const NEW_BOOK_COLLECTION = 'book';
+
+type ImportedBook = Omit<EpubBook, 'cover'> & { coverImage?: string };
+
+interface ImportedSubtitles {
+  name: string;
+  cues: SubtitleCue[];
+}
+
+const isMediaFile = (file: File) => file.type.startsWith('audio/') || file.type.startsWith('video/');
+
+const BookSummary: React.FC<{ book: ImportedBook; language: string; onRemove: () => void; disabled: boolean }> = ({ book, language, onRemove, disabled }) => {
+  const words = book.chapters.reduce((sum, c) => sum + countWords(c.content, language), 0);
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 flex gap-4">
+      {book.coverImage && <img src={book.coverImage} alt="" className="w-20 h-28 object-cover rounded shadow-sm flex-shrink-0" />}
+      <div className="flex-1 min-w-0">
+        <div className="flex justify-between items-start gap-2">
+          <div>
+            <p className="font-bold text-gray-900">{book.title}</p>
+            {book.author && <p className="text-sm text-gray-500">{book.author}</p>}
+          </div>
+          <button onClick={onRemove} disabled={disabled} className="text-gray-400 hover:text-gray-600" title="Remove book">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-xs text-gray-400 mt-1">{book.chapters.length} chapters · {words} words</p>
+        <ol className="mt-2 max-h-40 overflow-y-auto text-sm text-gray-600 list-decimal list-inside space-y-0.5">
+          {book.chapters.map((c, i) => <li key={i} className="truncate">{c.title}</li>)}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+const SubtitleSummary: React.FC<{
+  subtitles: ImportedSubtitles;
+  media: File | null;
+  onAttachMedia: () => void;
+  onRemoveMedia: () => void;
+  onRemove: () => void;
+  disabled: boolean;
+}> = ({ subtitles, media, onAttachMedia, onRemoveMedia, onRemove, disabled }) => {
+  const { cues } = subtitles;
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex justify-between items-start gap-2">
+        <div className="flex items-center gap-2">
+          <Captions className="w-5 h-5 text-brand-600" />
+          <div>
+            <p className="font-bold text-gray-900">{subtitles.name}</p>
+            <p className="text-xs text-gray-400">{cues.length} cues · {formatTimestamp(cues[0].start)}–{formatTimestamp(cues[cues.length - 1].end)}</p>
+          </div>
+        </div>
+        <button onClick={onRemove} disabled={disabled} className="text-gray-400 hover:text-gray-600" title="Remove subtitles">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <ol className="mt-3 max-h-40 overflow-y-auto text-sm text-gray-600 space-y-0.5">
+        {cues.slice(0, 50).map((cue, i) => (
+          <li key={i} className="truncate"><span className="font-mono text-xs text-gray-400 mr-2">{formatTimestamp(cue.start)}</span>{cue.text}</li>
+        ))}
+      </ol>
+      <div className="mt-3 pt-3 border-t border-gray-100 flex items-center justify-between text-sm">
+        {media ? (
+          <>
+            <span className="text-gray-700 truncate"><Paperclip className="w-4 h-4 inline mr-1 text-gray-400" />{media.name}</span>
+            <button onClick={onRemoveMedia} disabled={disabled} className="text-xs text-gray-500 hover:text-gray-800">Remove</button>
+          </>
+        ) : (
+          <>
+            <span className="text-gray-500">Attach the audio or video to play it in sync while reading (stays on this device).</span>
+            <button onClick={onAttachMedia} disabled={disabled} className="text-xs font-medium text-brand-700 hover:text-brand-900 flex items-center flex-shrink-0 ml-3">
+              <Paperclip className="w-3.5 h-3.5 mr-1" />
+              Attach media
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const describeCleanup = (report: CleanupReport): string => {
+  const fixes = (Object.keys(CLEANUP_LABELS) as (keyof CleanupOptions)[])
+    .filter(key => report[key] > 0)
+    .map(key => `${CLEANUP_LABELS[key].toLowerCase()}: ${report[key]}`);
+  return fixes.length ? `Cleaned up ${fixes.join(', ')}.` : 'Nothing needed cleaning up.';
+};
+
+const CleanupPanel: React.FC<{
+  fileName: string;
+  paged: boolean; // PDFs; other files have no headers or page numbers to remove
+  options: CleanupOptions;
+  report: CleanupReport;
+  onToggle: (key: keyof CleanupOptions) => void;
+  onClose: () => void;
+  disabled: boolean;
+}> = ({ fileName, paged, options, report, onToggle, onClose, disabled }) => (
+  <div className="border border-gray-200 rounded-lg p-3 mb-2 text-sm">
+    <div className="flex justify-between items-start mb-2">
+      <p className="font-medium text-gray-800">{fileName}</p>
+      <button onClick={onClose} disabled={disabled} className="text-gray-400 hover:text-gray-600" title="Keep the text, forget the file">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+      {(Object.keys(CLEANUP_LABELS) as (keyof CleanupOptions)[])
+        .filter(key => paged || (key !== 'removeHeaders' && key !== 'removePageNumbers'))
+        .map(key => (
+        <label key={key} className="flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={options[key]}
+            onChange={() => onToggle(key)}
+            disabled={disabled}
+            className="rounded text-brand-600 focus:ring-brand-500"
+          />
+          {CLEANUP_LABELS[key]}
+          {options[key] && report[key] > 0 && <span className="text-xs text-gray-400">({report[key]} fixed)</span>}
+        </label>
+      ))}
+    </div>
+    <p className="text-xs text-gray-400 mt-2">Changing these options reads the file again and discards edits made below.</p>
+  </div>
+);
 
 export const ArticleImport: React.FC = () => {
-  const [text, setText] = useState('');
-  const [title, setTitle] = useState('');
+  const [searchParams] = useSearchParams();
+  // The dashboard's "Try the demo" link opens the import with the bundled sample
+  const withSample = searchParams.get('sample') === '1';
+  const [text, setText] = useState(withSample ? DEMO_ARTICLE.text : '');
+  const [title, setTitle] = useState(withSample ? DEMO_ARTICLE.title : '');
   const [loading, setLoading] = useState(false);
   const [statusMessage, setStatusMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [collectionId, setCollectionId] = useState('');
+  const [creatingCollection, setCreatingCollection] = useState(false);
+  const [prepareRemaining, setPrepareRemaining] = useState(false);
+  const [pretranslate, setPretranslate] = useState(false);
+  const [book, setBook] = useState<ImportedBook | null>(null);
+  const [readingFile, setReadingFile] = useState(false);
+  const [importedDoc, setImportedDoc] = useState<(ImportedDocument & { name: string }) | null>(null);
+  const [cleanup, setCleanup] = useState<CleanupOptions>(DEFAULT_CLEANUP);
+  const [cleanupReport, setCleanupReport] = useState<CleanupReport | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [subtitles, setSubtitles] = useState<ImportedSubtitles | null>(null);
+  const [media, setMedia] = useState<File | null>(null);
   
-  const { addArticle, settings } = useAppStore();
+  const { addArticle, addCollection, updateCollection, queueArticleAnalysis, attachArticleMedia, getBudgetWarning, settings, knownLemmas, learner, collections } = useAppStore();
+  const [language, setLanguage] = useState(withSample ? 'en' : settings.defaultSourceLanguage);
   const navigate = useNavigate();
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const mediaInputRef = useRef<HTMLInputElement>(null);
 
-  const splitTextIntoSegments = (fullText: string, wordsPerChunk: number): string[] => {
-    const words = fullText.split(/\s+/);
-    const chunks: string[] = [];
-    let currentChunkWords: string[] = [];
-    
-    for (let i = 0; i < words.length; i++) {
-      currentChunkWords.push(words[i]);
-      
-      if (currentChunkWords.length >= wordsPerChunk) {
-        const lastWord = words[i];
-        if (lastWord.endsWith('.') || lastWord.endsWith('?') || lastWord.endsWith('!') || lastWord.endsWith('\n')) {
-           chunks.push(currentChunkWords.join(' '));
-           currentChunkWords = [];
-        }
+  // Leaving the page cancels an analysis in flight
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Only PDFs have pages, and with them page numbers and running headers
+  const applyCleanup = (doc: ImportedDocument, options: CleanupOptions) => {
+    const result = doc.kind === 'pdf' ? cleanupPages(doc.pages, options) : cleanupText(doc.pages.join('\n\n'), options);
+    setText(result.text);
+    setCleanupReport(result.report);
+  };
+
+  const toggleCleanup = (key: keyof CleanupOptions) => {
+    const next = { ...cleanup, [key]: !cleanup[key] };
+    setCleanup(next);
+    if (importedDoc) applyCleanup(importedDoc, next);
+  };
+
+  const readFile = async (file: File) => {
+    const doc = await readDocument(file);
+    setBook(null);
+    removeSubtitles();
+    if (collectionId === NEW_BOOK_COLLECTION) setCollectionId('');
+    setImportedDoc({ ...doc, name: file.name });
+    applyCleanup(doc, cleanup);
+    if (doc.title) setTitle(doc.title);
+  };
+
+  const readBook = async (file: File) => {
+    const parsed = parseEpub(new Uint8Array(await file.arrayBuffer()));
+    let cover: string | undefined;
+    if (parsed.cover) {
+      try {
+        cover = await imageToDataUrl(parsed.cover);
+      } catch (e) {
+        console.error("Book cover could not be read", e);
       }
     }
-    
-    if (currentChunkWords.length > 0) {
-      chunks.push(currentChunkWords.join(' '));
+    setBook({ ...parsed, coverImage: cover });
+    removeSubtitles();
+    setImportedDoc(null);
+    setCleanupReport(null);
+    setTitle(parsed.title);
+    setLanguage(matchLanguage(parsed.language) || language);
+    if (!collectionId) setCollectionId(NEW_BOOK_COLLECTION);
+  };
+
+  const readSubtitles = async (file: File) => {
+    const cues = parseSubtitles(await file.text());
+    setSubtitles({ name: file.name, cues });
+    setBook(null);
+    if (collectionId === NEW_BOOK_COLLECTION) setCollectionId('');
+    setImportedDoc(null);
+    setCleanupReport(null);
+    setTitle(fileTitle(file.name));
+  };
+
+  const handleFile = async (file: File) => {
+    // Audio or video dropped after the subtitles
+    if (subtitles && isMediaFile(file)) {
+      setMedia(file);
+      return;
+    }
+    const isBook = /\.epub$/i.test(file.name);
+    const isSubtitles = isSubtitleFile(file.name);
+    if (!isBook && !isSubtitles && !documentKind(file.name)) {
+      setError(`"${file.name}" is not a supported file. Choose an EPUB, PDF, HTML, Markdown, text or subtitle (SRT/VTT) file.`);
+      return;
+    }
+    setError(null);
+    setReadingFile(true);
+    try {
+      await (isBook ? readBook(file) : isSubtitles ? readSubtitles(file) : readFile(file));
+    } catch (e: any) {
+      console.error("File import failed", e);
+      setError(e.message || "Could not read this file.");
+    } finally {
+      setReadingFile(false);
     }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file && !loading) handleFile(file);
+  };
+
+  const removeSubtitles = () => {
+    setSubtitles(null);
+    setMedia(null);
+  };
 
-    return chunks;
+  const removeBook = () => {
+    setBook(null);
+    if (collectionId === NEW_BOOK_COLLECTION) setCollectionId('');
   };
 
   const handleAnalyze = async () => {
-    if (!text.trim() || !title.trim()) return;
+    if ((!book && !subtitles && !text.trim()) || !title.trim()) return;
     setLoading(true);
     setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
     
     try {
       setStatusMessage("Processing text structure...");
       
-      const rawSegments = splitTextIntoSegments(text, settings.segmentLength || 1200);
+      const segmentLength = settings.segmentLength || 1200;
+      const rawSegments: (RawSegment & Pick<ArticleSegment, 'timedSentences'>)[] = subtitles
+        ? groupTimedSentences(cuesToSentences(subtitles.cues, language), segmentLength, language)
+        : book
+          ? chaptersToSegments(book.chapters, segmentLength, language)
+          : segmentText(text, segmentLength, language);
       
-      const firstSegmentText = rawSegments[0];
+      // A PDF of scanned pages or a book of image-only chapters can leave nothing to read
+      if (rawSegments.length === 0) {
+        setError("No readable text was found to import.");
+        setStatusMessage('');
+        setLoading(false);
+        return;
+      }
+      const firstSegmentText = rawSegments[0].content;
       
+      if (prepareRemaining && rawSegments.length > 1) {
+        const warning = await getBudgetWarning('Preparing the remaining parts in the background');
+        if (warning && !window.confirm(warning)) {
+          setStatusMessage('');
+          setLoading(false);
+          return;
+        }
+      }
+
+      // Generated up front so the first part's usage is booked against the new article
+      const articleId = nanoid();
       setStatusMessage(`Analyzing Part 1 of ${rawSegments.length} with AI...`);
       const analysis = await analyzeTextForVocabulary(
         firstSegmentText, 
-        'B2', 
-        settings.analysisModel,
-        settings.enabledTypes
+        learner, 
+        resolveTask(settings, 'analysis', language),
+        settings.enabledTypes,
+        knownLemmas,
+        {
+          signal: controller.signal,
+          onRetry: info => setStatusMessage(describeRetry(info)),
+          source: { articleId },
+        }
       );
       
       setStatusMessage("Saving content...");
       
-      const segments: ArticleSegment[] = rawSegments.map((content, index) => ({
+      const segments: ArticleSegment[] = rawSegments.map(({ title, content, timedSentences }, index) => ({
         id: nanoid(),
         index: index,
-        title: `Part ${index + 1}`,
+        title,
         content: content,
-        analyzedWords: index === 0 ? analysis : [],
+        analyzedWords: index === 0 ? analysis.items : [],
         approvedWordIds: [],
         isAnalyzed: index === 0,
+        timedSentences,
       }));
 
+      // A book gets its own collection with its cover, or lends the cover to a collection that has none
+      let targetCollection = collectionId || undefined;
+      if (book && collectionId === NEW_BOOK_COLLECTION) {
+        targetCollection = await addCollection(title, book.author, book.coverImage);
+      } else if (book?.coverImage && targetCollection && !collections.find(c => c.id === targetCollection)?.coverImage) {
+        await updateCollection(targetCollection, { coverImage: book.coverImage });
+      }
+
       // This is now async and saves to DB
-      const articleId = await addArticle(title, segments);
+      await addArticle(title, segments, {
+        id: articleId,
+        collectionId: targetCollection,
+        language,
+        author: book?.author,
+        coverImage: book?.coverImage,
+      });
+      if (media) {
+        try {
+          await attachArticleMedia(articleId, media);
+        } catch (e) {
+          // The text is saved; the file can be attached again from the reader
+          console.error("Media could not be saved", e);
+          alert("The subtitles were imported, but the media file could not be saved. You can attach it again from the reader.");
+        }
+      }
+      if (prepareRemaining) {
+        await queueArticleAnalysis(articleId, pretranslate);
+      }
       
       setStatusMessage("Done! Redirecting...");
       
       setTimeout(() => {
-         navigate(`/select-words/${articleId}/0`);
+         navigate(`/select-words/${articleId}/0`, { state: { analysisIssues: analysis.issues } });
       }, 500);
 
     } catch (error: any) {
+      if (isAbortError(error)) {
+        setStatusMessage('');
+        setLoading(false);
+        return;
+      }
       console.error("Analysis failed", error);
       setError(error.message || "Failed to analyze text. Please check your internet connection or API limits.");
       setLoading(false);
@@ -116,28 +410,188 @@ export const ArticleImport: React.FC = () => {
         </div>
 
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">Content</label>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Collection</label>
+          <select
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none bg-white"
+            value={collectionId}
+            onChange={(e) => e.target.value === 'new' ? setCreatingCollection(true) : setCollectionId(e.target.value)}
+            disabled={loading}
+          >
+            <option value="">No collection</option>
+            {book && <option value={NEW_BOOK_COLLECTION}>New collection for this book (with its cover)</option>}
+            {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            <option value="new">+ New collection...</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Language of the text</label>
+          <select
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none bg-white"
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            disabled={loading}
+          >
+            {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name} ({l.nativeName})</option>)}
+          </select>
+        </div>
+
+        <div
+          onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          className={`rounded-lg transition ${dragging ? 'ring-2 ring-brand-400 ring-offset-4 bg-brand-50' : ''}`}
+        >
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-sm font-medium text-gray-700">
+              {importedDoc ? 'Cleaned text (check it before importing)' : 'Content'}
+            </label>
+            <div className="flex items-center gap-4">
+              {settings.demoMode && !book && !subtitles && (
+                <button
+                  onClick={() => { setTitle(DEMO_ARTICLE.title); setText(DEMO_ARTICLE.text); setLanguage('en'); }}
+                  disabled={loading}
+                  className="text-xs font-medium text-amber-700 hover:text-amber-900"
+                >
+                  Load sample text
+                </button>
+              )}
+              {!book && !subtitles && !importedDoc && text.trim() && (
+                <button
+                  onClick={() => {
+                    const result = cleanupText(text, cleanup);
+                    setText(result.text);
+                    setCleanupReport(result.report);
+                  }}
+                  disabled={loading}
+                  className="text-xs font-medium text-brand-700 hover:text-brand-900 flex items-center"
+                  title="Fix broken lines, hyphenation and footnote markers from copied PDF text"
+                >
+                  <Wand2 className="w-3.5 h-3.5 mr-1" />
+                  Clean up text
+                </button>
+              )}
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={loading || readingFile}
+                className="text-xs font-medium text-brand-700 hover:text-brand-900 flex items-center"
+              >
+                {readingFile ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> : <Upload className="w-3.5 h-3.5 mr-1" />}
+                Open file
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={`.epub,application/epub+zip,${DOCUMENT_ACCEPT},${SUBTITLE_ACCEPT}`}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleFile(file);
+                }}
+              />
+              <input
+                ref={mediaInputRef}
+                type="file"
+                accept="audio/*,video/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) setMedia(file);
+                }}
+              />
+            </div>
+          </div>
           <div className="bg-blue-50 p-3 rounded-lg mb-2 text-sm text-blue-800 flex items-start">
             <Book className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
             <p>
-              Text will be split into pages of ~{settings.segmentLength} words.
-              Only Part 1 will be analyzed now. You can analyze subsequent parts as you read them.
+              {subtitles
+                ? `Cues are grouped into parts of ~${settings.segmentLength} words; every sentence keeps its timing.`
+                : book
+                  ? `Each chapter becomes a part; chapters longer than ${hardMaximum(settings.segmentLength)} words are split.`
+                  : `Text will be split into pages of ~${settings.segmentLength} words at paragraph or sentence breaks.`}
+              {' '}Only Part 1 will be analyzed now. The other parts can be prepared in the background or as you read them.
             </p>
           </div>
-          <textarea
-            className="w-full h-64 p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-lg leading-relaxed"
-            placeholder="Paste the full chapter or book here..."
-            value={text}
-            onChange={(e) => setText(e.target.value)}
-            disabled={loading}
-          />
-          <p className="text-right text-xs text-gray-400 mt-2">{text.split(/\s+/).length} words</p>
+          {importedDoc && cleanupReport && (
+            <CleanupPanel
+              fileName={importedDoc.name}
+              paged={importedDoc.kind === 'pdf'}
+              options={cleanup}
+              report={cleanupReport}
+              onToggle={toggleCleanup}
+              onClose={() => { setImportedDoc(null); setCleanupReport(null); }}
+              disabled={loading}
+            />
+          )}
+          {!importedDoc && cleanupReport && !book && (
+            <p className="text-xs text-gray-500 mb-2">{describeCleanup(cleanupReport)}</p>
+          )}
+          {subtitles ? (
+            <SubtitleSummary
+              subtitles={subtitles}
+              media={media}
+              onAttachMedia={() => mediaInputRef.current?.click()}
+              onRemoveMedia={() => setMedia(null)}
+              onRemove={removeSubtitles}
+              disabled={loading}
+            />
+          ) : book ? (
+            <BookSummary book={book} language={language} onRemove={removeBook} disabled={loading} />
+          ) : (
+            <>
+              <textarea
+                className="w-full h-64 p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-lg leading-relaxed"
+                placeholder="Paste the full chapter or book here, or drop an EPUB, PDF, HTML, Markdown, text or subtitle file..."
+                dir={textDirection(language)}
+                lang={language}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                disabled={loading}
+              />
+              <p className="text-right text-xs text-gray-400 mt-2">{countWords(text, language)} words</p>
+            </>
+          )}
         </div>
 
-        <div className="flex justify-end">
+        <div className="space-y-2 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={prepareRemaining}
+              onChange={(e) => setPrepareRemaining(e.target.checked)}
+              disabled={loading}
+              className="rounded text-brand-600 focus:ring-brand-500"
+            />
+            Analyze the remaining parts in the background
+          </label>
+          <label className={`flex items-center gap-2 ml-6 ${prepareRemaining ? '' : 'text-gray-400'}`}>
+            <input
+              type="checkbox"
+              checked={pretranslate}
+              onChange={(e) => setPretranslate(e.target.checked)}
+              disabled={loading || !prepareRemaining}
+              className="rounded text-brand-600 focus:ring-brand-500"
+            />
+            Also translate every part
+          </label>
+        </div>
+
+        <ApiKeyNotice task="analysis" />
+
+        <div className="flex justify-end gap-3">
+          {loading && (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-4 py-3 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 font-medium"
+            >
+              Cancel
+            </button>
+          )}
           <button
             onClick={handleAnalyze}
-            disabled={loading || !text || !title}
+            disabled={loading || (!text && !book && !subtitles) || !title || !isTaskReady(settings, 'analysis')}
             className={`flex items-center px-6 py-3 rounded-lg transition font-medium w-full sm:w-auto justify-center ${
               loading 
                 ? 'bg-gray-100 text-brand-600 cursor-wait border border-gray-200' 
@@ -158,6 +612,10 @@ export const ArticleImport: React.FC = () => {
           </button>
         </div>
       </div>
+
+      {creatingCollection && (
+        <CollectionModal onClose={() => setCreatingCollection(false)} onSaved={setCollectionId} />
+      )}
     </div>
   );
 };
\ No newline at end of file
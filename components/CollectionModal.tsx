@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { X, Loader2, ImagePlus, Trash2 } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { Collection } from '../types';
+import { imageToDataUrl } from '../services/image';
+
+interface Props {
+  collection?: Collection; // Edit mode when provided
+  onClose: () => void;
+  onSaved?: (id: string) => void;
+}
+
+export const CollectionModal: React.FC<Props> = ({ collection, onClose, onSaved }) => {
+  const { articles, addCollection, updateCollection, deleteCollection } = useAppStore();
+  const [name, setName] = useState(collection?.name || '');
+  const [description, setDescription] = useState(collection?.description || '');
+  const [coverImage, setCoverImage] = useState<string | undefined>(collection?.coverImage);
+  const [saving, setSaving] = useState(false);
+
+  const articleCount = collection ? articles.filter(a => a.collectionId === collection.id).length : 0;
+
+  const handleCover = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setCoverImage(await imageToDataUrl(file));
+    } catch (err) {
+      console.error("Cover image failed", err);
+      alert("Could not read this image.");
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      const fields = { name: name.trim(), description: description.trim() || undefined, coverImage };
+      if (collection) {
+        await updateCollection(collection.id, fields);
+        onSaved?.(collection.id);
+      } else {
+        onSaved?.(await addCollection(fields.name, fields.description, fields.coverImage));
+      }
+      onClose();
+    } catch (err) {
+      console.error("Saving collection failed", err);
+      alert("Could not save the collection. Check console.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!collection) return;
+    if (!window.confirm(`Delete "${collection.name}"? Its ${articleCount} texts and their cards stay in your library.`)) return;
+    try {
+      await deleteCollection(collection.id);
+      onClose();
+    } catch (err) {
+      console.error("Deleting collection failed", err);
+      alert("Could not delete the collection. Check console.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 relative" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-3 right-3 text-gray-400 hover:text-gray-600">
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-lg font-bold text-gray-900 mb-4">{collection ? 'Edit Collection' : 'New Collection'}</h2>
+
+        <div className="flex gap-4 mb-4">
+          <label className="flex-shrink-0 w-24 h-32 rounded-lg border-2 border-dashed border-gray-300 bg-gray-50 flex items-center justify-center cursor-pointer overflow-hidden hover:border-brand-400">
+            {coverImage ? (
+              <img src={coverImage} alt="" className="w-full h-full object-cover" />
+            ) : (
+              <ImagePlus className="w-6 h-6 text-gray-400" />
+            )}
+            <input type="file" accept="image/*" onChange={handleCover} className="hidden" />
+          </label>
+          <div className="flex-1 space-y-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., The Great Gatsby"
+              autoFocus
+              className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+            />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Description (optional)"
+              rows={3}
+              className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+            />
+            {coverImage && (
+              <button onClick={() => setCoverImage(undefined)} className="text-xs text-gray-500 hover:text-red-600">
+                Remove cover
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          {collection && (
+            <button
+              onClick={handleDelete}
+              className="px-4 py-2.5 text-red-600 hover:bg-red-50 rounded-lg text-sm font-medium transition flex items-center"
+            >
+              <Trash2 className="w-4 h-4 mr-1" /> Delete
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving || !name.trim()}
+            className="flex-1 py-2.5 bg-brand-600 text-white rounded-lg font-medium hover:bg-brand-700 transition flex justify-center items-center disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
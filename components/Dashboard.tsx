@@ -1,10 +1,330 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAppStore } from '../store/AppContext';
-import { Link } from 'react-router-dom';
-import { FileText, Clock, ArrowRight, Plus, BookOpen } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { FileText, Clock, ArrowRight, Plus, BookOpen, CalendarClock, FolderPlus, Pencil, GraduationCap, Library, Pause, Play, X, Loader2, Scissors } from 'lucide-react';
+import { AnalysisJob, Article, Collection } from '../types';
+import { CollectionModal } from './CollectionModal';
+import { languageName, textDirection } from '../services/languages';
+
+type CollectionFilter = 'all' | 'unsorted' | string;
+
+const JOB_LABELS: Record<AnalysisJob['status'], string> = {
+  queued: 'Waiting',
+  running: 'Preparing',
+  paused: 'Paused',
+  failed: 'Stopped',
+  done: 'All parts prepared',
+};
+
+// Progress and controls for an article's background preparation, or the buttons that start one
+const BackgroundJob: React.FC<{ article: Article; job?: AnalysisJob }> = ({ article, job }) => {
+  const { queueArticleAnalysis, pauseAnalysisJob, resumeAnalysisJob, cancelAnalysisJob, getBudgetWarning } = useAppStore();
+
+  const run = (action: Promise<void>) => action.catch(err => {
+    console.error("Background analysis action failed", err);
+    alert("Could not update the background analysis. Check console.");
+  });
+
+  // Background jobs can spend a lot at once, so confirm first when the monthly budget is nearly used
+  const startJob = (translate: boolean) => run((async () => {
+    const warning = await getBudgetWarning(`Preparing "${article.title}" in the background`);
+    if (warning && !window.confirm(warning)) return;
+    await queueArticleAnalysis(article.id, translate);
+  })());
+
+  if (!job) {
+    if (article.segments.length < 2) return null;
+    const remaining = article.segments.filter(s => !s.isAnalyzed).length;
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-500">
+        <span>Prepare in background:</span>
+        {remaining > 0 && (
+          <button onClick={() => startJob(false)} className="font-medium text-brand-600 hover:text-brand-800">
+            Analyze {remaining} {remaining === 1 ? 'part' : 'parts'}
+          </button>
+        )}
+        <button onClick={() => startJob(true)} className="font-medium text-brand-600 hover:text-brand-800">
+          {remaining > 0 ? '+ translate' : 'Translate all'}
+        </button>
+      </div>
+    );
+  }
+
+  const completed = job.total - job.pending.length;
+  const active = job.status === 'queued' || job.status === 'running';
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between text-xs">
+        <span className={`flex items-center font-medium ${job.status === 'failed' ? 'text-red-600' : 'text-gray-600'}`}>
+          {job.status === 'running' && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          {JOB_LABELS[job.status]}{job.status !== 'done' && ` ${completed} / ${job.total}`}
+          {job.translate && job.status !== 'done' && ' (with translations)'}
+        </span>
+        <span className="flex items-center gap-1">
+          {active && (
+            <button onClick={() => run(pauseAnalysisJob(article.id))} className="p-1 text-gray-400 hover:text-gray-700" title="Pause">
+              <Pause className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {(job.status === 'paused' || job.status === 'failed') && (
+            <button onClick={() => run(resumeAnalysisJob(article.id))} className="p-1 text-gray-400 hover:text-brand-600" title="Resume">
+              <Play className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button onClick={() => run(cancelAnalysisJob(article.id))} className="p-1 text-gray-400 hover:text-red-600" title={job.status === 'done' ? 'Dismiss' : 'Cancel'}>
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </span>
+      </div>
+      {job.status !== 'done' && (
+        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full transition-all ${job.status === 'failed' ? 'bg-red-400' : active ? 'bg-brand-500' : 'bg-gray-400'}`}
+            style={{ width: `${(completed / Math.max(1, job.total)) * 100}%` }}
+          />
+        </div>
+      )}
+      {job.error && <p className="text-xs text-red-600 line-clamp-2">{job.error}</p>}
+    </div>
+  );
+};
+
+// Splits an article again with another part length; analyzed words and flashcards are kept
+const ResplitForm: React.FC<{ article: Article; onClose: () => void }> = ({ article, onClose }) => {
+  const { resegmentArticle, settings } = useAppStore();
+  const [length, setLength] = useState(settings.segmentLength || 1200);
+  const [saving, setSaving] = useState(false);
+
+  const apply = async () => {
+    setSaving(true);
+    try {
+      await resegmentArticle(article.id, length);
+      onClose();
+    } catch (err) {
+      console.error("Failed to split the text again", err);
+      alert("Could not split the text again. Check console.");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs text-gray-600 space-y-2">
+      <label className="flex items-center gap-2">
+        Words per part
+        <input
+          type="number"
+          min="100"
+          max="5000"
+          step="100"
+          value={length}
+          onChange={(e) => setLength(parseInt(e.target.value) || 1200)}
+          disabled={saving}
+          className="w-20 p-1 border border-gray-300 rounded outline-none focus:ring-2 focus:ring-brand-500"
+        />
+      </label>
+      <p className="text-gray-400">Analyzed words, approvals and flashcards are kept. Translations of parts that change are dropped.</p>
+      <div className="flex justify-end gap-2">
+        <button onClick={onClose} disabled={saving} className="px-2 py-1 text-gray-500 hover:text-gray-800">Cancel</button>
+        <button onClick={apply} disabled={saving} className="px-2 py-1 bg-brand-600 text-white rounded hover:bg-brand-700 flex items-center">
+          {saving && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          Split again
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ArticleCard: React.FC<{ article: Article; collections: Collection[] }> = ({ article, collections }) => {
+  const { setArticleCollection, analysisJobs } = useAppStore();
+  const [resplitting, setResplitting] = useState(false);
+
+  // Find last analyzed segment or default to first
+  const lastAnalyzed = [...article.segments].reverse().find(s => s.isAnalyzed) || article.segments[0];
+  const segmentCount = article.segments.length;
+  const totalWords = article.segments.reduce((acc, seg) => acc + seg.analyzedWords.length, 0);
+
+  const handleMove = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setArticleCollection(article.id, e.target.value || undefined).catch(err => {
+      console.error("Failed to move article", err);
+      alert("Could not move the text. Check console.");
+    });
+  };
+
+  return (
+    <div className="group bg-white rounded-xl p-6 border border-gray-200 hover:border-brand-300 hover:shadow-md transition-all duration-200 flex flex-col h-full">
+      <Link to={`/read/${article.id}/${lastAnalyzed.index}`} className="flex-1">
+        <div className="flex justify-between items-start mb-2">
+          <h3 className="text-xl font-bold text-gray-900 line-clamp-2 group-hover:text-brand-600 transition-colors">
+            {article.title}
+            {article.author && <span className="block text-sm font-normal text-gray-500 mt-0.5">{article.author}</span>}
+          </h3>
+          {segmentCount > 1 && (
+             <span className="flex-shrink-0 bg-gray-100 text-gray-600 text-[10px] px-2 py-1 rounded-full font-bold uppercase tracking-wider flex items-center">
+               <BookOpen className="w-3 h-3 mr-1" />
+               {segmentCount} Parts
+             </span>
+          )}
+        </div>
+        <p dir={textDirection(article.language)} lang={article.language} className="text-gray-500 text-sm line-clamp-3 mb-4 leading-relaxed">
+          {article.segments[0].content}
+        </p>
+      </Link>
+
+      <div className="space-y-3">
+         <div className="flex items-center gap-2 text-xs text-gray-500">
+           <span className="bg-green-50 text-green-700 px-2 py-0.5 rounded border border-green-100 font-medium">
+              Part {lastAnalyzed.index + 1}
+           </span>
+           <span>•</span>
+           <span>{languageName(article.language)}</span>
+           <span>•</span>
+           <span>{totalWords} vocab items</span>
+         </div>
+
+        <BackgroundJob article={article} job={analysisJobs[article.id]} />
+
+        {resplitting && <ResplitForm article={article} onClose={() => setResplitting(false)} />}
+
+        {collections.length > 0 && (
+          <select
+            value={article.collectionId || ''}
+            onChange={handleMove}
+            className="w-full text-xs p-1.5 bg-gray-50 border border-gray-200 rounded-md text-gray-600 outline-none focus:ring-2 focus:ring-brand-500"
+            title="Collection"
+          >
+            <option value="">No collection</option>
+            {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        )}
+
+        <div className="pt-4 border-t border-gray-100 flex justify-between items-center mt-auto">
+          <div className="flex items-center text-gray-400 text-xs">
+            <Clock className="w-3 h-3 mr-1" />
+            {new Date(article.processedAt).toLocaleDateString()}
+            <button onClick={() => setResplitting(!resplitting)} className="ml-2 p-1 hover:text-gray-700" title="Change the part length">
+              <Scissors className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <Link to={`/read/${article.id}/${lastAnalyzed.index}`} className="flex items-center text-sm font-medium text-brand-600">
+             Continue
+             <ArrowRight className="w-4 h-4 ml-1 transform group-hover:translate-x-1 transition-transform" />
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CollectionHeader: React.FC<{ collection: Collection; count: number; onEdit: () => void }> = ({ collection, count, onEdit }) => (
+  <div className="flex items-center gap-4 mb-4">
+    {collection.coverImage ? (
+      <img src={collection.coverImage} alt="" className="w-12 h-16 object-cover rounded shadow-sm flex-shrink-0" />
+    ) : (
+      <div className="w-12 h-16 rounded bg-brand-50 flex items-center justify-center flex-shrink-0">
+        <Library className="w-5 h-5 text-brand-400" />
+      </div>
+    )}
+    <div className="flex-1 min-w-0">
+      <h2 className="text-lg font-bold text-gray-900 flex items-center">
+        {collection.name}
+        <span className="ml-2 text-xs font-medium text-gray-400">{count} {count === 1 ? 'text' : 'texts'}</span>
+      </h2>
+      {collection.description && <p className="text-sm text-gray-500 line-clamp-1">{collection.description}</p>}
+    </div>
+    <button onClick={onEdit} className="p-2 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg" title="Edit collection">
+      <Pencil className="w-4 h-4" />
+    </button>
+    <Link
+      to={`/review?collection=${collection.id}`}
+      className="flex items-center px-3 py-2 text-sm font-medium text-brand-700 bg-brand-50 hover:bg-brand-100 rounded-lg transition"
+    >
+      <GraduationCap className="w-4 h-4 mr-1" /> Review
+    </Link>
+  </div>
+);
 
 export const Dashboard: React.FC = () => {
-  const { articles } = useAppStore();
+  const { articles, collections, settings, credentials, getDueCount, updateSettings } = useAppStore();
+  const navigate = useNavigate();
+  const [dueToday, setDueToday] = useState(0);
+  const [filter, setFilter] = useState<CollectionFilter>('all');
+  const [editing, setEditing] = useState<Collection | 'new' | null>(null);
+  // Synthetic sources (e.g. imported word lists) have no text to read
+  const readableArticles = articles.filter(a => a.segments.length > 0);
+
+  useEffect(() => {
+    const endOfToday = new Date();
+    endOfToday.setHours(23, 59, 59, 999);
+    getDueCount(endOfToday.getTime()).then(setDueToday).catch(e => console.error(e));
+  }, []);
+
+  // Fall back to "all" if the selected collection was deleted
+  useEffect(() => {
+    if (filter !== 'all' && filter !== 'unsorted' && !collections.some(c => c.id === filter)) setFilter('all');
+  }, [collections, filter]);
+
+  const startDemo = async () => {
+    await updateSettings({ demoMode: true });
+    navigate('/import?sample=1');
+  };
+
+  const collectionIds = new Set(collections.map(c => c.id));
+  const articlesIn = (collectionId: string) => readableArticles.filter(a => a.collectionId === collectionId);
+  const unsorted = readableArticles.filter(a => !a.collectionId || !collectionIds.has(a.collectionId));
+
+  const renderGrid = (list: Article[]) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {list.map(article => <ArticleCard key={article.id} article={article} collections={collections} />)}
+    </div>
+  );
+
+  const renderLibrary = () => {
+    if (filter === 'unsorted') return renderGrid(unsorted);
+
+    if (filter !== 'all') {
+      const collection = collections.find(c => c.id === filter);
+      if (!collection) return null;
+      const list = articlesIn(collection.id);
+      return (
+        <>
+          <CollectionHeader collection={collection} count={list.length} onEdit={() => setEditing(collection)} />
+          {list.length > 0 ? renderGrid(list) : (
+            <p className="text-gray-500 text-sm py-8 text-center bg-white rounded-xl border border-dashed border-gray-300">
+              No texts in this collection yet. Use the menu on any text card to move it here.
+            </p>
+          )}
+        </>
+      );
+    }
+
+    // Grouped view: one section per non-empty collection, then everything else
+    return (
+      <div className="space-y-10">
+        {collections.map(collection => {
+          const list = articlesIn(collection.id);
+          if (list.length === 0) return null;
+          return (
+            <section key={collection.id}>
+              <CollectionHeader collection={collection} count={list.length} onEdit={() => setEditing(collection)} />
+              {renderGrid(list)}
+            </section>
+          );
+        })}
+        {unsorted.length > 0 && (
+          <section>
+            {unsorted.length < readableArticles.length && (
+              <h2 className="text-lg font-bold text-gray-900 mb-4">Unsorted</h2>
+            )}
+            {renderGrid(unsorted)}
+          </section>
+        )}
+      </div>
+    );
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-sm font-medium border transition ${active ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-gray-600 border-gray-200 hover:border-gray-300'}`;
 
   return (
     <div className="max-w-7xl mx-auto py-8 px-4">
@@ -19,7 +339,20 @@ export const Dashboard: React.FC = () => {
         </Link>
       </header>
 
-      {articles.length === 0 ? (
+      {dueToday > 0 && (
+        <Link to="/review" className="mb-8 flex items-center justify-between bg-brand-50 border border-brand-200 rounded-xl px-6 py-4 hover:bg-brand-100 transition group">
+          <div className="flex items-center">
+            <CalendarClock className="w-6 h-6 text-brand-600 mr-3" />
+            <div>
+              <p className="font-bold text-brand-800">{dueToday} {dueToday === 1 ? 'card' : 'cards'} due today</p>
+              <p className="text-sm text-brand-600">Keep your streak going with a quick review session.</p>
+            </div>
+          </div>
+          <ArrowRight className="w-5 h-5 text-brand-600 transform group-hover:translate-x-1 transition-transform" />
+        </Link>
+      )}
+
+      {readableArticles.length === 0 ? (
         <div className="text-center py-20 bg-white rounded-2xl border border-dashed border-gray-300">
           <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h3 className="text-xl font-medium text-gray-900">No texts yet</h3>
@@ -27,59 +360,44 @@ export const Dashboard: React.FC = () => {
           <Link to="/import" className="text-brand-600 font-medium hover:text-brand-800">
             Get Started &rarr;
           </Link>
+          {credentials.gemini === 'missing' && !settings.demoMode && (
+            <p className="text-sm text-gray-500 mt-6">
+              No API key configured?{' '}
+              <button onClick={startDemo} className="text-amber-700 font-medium hover:text-amber-900">
+                Try the demo with a sample text
+              </button>
+            </p>
+          )}
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {articles.map(article => {
-            // Find last analyzed segment or default to first
-            const lastAnalyzed = [...article.segments].reverse().find(s => s.isAnalyzed) || article.segments[0];
-            const segmentCount = article.segments.length;
-            const totalWords = article.segments.reduce((acc, seg) => acc + seg.analyzedWords.length, 0);
-
-            return (
-              <Link key={article.id} to={`/read/${article.id}/${lastAnalyzed.index}`} className="group bg-white rounded-xl p-6 border border-gray-200 hover:border-brand-300 hover:shadow-md transition-all duration-200 flex flex-col h-full">
-                <div className="flex-1">
-                  <div className="flex justify-between items-start mb-2">
-                    <h3 className="text-xl font-bold text-gray-900 line-clamp-2 group-hover:text-brand-600 transition-colors">
-                      {article.title}
-                    </h3>
-                    {segmentCount > 1 && (
-                       <span className="flex-shrink-0 bg-gray-100 text-gray-600 text-[10px] px-2 py-1 rounded-full font-bold uppercase tracking-wider flex items-center">
-                         <BookOpen className="w-3 h-3 mr-1" />
-                         {segmentCount} Parts
-                       </span>
-                    )}
-                  </div>
-                  <p className="text-gray-500 text-sm line-clamp-3 mb-4 leading-relaxed">
-                    {article.segments[0].content}
-                  </p>
-                </div>
-                
-                <div className="space-y-3">
-                   <div className="flex items-center gap-2 text-xs text-gray-500">
-                     <span className="bg-green-50 text-green-700 px-2 py-0.5 rounded border border-green-100 font-medium">
-                        Part {lastAnalyzed.index + 1}
-                     </span>
-                     <span>•</span>
-                     <span>{totalWords} vocab items</span>
-                   </div>
-
-                  <div className="pt-4 border-t border-gray-100 flex justify-between items-center mt-auto">
-                    <div className="flex items-center text-gray-400 text-xs">
-                      <Clock className="w-3 h-3 mr-1" />
-                      {new Date(article.processedAt).toLocaleDateString()}
-                    </div>
-                    <div className="flex items-center text-sm font-medium text-brand-600">
-                       Continue
-                       <ArrowRight className="w-4 h-4 ml-1 transform group-hover:translate-x-1 transition-transform" />
-                    </div>
-                  </div>
-                </div>
-              </Link>
-            );
-          })}
-        </div>
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-8">
+            <button onClick={() => setFilter('all')} className={chipClass(filter === 'all')}>All</button>
+            {collections.map(c => (
+              <button key={c.id} onClick={() => setFilter(c.id)} className={chipClass(filter === c.id)}>{c.name}</button>
+            ))}
+            {collections.length > 0 && unsorted.length > 0 && (
+              <button onClick={() => setFilter('unsorted')} className={chipClass(filter === 'unsorted')}>Unsorted</button>
+            )}
+            <button
+              onClick={() => setEditing('new')}
+              className="px-3 py-1.5 rounded-full text-sm font-medium text-brand-600 hover:bg-brand-50 flex items-center"
+            >
+              <FolderPlus className="w-4 h-4 mr-1" /> New Collection
+            </button>
+          </div>
+
+          {renderLibrary()}
+        </>
+      )}
+
+      {editing && (
+        <CollectionModal
+          collection={editing === 'new' ? undefined : editing}
+          onClose={() => setEditing(null)}
+          onSaved={editing === 'new' ? (id) => setFilter(id) : undefined}
+        />
       )}
     </div>
   );
-};
\ No newline at end of file
+};
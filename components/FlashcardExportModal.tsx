@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { X, Download, Loader2, CheckSquare } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { EXPORT_COLUMNS, DEFAULT_EXPORT_COLUMNS, toDelimited, buildAnkiPackage } from '../services/flashcardExport';
+import { downloadBlob } from '../services/download';
+
+type ExportFormat = 'apkg' | 'csv' | 'tsv';
+
+interface Props {
+  filters: { articleId: string; type: string; level: string; search: string };
+  onClose: () => void;
+}
+
+const FORMATS: { id: ExportFormat; label: string; desc: string }[] = [
+  { id: 'apkg', label: 'Anki Deck (.apkg)', desc: 'Import directly into Anki' },
+  { id: 'csv', label: 'CSV', desc: 'Spreadsheets, Quizlet' },
+  { id: 'tsv', label: 'TSV', desc: 'Tab-separated text' },
+];
+
+export const FlashcardExportModal: React.FC<Props> = ({ filters, onClose }) => {
+  const { searchFlashcards, getArticleMetadata, settings } = useAppStore();
+  const [format, setFormat] = useState<ExportFormat>('apkg');
+  const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [deckName, setDeckName] = useState(() => {
+    const article = filters.articleId !== 'all' ? getArticleMetadata(filters.articleId) : undefined;
+    return article ? `LinguaFlow::${article.title}` : 'LinguaFlow';
+  });
+  const [exporting, setExporting] = useState(false);
+
+  const toggleColumn = (id: string) => {
+    // Keep the user's chosen order; new columns go to the end
+    setColumns(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const cards = await searchFlashcards(filters);
+      if (cards.length === 0) {
+        alert("No cards match the current filters.");
+        return;
+      }
+
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === 'apkg') {
+        const data = await buildAnkiPackage(cards, deckName.trim() || 'LinguaFlow', settings.nativeLanguage);
+        downloadBlob(new Blob([data], { type: 'application/octet-stream' }), `linguaflow-${date}.apkg`);
+      } else {
+        const text = toDelimited(cards, columns, format === 'csv' ? ',' : '\t', id => getArticleMetadata(id)?.title || '');
+        downloadBlob(new Blob([text], { type: format === 'csv' ? 'text/csv' : 'text/tab-separated-values' }), `linguaflow-${date}.${format}`);
+      }
+      onClose();
+    } catch (e) {
+      console.error("Flashcard export failed", e);
+      alert("Export failed. Check console.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 z-[60] flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 relative" onClick={e => e.stopPropagation()}>
+        <button onClick={onClose} className="absolute top-3 right-3 text-gray-400 hover:text-gray-600">
+          <X className="w-5 h-5" />
+        </button>
+
+        <h2 className="text-lg font-bold text-gray-900 mb-1">Export Cards</h2>
+        <p className="text-xs text-gray-500 mb-4">Exports every card matching the current search and filters.</p>
+
+        <div className="grid grid-cols-3 gap-2 mb-5">
+          {FORMATS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFormat(f.id)}
+              className={`p-3 rounded-lg border-2 text-left transition-all ${format === f.id ? 'border-brand-500 bg-brand-50' : 'border-gray-200 hover:border-gray-300'}`}
+            >
+              <div className="font-bold text-sm text-gray-900">{f.label}</div>
+              <div className="text-[10px] text-gray-500">{f.desc}</div>
+            </button>
+          ))}
+        </div>
+
+        {format === 'apkg' ? (
+          <div className="mb-5">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Deck Name</label>
+            <input
+              type="text"
+              value={deckName}
+              onChange={(e) => setDeckName(e.target.value)}
+              className="w-full p-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+            />
+            <p className="text-xs text-gray-400 mt-2">
+              Fields: Word, Phonetic, Definition, Translation, Context, Example, Collocations. Use "::" for sub-decks.
+            </p>
+          </div>
+        ) : (
+          <div className="mb-5">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Columns</label>
+            <div className="grid grid-cols-2 gap-2 max-h-56 overflow-y-auto custom-scrollbar">
+              {EXPORT_COLUMNS.map(col => {
+                const position = columns.indexOf(col.id);
+                return (
+                  <div
+                    key={col.id}
+                    onClick={() => toggleColumn(col.id)}
+                    className={`cursor-pointer px-3 py-2 rounded-lg border text-sm flex items-center gap-2 ${position >= 0 ? 'border-brand-500 bg-brand-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                  >
+                    <div className={`w-4 h-4 rounded border flex items-center justify-center ${position >= 0 ? 'bg-brand-600 border-brand-600 text-white' : 'border-gray-400 bg-white'}`}>
+                      {position >= 0 && <CheckSquare className="w-3 h-3" />}
+                    </div>
+                    <span className="flex-1">{col.label}</span>
+                    {position >= 0 && <span className="text-[10px] text-gray-400">#{position + 1}</span>}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={handleExport}
+          disabled={exporting || (format !== 'apkg' && columns.length === 0)}
+          className="w-full py-3 bg-brand-600 text-white rounded-lg font-medium hover:bg-brand-700 transition flex justify-center items-center disabled:opacity-50"
+        >
+          {exporting ? <Loader2 className="w-5 h-5 animate-spin" /> : <><Download className="w-5 h-5 mr-2" /> Export</>}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,17 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { useAppStore } from '../store/AppContext';
-import { Search, Filter, Tag, Book, GraduationCap, Layers, Loader2, ChevronRight, ChevronLeft } from 'lucide-react';
-import { AnalysisType, Flashcard } from '../types';
+import { Search, Filter, Tag, Book, GraduationCap, Layers, Loader2, ChevronRight, ChevronLeft, History, X, Download, Upload } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { AnalysisType, Flashcard, ReviewLogEntry } from '../types';
+import { GRADES, formatInterval } from '../services/scheduler';
+import { FlashcardExportModal } from './FlashcardExportModal';
+import { scriptProps } from '../services/languages';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export const FlashcardList: React.FC = () => {
-  const { articles, searchFlashcards } = useAppStore();
+  const { articles, searchFlashcards, getReviewHistory, settings } = useAppStore();
+  const native = scriptProps(settings.nativeLanguage);
   const [search, setSearch] = useState('');
   const [filterType, setFilterType] = useState<AnalysisType | 'all'>('all');
   const [filterLevel, setFilterLevel] = useState<string>('all');
@@ -15,6 +22,20 @@ export const FlashcardList: React.FC = () => {
   const [page, setPage] = useState(0);
   const limit = 50;
 
+  const [historyCard, setHistoryCard] = useState<Flashcard | null>(null);
+  const [history, setHistory] = useState<ReviewLogEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+
+  useEffect(() => {
+      if (!historyCard) return;
+      setHistoryLoading(true);
+      getReviewHistory(historyCard.id)
+        .then(setHistory)
+        .catch(e => console.error(e))
+        .finally(() => setHistoryLoading(false));
+  }, [historyCard]);
+
   // Fetch logic
   useEffect(() => {
       const fetchCards = async () => {
@@ -55,6 +76,8 @@ export const FlashcardList: React.FC = () => {
     }
   };
 
+  const getGradeLabel = (grade: number) => GRADES.find(g => g.value === grade)?.label || `Grade ${grade}`;
+
   const getArticleTitle = (id: string) => {
     const article = articles.find(a => a.id === id);
     return article ? article.title : 'Unknown';
@@ -70,6 +93,22 @@ export const FlashcardList: React.FC = () => {
           </h1>
           <p className="text-gray-500 mt-1">Browse and manage your collection.</p>
         </div>
+        <div className="flex gap-2">
+          <Link
+            to="/cards/import"
+            className="flex items-center px-4 py-2.5 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 transition text-gray-700 font-medium text-sm"
+          >
+            <Upload className="w-4 h-4 mr-2 text-gray-500" />
+            Import
+          </Link>
+          <button
+            onClick={() => setShowExport(true)}
+            className="flex items-center px-4 py-2.5 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 transition text-gray-700 font-medium text-sm"
+          >
+            <Download className="w-4 h-4 mr-2 text-gray-500" />
+            Export
+          </button>
+        </div>
       </div>
 
       {/* Filters Bar */}
@@ -149,7 +188,7 @@ export const FlashcardList: React.FC = () => {
         <>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {cards.map(card => (
-            <div key={card.id} className="bg-white rounded-xl p-5 border border-gray-200 hover:shadow-md hover:border-brand-300 transition-all group">
+            <div key={card.id} onClick={() => setHistoryCard(card)} className="bg-white rounded-xl p-5 border border-gray-200 hover:shadow-md hover:border-brand-300 transition-all group cursor-pointer">
               <div className="flex justify-between items-start mb-2">
                 <h3 className="font-bold text-lg text-gray-900">{card.word}</h3>
                 <span className={`text-[10px] px-2 py-0.5 rounded uppercase font-bold tracking-wide border ${getTypeBadgeStyles(card.type)}`}>
@@ -162,8 +201,8 @@ export const FlashcardList: React.FC = () => {
               )}
 
               <div className="space-y-2">
-                <p className="text-sm text-gray-700 font-persian text-right" dir="rtl">
-                  {card.persianTranslation}
+                <p className={`text-sm text-gray-700 ${native.className}`} dir={native.dir} lang={native.lang}>
+                  {card.translation}
                 </p>
                 
                 <div className="bg-gray-50 p-2 rounded text-xs text-gray-500 italic line-clamp-2 border border-gray-100">
@@ -176,7 +215,8 @@ export const FlashcardList: React.FC = () => {
                   <Book className="w-3 h-3 inline mr-1" />
                   {getArticleTitle(card.articleId)}
                 </span>
-                <span>
+                <span className="flex items-center">
+                   <History className="w-3 h-3 mr-1" />
                    Stage: {card.stage}
                 </span>
               </div>
@@ -202,6 +242,66 @@ export const FlashcardList: React.FC = () => {
         </div>
         </>
       )}
+
+      {showExport && (
+        <FlashcardExportModal
+          filters={{ articleId: filterArticle, type: filterType, level: filterLevel, search }}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {/* Review History Modal */}
+      {historyCard && (
+        <div className="fixed inset-0 bg-black bg-opacity-20 z-[50] flex items-center justify-center p-4" onClick={() => setHistoryCard(null)}>
+          <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 relative" onClick={e => e.stopPropagation()}>
+            <button onClick={() => setHistoryCard(null)} className="absolute top-3 right-3 text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+
+            <h2 className="text-2xl font-bold text-brand-700">{historyCard.word}</h2>
+            <div className="flex flex-wrap gap-3 text-xs text-gray-500 mt-1 mb-4">
+              <span>Ease: {historyCard.ease?.toFixed(2)}</span>
+              <span>Interval: {formatInterval((historyCard.stability || 0) * DAY_MS)}</span>
+              <span>Lapses: {historyCard.lapses || 0}</span>
+              <span>Due: {new Date(historyCard.nextReview).toLocaleDateString()}</span>
+            </div>
+
+            <h3 className="text-xs font-bold text-gray-400 uppercase mb-2 flex items-center">
+              <History className="w-3 h-3 mr-1" /> Review History
+            </h3>
+            {historyLoading ? (
+              <div className="text-center py-6"><Loader2 className="w-6 h-6 animate-spin mx-auto text-brand-600" /></div>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4 text-center bg-gray-50 rounded-lg">This card has not been reviewed yet.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto custom-scrollbar border border-gray-100 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                    <tr>
+                      <th className="text-left p-2">Date</th>
+                      <th className="text-left p-2">Grade</th>
+                      <th className="text-left p-2">Interval</th>
+                      <th className="text-right p-2">Time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.map(entry => (
+                      <tr key={entry.id} className="border-t border-gray-100">
+                        <td className="p-2 text-gray-600">{new Date(entry.reviewedAt).toLocaleString()}</td>
+                        <td className={`p-2 font-medium ${entry.grade < 3 ? 'text-red-600' : 'text-green-700'}`}>{getGradeLabel(entry.grade)}</td>
+                        <td className="p-2 text-gray-600">
+                          {formatInterval(entry.previousInterval * DAY_MS)} &rarr; {formatInterval(entry.nextInterval * DAY_MS)}
+                        </td>
+                        <td className="p-2 text-right text-gray-400">{(entry.responseTime / 1000).toFixed(1)}s</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,184 @@
+import React, { useState, useMemo } from 'react';
+import { X, AlertTriangle, Plus, RefreshCw, GitMerge, Copy, Loader2, Upload, ChevronDown, ChevronRight } from 'lucide-react';
+import { ImportPreview, EntityDiff, MergeStrategy, MERGE_STRATEGIES, planImport } from '../services/backup';
+import { Article, Collection, Flashcard } from '../types';
+
+interface Props {
+  preview: ImportPreview;
+  onCancel: () => void;
+  onConfirm: (strategy: MergeStrategy, applySettings: boolean) => Promise<void>;
+}
+
+const MAX_LISTED = 50;
+
+const ItemList: React.FC<{ items: string[] }> = ({ items }) => (
+  <ul className="mt-1 ml-6 text-xs text-gray-500 space-y-0.5">
+    {items.slice(0, MAX_LISTED).map((item, i) => <li key={i} className="truncate">• {item}</li>)}
+    {items.length > MAX_LISTED && <li className="italic">…and {items.length - MAX_LISTED} more</li>}
+  </ul>
+);
+
+const DiffRow: React.FC<{ icon: React.ElementType; label: string; items: string[]; color: string }> = ({ icon: Icon, label, items, color }) => {
+  const [open, setOpen] = useState(false);
+  if (items.length === 0) return null;
+
+  return (
+    <div>
+      <button onClick={() => setOpen(!open)} className={`flex items-center text-sm ${color} hover:underline`}>
+        {open ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+        <Icon className="w-4 h-4 mr-1" />
+        {items.length} {label}
+      </button>
+      {open && <ItemList items={items} />}
+    </div>
+  );
+};
+
+const EntitySection = <T,>({ title, diff, describe }: { title: string; diff: EntityDiff<T>; describe: (item: T) => string }) => {
+  const total = diff.added.length + diff.changed.length + diff.conflicts.length + diff.duplicates.length + diff.unchanged;
+  if (total === 0) return null;
+
+  return (
+    <div className="border border-gray-100 rounded-lg p-3">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-medium text-gray-800">{title}</h3>
+        <span className="text-xs text-gray-400">{diff.unchanged} unchanged</span>
+      </div>
+      <div className="space-y-1">
+        <DiffRow icon={Plus} label="new" items={diff.added.map(describe)} color="text-green-700" />
+        <DiffRow icon={RefreshCw} label="updated" items={diff.changed.map(describe)} color="text-blue-700" />
+        <DiffRow icon={GitMerge} label="conflicting (your copy is newer)" items={diff.conflicts.map(describe)} color="text-orange-700" />
+        <DiffRow icon={Copy} label="duplicates of existing cards" items={diff.duplicates.map(describe)} color="text-purple-700" />
+      </div>
+    </div>
+  );
+};
+
+export const ImportPreviewModal: React.FC<Props> = ({ preview, onCancel, onConfirm }) => {
+  const [importing, setImporting] = useState(false);
+  const [showIssues, setShowIssues] = useState(false);
+  const [strategy, setStrategy] = useState<MergeStrategy>('merge-history');
+  const [applySettings, setApplySettings] = useState(false);
+  const plan = useMemo(() => planImport(preview, strategy, applySettings), [preview, strategy, applySettings]);
+
+  const handleConfirm = async () => {
+    if (strategy === 'replace' && !window.confirm("This will permanently delete your current library before restoring the backup. Continue?")) return;
+    setImporting(true);
+    try {
+      await onConfirm(strategy, applySettings);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const { articles, flashcards, collections, settings, issues } = preview;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 z-[60] flex items-center justify-center p-4" onClick={onCancel}>
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Import Preview</h2>
+            <p className="text-xs text-gray-500 mt-1">
+              Backup from {new Date(preview.backup.timestamp).toLocaleString()} · format v{preview.sourceVersion}
+              {preview.sourceVersion < preview.backup.version && ` (upgraded to v${preview.backup.version})`}
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 overflow-y-auto custom-scrollbar">
+          <p className="text-sm text-gray-600">Nothing has been written yet. Review the changes below before importing.</p>
+
+          <EntitySection title="Articles" diff={articles} describe={(a: Article) => a.title} />
+          <EntitySection title="Flashcards" diff={flashcards} describe={(c: Flashcard) => `${c.word} — ${c.translation}`} />
+          <EntitySection title="Collections" diff={collections} describe={(c: Collection) => c.name} />
+
+          {settings.length > 0 && (
+            <div className="border border-gray-100 rounded-lg p-3">
+              <h3 className="font-medium text-gray-800 mb-2">Settings</h3>
+              <ul className="text-xs space-y-1">
+                {settings.map(change => (
+                  <li key={change.key} className="flex justify-between gap-4">
+                    <code className="text-gray-600">{change.key}</code>
+                    <span className="text-gray-500 truncate">
+                      {JSON.stringify(change.current) ?? '—'} &rarr; <span className="text-orange-700">{JSON.stringify(change.incoming)}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <label className="flex items-center mt-3 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={strategy === 'replace' || applySettings}
+                  disabled={strategy === 'replace'}
+                  onChange={e => setApplySettings(e.target.checked)}
+                  className="mr-2 rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+                />
+                Use the backup's settings {strategy === 'replace' ? '(always when replacing)' : '(otherwise yours are kept)'}
+              </label>
+            </div>
+          )}
+
+          {preview.newReviews > 0 && (
+            <p className="text-sm text-gray-600">{preview.newReviews} review history entries will be added.</p>
+          )}
+          {preview.newKnownLemmas > 0 && (
+            <p className="text-sm text-gray-600">{preview.newKnownLemmas} known words will be added.</p>
+          )}
+
+          {issues.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+              <button onClick={() => setShowIssues(!showIssues)} className="flex items-center text-sm text-yellow-800 font-medium">
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                {issues.length} invalid {issues.length === 1 ? 'record' : 'records'} will be skipped
+              </button>
+              {showIssues && <ItemList items={issues} />}
+            </div>
+          )}
+
+          <div className="pt-2">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Merge Strategy</h3>
+            <div className="space-y-2">
+              {MERGE_STRATEGIES.map(option => (
+                <div
+                  key={option.id}
+                  onClick={() => setStrategy(option.id)}
+                  className={`cursor-pointer p-3 rounded-lg border-2 transition-all ${strategy === option.id ? 'border-brand-500 bg-brand-50' : 'border-gray-200 hover:border-gray-300'}`}
+                >
+                  <div className="flex items-center">
+                    <div className={`w-4 h-4 rounded-full border mr-2 flex items-center justify-center ${strategy === option.id ? 'border-brand-600' : 'border-gray-400'}`}>
+                      {strategy === option.id && <div className="w-2 h-2 rounded-full bg-brand-600"></div>}
+                    </div>
+                    <span className="font-medium text-sm text-gray-900">{option.label}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 ml-6 mt-0.5">{option.description}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-3">
+              {plan.clearExisting && <span className="text-red-600 font-medium">Your current library will be erased. </span>}
+              Will write {plan.articles.length} articles, {plan.flashcards.length} cards, {plan.collections.length} collections and {plan.reviewLog.length} reviews
+              {plan.keptLocal > 0 && `; ${plan.keptLocal} newer local records are kept`}.
+            </p>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex gap-3">
+          <button onClick={onCancel} className="flex-1 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium transition">
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={importing}
+            className="flex-1 py-2 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 transition flex justify-center items-center"
+          >
+            {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Upload className="w-4 h-4 mr-2" /> Import</>}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,11 @@
 import React from 'react';
-import { BookOpen, Layers, PlusCircle, Settings, Library } from 'lucide-react';
+import { BookOpen, Layers, PlusCircle, Settings, Library, BarChart3 } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
+import { useAppStore } from '../store/AppContext';
 
 export const Navbar: React.FC = () => {
   const location = useLocation();
+  const { settings } = useAppStore();
 
   const isActive = (path: string) => location.pathname === path ? 'text-brand-600 bg-brand-50' : 'text-gray-600 hover:bg-gray-50';
 
@@ -14,6 +16,11 @@ export const Navbar: React.FC = () => {
           <div className="flex">
             <div className="flex-shrink-0 flex items-center">
               <span className="text-2xl font-bold text-brand-600 tracking-tight">LinguaFlow</span>
+              {settings.demoMode && (
+                <Link to="/settings" className="ml-2 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-[10px] font-bold uppercase tracking-wider" title="AI responses are recorded samples. Turn off in Settings.">
+                  Demo
+                </Link>
+              )}
             </div>
             <div className="hidden sm:ml-6 sm:flex sm:space-x-8">
               <Link to="/" className={`inline-flex items-center px-4 py-2 border-b-2 border-transparent text-sm font-medium rounded-md ${isActive('/')}`}>
@@ -32,6 +39,10 @@ export const Navbar: React.FC = () => {
                 <BookOpen className="w-4 h-4 mr-2" />
                 Review
               </Link>
+              <Link to="/stats" className={`inline-flex items-center px-4 py-2 border-b-2 border-transparent text-sm font-medium rounded-md ${isActive('/stats')}`}>
+                <BarChart3 className="w-4 h-4 mr-2" />
+                Stats
+              </Link>
             </div>
           </div>
           <div className="flex items-center">
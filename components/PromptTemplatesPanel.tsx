@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FlaskConical, Loader2, RotateCcw, Upload } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { PromptTask } from '../types';
+import { LLMTask, isTaskReady, resolveTask } from '../services/llm';
+import { analyzeSingleWord, analyzeTextForVocabulary, evaluatePronunciation, translateFullText } from '../services/geminiService';
+import { isAbortError } from '../services/aiPipeline';
+import { downloadBlob } from '../services/download';
+import { languageName } from '../services/languages';
+import { examInstruction } from '../services/learnerLevel';
+import {
+  DEFAULT_PROMPTS, PROMPT_TASKS, PROMPT_TASK_LABELS, PROMPT_VARIABLES, SAMPLE_VARIABLES,
+  missingVariables, parsePromptTemplates, renderPrompt, serializePromptTemplates, templateFor,
+} from '../services/promptTemplates';
+
+// Word lookups run on the analysis model
+const TASK_MODELS: Record<PromptTask, LLMTask> = {
+  analysis: 'analysis',
+  word: 'analysis',
+  translation: 'translation',
+  pronunciation: 'pronunciation',
+};
+
+/**
+ * Editor for the prompt sent for each AI task, with a live test on sample input.
+ */
+export const PromptTemplatesPanel: React.FC = () => {
+  const { settings, updateSettings, knownLemmas, learner } = useAppStore();
+  const [task, setTask] = useState<PromptTask>('analysis');
+  const [draft, setDraft] = useState(() => templateFor('analysis', settings.promptTemplates));
+  const [sample, setSample] = useState<Record<string, string>>(SAMPLE_VARIABLES.analysis);
+  const [testOutput, setTestOutput] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [showPrompt, setShowPrompt] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const saved = templateFor(task, settings.promptTemplates);
+  const customized = Boolean(settings.promptTemplates[task]);
+  const missing = missingVariables(task, draft);
+
+  const selectTask = (next: PromptTask) => {
+    abortRef.current?.abort();
+    setTask(next);
+    setDraft(templateFor(next, settings.promptTemplates));
+    setSample(SAMPLE_VARIABLES[next]);
+    setTestOutput(null);
+  };
+
+  const saveTemplates = (templates: Partial<Record<PromptTask, string>>) =>
+    updateSettings({ promptTemplates: templates }).catch(e => {
+      console.error("Failed to save prompt templates", e);
+      alert("Could not save the prompt template. Check console.");
+    });
+
+  const handleSave = () => {
+    const { [task]: _previous, ...rest } = settings.promptTemplates;
+    // Storing the built-in text as an override would pin it past future improvements
+    saveTemplates(draft === DEFAULT_PROMPTS[task] ? rest : { ...rest, [task]: draft });
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(`Restore the built-in ${PROMPT_TASK_LABELS[task]} prompt?`)) return;
+    const { [task]: _previous, ...rest } = settings.promptTemplates;
+    setDraft(DEFAULT_PROMPTS[task]);
+    saveTemplates(rest);
+  };
+
+  const handleTest = async () => {
+    const llmTask = TASK_MODELS[task];
+    if (!isTaskReady(settings, llmTask)) {
+      alert('Add an API key in Settings (or turn on demo mode) to test prompts.');
+      return;
+    }
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setTesting(true);
+    setTestOutput(null);
+    // Test the unsaved draft and skip the cache so every run reaches the model
+    const llm = { ...resolveTask(settings, llmTask), prompts: { ...settings.promptTemplates, [task]: draft }, cache: undefined };
+    const options = { signal: controller.signal };
+    try {
+      let result: unknown;
+      switch (task) {
+        case 'analysis':
+          result = await analyzeTextForVocabulary(sample.text, learner, llm, settings.enabledTypes, knownLemmas, options);
+          break;
+        case 'word':
+          result = await analyzeSingleWord(sample.word, sample.context, llm, options);
+          break;
+        case 'translation':
+          result = await translateFullText(sample.text, llm, options);
+          break;
+        case 'pronunciation':
+          result = await evaluatePronunciation(sample.original, sample.transcript, llm, options);
+          break;
+      }
+      setTestOutput(typeof result === 'string' ? result : JSON.stringify(result, null, 2));
+    } catch (e: any) {
+      if (isAbortError(e)) return;
+      setTestOutput(`Error: ${e.message || 'The request failed.'}`);
+    } finally {
+      if (abortRef.current === controller) setTesting(false);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializePromptTemplates(settings.promptTemplates)], { type: 'application/json' });
+    downloadBlob(blob, `linguaflow-prompts-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    try {
+      const templates = parsePromptTemplates(JSON.parse(await file.text()));
+      if (!window.confirm('Replace your prompt templates with the ones in this file?')) return;
+      await updateSettings({ promptTemplates: templates });
+      setDraft(templateFor(task, templates));
+      setTestOutput(null);
+    } catch (error: any) {
+      console.error("Prompt template import failed", error);
+      alert(`Import failed. ${error instanceof SyntaxError ? 'The file is not valid JSON.' : error.message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {PROMPT_TASKS.map(t => (
+          <button
+            key={t}
+            onClick={() => selectTask(t)}
+            className={`px-3 py-1.5 rounded-full text-sm border transition ${
+              task === t ? 'bg-brand-50 border-brand-300 text-brand-700 font-medium' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {PROMPT_TASK_LABELS[t]}
+            {settings.promptTemplates[t] && <span className="ml-1.5 text-[10px] uppercase text-amber-600">edited</span>}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={12}
+        spellCheck={false}
+        className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none font-mono text-xs leading-relaxed"
+      />
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+        {PROMPT_VARIABLES[task].map(v => (
+          <span key={v.name} title={v.description}>
+            <code className={`px-1 rounded ${missing.includes(v.name) ? 'bg-red-50 text-red-600' : 'bg-gray-100 text-gray-700'}`}>{`{${v.name}}`}</code>
+            {' '}{v.description}{v.required && ' (required)'}
+          </span>
+        ))}
+      </div>
+      {missing.length > 0 && (
+        <p className="text-xs text-red-600">
+          Add {missing.map(v => `{${v}}`).join(', ')} so the model receives the input.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={draft === saved || missing.length > 0}
+          className="px-4 py-2 bg-brand-600 text-white text-sm rounded-lg hover:bg-brand-700 disabled:opacity-50"
+        >
+          Save template
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={!customized && draft === DEFAULT_PROMPTS[task]}
+          className="flex items-center px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RotateCcw className="w-4 h-4 mr-1.5" /> Reset to default
+        </button>
+        <span className="flex-1" />
+        <button onClick={handleExport} className="flex items-center px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50">
+          <Download className="w-4 h-4 mr-1.5" /> Export
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className="flex items-center px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50">
+          <Upload className="w-4 h-4 mr-1.5" /> Import
+        </button>
+        <input type="file" ref={fileInputRef} onChange={handleImport} accept=".json" className="hidden" />
+      </div>
+
+      <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">Test on sample text</span>
+          <button
+            onClick={() => setShowPrompt(!showPrompt)}
+            className="text-xs text-brand-600 hover:underline"
+          >
+            {showPrompt ? 'Hide prompt' : 'Show final prompt'}
+          </button>
+        </div>
+        {Object.keys(SAMPLE_VARIABLES[task]).map(name => (
+          <label key={name} className="block text-xs text-gray-500">
+            {name}
+            <textarea
+              value={sample[name] || ''}
+              onChange={(e) => setSample({ ...sample, [name]: e.target.value })}
+              rows={name === 'text' ? 3 : 1}
+              className="mt-1 w-full p-2 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm text-gray-800"
+            />
+          </label>
+        ))}
+        {showPrompt && (
+          <pre className="p-3 bg-white border border-gray-200 rounded-lg text-xs text-gray-700 whitespace-pre-wrap max-h-64 overflow-y-auto">
+            {renderPrompt(draft, {
+              level: learner.level,
+              targetExam: examInstruction(learner.targetExam),
+              enabledTypes: settings.enabledTypes.join(', '),
+              sourceLanguage: languageName(settings.defaultSourceLanguage),
+              nativeLanguage: languageName(settings.nativeLanguage),
+              knownWords: '',
+              ...sample,
+            })}
+          </pre>
+        )}
+        <button
+          onClick={handleTest}
+          disabled={testing || missing.length > 0}
+          className="flex items-center px-4 py-2 text-sm text-brand-700 bg-white border border-brand-200 rounded-lg hover:bg-brand-50 disabled:opacity-50"
+        >
+          {testing ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <FlaskConical className="w-4 h-4 mr-1.5" />}
+          {testing ? 'Running...' : 'Run with this template'}
+        </button>
+        {testOutput !== null && (
+          <pre className={`p-3 bg-white border rounded-lg text-xs whitespace-pre-wrap max-h-80 overflow-y-auto ${
+            testOutput.startsWith('Error:') ? 'border-red-200 text-red-700' : 'border-gray-200 text-gray-700'
+          }`}>
+            {testOutput}
+          </pre>
+        )}
+        <p className="text-xs text-gray-400">
+          Tests call the model configured for this task and count towards your usage. The result is validated like a real request.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,30 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { X, Mic, Square, Volume2, RotateCcw } from 'lucide-react';
 import { evaluatePronunciation, PronunciationResult } from '../services/geminiService';
+import { isTaskReady, resolveTask } from '../services/llm';
+import { ApiKeyNotice } from './ApiKeyNotice';
 import { useAppStore } from '../store/AppContext';
+import { scriptProps, speechLocale } from '../services/languages';
 
 interface Props {
   isOpen: boolean;
   onClose: () => void;
   targetText: string;
+  articleId?: string; // Books the evaluation's token usage against the article
+  language?: string; // Language the learner speaks in, defaults to the import language
 }
 
-export const PronunciationModal: React.FC<Props> = ({ isOpen, onClose, targetText }) => {
+export const PronunciationModal: React.FC<Props> = ({ isOpen, onClose, targetText, articleId, language }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [transcript, setTranscript] = useState('');
   const [result, setResult] = useState<PronunciationResult | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const recognitionRef = useRef<any>(null);
   
   const { settings } = useAppStore();
+  const spokenLanguage = language || settings.defaultSourceLanguage;
+  const native = scriptProps(settings.nativeLanguage);
 
   useEffect(() => {
     if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
@@ -24,7 +32,6 @@ export const PronunciationModal: React.FC<Props> = ({ isOpen, onClose, targetTex
       recognitionRef.current = new SpeechRecognition();
       recognitionRef.current.continuous = false;
       recognitionRef.current.interimResults = false;
-      recognitionRef.current.lang = 'en-US';
 
       recognitionRef.current.onresult = (event: any) => {
         const text = event.results[0][0].transcript;
@@ -49,6 +56,8 @@ export const PronunciationModal: React.FC<Props> = ({ isOpen, onClose, targetTex
     } else {
       setTranscript('');
       setResult(null);
+      setError(null);
+      if (recognitionRef.current) recognitionRef.current.lang = speechLocale(spokenLanguage);
       recognitionRef.current?.start();
       setIsRecording(true);
     }
@@ -57,10 +66,13 @@ export const PronunciationModal: React.FC<Props> = ({ isOpen, onClose, targetTex
   const handleAnalyze = async (spokenText: string) => {
     setAnalyzing(true);
     try {
-      const evalResult = await evaluatePronunciation(targetText, spokenText, settings.pronunciationModel);
+      const evalResult = await evaluatePronunciation(targetText, spokenText, resolveTask(settings, 'pronunciation', spokenLanguage), {
+        source: { articleId },
+      });
       setResult(evalResult);
-    } catch (e) {
+    } catch (e: any) {
       console.error(e);
+      setError(e.message || 'Could not evaluate your pronunciation. Please try again.');
     } finally {
       setAnalyzing(false);
     }
@@ -81,12 +93,15 @@ export const PronunciationModal: React.FC<Props> = ({ isOpen, onClose, targetTex
           <p className="text-lg font-medium text-gray-800 leading-relaxed">{targetText}</p>
         </div>
 
+        <ApiKeyNotice task="pronunciation" className="mb-6" />
+
         <div className="flex justify-center mb-6">
           <button
             onClick={toggleRecording}
+            disabled={!isTaskReady(settings, 'pronunciation')}
             className={`p-6 rounded-full transition-all duration-300 ${
               isRecording ? 'bg-red-500 animate-pulse shadow-red-200 shadow-lg' : 'bg-brand-600 hover:bg-brand-700 shadow-brand-200 shadow-lg'
-            }`}
+            } disabled:opacity-50`}
           >
             {isRecording ? <Square className="w-8 h-8 text-white" /> : <Mic className="w-8 h-8 text-white" />}
           </button>
@@ -103,6 +118,10 @@ export const PronunciationModal: React.FC<Props> = ({ isOpen, onClose, targetTex
           <div className="text-center text-brand-600 animate-pulse">Analyzing pronunciation with {settings.pronunciationModel}...</div>
         )}
 
+        {error && (
+          <div className="text-center text-sm text-red-600 mb-4">{error}</div>
+        )}
+
         {result && (
           <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
             <div className="flex items-center justify-between mb-3 border-b pb-2">
@@ -114,7 +133,7 @@ export const PronunciationModal: React.FC<Props> = ({ isOpen, onClose, targetTex
               </span>
             </div>
             <div className="space-y-2">
-               <p className="text-sm text-gray-700 font-persian text-right" dir="rtl">{result.feedback}</p>
+               <p className={`text-sm text-gray-700 ${native.className}`} dir={native.dir} lang={native.lang}>{result.feedback}</p>
                <div className="flex flex-wrap gap-2 mt-2 text-sm">
                   {result.correctedWords.map((w, i) => (
                     <span key={i} className={`
@@ -2,11 +2,22 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAppStore } from '../store/AppContext';
 import { generateSpeechFromText, translateFullText, analyzeTextForVocabulary, analyzeSingleWord } from '../services/geminiService';
+import { LLMTask, isTaskReady, resolveTask } from '../services/llm';
+import { describeRetry, isAbortError } from '../services/aiPipeline';
+import { ApiKeyNotice } from './ApiKeyNotice';
 import { decodeBase64, decodeAudioData, playAudioBuffer } from '../services/audioUtils';
-import { Play, Pause, Languages, Mic, Volume2, X, SkipBack, SkipForward, Tag, ChevronRight, Loader2, BookOpen, AlertCircle, ChevronDown } from 'lucide-react';
+import { Play, Pause, Languages, Mic, Volume2, X, SkipBack, SkipForward, Tag, ChevronRight, Loader2, BookOpen, AlertCircle, ChevronDown, Check, Repeat, Paperclip } from 'lucide-react';
 import { PronunciationModal } from './PronunciationModal';
+import { DEFAULT_SOURCE_LANGUAGE, joinSentences, languageInfo, scriptProps, speechLocale, textDirection } from '../services/languages';
+import { formatTimestamp, sentenceAt } from '../services/subtitles';
+import { Token, buildSentences, lookupKeys, matchPhrases, phraseKey, tokenizeSegment } from '../services/tokenizer';
 import { Flashcard, AnalysisType, ArticleSegment } from '../types';
 
+// Longest drag selection offered for analysis, in words
+const MAX_SELECTION_WORDS = 12;
+// Pronunciation practice of a whole part takes sentences up to about this length
+const PRACTICE_CHARS = 200;
+
 export const Reader: React.FC = () => {
   const { id, segmentIndex } = useParams<{ id: string; segmentIndex?: string }>();
   const currentIdx = segmentIndex ? parseInt(segmentIndex) : 0;
@@ -19,10 +30,19 @@ export const Reader: React.FC = () => {
     searchFlashcards,
     updateSegmentAnalysis,
     addCustomWordToSegment,
-    settings 
+    knownLemmas,
+    markLemmasKnown,
+    settings,
+    learner,
+    getArticleMedia,
+    attachArticleMedia,
+    analysisJobs,
+    prioritizeAnalysis
   } = useAppStore();
   
   const articleMetadata = getArticleMetadata(id || '');
+  const language = articleMetadata?.language || DEFAULT_SOURCE_LANGUAGE;
+  const native = scriptProps(settings.nativeLanguage);
   const [segment, setSegment] = useState<ArticleSegment | null>(null);
   const [nextSegmentMeta, setNextSegmentMeta] = useState<ArticleSegment | null>(null); // Metadata only from article list
   const [segmentLoading, setSegmentLoading] = useState(true);
@@ -48,8 +68,11 @@ export const Reader: React.FC = () => {
   const [showTranslation, setShowTranslation] = useState(false);
   const [translating, setTranslating] = useState(false);
   const [analyzingNext, setAnalyzingNext] = useState(false);
+  const [analysisStatus, setAnalysisStatus] = useState('');
+  const [waitingForPart, setWaitingForPart] = useState<number | null>(null); // Being analyzed by the background job
   const [activeCard, setActiveCard] = useState<Flashcard | null>(null);
   const [pronunciationText, setPronunciationText] = useState<string | null>(null);
+  const [missingKeyTask, setMissingKeyTask] = useState<LLMTask | null>(null);
 
   // State for On-the-fly Analysis
   const [selectedWordForAnalysis, setSelectedWordForAnalysis] = useState<{word: string, context: string} | null>(null);
@@ -63,6 +86,12 @@ export const Reader: React.FC = () => {
   const [audioError, setAudioError] = useState<string | null>(null);
   const [segmentFlashcards, setSegmentFlashcards] = useState<Flashcard[]>([]);
 
+  // Original audio/video of a subtitle import; `loop` is an A-B range of sentence indexes
+  const [media, setMedia] = useState<{ url: string; type: string; name: string } | null>(null);
+  const [loop, setLoop] = useState<{ from: number; to: number } | null>(null);
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const mediaInputRef = useRef<HTMLInputElement>(null);
+
   // Refs for Audio
   const audioCtxRef = useRef<AudioContext | null>(null);
   const sourceRef = useRef<AudioBufferSourceNode | null>(null);
@@ -70,6 +99,10 @@ export const Reader: React.FC = () => {
   const isMountedRef = useRef(true);
   const isPlayingRef = useRef(false); 
 
+  // AI requests for the current segment share one controller; part analysis has its own so it can be cancelled alone
+  const requestAbortRef = useRef(new AbortController());
+  const analysisAbortRef = useRef<AbortController | null>(null);
+
   // Fetch Flashcards for this specific segment/article on load
   useEffect(() => {
       if(id) {
@@ -77,44 +110,80 @@ export const Reader: React.FC = () => {
       }
   }, [id]);
 
+  const loadMedia = async (articleId: string) => {
+    const stored = await getArticleMedia(articleId);
+    if (!isMountedRef.current) return;
+    setMedia(stored ? { url: URL.createObjectURL(stored.data), type: stored.type, name: stored.name } : null);
+  };
+
+  useEffect(() => {
+    if (id) loadMedia(id);
+  }, [id]);
+
+  useEffect(() => () => { if (media) URL.revokeObjectURL(media.url); }, [media]);
+
   // Reset state when segment changes
   useEffect(() => {
     setCurrentSentenceIndex(-1);
+    setLoop(null);
     setIsPlaying(false);
     isPlayingRef.current = false;
     setShowTranslation(false);
     setAudioError(null);
     stopAllAudio();
     audioCache.current.clear();
+    requestAbortRef.current.abort();
+    requestAbortRef.current = new AbortController();
   }, [currentIdx]);
 
   // Helpers
-  const wordMap = useMemo(() => {
-    const map = new Map<string, Flashcard>();
+  // Cards by token key; multi-word expressions are matched as runs of tokens
+  const { wordMap, phraseMap, longestPhrase } = useMemo(() => {
+    const wordMap = new Map<string, Flashcard>();
+    const phraseMap = new Map<string, Flashcard>();
+    let longestPhrase = 0;
     segmentFlashcards.forEach(card => {
-        map.set(card.lemma.toLowerCase(), card);
-        map.set(card.word.toLowerCase(), card);
+      for (const form of [card.lemma, card.word]) {
+        const key = phraseKey(form, language);
+        const length = key ? key.split(' ').length : 0;
+        if (length === 1) wordMap.set(key, card);
+        if (length > 1) {
+          phraseMap.set(key, card);
+          longestPhrase = Math.max(longestPhrase, length);
+        }
+      }
     });
-    return map;
-  }, [segmentFlashcards]);
+    return { wordMap, phraseMap, longestPhrase };
+  }, [segmentFlashcards, language]);
 
-  const getFlashcardForWord = (word: string) => {
-    const normalized = word.replace(/[.,!?;:"()]/g, '').toLowerCase();
-    return wordMap.get(normalized);
-  };
+  const getFlashcardForToken = (token: Token) =>
+    lookupKeys(token.key).map(key => wordMap.get(key)).find(Boolean);
 
-  // Sentence Splitting Logic
-  const sentences = useMemo(() => {
-    if (!segment) return [];
-    const rawSentences = segment.content.match(/[^.!?]+[.!?]+(\s+|$)|[^.!?]+$/g) || [];
-    return rawSentences.map(s => s.trim()).filter(s => s.length > 0);
-  }, [segment]);
+  // Sentences, words and paragraph layout come from the segment's token structure
+  const timings = segment?.timedSentences;
+  const sentenceViews = useMemo(
+    () => segment ? buildSentences(segment.content, segment.tokens || tokenizeSegment(segment, language)) : [],
+    [segment, language]
+  );
+  const sentences = useMemo(() => sentenceViews.map(s => s.text), [sentenceViews]);
+
+  // Subtitle imports with their media attached play the real recording instead of TTS
+  const synced = !!(timings && media);
+
+  // Each part starts where its first cue does
+  useEffect(() => {
+    if (synced && mediaRef.current && timings!.length > 0) {
+      mediaRef.current.currentTime = timings![0].start;
+    }
+  }, [synced, segment]);
 
   useEffect(() => {
     isMountedRef.current = true;
     return () => { 
       isMountedRef.current = false; 
       stopAllAudio(); 
+      requestAbortRef.current.abort();
+      analysisAbortRef.current?.abort();
     };
   }, []);
 
@@ -133,16 +202,26 @@ export const Reader: React.FC = () => {
       sourceRef.current = null;
     }
     window.speechSynthesis.cancel();
+    mediaRef.current?.pause();
+  };
+
+  // Without a usable key the reader falls back to the device voice instead of failing
+  const useAiVoice = settings.ttsEngine === 'gemini' && isTaskReady(settings, 'tts');
+
+  const requireTask = (task: LLMTask) => {
+    if (isTaskReady(settings, task)) return true;
+    setMissingKeyTask(task);
+    return false;
   };
 
   const preloadSentence = async (index: number) => {
-    if (settings.ttsEngine !== 'gemini') return;
+    if (!useAiVoice) return;
     if (index < 0 || index >= sentences.length) return;
     if (audioCache.current.has(index)) return;
 
     try {
       const text = sentences[index];
-      const base64 = await generateSpeechFromText(text, settings.ttsModel);
+      const base64 = await generateSpeechFromText(text, resolveTask(settings, 'tts', language), { signal: requestAbortRef.current.signal, source: { articleId: articleMetadata?.id } });
       if (base64 && isMountedRef.current) {
         const ctx = getAudioContext();
         const bytes = decodeBase64(base64);
@@ -150,11 +229,73 @@ export const Reader: React.FC = () => {
         audioCache.current.set(index, buffer);
       }
     } catch (e) {
+      if (isAbortError(e)) return;
       console.warn(`Preload failed for index ${index}`, e);
     }
   };
 
+  const seekToSentence = (index: number, play: boolean) => {
+    const el = mediaRef.current;
+    if (!el || !timings || index < 0 || index >= timings.length) return;
+    el.currentTime = timings[index].start;
+    setCurrentSentenceIndex(index);
+    if (play && el.paused) {
+      el.play().catch((e: any) => setAudioError(`Playback error: ${e.message}`));
+    }
+  };
+
+  const handleMediaTime = () => {
+    const el = mediaRef.current;
+    if (!el || !timings || timings.length === 0) return;
+    const time = el.currentTime;
+    if (loop && time >= timings[loop.to].end) {
+      el.currentTime = timings[loop.from].start;
+      return;
+    }
+    // The media goes on into the next part; stop where this one ends
+    if (!el.paused && time >= timings[timings.length - 1].end) {
+      el.pause();
+    }
+    setCurrentSentenceIndex(sentenceAt(timings, time));
+  };
+
+  // Plain click seeks; with a loop set, shift-click moves its end (B) to the clicked sentence
+  const handleSentenceSeek = (index: number, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (loop && e.shiftKey) {
+      setLoop({ from: Math.min(loop.from, index), to: Math.max(loop.from, index) });
+      return;
+    }
+    if (loop && (index < loop.from || index > loop.to)) setLoop(null);
+    seekToSentence(index, true);
+  };
+
+  const toggleLoop = () => {
+    if (loop) {
+      setLoop(null);
+      return;
+    }
+    const index = Math.max(0, currentSentenceIndex);
+    setLoop({ from: index, to: index });
+    seekToSentence(index, true);
+  };
+
+  const handleAttachMedia = async (file: File) => {
+    if (!articleMetadata) return;
+    try {
+      await attachArticleMedia(articleMetadata.id, file);
+      await loadMedia(articleMetadata.id);
+    } catch (e) {
+      console.error("Failed to attach media", e);
+      alert("Could not save the media file. It may be too large for this browser's storage.");
+    }
+  };
+
   const playSentence = async (index: number) => {
+    if (synced) {
+      seekToSentence(index, true);
+      return;
+    }
     if (index < 0 || index >= sentences.length) {
       setIsPlaying(false);
       isPlayingRef.current = false;
@@ -168,11 +309,11 @@ export const Reader: React.FC = () => {
 
     const textToRead = sentences[index];
 
-    if (settings.ttsEngine === 'native') {
+    if (!useAiVoice) {
       setIsLoadingAudio(false);
       window.speechSynthesis.cancel();
       const utterance = new SpeechSynthesisUtterance(textToRead);
-      utterance.lang = 'en-US';
+      utterance.lang = speechLocale(language);
       utterance.rate = playbackRate;
       utterance.onend = () => {
         if (isMountedRef.current && isPlayingRef.current) {
@@ -194,7 +335,7 @@ export const Reader: React.FC = () => {
     try {
       let buffer = audioCache.current.get(index);
       if (!buffer) {
-        const base64Audio = await generateSpeechFromText(textToRead, settings.ttsModel);
+        const base64Audio = await generateSpeechFromText(textToRead, resolveTask(settings, 'tts', language), { signal: requestAbortRef.current.signal, source: { articleId: articleMetadata?.id } });
         if (!isMountedRef.current || !isPlayingRef.current) {
             setIsLoadingAudio(false);
             return;
@@ -230,9 +371,10 @@ export const Reader: React.FC = () => {
       sourceRef.current = source;
       preloadSentence(index + 1);
 
-    } catch (e) {
+    } catch (e: any) {
+      if (isAbortError(e)) return;
       console.error("TTS Playback Error:", e);
-      setAudioError("Playback error.");
+      setAudioError(e?.message ? `Playback error: ${e.message}` : "Playback error.");
       setIsLoadingAudio(false);
       setIsPlaying(false);
       isPlayingRef.current = false;
@@ -240,6 +382,18 @@ export const Reader: React.FC = () => {
   };
 
   const togglePlay = async () => {
+    const el = mediaRef.current;
+    if (synced && el) {
+      if (!el.paused) {
+        el.pause();
+        return;
+      }
+      // Past the end of this part: start it over
+      const last = timings![timings!.length - 1];
+      if (last && el.currentTime >= last.end) el.currentTime = timings![0].start;
+      el.play().catch((e: any) => setAudioError(`Playback error: ${e.message}`));
+      return;
+    }
     if (isPlaying) {
       setIsPlaying(false);
       isPlayingRef.current = false;
@@ -260,8 +414,10 @@ export const Reader: React.FC = () => {
     const nextIndex = (speeds.indexOf(playbackRate) + 1) % speeds.length;
     const newRate = speeds[nextIndex];
     setPlaybackRate(newRate);
-    
-    if (settings.ttsEngine === 'native') {
+
+    if (synced) {
+      if (mediaRef.current) mediaRef.current.playbackRate = newRate;
+    } else if (!useAiVoice) {
        if (window.speechSynthesis.speaking && isPlayingRef.current) {
           window.speechSynthesis.cancel();
           playSentence(currentSentenceIndex);
@@ -277,29 +433,105 @@ export const Reader: React.FC = () => {
     let nextIndex = direction === 'next' ? currentSentenceIndex + 1 : currentSentenceIndex - 1;
     if (nextIndex < 0) nextIndex = 0;
     if (nextIndex >= sentences.length) nextIndex = sentences.length - 1;
-    if (isPlaying) playSentence(nextIndex);
+    if (synced) seekToSentence(nextIndex, false);
+    else if (isPlaying) playSentence(nextIndex);
     else setCurrentSentenceIndex(nextIndex);
   };
 
   const handleTranslate = async () => {
     if (!segment || !articleMetadata) return;
-    if (segment.persianTranslation) {
+    if (segment.translation) {
       setShowTranslation(!showTranslation);
       return;
     }
 
+    if (!requireTask('translation')) return;
+
     setTranslating(true);
     try {
-      const trans = await translateFullText(segment.content, settings.translationModel);
+      const trans = await translateFullText(segment.content, resolveTask(settings, 'translation', language), { signal: requestAbortRef.current.signal, source: { articleId: articleMetadata.id } });
       await updateSegmentTranslation(articleMetadata.id, currentIdx, trans);
       // Update local state to show immediately
-      setSegment(prev => prev ? ({ ...prev, persianTranslation: trans }) : null);
+      setSegment(prev => prev ? ({ ...prev, translation: trans }) : null);
       setShowTranslation(true);
+    } catch (error: any) {
+      if (isAbortError(error)) return;
+      console.error("Translation failed", error);
+      alert("Could not translate this part. " + error.message);
     } finally {
       setTranslating(false);
     }
   };
 
+  // Analyzes a part that has no vocabulary yet, then opens word selection with any validation notes
+  const analyzePart = async (index: number) => {
+    if (!articleMetadata || !requireTask('analysis')) return;
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setAnalyzingNext(true);
+    setAnalysisStatus('');
+
+    // The article's background job will get to this part; move it up and wait instead of analyzing it twice
+    if (await prioritizeAnalysis(articleMetadata.id, index)) {
+      if (!isMountedRef.current || controller.signal.aborted) return;
+      controller.signal.addEventListener('abort', () => {
+        if (!isMountedRef.current) return;
+        setWaitingForPart(null);
+        setAnalyzingNext(false);
+        setAnalysisStatus('');
+      });
+      setWaitingForPart(index);
+      setAnalysisStatus('Waiting for the background analysis...');
+      return;
+    }
+
+    try {
+      const seg = await getSegment(articleMetadata.id, index);
+      if (seg) {
+        const analysis = await analyzeTextForVocabulary(
+          seg.content,
+          learner,
+          resolveTask(settings, 'analysis', language),
+          settings.enabledTypes,
+          knownLemmas,
+          {
+            signal: controller.signal,
+            onRetry: info => setAnalysisStatus(describeRetry(info)),
+            source: { articleId: articleMetadata.id },
+          }
+        );
+        await updateSegmentAnalysis(articleMetadata.id, index, analysis.items);
+        navigate(`/select-words/${articleMetadata.id}/${index}`, { state: { analysisIssues: analysis.issues } });
+      }
+    } catch (e: any) {
+      if (isAbortError(e)) return;
+      console.error("Failed to analyze part", e);
+      alert("Failed to analyze the part. " + (e.message || "Please check settings or connectivity."));
+    } finally {
+      if (isMountedRef.current) {
+        setAnalyzingNext(false);
+        setAnalysisStatus('');
+      }
+    }
+  };
+
+  // Opens the part the background job was asked to prepare once it is analyzed
+  useEffect(() => {
+    if (waitingForPart === null || !articleMetadata) return;
+    const index = waitingForPart;
+    const job = analysisJobs[articleMetadata.id];
+    const done = articleMetadata.segments.find(s => s.index === index)?.isAnalyzed;
+    const pending = job && (job.status === 'queued' || job.status === 'running') && job.pending.includes(index);
+    if (!done && pending) return;
+
+    setWaitingForPart(null);
+    setAnalyzingNext(false);
+    setAnalysisStatus('');
+    if (done) navigate(`/select-words/${articleMetadata.id}/${index}`);
+    // The job was paused, cancelled or failed before reaching the part
+    else analyzePart(index);
+  }, [waitingForPart, articleMetadata, analysisJobs]);
+
   const handleJumpToPart = (e: React.ChangeEvent<HTMLSelectElement>) => {
      if (!articleMetadata) return;
      const idx = parseInt(e.target.value);
@@ -309,23 +541,7 @@ export const Reader: React.FC = () => {
         if (targetSegmentMeta.isAnalyzed) {
             navigate(`/read/${articleMetadata.id}/${idx}`);
         } else {
-            // Check if content is actually analyzed in DB, metadata might be stale? 
-            // We'll just navigate to select-words, which handles analysis if missing.
-            // Or fetch content to check.
-            // For now, follow old flow.
-            // We need content to analyze.
-            setAnalyzingNext(true);
-            getSegment(articleMetadata.id, idx).then(seg => {
-                 if(seg) {
-                    analyzeTextForVocabulary(seg.content, 'B2', settings.analysisModel, settings.enabledTypes)
-                    .then(analysis => {
-                        updateSegmentAnalysis(articleMetadata.id, idx, analysis);
-                        navigate(`/select-words/${articleMetadata.id}/${idx}`);
-                    })
-                    .catch(err => alert("Failed to analyze part. " + err.message))
-                    .finally(() => setAnalyzingNext(false));
-                 }
-            });
+            analyzePart(idx);
         }
      }
   };
@@ -336,39 +552,67 @@ export const Reader: React.FC = () => {
     if (nextSegmentMeta.isAnalyzed) {
       navigate(`/read/${articleMetadata.id}/${nextSegmentMeta.index}`);
     } else {
-      setAnalyzingNext(true);
-      try {
-        const nextContentSeg = await getSegment(articleMetadata.id, nextSegmentMeta.index);
-        if(nextContentSeg) {
-            const analysis = await analyzeTextForVocabulary(nextContentSeg.content, 'B2', settings.analysisModel, settings.enabledTypes);
-            await updateSegmentAnalysis(articleMetadata.id, nextSegmentMeta.index, analysis);
-            navigate(`/select-words/${articleMetadata.id}/${nextSegmentMeta.index}`);
-        }
-      } catch (e) {
-        console.error("Failed to analyze next part", e);
-        alert("Failed to analyze the next part. Please check settings or connectivity.");
-      } finally {
-        setAnalyzingNext(false);
-      }
+      await analyzePart(nextSegmentMeta.index);
     }
   };
 
-  const handleWordClick = (word: string, context: string, e: React.MouseEvent) => {
+  const handleWordClick = (token: Token, context: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    const cleanWord = word.replace(/[.,!?;:"()]/g, '');
-    const existingCard = getFlashcardForWord(cleanWord);
+    const existingCard = getFlashcardForToken(token);
     if (existingCard) {
       setActiveCard(existingCard);
-    } else if (cleanWord.trim().length > 1) {
-       setSelectedWordForAnalysis({ word: cleanWord, context });
+    } else if (token.text.length > 1 || languageInfo(language).unspaced) {
+       setSelectedWordForAnalysis({ word: token.text, context });
+    }
+  };
+
+  // Dragging across several words offers the phrase for analysis, with the sentences it spans as context
+  const handleTextSelection = () => {
+    const selection = window.getSelection();
+    if (!segment || !selection || selection.isCollapsed) return;
+    const tokenAt = (node: Node | null) => {
+      const element = node instanceof Element ? node : node?.parentElement;
+      const index = element?.closest('[data-token]')?.getAttribute('data-token');
+      return index == null ? -1 : Number(index);
+    };
+    const anchor = tokenAt(selection.anchorNode);
+    const focus = tokenAt(selection.focusNode);
+    if (anchor === -1 || focus === -1 || anchor === focus || Math.abs(anchor - focus) >= MAX_SELECTION_WORDS) return;
+
+    const from = Math.min(anchor, focus);
+    const to = Math.max(anchor, focus);
+    const first = sentenceViews.find(s => s.tokens.some(t => t.index === from));
+    const last = sentenceViews.find(s => s.tokens.some(t => t.index === to));
+    if (!first || !last) return;
+    const start = first.tokens.find(t => t.index === from)!.start;
+    const end = last.tokens.find(t => t.index === to)!.end;
+    selection.removeAllRanges();
+    setSelectedWordForAnalysis({
+      word: segment.content.slice(start, end).replace(/\s+/g, ' '),
+      context: segment.content.slice(first.start, last.end).replace(/\s+/g, ' '),
+    });
+  };
+
+  // The sentence being read, or whole sentences from the start of the part
+  const practiceText = () => {
+    if (sentences[currentSentenceIndex]) return sentences[currentSentenceIndex];
+    const picked: string[] = [];
+    for (const sentence of sentences) {
+      if (picked.length > 0 && joinSentences([...picked, sentence], language).length > PRACTICE_CHARS) break;
+      picked.push(sentence);
     }
+    return joinSentences(picked, language);
   };
 
   const confirmSingleAnalysis = async () => {
     if (!selectedWordForAnalysis || !articleMetadata) return;
+    if (!requireTask('analysis')) {
+      setSelectedWordForAnalysis(null);
+      return;
+    }
     setIsAnalyzingSingle(true);
     try {
-      const analysis = await analyzeSingleWord(selectedWordForAnalysis.word, selectedWordForAnalysis.context, settings.analysisModel);
+      const analysis = await analyzeSingleWord(selectedWordForAnalysis.word, selectedWordForAnalysis.context, resolveTask(settings, 'analysis', language), { signal: requestAbortRef.current.signal, source: { articleId: articleMetadata.id } });
       await addCustomWordToSegment(articleMetadata.id, currentIdx, analysis);
       
       // Refresh flashcards for this segment
@@ -380,14 +624,26 @@ export const Reader: React.FC = () => {
       const newCard = updatedCards.find(c => c.word.toLowerCase() === selectedWordForAnalysis.word.toLowerCase());
       if(newCard) setActiveCard(newCard);
 
-    } catch (error) {
+    } catch (error: any) {
+      if (isAbortError(error)) return;
       console.error("Single word analysis failed", error);
-      alert("Could not analyze word. Please try again.");
+      alert("Could not analyze word. " + (error.message || "Please try again."));
     } finally {
       setIsAnalyzingSingle(false);
     }
   };
 
+  const markKnown = async (lemma: string) => {
+    try {
+      await markLemmasKnown([lemma]);
+    } catch (e) {
+      console.error("Failed to mark word as known", e);
+      alert("Could not save the word. Please try again.");
+    }
+    setActiveCard(null);
+    setSelectedWordForAnalysis(null);
+  };
+
   const getTypeStyles = (type: AnalysisType) => {
     switch(type) {
       case 'grammar': return 'text-purple-700 border-purple-300 bg-purple-50 hover:bg-purple-100';
@@ -415,7 +671,7 @@ export const Reader: React.FC = () => {
               >
                 {articleMetadata.segments.map(s => (
                    <option key={s.index} value={s.index}>
-                     Part {s.index + 1} {s.isAnalyzed ? '' : '(Not Analyzed)'}
+                     {s.title || `Part ${s.index + 1}`} {s.isAnalyzed ? '' : '(Not Analyzed)'}
                    </option>
                 ))}
               </select>
@@ -442,9 +698,22 @@ export const Reader: React.FC = () => {
               <button onClick={changeSpeed} className="px-2 py-1 text-xs font-bold text-gray-600 hover:bg-white rounded border border-transparent hover:border-gray-200 transition min-w-[3rem]">
                 {playbackRate}x
               </button>
+              {synced && (
+                <button
+                  onClick={toggleLoop}
+                  className={`p-2 ml-1 rounded-md transition ${loop ? 'bg-brand-100 text-brand-700' : 'text-gray-600 hover:text-brand-600 hover:bg-white'}`}
+                  title={loop ? 'Stop looping' : 'Loop the current line (shift-click another line to extend the loop)'}
+                >
+                  <Repeat className="w-5 h-5" />
+                </button>
+              )}
             </div>
-            {settings.ttsEngine === 'native' ? (
-               <span className="text-[10px] text-gray-400 mt-1">Native TTS</span>
+            {synced ? (
+               audioError
+                 ? <span className="text-xs text-red-500 mt-1 flex items-center"><AlertCircle className="w-3 h-3 mr-1"/> {audioError}</span>
+                 : <span className="text-[10px] text-gray-400 mt-1">{loop ? `Looping ${formatTimestamp(timings![loop.from].start)}–${formatTimestamp(timings![loop.to].end)}` : 'Original media'}</span>
+            ) : !useAiVoice ? (
+               <span className="text-[10px] text-gray-400 mt-1">Native TTS{settings.ttsEngine === 'gemini' && ' (no API key)'}</span>
             ) : (
                audioError && <span className="text-xs text-red-500 mt-1 flex items-center"><AlertCircle className="w-3 h-3 mr-1"/> {audioError}</span>
             )}
@@ -452,7 +721,7 @@ export const Reader: React.FC = () => {
 
           <div className="flex gap-2">
             <button 
-              onClick={() => setPronunciationText(segment.content.substring(0, 200))}
+              onClick={() => setPronunciationText(practiceText())}
               className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
               title="Pronunciation Practice"
             >
@@ -461,63 +730,147 @@ export const Reader: React.FC = () => {
             <button 
               onClick={handleTranslate}
               disabled={translating}
+              title={`Translate into ${languageInfo(settings.nativeLanguage).name}`}
               className={`flex items-center px-3 py-2 rounded-lg transition ${showTranslation ? 'bg-brand-100 text-brand-700 border border-brand-200' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
             >
               <Languages className="w-4 h-4 mr-2" />
-              <span className="text-sm font-medium">{translating ? '...' : 'Fa'}</span>
+              <span className="text-sm font-medium">{translating ? '...' : settings.nativeLanguage.toUpperCase()}</span>
             </button>
           </div>
         </div>
       </div>
 
+      {missingKeyTask && <ApiKeyNotice task={missingKeyTask} className="mb-6" />}
+
+      {timings && (
+        <div className="bg-white rounded-xl border border-gray-200 p-3 mb-6">
+          {media && (
+            media.type.startsWith('video/') ? (
+              <video
+                ref={el => { mediaRef.current = el; }}
+                src={media.url}
+                controls
+                playsInline
+                className="w-full max-h-80 rounded-lg bg-black mb-2"
+                onTimeUpdate={handleMediaTime}
+                onPlay={() => { setIsPlaying(true); setAudioError(null); }}
+                onPause={() => setIsPlaying(false)}
+              />
+            ) : (
+              <audio
+                ref={el => { mediaRef.current = el; }}
+                src={media.url}
+                controls
+                className="w-full mb-2"
+                onTimeUpdate={handleMediaTime}
+                onPlay={() => { setIsPlaying(true); setAudioError(null); }}
+                onPause={() => setIsPlaying(false)}
+              />
+            )
+          )}
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span className="truncate">
+              {media ? media.name : 'Attach the original audio or video to play it in sync with the subtitles.'}
+            </span>
+            <button
+              onClick={() => mediaInputRef.current?.click()}
+              className="font-medium text-brand-700 hover:text-brand-900 flex items-center flex-shrink-0 ml-3"
+            >
+              <Paperclip className="w-3.5 h-3.5 mr-1" />
+              {media ? 'Change file' : 'Attach media'}
+            </button>
+            <input
+              ref={mediaInputRef}
+              type="file"
+              accept="audio/*,video/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleAttachMedia(file);
+              }}
+            />
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 items-start relative">
-        <div className="lg:col-span-8 bg-white p-8 rounded-2xl shadow-sm border border-gray-100 text-lg text-gray-800 text-justify leading-relaxed">
-          {sentences.map((sentence, sIdx) => {
+        <div className="lg:col-span-8 bg-white p-8 rounded-2xl shadow-sm border border-gray-100 text-lg text-gray-800 text-justify leading-relaxed" dir={textDirection(language)} lang={language} onMouseUp={handleTextSelection}>
+          {sentenceViews.map((sentence, sIdx) => {
             const isCurrent = sIdx === currentSentenceIndex;
-            const parts = sentence.split(/(\s+)/);
-            
+            const inLoop = !!loop && sIdx >= loop.from && sIdx <= loop.to;
+            const phrases = matchPhrases<Flashcard>(sentence.tokens.map(t => t.key), phraseMap, longestPhrase);
+            const pieces: React.ReactNode[] = [];
+            let cursor = sentence.start;
+            for (let t = 0; t < sentence.tokens.length; t++) {
+              const token = sentence.tokens[t];
+              // Punctuation and spaces between words
+              if (token.start > cursor) pieces.push(segment.content.slice(cursor, token.start));
+              const phrase = phrases.find(p => p.from === t);
+              if (phrase) {
+                const words = sentence.tokens.slice(phrase.from, phrase.to);
+                pieces.push(
+                  <span
+                    key={token.index}
+                    onClick={(e) => { e.stopPropagation(); setActiveCard(phrase.value); }}
+                    className={`cursor-pointer border-b-2 transition-colors font-semibold ${getTypeStyles(phrase.value.type)}`}
+                  >
+                    {words.map((word, w) => (
+                      <React.Fragment key={word.index}>
+                        {w > 0 && segment.content.slice(words[w - 1].end, word.start)}
+                        <span data-token={word.index}>{word.text}</span>
+                      </React.Fragment>
+                    ))}
+                  </span>
+                );
+                cursor = words[words.length - 1].end;
+                t = phrase.to - 1;
+                continue;
+              }
+              const card = getFlashcardForToken(token);
+              pieces.push(
+                <span
+                  key={token.index}
+                  data-token={token.index}
+                  onClick={(e) => handleWordClick(token, sentence.text, e)}
+                  className={card
+                    ? `cursor-pointer border-b-2 transition-colors font-semibold ${getTypeStyles(card.type)}`
+                    : 'cursor-pointer hover:bg-yellow-100 hover:text-yellow-800 rounded px-0.5 transition-colors'}
+                >
+                  {token.text}
+                </span>
+              );
+              cursor = token.end;
+            }
+            if (sentence.end > cursor) pieces.push(segment.content.slice(cursor, sentence.end));
+
             return (
+              <React.Fragment key={sIdx}>
+              {sentence.breakBefore === 'paragraph' && <span className="block h-4" />}
+              {sentence.breakBefore === 'line' && <br />}
               <span 
-                key={sIdx} 
-                className={`inline transition-colors duration-300 rounded px-1 box-decoration-clone ${isCurrent ? 'bg-brand-100 text-brand-900' : ''}`}
+                className={`inline transition-colors duration-300 rounded px-1 box-decoration-clone ${sentence.heading ? 'font-bold text-gray-900' : ''} ${isCurrent ? 'bg-brand-100 text-brand-900' : inLoop ? 'bg-brand-50' : ''}`}
               >
-                {parts.map((part, pIdx) => {
-                   const cleanPart = part.replace(/[.,!?;:"()]/g, '');
-                   const isWhitespace = /^\s+$/.test(part);
-                   const card = getFlashcardForWord(cleanPart);
-                   
-                   if (isWhitespace || cleanPart === '') {
-                     return <span key={pIdx}>{part}</span>;
-                   }
-
-                   if (card) {
-                     return (
-                       <span
-                         key={pIdx}
-                         onClick={(e) => handleWordClick(cleanPart, sentence, e)}
-                         className={`cursor-pointer border-b-2 transition-colors font-semibold ${getTypeStyles(card.type)}`}
-                       >
-                         {part}
-                       </span>
-                     );
-                   }
-                   return (
-                    <span 
-                      key={pIdx} 
-                      className="cursor-pointer hover:bg-yellow-100 hover:text-yellow-800 rounded px-0.5 transition-colors"
-                      onClick={(e) => handleWordClick(cleanPart, sentence, e)}
-                    >
-                      {part}
-                    </span>
-                   );
-                })}
-                {sIdx < sentences.length - 1 && ' '}
+                {synced && (
+                  <button
+                    onClick={(e) => handleSentenceSeek(sIdx, e)}
+                    className="font-mono text-[10px] text-gray-400 hover:text-brand-600 align-middle me-1 select-none"
+                    title="Play from here"
+                    dir="ltr"
+                  >
+                    {formatTimestamp(timings![sIdx].start)}
+                  </button>
+                )}
+                {pieces}
+                {sIdx < sentenceViews.length - 1 && !languageInfo(language).unspaced && ' '}
               </span>
+              </React.Fragment>
             );
           })}
 
           <div className="mt-12 pt-8 border-t border-gray-100">
             {nextSegmentMeta ? (
+              <>
               <button
                 onClick={handleNextPart}
                 disabled={analyzingNext}
@@ -526,7 +879,7 @@ export const Reader: React.FC = () => {
                 {analyzingNext ? (
                   <>
                     <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                    Analyzing Next Part...
+                    {analysisStatus || 'Analyzing Next Part...'}
                   </>
                 ) : (
                   <>
@@ -535,6 +888,15 @@ export const Reader: React.FC = () => {
                   </>
                 )}
               </button>
+              {analyzingNext && (
+                <button
+                  onClick={() => analysisAbortRef.current?.abort()}
+                  className="w-full mt-2 py-2 text-sm text-gray-500 hover:text-gray-800"
+                >
+                  Cancel analysis
+                </button>
+              )}
+              </>
             ) : (
               <div className="text-center py-4 text-gray-500 bg-gray-50 rounded-xl">
                 <BookOpen className="w-8 h-8 mx-auto mb-2 text-gray-300" />
@@ -544,13 +906,17 @@ export const Reader: React.FC = () => {
           </div>
         </div>
 
-        {showTranslation && segment.persianTranslation && (
-          <div className="lg:col-span-4 bg-gray-50 p-6 rounded-2xl border border-gray-200 text-gray-700 leading-loose text-justify font-persian sticky top-36" dir="rtl">
+        {showTranslation && segment.translation && (
+          <div
+            className={`lg:col-span-4 bg-gray-50 p-6 rounded-2xl border border-gray-200 text-gray-700 leading-loose text-justify sticky top-36 ${native.className}`}
+            dir={native.dir}
+            lang={native.lang}
+          >
             <h3 className="font-bold text-gray-900 mb-4 border-b border-gray-200 pb-2 flex items-center">
-              <Languages className="w-4 h-4 ml-2" />
-              ترجمه فارسی
+              <Languages className="w-4 h-4 me-2" />
+              {languageInfo(settings.nativeLanguage).nativeName}
             </h3>
-            {segment.persianTranslation}
+            {segment.translation}
           </div>
         )}
       </div>
@@ -577,7 +943,7 @@ export const Reader: React.FC = () => {
               <div className="space-y-4">
                 <div className="bg-gray-50 p-3 rounded-lg border border-gray-100">
                   <p className="text-gray-900 font-medium mb-1 text-sm uppercase tracking-wide">Meaning</p>
-                  <p className="text-gray-600 text-lg leading-relaxed font-persian text-right" dir="rtl">{activeCard.persianTranslation}</p>
+                  <p className={`text-gray-600 text-lg leading-relaxed ${native.className}`} dir={native.dir} lang={native.lang}>{activeCard.translation}</p>
                 </div>
                 <div>
                   <p className="text-xs text-gray-400 mb-1 uppercase tracking-wider">Definition</p>
@@ -585,9 +951,17 @@ export const Reader: React.FC = () => {
                 </div>
               </div>
 
-              <div className="mt-6">
+              <div className="mt-6 flex gap-3">
+                {activeCard.type === 'vocabulary' && !knownLemmas.includes(activeCard.lemma.toLowerCase()) && (
+                  <button
+                    className="flex-1 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition flex justify-center items-center"
+                    onClick={() => markKnown(activeCard.lemma)}
+                  >
+                    <Check className="w-4 h-4 mr-1" /> I know this
+                  </button>
+                )}
                 <button 
-                  className="w-full bg-brand-600 text-white py-2 rounded-lg text-sm font-medium hover:bg-brand-700 transition"
+                  className="flex-1 bg-brand-600 text-white py-2 rounded-lg text-sm font-medium hover:bg-brand-700 transition"
                   onClick={() => setActiveCard(null)} 
                 >
                   Close
@@ -617,6 +991,23 @@ export const Reader: React.FC = () => {
                    {isAnalyzingSingle ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Analyze'}
                  </button>
               </div>
+              <button
+                onClick={() => markKnown(selectedWordForAnalysis.word)}
+                disabled={isAnalyzingSingle}
+                className="w-full mt-3 py-2 text-xs text-gray-500 hover:text-gray-700 hover:bg-gray-50 rounded-lg transition flex justify-center items-center"
+              >
+                <Check className="w-3 h-3 mr-1" /> I know this word
+              </button>
+              <button
+                onClick={() => {
+                  setPronunciationText(selectedWordForAnalysis.word);
+                  setSelectedWordForAnalysis(null);
+                }}
+                disabled={isAnalyzingSingle}
+                className="w-full mt-1 py-2 text-xs text-gray-500 hover:text-gray-700 hover:bg-gray-50 rounded-lg transition flex justify-center items-center"
+              >
+                <Mic className="w-3 h-3 mr-1" /> Practice pronunciation
+              </button>
             </div>
          </div>
       )}
@@ -625,6 +1016,8 @@ export const Reader: React.FC = () => {
         isOpen={!!pronunciationText}
         onClose={() => setPronunciationText(null)}
         targetText={pronunciationText || ''}
+        articleId={articleMetadata?.id}
+        language={language}
       />
     </div>
   );
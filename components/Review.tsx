@@ -1,17 +1,31 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useAppStore } from '../store/AppContext';
-import { RefreshCw, Smile, Meh, Frown, Volume2, Square, Book, Tag, Filter, PlayCircle, BookOpen, GraduationCap, Loader2 } from 'lucide-react';
+import { RefreshCw, Smile, Meh, Frown, RotateCcw, Volume2, Square, Book, Tag, Filter, PlayCircle, BookOpen, GraduationCap, Loader2 } from 'lucide-react';
 import { generateSpeechFromText } from '../services/geminiService';
+import { isTaskReady, resolveTask } from '../services/llm';
 import { decodeBase64, decodeAudioData, playAudioBuffer } from '../services/audioUtils';
+import { GRADES, ReviewGrade, previewIntervals, formatInterval } from '../services/scheduler';
 import { AnalysisType, Flashcard } from '../types';
+import { useSearchParams } from 'react-router-dom';
+import { DEFAULT_SOURCE_LANGUAGE, scriptProps, speechLocale } from '../services/languages';
 
 type StudyMode = 'due' | 'new' | 'all';
 
+const GRADE_STYLES: Record<ReviewGrade, { icon: React.ElementType; hover: string }> = {
+  1: { icon: RotateCcw, hover: 'hover:bg-red-50 hover:text-red-600' },
+  3: { icon: Frown, hover: 'hover:bg-orange-50 hover:text-orange-600' },
+  4: { icon: Meh, hover: 'hover:bg-yellow-50 hover:text-yellow-600' },
+  5: { icon: Smile, hover: 'hover:bg-green-50 hover:text-green-600' },
+};
+
 export const Review: React.FC = () => {
-  const { markCardReviewed, settings, articles, getCardsForSession } = useAppStore();
+  const { markCardReviewed, settings, articles, collections, getCardsForSession } = useAppStore();
+  const native = scriptProps(settings.nativeLanguage);
+  const [searchParams] = useSearchParams();
   
   // Config State
   const [isConfiguring, setIsConfiguring] = useState(true);
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string>(() => searchParams.get('collection') || 'all');
   const [selectedArticleId, setSelectedArticleId] = useState<string>('all');
   const [selectedType, setSelectedType] = useState<AnalysisType | 'all'>('all');
   const [selectedLevel, setSelectedLevel] = useState<string>('all');
@@ -28,12 +42,14 @@ export const Review: React.FC = () => {
   
   const audioCtxRef = useRef<AudioContext | null>(null);
   const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const cardShownAtRef = useRef(Date.now());
 
   // Start Session Logic
   const handleStartSession = async () => {
     setLoading(true);
     try {
         const cards = await getCardsForSession(studyMode, {
+            collectionId: selectedCollectionId,
             articleId: selectedArticleId,
             type: selectedType,
             level: selectedLevel
@@ -54,6 +70,11 @@ export const Review: React.FC = () => {
     }
   };
 
+  // Response time is measured from the moment a card is shown
+  useEffect(() => {
+    cardShownAtRef.current = Date.now();
+  }, [currentIndex, sessionCards]);
+
   // Cleanup
   useEffect(() => {
     return () => {
@@ -86,11 +107,14 @@ export const Review: React.FC = () => {
     }
 
     setIsPlaying(true);
+    const language = articles.find(a => a.id === currentCard.articleId)?.language || settings.defaultSourceLanguage || DEFAULT_SOURCE_LANGUAGE;
 
-    if (settings.ttsEngine === 'native') {
+    // Fall back to the device voice when the AI voice has no usable key
+    if (settings.ttsEngine === 'native' || !isTaskReady(settings, 'tts')) {
       if (typeof window !== 'undefined' && window.speechSynthesis) {
         window.speechSynthesis.cancel();
         const utterance = new SpeechSynthesisUtterance(currentCard.word);
+        utterance.lang = speechLocale(language);
         utterance.rate = playbackSpeed;
         utterance.onend = () => setIsPlaying(false);
         utterance.onerror = () => setIsPlaying(false);
@@ -103,7 +127,7 @@ export const Review: React.FC = () => {
 
     setLoadingAudio(true);
     try {
-      const base64Audio = await generateSpeechFromText(currentCard.word, settings.ttsModel);
+      const base64Audio = await generateSpeechFromText(currentCard.word, resolveTask(settings, 'tts', language), { source: { cardId: currentCard.id } });
       if (base64Audio) {
         if (!audioCtxRef.current) {
           audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
@@ -129,18 +153,22 @@ export const Review: React.FC = () => {
     }
   };
 
-  const handleGrade = async (grade: number) => {
+  const handleGrade = async (grade: ReviewGrade) => {
     stopAudio();
     setIsPlaying(false);
     
+    let queue = sessionCards;
     if (currentCard) {
-        await markCardReviewed(currentCard.id, grade);
+        const updated = await markCardReviewed(currentCard.id, grade, Date.now() - cardShownAtRef.current);
+        // Lapsed cards come back at the end of the session
+        if (grade < 3 && updated) queue = [...sessionCards, updated];
     }
     
     setShowBack(false);
-    if (currentIndex >= sessionCards.length - 1) {
+    if (currentIndex >= queue.length - 1) {
        setSessionCards([]); 
     } else {
+      setSessionCards(queue);
       setCurrentIndex(prev => prev + 1);
     }
   };
@@ -173,6 +201,7 @@ export const Review: React.FC = () => {
 
   const currentCard = sessionCards[currentIndex];
   const typeColors = currentCard ? getTypeColor(currentCard.type) : getTypeColor(undefined);
+  const intervals = useMemo(() => currentCard ? previewIntervals(currentCard) : null, [currentCard]);
 
   if (isConfiguring) {
     return (
@@ -246,6 +275,25 @@ export const Review: React.FC = () => {
                   </select>
                </div>
 
+               {collections.length > 0 && (
+                 <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Collection</label>
+                    <select 
+                      value={selectedCollectionId}
+                      onChange={(e) => {
+                        setSelectedCollectionId(e.target.value);
+                        setSelectedArticleId('all');
+                      }}
+                      className="w-full p-3 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+                    >
+                      <option value="all">All Collections</option>
+                      {collections.map(c => (
+                        <option key={c.id} value={c.id}>{c.name}</option>
+                      ))}
+                    </select>
+                 </div>
+               )}
+
                <div className="md:col-span-2">
                   <label className="block text-sm font-medium text-gray-700 mb-2">Source Text</label>
                   <select 
@@ -253,8 +301,8 @@ export const Review: React.FC = () => {
                     onChange={(e) => setSelectedArticleId(e.target.value)}
                     className="w-full p-3 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
                   >
-                    <option value="all">All Sources</option>
-                    {articles.map(a => (
+                    <option value="all">{selectedCollectionId === 'all' ? 'All Sources' : 'All Texts in Collection'}</option>
+                    {articles.filter(a => selectedCollectionId === 'all' || a.collectionId === selectedCollectionId).map(a => (
                       <option key={a.id} value={a.id}>{a.title.length > 50 ? a.title.substring(0,50)+'...' : a.title}</option>
                     ))}
                   </select>
@@ -380,7 +428,7 @@ export const Review: React.FC = () => {
 
               <div className="flex-1 overflow-y-auto custom-scrollbar pr-2">
                 <div className="mb-6 space-y-2">
-                    <h3 className={`text-2xl font-bold ${typeColors.text} font-persian text-right`} dir="rtl">{currentCard.persianTranslation}</h3>
+                    <h3 className={`text-2xl font-bold ${typeColors.text} ${native.className}`} dir={native.dir} lang={native.lang}>{currentCard.translation}</h3>
                     <p className="text-gray-700 leading-relaxed">{currentCard.definition}</p>
                 </div>
 
@@ -405,19 +453,18 @@ export const Review: React.FC = () => {
                 </div>
               </div>
 
-              <div className="grid grid-cols-3 gap-3 mt-4 pt-4 border-t border-gray-100">
-                <button onClick={(e) => { e.stopPropagation(); handleGrade(1); }} className="flex flex-col items-center p-3 rounded-lg hover:bg-red-50 text-gray-500 hover:text-red-600 transition">
-                  <Frown className="w-6 h-6 mb-1" />
-                  <span className="text-xs font-bold">Difficult</span>
-                </button>
-                <button onClick={(e) => { e.stopPropagation(); handleGrade(3); }} className="flex flex-col items-center p-3 rounded-lg hover:bg-yellow-50 text-gray-500 hover:text-yellow-600 transition">
-                  <Meh className="w-6 h-6 mb-1" />
-                  <span className="text-xs font-bold">Okay</span>
-                </button>
-                <button onClick={(e) => { e.stopPropagation(); handleGrade(5); }} className="flex flex-col items-center p-3 rounded-lg hover:bg-green-50 text-gray-500 hover:text-green-600 transition">
-                  <Smile className="w-6 h-6 mb-1" />
-                  <span className="text-xs font-bold">Easy</span>
-                </button>
+              <div className="grid grid-cols-4 gap-3 mt-4 pt-4 border-t border-gray-100">
+                {GRADES.map(({ value, label }) => {
+                  const style = GRADE_STYLES[value];
+                  const Icon = style.icon;
+                  return (
+                    <button key={value} onClick={(e) => { e.stopPropagation(); handleGrade(value); }} className={`flex flex-col items-center p-3 rounded-lg text-gray-500 transition ${style.hover}`}>
+                      <Icon className="w-6 h-6 mb-1" />
+                      <span className="text-xs font-bold">{label}</span>
+                      <span className="text-[10px] opacity-75">{intervals && formatInterval(intervals[value])}</span>
+                    </button>
+                  );
+                })}
               </div>
             </div>
           )}
@@ -1,50 +1,100 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { useAppStore } from '../store/AppContext';
-import { AlertTriangle, Server, Settings as SettingsIcon, List, Volume2, BookOpen, CheckSquare, Download, Upload, Database } from 'lucide-react';
+import { AlertTriangle, Server, Settings as SettingsIcon, List, Volume2, BookOpen, CheckSquare, Download, Upload, Database, Check, X, Search, KeyRound, Unlock, FileJson, Languages, GraduationCap } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { AppSettings, AnalysisType } from '../types';
-
-const PRESET_MODELS = {
-  analysis: [
-    { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash (Recommended)' },
-    { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro Preview (High Intelligence)' },
-  ],
-  tts: [
-    { id: 'gemini-2.5-flash-preview-tts', name: 'Gemini 2.5 Flash TTS' },
-  ],
-  generic: [
-    { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash' },
-    { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro Preview' },
-  ]
+import { AppSettings, AnalysisType, ProviderId, CefrLevel } from '../types';
+import { ImportPreview, MergeStrategy } from '../services/backup';
+import { ImportPreviewModal } from './ImportPreviewModal';
+import { UsagePanel } from './UsagePanel';
+import { PromptTemplatesPanel } from './PromptTemplatesPanel';
+import { parseWordList } from '../services/knownWords';
+import { LLMTask, PROVIDERS, TASK_SETTINGS, createProvider } from '../services/llm';
+import { DEFAULT_OPENAI_BASE_URL } from '../services/openaiProvider';
+import { LANGUAGES } from '../services/languages';
+import { CEFR_LABELS, CEFR_LEVELS, TARGET_EXAMS } from '../services/learnerLevel';
+import { hardMaximum } from '../services/segmentation';
+
+type PresetList = { id: string; name: string }[];
+
+const PRESET_MODELS: Record<ProviderId, { analysis: PresetList; tts: PresetList; generic: PresetList }> = {
+  gemini: {
+    analysis: [
+      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash (Recommended)' },
+      { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro Preview (High Intelligence)' },
+    ],
+    tts: [
+      { id: 'gemini-2.5-flash-preview-tts', name: 'Gemini 2.5 Flash TTS' },
+    ],
+    generic: [
+      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash' },
+      { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro Preview' },
+    ]
+  },
+  openai: {
+    analysis: [
+      { id: 'llama3.1', name: 'Llama 3.1 (Ollama)' },
+      { id: 'qwen2.5', name: 'Qwen 2.5 (Ollama)' },
+      { id: 'gpt-4o-mini', name: 'GPT-4o mini (OpenAI)' },
+    ],
+    tts: [
+      { id: 'tts-1', name: 'TTS-1 (OpenAI)' },
+    ],
+    generic: [
+      { id: 'llama3.1', name: 'Llama 3.1 (Ollama)' },
+      { id: 'qwen2.5', name: 'Qwen 2.5 (Ollama)' },
+      { id: 'gpt-4o-mini', name: 'GPT-4o mini (OpenAI)' },
+    ]
+  }
 };
 
 interface ModelSelectorProps {
   label: string;
-  settingKey: keyof AppSettings;
-  presets: { id: string; name: string }[];
-  currentValue: string;
-  onChange: (key: keyof AppSettings, value: any) => void;
+  task: LLMTask;
+  presets: 'analysis' | 'tts' | 'generic';
+  settings: AppSettings;
+  onUpdate: (changes: Partial<AppSettings>) => void;
 }
 
-const ModelSelector: React.FC<ModelSelectorProps> = ({ label, settingKey, presets, currentValue, onChange }) => {
+const ModelSelector: React.FC<ModelSelectorProps> = ({ label, task, presets: presetGroup, settings, onUpdate }) => {
+  const keys = TASK_SETTINGS[task];
+  const provider = settings[keys.provider] || 'gemini';
+  const currentValue = settings[keys.model];
+  const presets = PRESET_MODELS[provider][presetGroup];
   const isCustom = !presets.some(p => p.id === currentValue);
   const [showCustomInput, setShowCustomInput] = useState(isCustom);
 
+  // A model ID from one backend means nothing to another, so switch to its first preset
+  const handleProvider = (next: ProviderId) => {
+    setShowCustomInput(false);
+    onUpdate({ [keys.provider]: next, [keys.model]: PRESET_MODELS[next][presetGroup][0].id });
+  };
+
   return (
     <div className="bg-white p-4 rounded-lg border border-gray-200 hover:border-brand-300 transition-colors">
       <label className="block text-sm font-medium text-gray-700 mb-2">
         {label}
       </label>
       
-      {!showCustomInput ? (
-        <div className="flex gap-2">
+      <div className="flex gap-2">
+        <select
+          value={provider}
+          onChange={(e) => handleProvider(e.target.value as ProviderId)}
+          className="w-44 p-2.5 bg-gray-50 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+          title="Provider"
+        >
+          {PROVIDERS.map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+
+        {!showCustomInput ? (
           <select
             value={currentValue}
             onChange={(e) => {
               if (e.target.value === 'custom_option') {
                 setShowCustomInput(true);
               } else {
-                onChange(settingKey, e.target.value);
+                onUpdate({ [keys.model]: e.target.value });
               }
             }}
             className="flex-1 p-2.5 bg-gray-50 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
@@ -52,39 +102,292 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ label, settingKey, preset
             {presets.map(m => (
               <option key={m.id} value={m.id}>{m.name}</option>
             ))}
+            {isCustom && <option value={currentValue}>{currentValue}</option>}
             <option value="custom_option" className="font-semibold text-brand-600">
               + Use Custom Model ID...
             </option>
           </select>
+        ) : (
+          <>
+            <input 
+              type="text"
+              value={currentValue}
+              onChange={(e) => onUpdate({ [keys.model]: e.target.value })}
+              placeholder={provider === 'openai' ? 'e.g., mistral:7b' : 'e.g., my-tuned-model-001'}
+              className="flex-1 p-2.5 bg-white border border-brand-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+            />
+            <button 
+              onClick={() => setShowCustomInput(false)}
+              className="px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-lg border border-gray-200"
+            >
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 mt-2 flex items-center">
+        Current Model ID: <code className="bg-gray-100 px-1 py-0.5 rounded ml-1 text-gray-600">{currentValue || 'N/A'}</code>
+      </p>
+    </div>
+  );
+};
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const AiCachePanel: React.FC = () => {
+  const { settings, updateSettings, getAiCacheStats, clearAiCache } = useAppStore();
+  const [stats, setStats] = useState<{ entries: number; bytes: number } | null>(null);
+
+  const refresh = () => getAiCacheStats().then(setStats).catch(e => console.error("Failed to read AI cache", e));
+  useEffect(() => { refresh(); }, []);
+
+  const handleClear = async () => {
+    if (!window.confirm('Clear all cached AI responses? Repeat analyses and translations will call the API again.')) return;
+    try {
+      await clearAiCache();
+      await refresh();
+    } catch (e) {
+      console.error("Failed to clear AI cache", e);
+      alert("Could not clear the AI cache. Check console.");
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200">
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        AI Response Cache
+      </label>
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+        <label className="flex items-center gap-2">
+          Keep up to
+          <input
+            type="number"
+            min="0"
+            value={settings.aiCacheMaxMb}
+            onChange={(e) => updateSettings({ aiCacheMaxMb: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="w-20 p-2 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+          />
+          MB
+        </label>
+        {stats && (
+          <span className="text-gray-500">
+            {stats.entries} {stats.entries === 1 ? 'response' : 'responses'}, {formatBytes(stats.bytes)}
+          </span>
+        )}
+        <button
+          onClick={handleClear}
+          disabled={!stats || stats.entries === 0}
+          className="text-xs text-red-600 hover:underline disabled:opacity-50 disabled:no-underline"
+        >
+          Clear AI cache
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mt-2">
+        Analyses, word lookups and translations of identical text are reused instead of calling the API again. Set to 0 to turn the cache off.
+      </p>
+    </div>
+  );
+};
+
+const KNOWN_WORDS_SHOWN = 200;
+
+const KnownWordsPanel: React.FC = () => {
+  const { knownLemmas, markLemmasKnown, unmarkLemmasKnown } = useAppStore();
+  const [draft, setDraft] = useState('');
+  const [filter, setFilter] = useState('');
+
+  const visible = knownLemmas
+    .filter(l => l.includes(filter.trim().toLowerCase()))
+    .sort((a, b) => a.localeCompare(b));
+
+  const handleAdd = async () => {
+    const lemmas = parseWordList(draft);
+    if (lemmas.length === 0) return;
+    try {
+      await markLemmasKnown(lemmas);
+      setDraft('');
+    } catch (e) {
+      console.error("Failed to save known words", e);
+      alert("Could not save known words. Check console.");
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(`Remove all ${knownLemmas.length} known words? They may be suggested again in future analyses.`)) return;
+    await unmarkLemmasKnown(knownLemmas);
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <div>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Paste words you already know, one per line or separated by commas"
+          rows={3}
+          className="w-full p-2.5 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!draft.trim()}
+          className="mt-2 flex items-center px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 transition disabled:opacity-50"
+        >
+          <Check className="w-4 h-4 mr-1" /> Add to Known Words
+        </button>
+      </div>
+
+      {knownLemmas.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2 gap-4">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 text-gray-400 absolute left-2.5 top-2.5" />
+              <input
+                type="text"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder={`Search ${knownLemmas.length} known words`}
+                className="w-full pl-8 p-2 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+              />
+            </div>
+            <button onClick={handleClear} className="text-xs text-red-600 hover:underline">
+              Clear all
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2 max-h-48 overflow-y-auto custom-scrollbar">
+            {visible.slice(0, KNOWN_WORDS_SHOWN).map(lemma => (
+              <span key={lemma} className="inline-flex items-center text-sm bg-gray-100 text-gray-700 rounded-full pl-3 pr-1 py-0.5">
+                {lemma}
+                <button onClick={() => unmarkLemmasKnown([lemma])} className="ml-1 p-0.5 rounded-full text-gray-400 hover:text-red-600 hover:bg-white" title="Remove">
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            {visible.length > KNOWN_WORDS_SHOWN && (
+              <span className="text-xs text-gray-400 self-center">+{visible.length - KNOWN_WORDS_SHOWN} more, refine the search</span>
+            )}
+          </div>
         </div>
-      ) : (
+      )}
+    </div>
+  );
+};
+
+const ApiKeyRow: React.FC<{ provider: ProviderId }> = ({ provider }) => {
+  const { settings, credentials, saveApiKey, unlockApiKey, clearApiKey } = useAppStore();
+  const [apiKey, setApiKey] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [encrypt, setEncrypt] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const status = credentials[provider];
+  const label = PROVIDERS.find(p => p.id === provider)?.label || provider;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (e: any) {
+      console.error(`API key action failed for ${provider}`, e);
+      setMessage({ ok: false, text: e?.message || 'Something went wrong. Check console.' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTest = () => run(async () => {
+    // Test what was typed, or the saved key when the field is empty
+    await createProvider(provider, settings, apiKey.trim() || undefined).verify();
+    setMessage({ ok: true, text: 'Key works.' });
+  });
+
+  const handleSave = () => run(async () => {
+    await saveApiKey(provider, apiKey.trim(), encrypt ? passphrase : undefined);
+    setApiKey('');
+    setPassphrase('');
+    setMessage({ ok: true, text: encrypt ? 'Saved and encrypted on this device.' : 'Saved on this device.' });
+  });
+
+  const handleUnlock = () => run(async () => {
+    await unlockApiKey(provider, passphrase);
+    setPassphrase('');
+    setMessage({ ok: true, text: 'Unlocked for this session.' });
+  });
+
+  const handleClear = () => {
+    if (!window.confirm(`Remove the ${label} API key from this device?`)) return;
+    run(() => clearApiKey(provider));
+  };
+
+  const inputClass = "flex-1 p-2.5 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm";
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">{label}</span>
+        <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+          status === 'ready' ? 'bg-green-50 text-green-700' : status === 'locked' ? 'bg-amber-50 text-amber-700' : 'bg-gray-100 text-gray-500'
+        }`}>
+          {status === 'ready' ? 'Configured' : status === 'locked' ? 'Locked' : provider === 'openai' ? 'Optional' : 'Not set'}
+        </span>
+      </div>
+
+      {status === 'locked' ? (
         <div className="flex gap-2">
-          <input 
-            type="text"
-            value={currentValue}
-            onChange={(e) => onChange(settingKey, e.target.value)}
-            placeholder="e.g., my-tuned-model-001"
-            className="flex-1 p-2.5 bg-white border border-brand-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
-          />
-          <button 
-            onClick={() => setShowCustomInput(false)}
-            className="px-3 py-2 text-sm text-gray-500 hover:bg-gray-100 rounded-lg border border-gray-200"
-          >
-            Cancel
+          <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" className={inputClass} />
+          <button onClick={handleUnlock} disabled={busy || !passphrase} className="flex items-center px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 transition disabled:opacity-50">
+            <Unlock className="w-4 h-4 mr-1" /> Unlock
           </button>
         </div>
+      ) : (
+        <>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              placeholder={status === 'ready' ? 'Enter a new key to replace the saved one' : 'Paste your API key'}
+              autoComplete="off"
+              className={inputClass}
+            />
+            <button onClick={handleTest} disabled={busy || (!apiKey.trim() && status !== 'ready')} className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50">
+              Test
+            </button>
+            <button onClick={handleSave} disabled={busy || !apiKey.trim() || (encrypt && !passphrase)} className="px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 transition disabled:opacity-50">
+              Save
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input type="checkbox" checked={encrypt} onChange={(e) => setEncrypt(e.target.checked)} />
+            Encrypt with a passphrase (asked once per session)
+          </label>
+          {encrypt && (
+            <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" className={`w-full ${inputClass}`} />
+          )}
+        </>
       )}
-      <p className="text-xs text-gray-400 mt-2 flex items-center">
-        Current Model ID: <code className="bg-gray-100 px-1 py-0.5 rounded ml-1 text-gray-600">{currentValue || 'N/A'}</code>
-      </p>
+
+      <div className="flex items-center justify-between">
+        {message ? (
+          <p className={`text-xs ${message.ok ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>
+        ) : <span />}
+        {status !== 'missing' && (
+          <button onClick={handleClear} disabled={busy} className="text-xs text-red-600 hover:underline">
+            Remove key
+          </button>
+        )}
+      </div>
     </div>
   );
 };
 
 export const Settings: React.FC = () => {
-  const { settings, updateSettings, exportUserData, importUserData } = useAppStore();
+  const { settings, credentials, learner, levelEstimate, refreshLevelEstimate, updateSettings, exportUserData, previewUserData, importUserData } = useAppStore();
   const APP_VERSION = "1.9.0";
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
 
   // Defensive check: Ensure settings exists before rendering
   if (!settings) {
@@ -94,6 +397,8 @@ export const Settings: React.FC = () => {
   // Safe access to arrays to prevent crashes if local storage is outdated
   const enabledTypes = Array.isArray(settings.enabledTypes) ? settings.enabledTypes : [];
 
+  const usesOpenAI = Object.values(TASK_SETTINGS).some(keys => settings[keys.provider] === 'openai');
+
   const handleChange = (key: keyof AppSettings, value: any) => {
     updateSettings({ [key]: value });
   };
@@ -111,15 +416,24 @@ export const Settings: React.FC = () => {
       fileInputRef.current?.click();
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
-      if (file) {
-          if (window.confirm("This will merge data from the backup file into your current library. Continue?")) {
-              importUserData(file);
-          }
-      }
       // Reset
       if (fileInputRef.current) fileInputRef.current.value = '';
+      if (!file) return;
+
+      try {
+          setImportPreview(await previewUserData(file));
+      } catch (error: any) {
+          console.error("Backup validation failed", error);
+          alert(`Import failed. ${error.message || 'Invalid file format.'}`);
+      }
+  };
+
+  const handleConfirmImport = async (strategy: MergeStrategy, applySettings: boolean) => {
+      if (!importPreview) return;
+      await importUserData(importPreview, strategy, applySettings);
+      setImportPreview(null);
   };
 
   return (
@@ -178,6 +492,131 @@ export const Settings: React.FC = () => {
           </div>
         </div>
 
+        {/* Languages */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+             <h2 className="text-lg font-medium text-gray-800 flex items-center">
+               <Languages className="w-5 h-5 mr-2 text-brand-600" />
+               Languages
+             </h2>
+             <p className="text-sm text-gray-500 mt-1">
+               Each article keeps the language it was imported in. Translations and explanations use your native language.
+             </p>
+          </div>
+          <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Native Language</label>
+              <select
+                value={settings.nativeLanguage}
+                onChange={(e) => handleChange('nativeLanguage', e.target.value)}
+                className="w-full p-2.5 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+              >
+                {LANGUAGES.map(l => (
+                  <option key={l.code} value={l.code}>{l.name} ({l.nativeName})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Default Language of New Texts</label>
+              <select
+                value={settings.defaultSourceLanguage}
+                onChange={(e) => handleChange('defaultSourceLanguage', e.target.value)}
+                className="w-full p-2.5 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+              >
+                {LANGUAGES.map(l => (
+                  <option key={l.code} value={l.code}>{l.name} ({l.nativeName})</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {/* Learner Profile */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+             <h2 className="text-lg font-medium text-gray-800 flex items-center">
+               <GraduationCap className="w-5 h-5 mr-2 text-brand-600" />
+               Learner Profile
+             </h2>
+             <p className="text-sm text-gray-500 mt-1">
+               New texts are analyzed for your level: easier words are skipped. Currently tailored to {learner.level}
+               {learner.targetExam ? ` and ${learner.targetExam}` : ''}.
+             </p>
+          </div>
+          <div className="p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {settings.adaptiveLevel ? 'Starting Level' : 'CEFR Level'}
+                </label>
+                <select
+                  value={settings.learnerLevel}
+                  onChange={(e) => handleChange('learnerLevel', e.target.value as CefrLevel)}
+                  className="w-full p-2.5 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+                >
+                  {CEFR_LEVELS.map(level => (
+                    <option key={level} value={level}>{level} - {CEFR_LABELS[level]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Target Exam (optional)</label>
+                <input
+                  type="text"
+                  list="target-exams"
+                  value={settings.targetExam}
+                  onChange={(e) => handleChange('targetExam', e.target.value)}
+                  placeholder="e.g. IELTS"
+                  className="w-full p-2.5 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+                />
+                <datalist id="target-exams">
+                  {TARGET_EXAMS.map(exam => <option key={exam} value={exam} />)}
+                </datalist>
+              </div>
+            </div>
+
+            <div 
+              onClick={() => handleChange('adaptiveLevel', !settings.adaptiveLevel)}
+              className={`cursor-pointer p-4 rounded-lg border flex items-start gap-3 transition-all ${
+                settings.adaptiveLevel ? 'border-brand-500 bg-brand-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <div className={`mt-0.5 w-5 h-5 rounded border flex items-center justify-center ${
+                 settings.adaptiveLevel ? 'bg-brand-600 border-brand-600 text-white' : 'border-gray-400 bg-white'
+              }`}>
+                {settings.adaptiveLevel && <CheckSquare className="w-3.5 h-3.5" />}
+              </div>
+              <div>
+                <span className="block font-medium text-gray-900">Adapt to my progress</span>
+                <span className="text-xs text-gray-500">
+                  Estimates your level from how well you recall the cards of each level and how many words you know,
+                  starting from the level above.
+                </span>
+              </div>
+            </div>
+
+            {settings.adaptiveLevel && levelEstimate && (
+              <div className="flex items-center justify-between gap-4 p-4 rounded-lg border border-gray-200 text-sm">
+                <div>
+                  <span className="font-bold text-gray-900">Estimated level: {levelEstimate.level}</span>
+                  <span className="block text-xs text-gray-500">
+                    {levelEstimate.reason} {levelEstimate.knownWords} known words in total.
+                  </span>
+                </div>
+                <button
+                  onClick={() => refreshLevelEstimate().catch(err => {
+                    console.error("Failed to estimate level", err);
+                    alert("Could not estimate your level. Check console.");
+                  })}
+                  className="px-3 py-1.5 text-sm font-medium text-brand-700 border border-brand-200 rounded-lg hover:bg-brand-50"
+                >
+                  Re-estimate
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Content Analysis Config */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
           <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
@@ -203,7 +642,7 @@ export const Settings: React.FC = () => {
                   className="w-32 p-2.5 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
                 />
                 <p className="text-sm text-gray-500">
-                  Default is 1200 words. Smaller sections load faster; larger sections have more context.
+                  Default is 1200 words. Sections end at a heading, paragraph or sentence near this length and never exceed {hardMaximum(settings.segmentLength || 1200)} words. Smaller sections load faster; larger sections have more context. Existing texts can be split again from their card on the dashboard.
                 </p>
               </div>
             </div>
@@ -245,6 +684,20 @@ export const Settings: React.FC = () => {
           </div>
         </div>
 
+        {/* Known Words */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+             <h2 className="text-lg font-medium text-gray-800 flex items-center">
+               <Check className="w-5 h-5 mr-2 text-brand-600" />
+               Known Words
+             </h2>
+             <p className="text-sm text-gray-500 mt-1">
+               Words you already know are left out of new analyses.
+             </p>
+          </div>
+          <KnownWordsPanel />
+        </div>
+
         {/* TTS Engine Selection */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
           <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
@@ -263,10 +716,10 @@ export const Settings: React.FC = () => {
                   <div className={`w-4 h-4 rounded-full border mr-2 flex items-center justify-center ${settings.ttsEngine === 'gemini' ? 'border-brand-600' : 'border-gray-400'}`}>
                     {settings.ttsEngine === 'gemini' && <div className="w-2 h-2 rounded-full bg-brand-600"></div>}
                   </div>
-                  <span className="font-bold text-gray-900">Gemini AI (High Quality)</span>
+                  <span className="font-bold text-gray-900">AI Voice (High Quality)</span>
                 </div>
                 <p className="text-xs text-gray-600 ml-6">
-                  Uses Google's advanced AI voices. Sounds very natural but requires internet connection.
+                  Uses the AI voice model configured below. Sounds very natural but needs a reachable provider.
                 </p>
               </div>
 
@@ -288,6 +741,22 @@ export const Settings: React.FC = () => {
           </div>
         </div>
 
+        {/* API Keys */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-800 flex items-center">
+              <KeyRound className="w-5 h-5 mr-2 text-brand-600" />
+              API Keys
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Keys are stored in this browser only and are never included in backups.
+            </p>
+          </div>
+          <div className="p-6 space-y-4">
+            {PROVIDERS.map(p => <ApiKeyRow key={p.id} provider={p.id} />)}
+          </div>
+        </div>
+
         {/* AI Model Config */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
           <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
@@ -296,52 +765,153 @@ export const Settings: React.FC = () => {
               AI Model Configuration
             </h2>
             <p className="text-sm text-gray-500 mt-1">
-              Configure specific model versions. Only applies when "Gemini AI" is selected above.
+              Choose a provider and model for each task. Text-to-speech only applies when "AI Voice" is selected above.
             </p>
           </div>
 
           <div className="p-6 space-y-6">
+            <div 
+              onClick={() => handleChange('demoMode', !settings.demoMode)}
+              className={`cursor-pointer p-4 rounded-lg border flex items-start gap-3 transition-all ${
+                settings.demoMode ? 'border-amber-400 bg-amber-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <div className={`mt-0.5 w-5 h-5 rounded border flex items-center justify-center ${
+                 settings.demoMode ? 'bg-amber-500 border-amber-500 text-white' : 'border-gray-400 bg-white'
+              }`}>
+                {settings.demoMode && <CheckSquare className="w-3.5 h-3.5" />}
+              </div>
+              <div>
+                <span className="block font-medium text-gray-900">Demo Mode (no API key)</span>
+                <span className="text-xs text-gray-500">
+                  Replays recorded sample responses instead of calling a provider. Nothing is sent over the network; 
+                  only the bundled sample text gets real analysis.
+                  {credentials.gemini === 'missing' && ' No Gemini API key is configured on this device.'}
+                </span>
+              </div>
+            </div>
+
             <ModelSelector 
               label="Vocabulary Analysis" 
-              settingKey="analysisModel" 
-              presets={PRESET_MODELS.analysis} 
-              currentValue={settings.analysisModel}
-              onChange={handleChange}
+              task="analysis" 
+              presets="analysis" 
+              settings={settings}
+              onUpdate={updateSettings}
             />
             <ModelSelector 
-              label="Persian Translation" 
-              settingKey="translationModel" 
-              presets={PRESET_MODELS.generic} 
-              currentValue={settings.translationModel}
-              onChange={handleChange}
+              label="Translation" 
+              task="translation" 
+              presets="generic" 
+              settings={settings}
+              onUpdate={updateSettings}
             />
             <ModelSelector 
               label="Pronunciation Feedback" 
-              settingKey="pronunciationModel" 
-              presets={PRESET_MODELS.generic} 
-              currentValue={settings.pronunciationModel}
-              onChange={handleChange}
+              task="pronunciation" 
+              presets="generic" 
+              settings={settings}
+              onUpdate={updateSettings}
             />
             {settings.ttsEngine === 'gemini' && (
               <ModelSelector 
                 label="Text-to-Speech (TTS)" 
-                settingKey="ttsModel" 
-                presets={PRESET_MODELS.tts} 
-                currentValue={settings.ttsModel}
-                onChange={handleChange}
+                task="tts" 
+                presets="tts" 
+                settings={settings}
+                onUpdate={updateSettings}
               />
             )}
+
+            {usesOpenAI && (
+              <div className="bg-white p-4 rounded-lg border border-gray-200">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  OpenAI-compatible Base URL
+                </label>
+                <input
+                  type="text"
+                  value={settings.openaiBaseUrl}
+                  onChange={(e) => handleChange('openaiBaseUrl', e.target.value)}
+                  placeholder={DEFAULT_OPENAI_BASE_URL}
+                  className="w-full p-2.5 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+                />
+                <p className="text-xs text-gray-400 mt-2">
+                  Ollama: <code className="bg-gray-100 px-1 rounded">http://localhost:11434/v1</code>, 
+                  llama.cpp / LM Studio: <code className="bg-gray-100 px-1 rounded">http://localhost:8080/v1</code>. 
+                  The server must allow requests from this page (CORS), e.g. <code className="bg-gray-100 px-1 rounded">OLLAMA_ORIGINS=*</code>.
+                </p>
+              </div>
+            )}
+
+            <div className="bg-white p-4 rounded-lg border border-gray-200">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Request Limits (per provider)
+              </label>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min="1"
+                    max="10"
+                    value={settings.maxConcurrentRequests}
+                    onChange={(e) => handleChange('maxConcurrentRequests', Math.max(1, parseInt(e.target.value) || 1))}
+                    className="w-20 p-2 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+                  />
+                  at a time
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    value={settings.requestsPerMinute}
+                    onChange={(e) => handleChange('requestsPerMinute', Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-20 p-2 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+                  />
+                  per minute
+                </label>
+              </div>
+              <p className="text-xs text-gray-400 mt-2">
+                Rate-limited and server errors are retried with backoff. Set per minute to 0 for no limit, e.g. for local servers.
+              </p>
+            </div>
+
+            <AiCachePanel />
+            <UsagePanel />
           </div>
-          
+
           <div className="bg-blue-50 px-6 py-4 border-t border-blue-100 flex items-start">
             <AlertTriangle className="w-5 h-5 text-blue-600 mr-2 mt-0.5 flex-shrink-0" />
             <p className="text-sm text-blue-800">
-              <strong>Note:</strong> Custom models must be accessible via the Google GenAI API key provided in your environment. 
+              <strong>Note:</strong> Gemini models use the API key saved above. 
+              OpenAI-compatible models are sent to the Base URL above; local servers keep your texts on your machine.
+            </p>
+          </div>
+        </div>
+
+        {/* Prompt Templates */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-medium text-gray-800 flex items-center">
+              <FileJson className="w-5 h-5 mr-2 text-brand-600" />
+              Prompt Templates
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Adjust the instructions sent to the AI for each task. Placeholders in braces are filled in for every request.
             </p>
           </div>
+          <div className="p-6">
+            <PromptTemplatesPanel />
+          </div>
         </div>
       </div>
 
+      {importPreview && (
+        <ImportPreviewModal
+          preview={importPreview}
+          onCancel={() => setImportPreview(null)}
+          onConfirm={handleConfirmImport}
+        />
+      )}
+
       {/* Changelog Link */}
       <div className="flex justify-center mt-8">
         <Link 
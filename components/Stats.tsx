@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAppStore } from '../store/AppContext';
+import { Link } from 'react-router-dom';
+import { BarChart3, Flame, CalendarClock, Target, Layers, Loader2, PlayCircle } from 'lucide-react';
+import { Flashcard, ReviewLogEntry } from '../types';
+import {
+  DayBucket,
+  RetentionRow,
+  getDueForecast,
+  getRetentionBy,
+  getDailyReviewCounts,
+  getReviewStreak,
+  getMaturityBreakdown,
+} from '../services/stats';
+
+const FORECAST_DAYS = 30;
+const HISTORY_DAYS = 30;
+
+const DayBarChart: React.FC<{ data: DayBucket[]; color: string; emptyText: string }> = ({ data, color, emptyText }) => {
+  const max = Math.max(1, ...data.map(d => d.count));
+  const total = data.reduce((acc, d) => acc + d.count, 0);
+
+  if (total === 0) {
+    return <p className="text-sm text-gray-400 text-center py-10">{emptyText}</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-40">
+        {data.map(d => (
+          <div key={d.date} className="flex-1 h-full flex flex-col justify-end group relative">
+            <div
+              className={`${color} rounded-t transition-all`}
+              style={{ height: `${(d.count / max) * 100}%`, minHeight: d.count > 0 ? '2px' : 0 }}
+            />
+            <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 hidden group-hover:block bg-gray-900 text-white text-[10px] px-2 py-1 rounded whitespace-nowrap z-10">
+              {new Date(d.date).toLocaleDateString()}: {d.count}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-400 mt-2">
+        <span>{new Date(data[0].date).toLocaleDateString()}</span>
+        <span>{new Date(data[data.length - 1].date).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+};
+
+const RetentionTable: React.FC<{ title: string; rows: RetentionRow[] }> = ({ title, rows }) => (
+  <div>
+    <h3 className="text-sm font-medium text-gray-700 mb-3">{title}</h3>
+    {rows.length === 0 ? (
+      <p className="text-sm text-gray-400 bg-gray-50 rounded-lg p-4 text-center">Not enough reviews of learned cards yet.</p>
+    ) : (
+      <div className="space-y-3">
+        {rows.map(row => (
+          <div key={row.key}>
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+              <span className="font-medium capitalize">{row.key}</span>
+              <span>{Math.round(row.rate * 100)}% <span className="text-gray-400">({row.passed}/{row.reviews})</span></span>
+            </div>
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${row.rate >= 0.85 ? 'bg-green-500' : row.rate >= 0.7 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                style={{ width: `${row.rate * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const Stats: React.FC = () => {
+  const { getAllFlashcards, getReviewLog } = useAppStore();
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [logs, setLogs] = useState<ReviewLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    Promise.all([getAllFlashcards(), getReviewLog()])
+      .then(([allCards, allLogs]) => {
+        setCards(allCards);
+        setLogs(allLogs);
+      })
+      .catch(e => console.error("Failed to load statistics", e))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const forecast = useMemo(() => getDueForecast(cards, FORECAST_DAYS), [cards]);
+  const dailyReviews = useMemo(() => getDailyReviewCounts(logs, HISTORY_DAYS), [logs]);
+  const streak = useMemo(() => getReviewStreak(logs), [logs]);
+  const retentionByType = useMemo(() => getRetentionBy(logs, cards, c => c.type || 'vocabulary'), [logs, cards]);
+  const retentionByLevel = useMemo(() => getRetentionBy(logs, cards, c => String(c.level || 'Unknown')), [logs, cards]);
+  const maturity = useMemo(() => getMaturityBreakdown(cards), [cards]);
+
+  if (loading) {
+    return <div className="p-20 text-center"><Loader2 className="w-8 h-8 animate-spin mx-auto text-brand-600" /></div>;
+  }
+
+  const dueToday = forecast[0]?.count || 0;
+  const reviewsLast30 = dailyReviews.reduce((acc, d) => acc + d.count, 0);
+  const maxMaturity = Math.max(1, ...maturity.map(m => m.count));
+
+  return (
+    <div className="max-w-5xl mx-auto py-8 px-4">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <BarChart3 className="w-8 h-8 mr-3 text-brand-600" />
+          Statistics
+        </h1>
+        <p className="text-gray-500 mt-1">Track your workload, retention and study habits.</p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+        <div className="bg-white rounded-xl p-5 border border-gray-200">
+          <div className="flex items-center text-xs text-gray-500 uppercase font-bold mb-2">
+            <CalendarClock className="w-4 h-4 mr-1 text-brand-600" /> Due Today
+          </div>
+          <div className="text-3xl font-bold text-gray-900">{dueToday}</div>
+          {dueToday > 0 && (
+            <Link to="/review" className="text-xs text-brand-600 font-medium hover:text-brand-800 flex items-center mt-1">
+              <PlayCircle className="w-3 h-3 mr-1" /> Review now
+            </Link>
+          )}
+        </div>
+        <div className="bg-white rounded-xl p-5 border border-gray-200">
+          <div className="flex items-center text-xs text-gray-500 uppercase font-bold mb-2">
+            <Flame className="w-4 h-4 mr-1 text-orange-500" /> Streak
+          </div>
+          <div className="text-3xl font-bold text-gray-900">{streak.current} <span className="text-sm font-medium text-gray-400">days</span></div>
+          <div className="text-xs text-gray-400 mt-1">Longest: {streak.longest} days</div>
+        </div>
+        <div className="bg-white rounded-xl p-5 border border-gray-200">
+          <div className="flex items-center text-xs text-gray-500 uppercase font-bold mb-2">
+            <Target className="w-4 h-4 mr-1 text-green-600" /> Reviews (30d)
+          </div>
+          <div className="text-3xl font-bold text-gray-900">{reviewsLast30}</div>
+        </div>
+        <div className="bg-white rounded-xl p-5 border border-gray-200">
+          <div className="flex items-center text-xs text-gray-500 uppercase font-bold mb-2">
+            <Layers className="w-4 h-4 mr-1 text-purple-600" /> Total Cards
+          </div>
+          <div className="text-3xl font-bold text-gray-900">{cards.length}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-medium text-gray-800 mb-4">Due Forecast (next {FORECAST_DAYS} days)</h2>
+          <DayBarChart data={forecast} color="bg-brand-500" emptyText="No cards scheduled in this period." />
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-medium text-gray-800 mb-4">Daily Reviews (last {HISTORY_DAYS} days)</h2>
+          <DayBarChart data={dailyReviews} color="bg-green-500" emptyText="No reviews recorded yet." />
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-medium text-gray-800 mb-1">True Retention</h2>
+          <p className="text-xs text-gray-400 mb-4">Share of successful reviews for cards that had already been learned.</p>
+          <div className="space-y-6">
+            <RetentionTable title="By Analysis Type" rows={retentionByType} />
+            <RetentionTable title="By CEFR Level" rows={retentionByLevel} />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-medium text-gray-800 mb-4">Card Maturity</h2>
+          <div className="space-y-4">
+            {maturity.map(bucket => (
+              <div key={bucket.label}>
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span><span className="font-medium">{bucket.label}</span> <span className="text-gray-400">· {bucket.stages}</span></span>
+                  <span className="font-bold">{bucket.count}</span>
+                </div>
+                <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-purple-500 rounded-full" style={{ width: `${(bucket.count / maxMaturity) * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { ModelPrice, UsageRecord, UsageTask } from '../types';
+import { USAGE_TASK_LABELS, UsageTotals, formatCost, startOfMonth, summarizeUsage } from '../services/usage';
+
+type Period = 'month' | '30days' | 'all';
+
+const PERIODS: { id: Period; label: string }[] = [
+  { id: 'month', label: 'This month' },
+  { id: '30days', label: 'Last 30 days' },
+  { id: 'all', label: 'All time' },
+];
+
+const periodStart = (period: Period): number | undefined => {
+  if (period === 'month') return startOfMonth();
+  if (period === '30days') return Date.now() - 30 * 24 * 60 * 60 * 1000;
+  return undefined;
+};
+
+const formatTokens = (tokens: number) =>
+  tokens < 10_000 ? tokens.toLocaleString() : `${(tokens / 1000).toFixed(tokens < 1_000_000 ? 0 : 1)}k`;
+
+const UsageTable: React.FC<{ title: string; rows: [string, UsageTotals][] }> = ({ title, rows }) => (
+  <div>
+    <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{title}</h3>
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-400">
+          <th className="font-normal pb-1"></th>
+          <th className="font-normal pb-1 text-right">Calls</th>
+          <th className="font-normal pb-1 text-right">Input</th>
+          <th className="font-normal pb-1 text-right">Output</th>
+          <th className="font-normal pb-1 text-right">Cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([label, totals]) => (
+          <tr key={label} className="border-t border-gray-100">
+            <td className="py-1.5 pr-2 text-gray-700 truncate max-w-[12rem]" title={label}>{label}</td>
+            <td className="py-1.5 text-right text-gray-500">{totals.calls}</td>
+            <td className="py-1.5 text-right text-gray-500">{formatTokens(totals.promptTokens)}</td>
+            <td className="py-1.5 text-right text-gray-500">{formatTokens(totals.outputTokens)}</td>
+            <td className="py-1.5 text-right font-medium text-gray-800">{formatCost(totals.cost)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Most expensive first
+const byCost = (entries: [string, UsageTotals][]) => entries.sort((a, b) => b[1].cost - a[1].cost);
+
+/**
+ * Token usage report, price table and monthly budget for the AI Model Configuration section.
+ */
+export const UsagePanel: React.FC = () => {
+  const { settings, updateSettings, getUsageRecords, getArticleMetadata } = useAppStore();
+  const [period, setPeriod] = useState<Period>('month');
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [monthSpent, setMonthSpent] = useState(0);
+  const [newModel, setNewModel] = useState('');
+
+  useEffect(() => {
+    getUsageRecords(periodStart(period))
+      .then(setRecords)
+      .catch(e => console.error("Failed to load token usage", e));
+  }, [period]);
+
+  useEffect(() => {
+    getUsageRecords(startOfMonth())
+      .then(monthRecords => setMonthSpent(summarizeUsage(monthRecords, settings.modelPrices).total.cost))
+      .catch(e => console.error("Failed to load token usage", e));
+  }, [settings.modelPrices]);
+
+  const report = useMemo(() => summarizeUsage(records, settings.modelPrices), [records, settings.modelPrices]);
+
+  // Priced models plus any used model that has no price yet
+  const pricedModels = useMemo(
+    () => Array.from(new Set([...Object.keys(settings.modelPrices), ...Object.keys(report.byModel)])).sort(),
+    [settings.modelPrices, report]
+  );
+
+  const setPrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const current = settings.modelPrices[model] || { input: 0, output: 0 };
+    updateSettings({
+      modelPrices: { ...settings.modelPrices, [model]: { ...current, [field]: Math.max(0, parseFloat(value) || 0) } },
+    });
+  };
+
+  const removePrice = (model: string) => {
+    const { [model]: _removed, ...rest } = settings.modelPrices;
+    updateSettings({ modelPrices: rest });
+  };
+
+  const addModel = () => {
+    const model = newModel.trim();
+    if (!model || settings.modelPrices[model]) return;
+    updateSettings({ modelPrices: { ...settings.modelPrices, [model]: { input: 0, output: 0 } } });
+    setNewModel('');
+  };
+
+  const budget = settings.monthlyBudget;
+  const budgetUsed = budget > 0 ? Math.min(100, (monthSpent / budget) * 100) : 0;
+  const days = Object.entries(report.byDay).sort((a, b) => b[0].localeCompare(a[0])).slice(0, 14);
+  const articles = byCost(Object.entries(report.byArticle))
+    .slice(0, 10)
+    .map(([id, totals]): [string, UsageTotals] => [getArticleMetadata(id)?.title || 'Deleted article', totals]);
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="block text-sm font-medium text-gray-700">Token Usage &amp; Costs</label>
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden text-xs">
+          {PERIODS.map(p => (
+            <button
+              key={p.id}
+              onClick={() => setPeriod(p.id)}
+              className={`px-3 py-1.5 ${period === p.id ? 'bg-brand-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+          <label className="flex items-center gap-2">
+            Monthly budget $
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={budget}
+              onChange={(e) => updateSettings({ monthlyBudget: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-24 p-2 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+            />
+          </label>
+          <span className={monthSpent >= budget && budget > 0 ? 'text-red-600 font-medium' : 'text-gray-500'}>
+            {formatCost(monthSpent)} spent this month{budget > 0 && ` of ${formatCost(budget)}`}
+          </span>
+        </div>
+        {budget > 0 && (
+          <div className="h-2 bg-gray-100 rounded-full mt-2 overflow-hidden">
+            <div
+              className={`h-full ${budgetUsed >= 100 ? 'bg-red-500' : budgetUsed >= 80 ? 'bg-amber-500' : 'bg-brand-500'}`}
+              style={{ width: `${budgetUsed}%` }}
+            />
+          </div>
+        )}
+        <p className="text-xs text-gray-400 mt-2">
+          Background preparation asks for confirmation once 80% of the budget is spent. Set to 0 for no budget.
+        </p>
+      </div>
+
+      {report.total.calls === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-4">No AI requests recorded for this period.</p>
+      ) : (
+        <div className="space-y-5">
+          <p className="text-sm text-gray-600">
+            {report.total.calls} requests, {formatTokens(report.total.promptTokens)} input and {formatTokens(report.total.outputTokens)} output tokens,
+            about <strong>{formatCost(report.total.cost)}</strong>.
+          </p>
+          <UsageTable title="By model" rows={byCost(Object.entries(report.byModel))} />
+          <UsageTable
+            title="By task"
+            rows={byCost(Object.entries(report.byTask)).map(([task, totals]) => [USAGE_TASK_LABELS[task as UsageTask], totals])}
+          />
+          {articles.length > 0 && <UsageTable title="By article" rows={articles} />}
+          <UsageTable title="By day" rows={days.map(([day, totals]) => [new Date(`${day}T00:00`).toLocaleDateString(), totals])} />
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Prices (USD per million tokens)</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-400">
+              <th className="font-normal pb-1">Model</th>
+              <th className="font-normal pb-1">Input</th>
+              <th className="font-normal pb-1">Output</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {pricedModels.map(model => {
+              const price = settings.modelPrices[model];
+              return (
+                <tr key={model} className="border-t border-gray-100">
+                  <td className="py-1.5 pr-2 font-mono text-xs text-gray-700">
+                    {model}
+                    {!price && <span className="ml-2 font-sans text-amber-600">no price</span>}
+                  </td>
+                  {(['input', 'output'] as const).map(field => (
+                    <td key={field} className="py-1.5 pr-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={price?.[field] ?? 0}
+                        onChange={(e) => setPrice(model, field, e.target.value)}
+                        className="w-24 p-1.5 bg-white border border-gray-300 rounded focus:ring-2 focus:ring-brand-500 outline-none"
+                      />
+                    </td>
+                  ))}
+                  <td className="py-1.5 text-right">
+                    {price && (
+                      <button onClick={() => removePrice(model)} className="p-1 text-gray-400 hover:text-red-600" title="Remove price">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={newModel}
+            onChange={(e) => setNewModel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addModel()}
+            placeholder="Model name, e.g. gpt-4o"
+            className="flex-1 p-2 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+          />
+          <button
+            onClick={addModel}
+            disabled={!newModel.trim()}
+            className="flex items-center px-3 py-2 text-sm text-brand-600 border border-brand-200 rounded-lg hover:bg-brand-50 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4 mr-1" /> Add
+          </button>
+        </div>
+        <p className="text-xs text-gray-400 mt-2">
+          Costs are estimates from the token counts each provider reports. Models without a price count as free, e.g. local servers.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { Upload, Loader2, ArrowLeft, Sparkles, AlertCircle, FileSpreadsheet } from 'lucide-react';
+import { useAppStore } from '../store/AppContext';
+import { analyzeSingleWord } from '../services/geminiService';
+import { isTaskReady, resolveTask } from '../services/llm';
+import { ApiKeyNotice } from './ApiKeyNotice';
+import {
+  ParsedTable, ColumnMapping, MappableField, MAPPABLE_FIELDS,
+  parseDelimitedFile, parseKindleVocabDb, guessMapping, rowsToAnalyses, needsEnrichment, mergeEnrichment, IMPORTED_ARTICLE_ID
+} from '../services/vocabImport';
+
+const PREVIEW_ROWS = 5;
+
+const isSqliteFile = async (file: File) => {
+  const header = new TextDecoder().decode(await file.slice(0, 15).arrayBuffer());
+  return header === 'SQLite format 3';
+};
+
+export const VocabularyImport: React.FC = () => {
+  const { importVocabulary, settings } = useAppStore();
+  const navigate = useNavigate();
+
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ParsedTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [enrich, setEnrich] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [statusMessage, setStatusMessage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const items = useMemo(() => (table ? rowsToAnalyses(table, mapping) : []), [table, mapping]);
+  const incompleteCount = useMemo(() => items.filter(needsEnrichment).length, [items]);
+  // Enrichment is skipped rather than failing when the analysis provider has no key
+  const canEnrich = enrich && isTaskReady(settings, 'analysis');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setLoading(true);
+    setStatusMessage('Reading file...');
+    try {
+      const parsed = await isSqliteFile(file)
+        ? await parseKindleVocabDb(new Uint8Array(await file.arrayBuffer()))
+        : parseDelimitedFile(await file.text());
+      if (parsed.rows.length === 0) throw new Error("No words found in this file.");
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessMapping(parsed));
+    } catch (err: any) {
+      console.error("Vocabulary file parse failed", err);
+      setError(err.message || "Could not read this file.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setColumnField = (column: number, field: MappableField | '') => {
+    // A field can only come from one column; clear it elsewhere
+    setMapping(prev => prev.map((f, i) => i === column ? field : (field && f === field ? '' : f)));
+  };
+
+  const handleImport = async () => {
+    if (items.length === 0) return;
+    setLoading(true);
+    setError(null);
+    try {
+      let cards = items;
+      if (canEnrich && incompleteCount > 0) {
+        cards = [];
+        let done = 0;
+        for (const item of items) {
+          if (!needsEnrichment(item)) {
+            cards.push(item);
+            continue;
+          }
+          done++;
+          setStatusMessage(`Filling in details with AI (${done} of ${incompleteCount})...`);
+          try {
+            const enriched = await analyzeSingleWord(item.word, item.context || item.word, resolveTask(settings, 'analysis'), {
+              source: { articleId: IMPORTED_ARTICLE_ID },
+            });
+            cards.push(mergeEnrichment(item, enriched));
+          } catch (err) {
+            // Keep the word with whatever the file provided
+            console.error(`Enrichment failed for "${item.word}"`, err);
+            cards.push(item);
+          }
+        }
+      }
+
+      setStatusMessage('Saving cards...');
+      const { added, skipped } = await importVocabulary(cards);
+      alert(`Imported ${added} ${added === 1 ? 'card' : 'cards'}${skipped > 0 ? ` (${skipped} already in your library)` : ''}.`);
+      navigate('/cards');
+    } catch (err: any) {
+      console.error("Vocabulary import failed", err);
+      setError(err.message || "Import failed.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto py-8 px-4">
+      <Link to="/cards" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4">
+        <ArrowLeft className="w-4 h-4 mr-1" /> Back to Card Library
+      </Link>
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Import Word List</h1>
+      <p className="text-gray-500 mb-8">
+        Bring in vocabulary from CSV/TSV files, Anki "Notes in Plain Text" exports or a Kindle <code className="text-xs bg-gray-100 px-1 rounded">vocab.db</code>.
+        Cards are added under the "Imported Vocabulary" source.
+      </p>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-lg flex items-center">
+          <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <label className={`flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-xl p-8 mb-8 bg-white transition ${loading ? 'opacity-50 pointer-events-none' : 'cursor-pointer hover:border-brand-400 hover:bg-brand-50'}`}>
+        <Upload className="w-8 h-8 text-gray-400 mb-2" />
+        <span className="font-medium text-gray-700">{fileName || 'Choose a file'}</span>
+        <span className="text-xs text-gray-400 mt-1">.csv, .tsv, .txt or vocab.db</span>
+        <input type="file" accept=".csv,.tsv,.txt,.db" onChange={handleFile} className="hidden" />
+      </label>
+
+      {table && (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+          <h2 className="text-lg font-bold text-gray-900 mb-1 flex items-center">
+            <FileSpreadsheet className="w-5 h-5 mr-2 text-brand-600" />
+            Map Columns
+          </h2>
+          <p className="text-sm text-gray-500 mb-4">
+            {table.rows.length} rows found. Choose which card field each column fills; unmapped columns are ignored.
+          </p>
+
+          <div className="overflow-x-auto custom-scrollbar mb-6">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  {table.headers.map((header, i) => (
+                    <th key={i} className="text-left p-2 align-top border-b border-gray-200 min-w-[140px]">
+                      <div className="text-xs font-medium text-gray-400 mb-1 truncate">{header}</div>
+                      <select
+                        value={mapping[i] || ''}
+                        onChange={(e) => setColumnField(i, e.target.value as MappableField | '')}
+                        className="w-full p-1.5 border border-gray-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+                      >
+                        <option value="">Ignore</option>
+                        {MAPPABLE_FIELDS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                  <tr key={r} className="border-b border-gray-100">
+                    {table.headers.map((_, i) => (
+                      <td key={i} className={`p-2 max-w-[220px] truncate ${mapping[i] ? 'text-gray-800' : 'text-gray-300'}`}>{row[i]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <label className="flex items-start gap-3 p-4 rounded-lg border border-gray-200 mb-6 cursor-pointer hover:bg-gray-50">
+            <input type="checkbox" checked={canEnrich} disabled={!isTaskReady(settings, 'analysis')} onChange={(e) => setEnrich(e.target.checked)} className="mt-1" />
+            <div>
+              <div className="font-medium text-gray-900 flex items-center">
+                <Sparkles className="w-4 h-4 mr-1 text-brand-500" /> Fill in missing details with AI
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {incompleteCount} of {items.length} words lack a definition, translation or IPA.
+                Each one takes a separate request; values from your file are never overwritten.
+              </p>
+            </div>
+          </label>
+
+          {enrich && <ApiKeyNotice task="analysis" className="mb-6" />}
+
+          <button
+            onClick={handleImport}
+            disabled={loading || items.length === 0}
+            className="w-full py-3 bg-brand-600 text-white rounded-lg font-medium hover:bg-brand-700 transition flex justify-center items-center disabled:opacity-50"
+          >
+            {loading ? (
+              <><Loader2 className="w-5 h-5 mr-2 animate-spin" /> {statusMessage}</>
+            ) : (
+              `Import ${items.length} ${items.length === 1 ? 'word' : 'words'}`
+            )}
+          </button>
+          {!mapping.includes('word') && (
+            <p className="text-xs text-red-500 mt-2 text-center">Map one column to "Word" to continue.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
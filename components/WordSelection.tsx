@@ -1,13 +1,19 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { useAppStore } from '../store/AppContext';
-import { CheckCircle, Circle, ArrowRight, Loader2 } from 'lucide-react';
+import { CheckCircle, Circle, ArrowRight, Loader2, Check } from 'lucide-react';
 import { AnalysisType, ArticleSegment } from '../types';
+import { filterKnownWords } from '../services/knownWords';
+import { AnalysisIssuesNotice } from './AnalysisIssuesNotice';
+import { scriptProps } from '../services/languages';
 
 export const WordSelection: React.FC = () => {
   const { id, segmentIndex } = useParams<{ id: string; segmentIndex?: string }>();
-  const { getArticleMetadata, getSegment, approveWordsForSegment } = useAppStore();
+  const { getArticleMetadata, getSegment, approveWordsForSegment, knownLemmas, markLemmasKnown, settings } = useAppStore();
+  const native = scriptProps(settings.nativeLanguage);
   const navigate = useNavigate();
+  // Validation notes from the analysis that just ran; absent when the page is opened directly
+  const analysisIssues: string[] = (useLocation().state as { analysisIssues?: string[] } | null)?.analysisIssues || [];
   
   const currentIdx = segmentIndex ? parseInt(segmentIndex) : 0;
   const article = getArticleMetadata(id || '');
@@ -26,9 +32,12 @@ export const WordSelection: React.FC = () => {
   
   const [selected, setSelected] = useState<Set<string>>(new Set());
 
+  // Hide words marked as known since this segment was analyzed
+  const words = useMemo(() => segment ? filterKnownWords(segment.analyzedWords, knownLemmas) : [], [segment, knownLemmas]);
+
   useEffect(() => {
     if (segment) {
-      setSelected(new Set(segment.analyzedWords.map(w => w.lemma)));
+      setSelected(new Set(words.map(w => w.lemma)));
     }
   }, [segment]);
 
@@ -43,6 +52,19 @@ export const WordSelection: React.FC = () => {
     setSelected(next);
   };
 
+  const markKnown = async (lemma: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await markLemmasKnown([lemma]);
+      const next = new Set(selected);
+      next.delete(lemma);
+      setSelected(next);
+    } catch (err) {
+      console.error("Failed to mark word as known", err);
+      alert("Could not save the word. Please try again.");
+    }
+  };
+
   const handleConfirm = async () => {
     await approveWordsForSegment(article.id, currentIdx, Array.from(selected));
     navigate(`/read/${article.id}/${currentIdx}`);
@@ -75,13 +97,15 @@ export const WordSelection: React.FC = () => {
         </button>
       </div>
 
-      {segment.analyzedWords.length === 0 ? (
+      <AnalysisIssuesNotice issues={analysisIssues} />
+
+      {words.length === 0 ? (
         <div className="text-center py-12 bg-white rounded-xl border border-gray-200">
           <p className="text-gray-500">No difficult vocabulary identified in this section.</p>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {segment.analyzedWords.map((word, idx) => {
+          {words.map((word, idx) => {
             const isSelected = selected.has(word.lemma);
             const style = getTypeStyles(word.type);
             
@@ -105,10 +129,18 @@ export const WordSelection: React.FC = () => {
                   <p className="text-gray-400 font-mono text-xs mb-2">/{word.phonetic}/</p>
                 )}
                 
-                <p className="text-sm text-gray-600 mb-2 font-persian text-right" dir="rtl">{word.persianTranslation}</p>
+                <p className={`text-sm text-gray-600 mb-2 ${native.className}`} dir={native.dir} lang={native.lang}>{word.translation}</p>
                 <p className="text-xs text-gray-400 italic border-t pt-2 mt-2 border-gray-100 line-clamp-2">
                   "{word.context}"
                 </p>
+                {word.type === 'vocabulary' && (
+                  <button
+                    onClick={(e) => markKnown(word.lemma, e)}
+                    className="mt-2 text-xs text-gray-500 hover:text-gray-800 hover:underline flex items-center"
+                  >
+                    <Check className="w-3 h-3 mr-1" /> I know this
+                  </button>
+                )}
                 
                 <div className="absolute top-4 right-4">
                   {isSelected ? (
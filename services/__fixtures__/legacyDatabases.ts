@@ -0,0 +1,103 @@
+import { openDB } from 'idb';
+import { LinguaFlowDB } from '../db';
+import { runMigrations } from '../migrations';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DatabaseFixture {
+  version: number;
+  stores: Record<string, any[]>;
+}
+
+/**
+ * Builds a database exactly as an older release would have left it: the schema
+ * is created by running the migrations up to `fixture.version`, then records are
+ * written in the shape that version stored them.
+ */
+export const createFixtureDatabase = async (name: string, fixture: DatabaseFixture): Promise<void> => {
+  const db = await openDB<LinguaFlowDB>(name, fixture.version, {
+    upgrade(db, oldVersion, newVersion, transaction) {
+      return runMigrations(db, oldVersion, newVersion ?? fixture.version, transaction);
+    },
+  });
+
+  for (const [storeName, records] of Object.entries(fixture.stores)) {
+    const tx = db.transaction(storeName as any, 'readwrite');
+    for (const record of records) await tx.store.put(record);
+    await tx.done;
+  }
+  db.close();
+};
+
+const REVIEWED_AT = Date.UTC(2025, 0, 1);
+
+const baseCard = {
+  type: 'vocabulary',
+  articleId: 'article-1',
+  phonetic: '/ˈtest/',
+  partOfSpeech: 'noun',
+  collocations: [],
+  context: 'A sentence with a word.',
+  level: 'B2',
+  definition: 'A definition.',
+  persianTranslation: 'ترجمه',
+  exampleSentence: 'An example.',
+  createdAt: REVIEWED_AT - 30 * DAY_MS,
+};
+
+/** v1.9.0: doubling scheduler, only stage/nextReview on cards. */
+export const V1_FIXTURE: DatabaseFixture = {
+  version: 1,
+  stores: {
+    articles: [{ id: 'article-1', title: 'Legacy Article', segments: [], processedAt: REVIEWED_AT - 30 * DAY_MS }],
+    segments: [{
+      id: 'segment-1',
+      articleId: 'article-1',
+      index: 0,
+      title: 'Part 1',
+      content: 'A sentence with a word.',
+      analyzedWords: [],
+      approvedWordIds: ['word'],
+      isAnalyzed: true,
+    }],
+    flashcards: [
+      { ...baseCard, id: 'card-new', word: 'fresh', lemma: 'fresh', stage: 0, nextReview: REVIEWED_AT },
+      { ...baseCard, id: 'card-learned', word: 'word', lemma: 'word', stage: 3, nextReview: REVIEWED_AT + 8 * DAY_MS },
+    ],
+    settings: [{ id: 'config', analysisModel: 'gemini-2.5-flash', segmentLength: 800 }],
+  },
+};
+
+/** SM-2 scheduler without a review log. */
+export const V2_FIXTURE: DatabaseFixture = {
+  version: 2,
+  stores: {
+    flashcards: [
+      { ...baseCard, id: 'card-sm2', word: 'word', lemma: 'word', stage: 2, nextReview: REVIEWED_AT + 6 * DAY_MS, ease: 2.36, stability: 6, lapses: 1, lastReviewedAt: REVIEWED_AT },
+    ],
+  },
+};
+
+/** English→Persian only: `persianTranslation` fields and articles without a language. */
+export const V9_FIXTURE: DatabaseFixture = {
+  version: 9,
+  stores: {
+    articles: [{ id: 'article-1', title: 'Legacy Article', segments: [], processedAt: REVIEWED_AT, updatedAt: REVIEWED_AT }],
+    segments: [{
+      id: 'segment-1',
+      articleId: 'article-1',
+      index: 0,
+      title: 'Part 1',
+      content: 'A sentence with a word.',
+      analyzedWords: [{ ...baseCard, id: 'word', word: 'word', lemma: 'word' }],
+      approvedWordIds: ['word'],
+      isAnalyzed: true,
+      persianTranslation: 'یک جمله با یک کلمه.',
+    }],
+    flashcards: [
+      { ...baseCard, id: 'card-sm2', word: 'word', lemma: 'word', stage: 0, nextReview: REVIEWED_AT, ease: 2.5, stability: 0, lapses: 0, updatedAt: REVIEWED_AT },
+    ],
+  },
+};
+
+export const LEGACY_REVIEWED_AT = REVIEWED_AT;
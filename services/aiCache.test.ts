@@ -0,0 +1,93 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { nanoid } from 'nanoid';
+import { DatabaseService } from './db';
+import { createAiCache, cacheKey } from './aiCache';
+import { createMockProvider } from './mockProvider';
+import { DEMO_ARTICLE } from './mockFixtures';
+import { analyzeTextForVocabulary, analyzeSingleWord, translateFullText } from './geminiService';
+import { LLMProvider } from './llmProvider';
+
+// Mock provider that counts the requests actually sent
+const countingProvider = () => {
+  const mock = createMockProvider();
+  const calls = { json: 0, text: 0 };
+  const provider: LLMProvider = {
+    ...mock,
+    generateJson: request => { calls.json++; return mock.generateJson(request); },
+    generateText: request => { calls.text++; return mock.generateText(request); },
+  };
+  return { provider, calls };
+};
+
+describe('AI response cache', () => {
+  it('answers repeat requests without calling the provider', async () => {
+    const db = new DatabaseService(`cache-${nanoid()}`);
+    const { provider, calls } = countingProvider();
+    const llm = { provider, model: 'demo', cache: createAiCache(db, () => 5) };
+
+    const first = await analyzeTextForVocabulary(DEMO_ARTICLE.text, { level: 'B2' }, llm, ['vocabulary', 'grammar']);
+    const again = await analyzeTextForVocabulary(DEMO_ARTICLE.text, { level: 'B2' }, llm, ['grammar', 'vocabulary']);
+    const known = await analyzeTextForVocabulary(DEMO_ARTICLE.text, { level: 'B2' }, llm, ['vocabulary', 'grammar'], ['bleak']);
+    // Unmarking the word again brings back the full cached answer
+    const unmarked = await analyzeTextForVocabulary(DEMO_ARTICLE.text, { level: 'B2' }, llm, ['vocabulary', 'grammar'], ['lucid']);
+    await analyzeSingleWord('wick', 'He trimmed the wick.', llm);
+    await analyzeSingleWord('wick', 'He trimmed the wick.', llm);
+    await translateFullText('Hello there.', llm);
+    await translateFullText('Hello there.', llm);
+
+    // Known words that occur in the text change the prompt, so they get their own entry
+    expect(calls).toEqual({ json: 3, text: 1 });
+    expect(again.items).toEqual(first.items);
+    expect(known.items).toHaveLength(first.items.length - 1);
+    expect(known.items.map(i => i.lemma)).not.toContain('bleak');
+    expect(unmarked.items).toEqual(first.items);
+  });
+
+  it('keys on endpoint, model and enabled types', async () => {
+    expect(await cacheKey('analysis', 'gemini', 'a', 'text')).toBe(await cacheKey('analysis', 'gemini', 'a', 'text'));
+    expect(await cacheKey('analysis', 'gemini', 'a', 'text')).not.toBe(await cacheKey('analysis', 'gemini', 'b', 'text'));
+
+    const db = new DatabaseService(`cache-${nanoid()}`);
+    const { provider, calls } = countingProvider();
+    const cache = createAiCache(db, () => 5);
+    await analyzeTextForVocabulary(DEMO_ARTICLE.text, { level: 'B2' }, { provider, model: 'demo', cache }, ['vocabulary']);
+    await analyzeTextForVocabulary(DEMO_ARTICLE.text, { level: 'B2' }, { provider, model: 'demo', cache }, ['vocabulary', 'grammar']);
+    await analyzeTextForVocabulary(DEMO_ARTICLE.text, { level: 'B2' }, { provider, model: 'other', cache }, ['vocabulary']);
+    // Same model name on another OpenAI-compatible server
+    await analyzeTextForVocabulary(DEMO_ARTICLE.text, { level: 'B2' }, { provider: { ...provider, endpoint: 'http://localhost:11434/v1' }, model: 'demo', cache }, ['vocabulary']);
+
+    expect(calls.json).toBe(4);
+  });
+
+  it('evicts least recently used entries beyond the size limit', async () => {
+    const db = new DatabaseService(`cache-${nanoid()}`);
+    const value = 'x'.repeat(400 * 1024);
+    // 1 MB holds two of these entries
+    const cache = createAiCache(db, () => 1);
+
+    await cache.set('a', 'translation', value);
+    await new Promise(resolve => setTimeout(resolve, 2));
+    await cache.set('b', 'translation', value);
+    await new Promise(resolve => setTimeout(resolve, 2));
+    await cache.get('a');
+    await new Promise(resolve => setTimeout(resolve, 2));
+    await cache.set('c', 'translation', value);
+
+    expect(await db.getAiCacheEntry('a')).toBeDefined();
+    expect(await db.getAiCacheEntry('b')).toBeUndefined();
+    expect((await db.getAiCacheStats()).entries).toBe(2);
+
+    await db.clearAiCache();
+    expect(await db.getAiCacheStats()).toEqual({ entries: 0, bytes: 0 });
+  });
+
+  it('is bypassed when the limit is zero', async () => {
+    const db = new DatabaseService(`cache-${nanoid()}`);
+    const cache = createAiCache(db, () => 0);
+
+    await cache.set('a', 'translation', 'hello');
+    expect(await cache.get('a')).toBeUndefined();
+    expect((await db.getAiCacheStats()).entries).toBe(0);
+  });
+});
@@ -0,0 +1,64 @@
+import { AiCacheTask } from '../types';
+import { DatabaseService } from './db';
+
+/**
+ * Content-addressed cache for AI responses. Entries are keyed by a hash of
+ * everything that shapes the answer, so re-importing the same text or looking
+ * up the same word in the same sentence costs no request.
+ */
+
+// Bump when prompts or result shapes change so stale answers are never served
+const CACHE_VERSION = 2;
+const MB = 1024 * 1024;
+
+export interface AiCache {
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, task: AiCacheTask, value: unknown): Promise<void>;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 over the JSON of `parts`; callers pass the task, provider, endpoint, model and request inputs.
+ */
+export const cacheKey = async (...parts: unknown[]): Promise<string> => {
+  const data = new TextEncoder().encode(JSON.stringify([CACHE_VERSION, ...parts]));
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+/**
+ * `getMaxMb` is read on every call so the Settings limit applies immediately; 0 turns the cache off.
+ * Storage failures are logged and treated as misses: the cache must never break a request.
+ */
+export const createAiCache = (
+  db: Pick<DatabaseService, 'getAiCacheEntry' | 'putAiCacheEntry' | 'touchAiCacheEntry' | 'evictAiCache'>,
+  getMaxMb: () => number
+): AiCache => ({
+  async get<T>(key: string) {
+    if (getMaxMb() <= 0) return undefined;
+    try {
+      const entry = await db.getAiCacheEntry(key);
+      if (!entry) return undefined;
+      await db.touchAiCacheEntry(key, Date.now());
+      return entry.value as T;
+    } catch (e) {
+      console.warn("AI cache read failed", e);
+      return undefined;
+    }
+  },
+
+  async set(key, task, value) {
+    const maxBytes = getMaxMb() * MB;
+    if (maxBytes <= 0) return;
+    const size = new TextEncoder().encode(JSON.stringify(value)).length;
+    if (size > maxBytes) return;
+    try {
+      const now = Date.now();
+      await db.putAiCacheEntry({ key, task, value, size, createdAt: now, lastUsedAt: now });
+      await db.evictAiCache(maxBytes);
+    } catch (e) {
+      console.warn("AI cache write failed", e);
+    }
+  },
+});
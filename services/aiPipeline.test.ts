@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { createRateLimiter, runRequest, backoffDelay, RetryInfo } from './aiPipeline';
+import { ProviderError } from './llmProvider';
+
+const fast = { retries: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+// Fails with the given errors in order, then succeeds
+const flaky = (...errors: Error[]) => {
+  let calls = 0;
+  const task = async () => {
+    calls++;
+    if (errors.length > 0) throw errors.shift();
+    return 'ok';
+  };
+  return { task, calls: () => calls };
+};
+
+describe('AI request pipeline', () => {
+  it('retries rate limits and server errors with backoff', async () => {
+    const { task, calls } = flaky(new ProviderError('slow down', 429), new ProviderError('boom', 503));
+    const retries: RetryInfo[] = [];
+
+    expect(await runRequest(task, { onRetry: info => retries.push(info) }, undefined, fast)).toBe('ok');
+    expect(calls()).toBe(3);
+    expect(retries.map(r => [r.attempt, r.error.status])).toEqual([[1, 429], [2, 503]]);
+  });
+
+  it('gives up on client errors and after the last retry', async () => {
+    const badRequest = flaky(new ProviderError('bad request', 400));
+    await expect(runRequest(badRequest.task, {}, undefined, fast)).rejects.toThrow('bad request');
+    expect(badRequest.calls()).toBe(1);
+
+    const limited = flaky(...Array.from({ length: 5 }, () => new ProviderError('limited', 429)));
+    await expect(runRequest(limited.task, {}, undefined, fast)).rejects.toThrow('limited');
+    expect(limited.calls()).toBe(4);
+  });
+
+  it('prefers Retry-After and caps the delay', () => {
+    const policy = { retries: 3, baseDelayMs: 1000, maxDelayMs: 5000 };
+    expect(backoffDelay(1, new ProviderError('x', 429), policy)).toBe(1000);
+    expect(backoffDelay(3, new ProviderError('x', 429), policy)).toBe(4000);
+    expect(backoffDelay(1, new ProviderError('x', 429, 2500), policy)).toBe(2500);
+    expect(backoffDelay(5, new ProviderError('x', 429), policy)).toBe(5000);
+  });
+
+  it('stops waiting as soon as the request is cancelled', async () => {
+    const controller = new AbortController();
+    const { task, calls } = flaky(new ProviderError('limited', 429));
+    const request = runRequest(task, { signal: controller.signal, onRetry: () => controller.abort() }, undefined, { ...fast, baseDelayMs: 60_000, maxDelayMs: 60_000 });
+
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    expect(calls()).toBe(1);
+  });
+
+  it('limits concurrent requests', async () => {
+    const limiter = createRateLimiter({ concurrency: 2, requestsPerMinute: 0 });
+    let active = 0;
+    let peak = 0;
+    const task = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+    };
+
+    await Promise.all(Array.from({ length: 5 }, () => limiter.run(task)));
+    expect(peak).toBe(2);
+  });
+
+  it('holds requests over the per-minute budget until cancelled', async () => {
+    const limiter = createRateLimiter({ concurrency: 5, requestsPerMinute: 1 });
+    await limiter.run(async () => 'first');
+
+    const controller = new AbortController();
+    const second = limiter.run(async () => 'second', controller.signal);
+    controller.abort();
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
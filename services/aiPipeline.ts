@@ -0,0 +1,146 @@
+import { ProviderError } from './llmProvider';
+import { UsageSource } from '../types';
+
+/**
+ * Shared request pipeline for AI calls: a per-provider limiter for concurrency
+ * and requests per minute, exponential backoff on 429/5xx, and cancellation
+ * through AbortSignal at every wait.
+ */
+
+const MINUTE_MS = 60_000;
+
+export interface RetryInfo {
+  attempt: number; // 1-based number of the retry about to happen
+  delayMs: number;
+  error: ProviderError;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+  source?: UsageSource; // Article or card the tokens are booked against
+}
+
+export interface RateLimiter {
+  run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+}
+
+export interface LimiterOptions {
+  concurrency: number;
+  requestsPerMinute: number; // 0 = unlimited
+}
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY: RetryPolicy = { retries: 3, baseDelayMs: 1000, maxDelayMs: 30_000 };
+
+export const isAbortError = (error: unknown): boolean =>
+  (error as any)?.name === 'AbortError';
+
+export const isRetryable = (error: unknown): error is ProviderError =>
+  error instanceof ProviderError && error.status !== undefined && (error.status === 429 || error.status >= 500);
+
+/**
+ * Delay before retry number `attempt` (1-based), honouring the server's Retry-After when given.
+ */
+export const backoffDelay = (attempt: number, error: ProviderError, policy: RetryPolicy = DEFAULT_RETRY): number => {
+  if (error.retryAfterMs) return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  return Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+};
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError as soon as the signal fires.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const createRateLimiter = ({ concurrency, requestsPerMinute }: LimiterOptions): RateLimiter => {
+  let active = 0;
+  const starts: number[] = []; // Start times within the last minute
+  const waiters = new Set<() => void>();
+  const wakeAll = () => waiters.forEach(wake => wake());
+
+  const acquire = async (signal?: AbortSignal) => {
+    while (true) {
+      signal?.throwIfAborted();
+      const now = Date.now();
+      while (starts.length > 0 && now - starts[0] >= MINUTE_MS) starts.shift();
+      const rateFull = requestsPerMinute > 0 && starts.length >= requestsPerMinute;
+      if (active < Math.max(1, concurrency) && !rateFull) {
+        active++;
+        starts.push(now);
+        return;
+      }
+      // Wait for a slot to free up, the rate window to move, or cancellation; then re-check
+      await new Promise<void>(resolve => {
+        const done = () => {
+          waiters.delete(done);
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', done);
+          resolve();
+        };
+        const timer = rateFull ? setTimeout(done, starts[0] + MINUTE_MS - now) : undefined;
+        waiters.add(done);
+        signal?.addEventListener('abort', done, { once: true });
+      });
+    }
+  };
+
+  return {
+    async run(task, signal) {
+      await acquire(signal);
+      try {
+        return await task();
+      } finally {
+        active--;
+        wakeAll();
+      }
+    },
+  };
+};
+
+/**
+ * Runs one AI request through the limiter, retrying transient failures with backoff.
+ * Each attempt takes its own limiter slot so waiting out a backoff never blocks other requests.
+ */
+export const runRequest = async <T>(
+  task: (signal?: AbortSignal) => Promise<T>,
+  { signal, onRetry }: RequestOptions = {},
+  limiter?: RateLimiter,
+  policy: RetryPolicy = DEFAULT_RETRY
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return limiter ? await limiter.run(() => task(signal), signal) : await task(signal);
+    } catch (error) {
+      if (signal?.aborted || !isRetryable(error) || attempt > policy.retries) throw error;
+      const delayMs = backoffDelay(attempt, error, policy);
+      onRetry?.({ attempt, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+/**
+ * Status line for loading states while a request waits out a backoff.
+ */
+export const describeRetry = ({ attempt, delayMs, error }: RetryInfo, retries = DEFAULT_RETRY.retries): string => {
+  const reason = error.status === 429 ? 'Rate limited' : `Server error (${error.status})`;
+  return `${reason}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${retries})...`;
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { validateAnalysis, validateWordAnalysis, validatePronunciation } from './aiValidation';
+import { ProviderError } from './llmProvider';
+
+const item = (overrides: Record<string, unknown> = {}) => ({
+  type: 'vocabulary',
+  word: 'bleak',
+  lemma: 'bleak',
+  context: 'The sea was bleak.',
+  level: 'B2',
+  definition: 'Cold and empty.',
+  translation: 'دلگیر',
+  exampleSentence: 'A bleak winter.',
+  collocations: ['bleak outlook'],
+  ...overrides,
+});
+
+describe('AI output validation', () => {
+  it('keeps clean items untouched', () => {
+    const { items, issues } = validateAnalysis([item()]);
+
+    expect(items).toEqual([{ ...item(), phonetic: undefined, partOfSpeech: undefined }]);
+    expect(issues).toEqual([]);
+  });
+
+  it('repairs what it can and reports it', () => {
+    const { items, issues } = validateAnalysis({ items: [
+      item({ level: 'c1 (advanced)', collocations: 'bleak outlook; bleak future', exampleSentence: '' }),
+      item({ type: 'grammar', lemma: 'inversion', word: 'Had I known', level: undefined }),
+    ] });
+
+    expect(items[0]).toMatchObject({ level: 'C1', collocations: ['bleak outlook', 'bleak future'] });
+    expect(items[1].level).toBe('Advanced');
+    expect(issues).toEqual(['"bleak": level "c1 (advanced)" read as C1', '"bleak": missing exampleSentence']);
+  });
+
+  it('drops items it cannot trust', () => {
+    const { items, issues } = validateAnalysis([
+      item(),
+      item({ word: 'Bleak', lemma: 'Bleak' }),
+      item({ lemma: '' }),
+      item({ lemma: 'gloom', type: 'slang' }),
+      item({ lemma: 'gloom', level: 'expert' }),
+      'gloom',
+    ]);
+
+    expect(items.map(i => i.lemma)).toEqual(['bleak']);
+    expect(issues).toEqual([
+      'Item 2 dropped: duplicate of "Bleak"',
+      'Item 3 dropped: "bleak" has no lemma',
+      'Item 4 dropped: invalid type "slang"',
+      'Item 5 dropped: "bleak" has invalid level "expert"',
+      'Item 6 dropped: not an object',
+    ]);
+    expect(() => validateAnalysis('no list')).toThrow(ProviderError);
+  });
+
+  it('fills single-word lookups from the request and rejects empty answers', () => {
+    expect(validateWordAnalysis({ definition: 'A lamp part.' }, 'Wick', 'He trimmed the wick.'))
+      .toMatchObject({ word: 'wick', lemma: 'wick', context: 'He trimmed the wick.', level: 'B2' });
+    expect(() => validateWordAnalysis({ word: 'wick' }, 'wick', 'ctx')).toThrow(ProviderError);
+  });
+
+  it('clamps pronunciation scores and ignores malformed words', () => {
+    expect(validatePronunciation({ score: 112.4, feedback: ' ok ', correctedWords: [{ word: 'sea', status: 'correct' }, { word: 'x', status: 'odd' }, null] }))
+      .toEqual({ score: 100, feedback: 'ok', correctedWords: [{ word: 'sea', status: 'correct' }] });
+    expect(() => validatePronunciation({ feedback: 'no score' })).toThrow(ProviderError);
+  });
+});
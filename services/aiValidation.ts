@@ -0,0 +1,119 @@
+import { AnalysisType, WordAnalysis } from '../types';
+import { PronunciationResult } from './geminiService';
+import { ProviderError } from './llmProvider';
+import { CEFR_LEVELS } from './learnerLevel';
+
+/**
+ * Runtime checks for model output. Models occasionally drop fields, invent
+ * categories or answer with the wrong shape; these validators repair what can
+ * be repaired, drop what cannot, and describe every change for the UI.
+ */
+
+export interface ValidatedList<T> {
+  items: T[];
+  issues: string[];
+}
+
+const ANALYSIS_TYPES: AnalysisType[] = ['vocabulary', 'grammar', 'literary', 'historical'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const text = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+// Returns the repaired item or the reason it was dropped; `repairs` collects silent fixes.
+const validateAnalysisItem = (raw: unknown, repairs: string[]): WordAnalysis | string => {
+  if (!isObject(raw)) return 'not an object';
+
+  const type = raw.type === undefined || raw.type === '' ? 'vocabulary' : text(raw.type).toLowerCase();
+  if (!ANALYSIS_TYPES.includes(type as AnalysisType)) return `invalid type "${raw.type}"`;
+
+  const word = text(raw.word);
+  const lemma = text(raw.lemma);
+  const context = text(raw.context);
+  if (!lemma) return `"${word || '?'}" has no lemma`;
+  if (!context) return `"${word || lemma}" has no context sentence`;
+
+  // "b2", "C1 (advanced)" and similar are normalized; anything else is rejected
+  const rawLevel = text(raw.level);
+  let level: string = CEFR_LEVELS.find(l => rawLevel.toUpperCase().startsWith(l)) || (/^advanced$/i.test(rawLevel) ? 'Advanced' : '');
+  if (!level && !rawLevel && type !== 'vocabulary') level = 'Advanced';
+  if (!level) return rawLevel ? `"${word || lemma}" has invalid level "${rawLevel}"` : `"${word || lemma}" has no level`;
+  if (rawLevel && level.toUpperCase() !== rawLevel.toUpperCase()) repairs.push(`"${word || lemma}": level "${rawLevel}" read as ${level}`);
+
+  let collocations: string[] = [];
+  if (Array.isArray(raw.collocations)) {
+    collocations = raw.collocations.map(text).filter(Boolean);
+  } else if (typeof raw.collocations === 'string') {
+    collocations = raw.collocations.split(/[,;]/).map(text).filter(Boolean);
+  }
+
+  const missing = (['definition', 'translation', 'exampleSentence'] as const).filter(k => !text(raw[k]));
+  if (missing.length > 0) repairs.push(`"${word || lemma}": missing ${missing.join(', ')}`);
+
+  return {
+    type: type as AnalysisType,
+    word: word || lemma,
+    lemma,
+    phonetic: text(raw.phonetic) || undefined,
+    partOfSpeech: text(raw.partOfSpeech) || undefined,
+    collocations,
+    context,
+    level,
+    definition: text(raw.definition),
+    translation: text(raw.translation),
+    exampleSentence: text(raw.exampleSentence),
+  };
+};
+
+/**
+ * Validates a full-text analysis. Duplicate lemmas keep their first occurrence.
+ */
+export const validateAnalysis = (raw: unknown): ValidatedList<WordAnalysis> => {
+  // Some models wrap the list in an object ({ items: [...] })
+  const list = Array.isArray(raw) ? raw : isObject(raw) ? Object.values(raw).find(Array.isArray) : undefined;
+  if (!list) throw new ProviderError('The model did not return a list of items.');
+
+  const items: WordAnalysis[] = [];
+  const issues: string[] = [];
+  const seen = new Set<string>();
+  list.forEach((entry, i) => {
+    const result = validateAnalysisItem(entry, issues);
+    if (typeof result === 'string') {
+      issues.push(`Item ${i + 1} dropped: ${result}`);
+    } else if (seen.has(result.lemma.toLowerCase())) {
+      issues.push(`Item ${i + 1} dropped: duplicate of "${result.lemma}"`);
+    } else {
+      seen.add(result.lemma.toLowerCase());
+      items.push(result);
+    }
+  });
+  return { items, issues };
+};
+
+/**
+ * Validates a single-word lookup; throws when the answer is unusable.
+ */
+export const validateWordAnalysis = (raw: unknown, fallbackWord: string, fallbackContext: string): WordAnalysis => {
+  const repaired = isObject(raw)
+    ? { ...raw, type: 'vocabulary', lemma: text(raw.lemma) || fallbackWord.toLowerCase(), context: text(raw.context) || fallbackContext, level: raw.level || 'B2' }
+    : raw;
+  const result = validateAnalysisItem(repaired, []);
+  if (typeof result === 'string') throw new ProviderError(`The model returned an unusable answer: ${result}.`);
+  if (!result.definition && !result.translation) throw new ProviderError('The model returned no definition or translation.');
+  return result;
+};
+
+const WORD_STATUSES: PronunciationResult['correctedWords'][number]['status'][] = ['correct', 'mispronounced', 'missing'];
+
+export const validatePronunciation = (raw: unknown): PronunciationResult => {
+  if (!isObject(raw) || typeof raw.score !== 'number' || !Number.isFinite(raw.score)) {
+    throw new ProviderError('The model returned no pronunciation score.');
+  }
+  return {
+    score: Math.round(Math.min(100, Math.max(0, raw.score))),
+    feedback: text(raw.feedback),
+    correctedWords: (Array.isArray(raw.correctedWords) ? raw.correctedWords : [])
+      .filter(w => isObject(w) && text(w.word) && WORD_STATUSES.includes(w.status))
+      .map(w => ({ word: text(w.word), status: w.status })),
+  };
+};
@@ -0,0 +1,137 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { nanoid } from 'nanoid';
+import { DatabaseService } from './db';
+import { createAnalysisQueue } from './analysisQueue';
+import { DEMO_ARTICLE } from './mockFixtures';
+import { AnalysisJob, AppSettings, Article, ArticleSegment } from '../types';
+
+const demo = { demoMode: true, enabledTypes: ['vocabulary', 'grammar', 'literary'] } as AppSettings;
+const noKey = { ...demo, demoMode: false, analysisProvider: 'gemini', translationProvider: 'gemini' } as AppSettings;
+
+const PARTS = [
+  DEMO_ARTICLE.text,
+  'The harbourmaster recorded unprecedented tides throughout September.',
+  'Fishermen remembered the lighthouse long after its abandonment.',
+];
+
+const addBook = async (db: DatabaseService) => {
+  const id = nanoid();
+  const segments: ArticleSegment[] = PARTS.map((content, index) => ({
+    id: nanoid(),
+    index,
+    title: `Part ${index + 1}`,
+    content,
+    analyzedWords: [],
+    approvedWordIds: [],
+    isAnalyzed: false,
+  }));
+  const article: Article = { id, title: 'Book', segments, language: 'en', processedAt: 0, updatedAt: 0 };
+  await db.addArticle(article, segments);
+  return id;
+};
+
+const setup = (db: DatabaseService, settings: { current: AppSettings }) => {
+  const jobs = new Map<string, AnalysisJob | undefined>();
+  const analyzed: number[] = [];
+  const queue = createAnalysisQueue({
+    db,
+    getSettings: () => settings.current,
+    getKnownLemmas: () => [],
+    getLearner: () => ({ level: 'B2' }),
+    onJobChange: (id, job) => jobs.set(id, job),
+    onSegmentChange: (_, segment) => analyzed.push(segment.index),
+  });
+  return { queue, jobs, analyzed };
+};
+
+describe('background analysis queue', () => {
+  it('analyzes and translates every queued part', async () => {
+    const db = new DatabaseService(`queue-${nanoid()}`);
+    const articleId = await addBook(db);
+    const { queue, jobs } = setup(db, { current: demo });
+
+    await queue.enqueue(articleId, [0, 1, 2], true);
+    await queue.idle();
+
+    expect(jobs.get(articleId)).toMatchObject({ status: 'done', pending: [], total: 3 });
+    for (const index of [0, 1, 2]) {
+      const segment = await db.getSegment(articleId, index);
+      expect(segment?.isAnalyzed).toBe(true);
+      expect(segment?.translation).toBeTruthy();
+    }
+    // The lightweight article list reflects the analysis after a reload
+    expect((await db.getArticle(articleId))?.segments.every(s => s.isAnalyzed)).toBe(true);
+  });
+
+  it('pauses, resumes and cancels', async () => {
+    const db = new DatabaseService(`queue-${nanoid()}`);
+    const articleId = await addBook(db);
+    const { queue, jobs } = setup(db, { current: demo });
+
+    await queue.enqueue(articleId, [1, 2], false);
+    await queue.pause(articleId);
+    await queue.idle();
+    expect(jobs.get(articleId)).toMatchObject({ status: 'paused', pending: [1, 2] });
+    expect((await db.getSegment(articleId, 1))?.isAnalyzed).toBe(false);
+
+    await queue.resume(articleId);
+    await queue.idle();
+    expect(jobs.get(articleId)?.status).toBe('done');
+
+    await queue.cancel(articleId);
+    expect(jobs.get(articleId)).toBeUndefined();
+    expect(await db.getAnalysisJobs()).toEqual([]);
+  });
+
+  it('picks up interrupted jobs after a reload', async () => {
+    const db = new DatabaseService(`queue-${nanoid()}`);
+    const articleId = await addBook(db);
+    await db.saveAnalysisJob({ articleId, status: 'running', translate: false, pending: [2], total: 2, createdAt: 0, updatedAt: 0 });
+
+    const { queue, jobs } = setup(db, { current: demo });
+    await queue.restore();
+    await queue.idle();
+
+    expect(jobs.get(articleId)?.status).toBe('done');
+    expect((await db.getSegment(articleId, 2))?.isAnalyzed).toBe(true);
+    expect((await db.getSegment(articleId, 1))?.isAnalyzed).toBe(false);
+  });
+
+  it('waits for an API key instead of failing', async () => {
+    const db = new DatabaseService(`queue-${nanoid()}`);
+    const articleId = await addBook(db);
+    const settings = { current: noKey };
+    const { queue, jobs } = setup(db, settings);
+
+    await queue.enqueue(articleId, [0], false);
+    await queue.idle();
+    expect(jobs.get(articleId)).toMatchObject({ status: 'queued', pending: [0] });
+    expect(jobs.get(articleId)?.error).toContain('No API key');
+
+    settings.current = demo;
+    queue.kick();
+    await queue.idle();
+    expect(jobs.get(articleId)).toMatchObject({ status: 'done', error: undefined });
+  });
+
+  it('moves a part that is about to be read to the front of its job', async () => {
+    const db = new DatabaseService(`queue-${nanoid()}`);
+    const articleId = await addBook(db);
+    const settings = { current: noKey };
+    const { queue, jobs, analyzed } = setup(db, settings);
+
+    await queue.enqueue(articleId, [0, 1, 2], false);
+    await queue.idle();
+    expect(await queue.prioritize(articleId, 2)).toBe(true);
+    expect(jobs.get(articleId)?.pending).toEqual([2, 0, 1]);
+    expect(await queue.prioritize('other', 2)).toBe(false);
+
+    settings.current = demo;
+    queue.kick();
+    await queue.idle();
+    expect(analyzed).toEqual([2, 0, 1]);
+    expect(jobs.get(articleId)).toMatchObject({ status: 'done', pending: [] });
+    expect(await queue.prioritize(articleId, 2)).toBe(false);
+  });
+});
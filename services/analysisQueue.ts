@@ -0,0 +1,207 @@
+import { AnalysisJob, AppSettings, ArticleSegment, LearnerProfile } from '../types';
+import { DatabaseService } from './db';
+import { analyzeTextForVocabulary, translateFullText } from './geminiService';
+import { MissingKeyError, resolveTask } from './llm';
+import { isAbortError } from './aiPipeline';
+
+/**
+ * Background preparation of whole books: one persisted job per article works
+ * through its parts in order, analyzing (and optionally translating) each one.
+ * Jobs run one at a time; the provider rate limiter paces the requests inside them.
+ */
+
+export interface AnalysisQueueOptions {
+  db: Pick<DatabaseService, 'getAnalysisJobs' | 'saveAnalysisJob' | 'deleteAnalysisJob' | 'getArticle' | 'getSegment' | 'updateSegment'>;
+  getSettings: () => AppSettings;
+  getKnownLemmas: () => string[];
+  getLearner: () => LearnerProfile;
+  onJobChange: (articleId: string, job: AnalysisJob | undefined) => void;
+  onSegmentChange?: (articleId: string, segment: ArticleSegment) => void;
+}
+
+export interface AnalysisQueue {
+  /** Loads persisted jobs after a reload and continues the ones that were running. */
+  restore(): Promise<AnalysisJob[]>;
+  /** Replaces any existing job for the article. */
+  enqueue(articleId: string, segmentIndexes: number[], translate: boolean): Promise<void>;
+  pause(articleId: string): Promise<void>;
+  resume(articleId: string): Promise<void>;
+  cancel(articleId: string): Promise<void>;
+  /** Moves a part to the front of its article's job. False if no active job will process it. */
+  prioritize(articleId: string, segmentIndex: number): Promise<boolean>;
+  /** Retries jobs that were waiting for an API key. */
+  kick(): void;
+  /** Resolves once no job is running. */
+  idle(): Promise<void>;
+}
+
+export const createAnalysisQueue = ({ db, getSettings, getKnownLemmas, getLearner, onJobChange, onSegmentChange }: AnalysisQueueOptions): AnalysisQueue => {
+  const jobs = new Map<string, AnalysisJob>();
+  const waitingForKey = new Set<string>();
+  let current: { articleId: string; controller: AbortController } | null = null;
+  let worker: Promise<void> | null = null;
+
+  const save = async (job: AnalysisJob): Promise<AnalysisJob> => {
+    const updated = { ...job, updatedAt: Date.now() };
+    jobs.set(job.articleId, updated);
+    onJobChange(job.articleId, updated);
+    await db.saveAnalysisJob(updated);
+    return updated;
+  };
+
+  const saveSegment = async (articleId: string, segment: ArticleSegment) => {
+    await db.updateSegment(segment);
+    onSegmentChange?.(articleId, segment);
+  };
+
+  // Each step is saved on its own so a failed translation keeps the finished analysis
+  const processSegment = async (job: AnalysisJob, index: number, language: string | undefined, signal: AbortSignal) => {
+    let segment = await db.getSegment(job.articleId, index);
+    if (!segment) return;
+    const settings = getSettings();
+
+    if (!segment.isAnalyzed) {
+      const { items } = await analyzeTextForVocabulary(
+        segment.content, getLearner(), resolveTask(settings, 'analysis', language), settings.enabledTypes, getKnownLemmas(),
+        { signal, source: { articleId: job.articleId } }
+      );
+      segment = { ...segment, analyzedWords: items, isAnalyzed: true };
+      await saveSegment(job.articleId, segment);
+    }
+    if (job.translate && !segment.translation) {
+      const translation = await translateFullText(segment.content, resolveTask(settings, 'translation', language), {
+        signal,
+        source: { articleId: job.articleId },
+      });
+      await saveSegment(job.articleId, { ...segment, translation });
+    }
+  };
+
+  const runJob = async (articleId: string) => {
+    const controller = new AbortController();
+    current = { articleId, controller };
+    try {
+      await save({ ...jobs.get(articleId)!, status: 'running', error: undefined });
+      const language = (await db.getArticle(articleId))?.language;
+      while (true) {
+        // Pause and cancel change the job and abort; stop without overwriting their state
+        const job = jobs.get(articleId);
+        if (!job || job.status !== 'running' || controller.signal.aborted) return;
+        if (job.pending.length === 0) {
+          await save({ ...job, status: 'done' });
+          return;
+        }
+        const index = job.pending[0];
+        await processSegment(job, index, language, controller.signal);
+        if (controller.signal.aborted) return;
+        // Read the job again: a part may have been moved up meanwhile
+        const latest = jobs.get(articleId)!;
+        await save({ ...latest, pending: latest.pending.filter(i => i !== index) });
+      }
+    } catch (error: any) {
+      const job = jobs.get(articleId);
+      if (isAbortError(error) || !job || job.status !== 'running') return;
+      if (error instanceof MissingKeyError) {
+        waitingForKey.add(articleId);
+        await save({ ...job, status: 'queued', error: error.message });
+      } else {
+        console.error(`Background analysis failed for ${articleId}`, error);
+        await save({ ...job, status: 'failed', error: error.message || 'Analysis failed.' });
+      }
+    } finally {
+      current = null;
+    }
+  };
+
+  const nextJob = () => [...jobs.values()]
+    .filter(j => j.status === 'queued' && !waitingForKey.has(j.articleId))
+    .sort((a, b) => a.createdAt - b.createdAt)[0];
+
+  const start = () => {
+    if (worker) return;
+    worker = (async () => {
+      let job: AnalysisJob | undefined;
+      while ((job = nextJob())) await runJob(job.articleId);
+    })().finally(() => {
+      worker = null;
+      if (nextJob()) start();
+    });
+  };
+
+  const stopIfRunning = (articleId: string) => {
+    if (current?.articleId === articleId) current.controller.abort();
+  };
+
+  return {
+    async restore() {
+      for (const job of await db.getAnalysisJobs()) {
+        // A job still marked running was interrupted by the reload
+        const restored = job.status === 'running' ? { ...job, status: 'queued' as const } : job;
+        jobs.set(job.articleId, restored);
+        onJobChange(job.articleId, restored);
+      }
+      start();
+      return [...jobs.values()];
+    },
+
+    async enqueue(articleId, segmentIndexes, translate) {
+      stopIfRunning(articleId);
+      waitingForKey.delete(articleId);
+      const now = Date.now();
+      await save({
+        articleId,
+        status: 'queued',
+        translate,
+        pending: [...new Set(segmentIndexes)].sort((a, b) => a - b),
+        total: new Set(segmentIndexes).size,
+        createdAt: now,
+        updatedAt: now,
+      });
+      start();
+    },
+
+    async pause(articleId) {
+      const job = jobs.get(articleId);
+      if (!job || job.status === 'done' || job.status === 'paused') return;
+      waitingForKey.delete(articleId);
+      stopIfRunning(articleId);
+      await save({ ...job, status: 'paused' });
+    },
+
+    async resume(articleId) {
+      const job = jobs.get(articleId);
+      if (!job || job.status === 'done' || job.status === 'running') return;
+      waitingForKey.delete(articleId);
+      await save({ ...job, status: 'queued', error: undefined });
+      start();
+    },
+
+    async cancel(articleId) {
+      jobs.delete(articleId);
+      waitingForKey.delete(articleId);
+      stopIfRunning(articleId);
+      onJobChange(articleId, undefined);
+      await db.deleteAnalysisJob(articleId);
+    },
+
+    async prioritize(articleId, segmentIndex) {
+      const job = jobs.get(articleId);
+      if (!job || (job.status !== 'queued' && job.status !== 'running') || !job.pending.includes(segmentIndex)) return false;
+      // A running job is busy with its first part, which stays first
+      const keep = job.status === 'running' ? job.pending.slice(0, 1) : [];
+      if (keep[0] !== segmentIndex) {
+        await save({ ...job, pending: [...keep, segmentIndex, ...job.pending.filter(i => i !== segmentIndex && !keep.includes(i))] });
+      }
+      return true;
+    },
+
+    kick() {
+      waitingForKey.clear();
+      start();
+    },
+
+    async idle() {
+      while (worker) await worker;
+    },
+  };
+};
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { parseBackup, previewImport, planImport, BackupFile, BACKUP_VERSION } from './backup';
+import { V1_FIXTURE } from './__fixtures__/legacyDatabases';
+
+const emptyBackup = (): BackupFile => ({
+  format: 'linguaflow-backup',
+  version: BACKUP_VERSION,
+  timestamp: 0,
+  articles: [],
+  segments: [],
+  flashcards: [],
+  collections: [],
+  reviewLog: [],
+  knownLemmas: [],
+});
+
+// v1.9.0 wrote the raw store contents with `version: 1` and no format tag
+const v1File = { version: 1, timestamp: 1, ...V1_FIXTURE.stores, settings: V1_FIXTURE.stores.settings[0], collections: [] };
+
+describe('parseBackup', () => {
+  it('upgrades v1 backups to the current format', () => {
+    const { backup, sourceVersion, issues } = parseBackup(v1File);
+
+    expect(sourceVersion).toBe(1);
+    expect(issues).toEqual([]);
+    expect(backup.version).toBe(BACKUP_VERSION);
+    expect(backup.reviewLog).toEqual([]);
+    expect(backup.flashcards.find(c => c.id === 'card-learned')).toMatchObject({ ease: 2.5, stability: 8, translation: 'ترجمه' });
+    expect(backup.articles[0].language).toBe('en');
+  });
+
+  it('drops invalid records and reports them', () => {
+    const { backup, issues } = parseBackup({
+      ...v1File,
+      flashcards: [...V1_FIXTURE.stores.flashcards, { id: 'broken', articleId: 'article-1' }, 'garbage'],
+      settings: { segmentLength: -5, ttsEngine: 'native' },
+    });
+
+    expect(backup.flashcards.map(c => c.id)).toEqual(['card-new', 'card-learned']);
+    expect(backup.settings).toEqual({ ttsEngine: 'native' });
+    expect(issues).toEqual([
+      'flashcards[2] (broken): missing word or lemma',
+      'flashcards[3]: not an object',
+      'settings.segmentLength: invalid value, skipped',
+    ]);
+  });
+
+  it('rejects files that are not backups or are too new', () => {
+    expect(() => parseBackup([])).toThrow('Not a LinguaFlow backup file.');
+    expect(() => parseBackup({ format: 'other', articles: [] })).toThrow('Not a LinguaFlow backup file.');
+    expect(() => parseBackup({ version: BACKUP_VERSION + 1, articles: [] })).toThrow(/newer version/);
+    expect(() => parseBackup({ version: 1 })).toThrow('Backup file contains no data.');
+  });
+});
+
+describe('previewImport', () => {
+  it('classifies records as new, changed, conflicting or unchanged', () => {
+    const { backup } = parseBackup(v1File);
+    const [fresh, learned] = backup.flashcards;
+
+    const current = emptyBackup();
+    current.articles = backup.articles;
+    current.flashcards = [
+      { ...learned, stage: 4, lastReviewedAt: learned.updatedAt + 1000, updatedAt: learned.updatedAt + 1000 },
+      { ...fresh, id: 'same-lemma-other-device' },
+    ];
+    current.settings = { ...backup.settings!, segmentLength: 1200 };
+
+    const preview = previewImport(backup, current, 1, []);
+
+    expect(preview.articles.unchanged).toBe(1);
+    expect(preview.flashcards.added).toEqual([]);
+    expect(preview.flashcards.duplicates.map(c => c.id)).toEqual([fresh.id]);
+    expect(preview.flashcards.conflicts.map(c => c.id)).toEqual([learned.id]);
+    expect(preview.settings).toEqual([{ key: 'segmentLength', current: 1200, incoming: 800 }]);
+  });
+});
+
+describe('planImport', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const setup = () => {
+    const { backup } = parseBackup(v1File);
+    const learned = backup.flashcards.find(c => c.id === 'card-learned')!;
+    const t = learned.updatedAt;
+
+    // Same lemma created separately on this device, reviewed more recently but with older content
+    const local = { ...learned, id: 'local-card', definition: 'Old definition', stage: 5, stability: 20, lastReviewedAt: t + DAY_MS, updatedAt: t + DAY_MS };
+    const incoming = { ...learned, definition: 'Edited definition', stage: 4, stability: 12, lapses: 2, lastReviewedAt: t, updatedAt: t + 2 * DAY_MS };
+    backup.flashcards = [incoming];
+    backup.reviewLog = [{ id: 'r1', cardId: incoming.id, reviewedAt: t, grade: 4, previousInterval: 6, nextInterval: 12, responseTime: 2000 }];
+
+    const current = emptyBackup();
+    current.flashcards = [local];
+    current.reviewLog = [{ id: 'r0', cardId: local.id, reviewedAt: t + DAY_MS, grade: 5, previousInterval: 8, nextInterval: 20, responseTime: 1000 }];
+    current.settings = backup.settings;
+
+    return { preview: previewImport(backup, current, 1, []), local, incoming };
+  };
+
+  it('replace clears the library and writes the backup verbatim', () => {
+    const { preview } = setup();
+    const plan = planImport(preview, 'replace');
+    expect(plan.clearExisting).toBe(true);
+    expect(plan.flashcards).toEqual(preview.backup.flashcards);
+  });
+
+  it('keep newest merges duplicates into the local id and takes the newer record whole', () => {
+    const { preview, local } = setup();
+    const plan = planImport(preview, 'newest');
+
+    expect(plan.flashcards).toHaveLength(1);
+    expect(plan.flashcards[0]).toMatchObject({ id: local.id, definition: 'Edited definition', stage: 4 });
+    expect(plan.reviewLog.map(r => [r.id, r.cardId])).toEqual([['r1', local.id]]);
+  });
+
+  it('merge history keeps newer content and the most recent review progress', () => {
+    const { preview, local } = setup();
+    const plan = planImport(preview, 'merge-history');
+
+    expect(plan.flashcards[0]).toMatchObject({
+      id: local.id,
+      definition: 'Edited definition',
+      stage: 5,
+      stability: 20,
+      lastReviewedAt: local.lastReviewedAt,
+      lapses: 2,
+    });
+    expect(plan.reviewLog.map(r => r.cardId)).toEqual([local.id]);
+  });
+
+  it('keeps local settings when merging unless the backup settings are chosen', () => {
+    const { preview } = setup();
+    expect(planImport(preview, 'newest').settings).toBeUndefined();
+    expect(planImport(preview, 'merge-history').settings).toBeUndefined();
+    expect(planImport(preview, 'newest', true).settings).toEqual(preview.backup.settings);
+    expect(planImport(preview, 'replace').settings).toEqual(preview.backup.settings);
+  });
+
+  it('adds known words without removing local ones unless replacing', () => {
+    const { preview } = setup();
+    preview.backup.knownLemmas = [{ lemma: 'ubiquitous', addedAt: 1 }, { lemma: 'serendipity', addedAt: 2 }];
+    preview.current.knownLemmas = [{ lemma: 'serendipity', addedAt: 3 }, { lemma: 'ephemeral', addedAt: 4 }];
+
+    expect(planImport(preview, 'merge-history').knownLemmas.map(k => k.lemma)).toEqual(['ubiquitous']);
+    expect(planImport(preview, 'replace').knownLemmas.map(k => k.lemma)).toEqual(['ubiquitous', 'serendipity']);
+  });
+});
@@ -0,0 +1,505 @@
+import { Article, ArticleSegment, Flashcard, AppSettings, Collection, ReviewLogEntry, AnalysisType, KnownLemma, PromptTask, CefrLevel } from '../types';
+import { migrateLegacyCard } from './scheduler';
+import { PROMPT_TASKS } from './promptTemplates';
+import { CEFR_LEVELS } from './learnerLevel';
+import { DEFAULT_SOURCE_LANGUAGE, migrateLegacySegment, migrateTranslationField } from './languages';
+
+/**
+ * Backup file format written by `exportDatabase` and read by `importDatabase`.
+ *
+ * Version history:
+ *   1 - v1.9.0: articles, segments, flashcards (stage/nextReview only), settings, collections
+ *   2 - SM-2 fields on flashcards, review log, `format` tag
+ *   3 - `updatedAt` on articles, flashcards and collections
+ *   4 - known lemmas
+ *   5 - `translation` replaces `persianTranslation`, source `language` on articles
+ */
+export const BACKUP_FORMAT = 'linguaflow-backup';
+export const BACKUP_VERSION = 5;
+
+export type StoredSegment = ArticleSegment & { articleId: string };
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  timestamp: number;
+  articles: Article[];
+  segments: StoredSegment[];
+  flashcards: Flashcard[];
+  settings?: AppSettings;
+  collections: Collection[];
+  reviewLog: ReviewLogEntry[];
+  knownLemmas: KnownLemma[];
+}
+
+export interface EntityDiff<T> {
+  added: T[];
+  changed: T[];
+  conflicts: T[]; // Local copy is newer; importing would roll it back
+  duplicates: T[]; // Different id but same article + lemma as a local card
+  unchanged: number;
+}
+
+export interface SettingsChange {
+  key: keyof AppSettings;
+  current: unknown;
+  incoming: unknown;
+}
+
+export interface ImportPreview {
+  backup: BackupFile;
+  current: BackupFile;
+  sourceVersion: number;
+  issues: string[];
+  articles: EntityDiff<Article>;
+  flashcards: EntityDiff<Flashcard>;
+  collections: EntityDiff<Collection>;
+  settings: SettingsChange[];
+  newReviews: number;
+  newKnownLemmas: number;
+}
+
+const ANALYSIS_TYPES: AnalysisType[] = ['vocabulary', 'grammar', 'literary', 'historical'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const stringArray = (value: unknown): string[] => Array.isArray(value) ? value.filter(isString) : [];
+
+// Each validator returns the normalized record, or an error message describing why it was rejected.
+type Validator<T> = (raw: unknown) => T | string;
+
+const validateArticle: Validator<Article> = (raw) => {
+  if (!isObject(raw)) return 'not an object';
+  if (!isString(raw.id) || !isString(raw.title)) return 'missing id or title';
+  if (!Array.isArray(raw.segments)) return 'missing segments';
+  return {
+    ...raw,
+    id: raw.id,
+    title: raw.title,
+    segments: raw.segments,
+    collectionId: isString(raw.collectionId) ? raw.collectionId : undefined,
+    language: isString(raw.language) ? raw.language : DEFAULT_SOURCE_LANGUAGE,
+    author: isString(raw.author) ? raw.author : undefined,
+    coverImage: isString(raw.coverImage) ? raw.coverImage : undefined,
+    processedAt: isNumber(raw.processedAt) ? raw.processedAt : Date.now(),
+    updatedAt: isNumber(raw.updatedAt) ? raw.updatedAt : 0,
+  } as Article;
+};
+
+const validateSegment: Validator<StoredSegment> = (raw) => {
+  if (!isObject(raw)) return 'not an object';
+  if (!isString(raw.id) || !isString(raw.articleId)) return 'missing id or articleId';
+  if (!isNumber(raw.index) || !isString(raw.content)) return 'missing index or content';
+  return {
+    ...raw,
+    id: raw.id,
+    articleId: raw.articleId,
+    index: raw.index,
+    title: isString(raw.title) ? raw.title : `Part ${raw.index + 1}`,
+    content: raw.content,
+    analyzedWords: Array.isArray(raw.analyzedWords) ? raw.analyzedWords : [],
+    approvedWordIds: stringArray(raw.approvedWordIds),
+    isAnalyzed: raw.isAnalyzed === true,
+    timedSentences: Array.isArray(raw.timedSentences)
+      ? raw.timedSentences.filter((t: unknown) => isObject(t) && isString(t.text) && isNumber(t.start) && isNumber(t.end))
+      : undefined,
+    tokens: undefined, // Derived from the content and rebuilt when the part is opened
+  } as StoredSegment;
+};
+
+const validateFlashcard: Validator<Flashcard> = (raw) => {
+  if (!isObject(raw)) return 'not an object';
+  if (!isString(raw.id) || !isString(raw.articleId)) return 'missing id or articleId';
+  if (!isString(raw.word) || !isString(raw.lemma)) return 'missing word or lemma';
+  if (!isNumber(raw.nextReview)) return 'missing nextReview';
+  return {
+    ...raw,
+    type: ANALYSIS_TYPES.includes(raw.type) ? raw.type : 'vocabulary',
+    collocations: stringArray(raw.collocations),
+    context: isString(raw.context) ? raw.context : '',
+    level: isString(raw.level) ? raw.level : 'B2',
+    definition: isString(raw.definition) ? raw.definition : '',
+    translation: isString(raw.translation) ? raw.translation : '',
+    exampleSentence: isString(raw.exampleSentence) ? raw.exampleSentence : '',
+    stage: isNumber(raw.stage) ? raw.stage : 0,
+    createdAt: isNumber(raw.createdAt) ? raw.createdAt : raw.nextReview,
+    updatedAt: isNumber(raw.updatedAt) ? raw.updatedAt : 0,
+  } as Flashcard;
+};
+
+const validateCollection: Validator<Collection> = (raw) => {
+  if (!isObject(raw)) return 'not an object';
+  if (!isString(raw.id) || !isString(raw.name)) return 'missing id or name';
+  return { ...raw, updatedAt: isNumber(raw.updatedAt) ? raw.updatedAt : 0 } as Collection;
+};
+
+const validateReviewLogEntry: Validator<ReviewLogEntry> = (raw) => {
+  if (!isObject(raw)) return 'not an object';
+  if (!isString(raw.id) || !isString(raw.cardId)) return 'missing id or cardId';
+  if (!isNumber(raw.reviewedAt) || !isNumber(raw.grade)) return 'missing reviewedAt or grade';
+  return {
+    id: raw.id,
+    cardId: raw.cardId,
+    reviewedAt: raw.reviewedAt,
+    grade: raw.grade,
+    previousInterval: isNumber(raw.previousInterval) ? raw.previousInterval : 0,
+    nextInterval: isNumber(raw.nextInterval) ? raw.nextInterval : 0,
+    responseTime: isNumber(raw.responseTime) ? raw.responseTime : 0,
+  };
+};
+
+const validateKnownLemma: Validator<KnownLemma> = (raw) => {
+  if (!isObject(raw)) return 'not an object';
+  if (!isString(raw.lemma) || raw.lemma.trim() === '') return 'missing lemma';
+  return { lemma: raw.lemma.trim().toLowerCase(), addedAt: isNumber(raw.addedAt) ? raw.addedAt : 0 };
+};
+
+const isProvider = (v: unknown) => v === 'gemini' || v === 'openai';
+const isPrice = (v: unknown) => isObject(v) && isNumber(v.input) && v.input >= 0 && isNumber(v.output) && v.output >= 0;
+
+const SETTINGS_SHAPE: Record<keyof AppSettings, (value: unknown) => boolean> = {
+  analysisModel: isString,
+  translationModel: isString,
+  ttsModel: isString,
+  pronunciationModel: isString,
+  analysisProvider: isProvider,
+  translationProvider: isProvider,
+  ttsProvider: isProvider,
+  pronunciationProvider: isProvider,
+  openaiBaseUrl: isString,
+  demoMode: (v) => typeof v === 'boolean',
+  maxConcurrentRequests: (v) => isNumber(v) && v >= 1,
+  requestsPerMinute: (v) => isNumber(v) && v >= 0,
+  aiCacheMaxMb: (v) => isNumber(v) && v >= 0,
+  modelPrices: (v) => isObject(v) && Object.values(v).every(isPrice),
+  monthlyBudget: (v) => isNumber(v) && v >= 0,
+  nativeLanguage: (v) => isString(v) && v.length > 0,
+  defaultSourceLanguage: (v) => isString(v) && v.length > 0,
+  learnerLevel: (v) => CEFR_LEVELS.includes(v as CefrLevel),
+  targetExam: isString,
+  adaptiveLevel: (v) => typeof v === 'boolean',
+  promptTemplates: (v) => isObject(v) && Object.entries(v).every(([task, t]) => PROMPT_TASKS.includes(task as PromptTask) && isString(t)),
+  ttsEngine: (v) => v === 'gemini' || v === 'native',
+  segmentLength: (v) => isNumber(v) && v > 0,
+  enabledTypes: (v) => Array.isArray(v) && v.every(t => ANALYSIS_TYPES.includes(t)),
+};
+
+const validateSettings = (raw: unknown, issues: string[]): AppSettings | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isObject(raw)) {
+    issues.push('settings: not an object, skipped');
+    return undefined;
+  }
+  const settings: Record<string, unknown> = {};
+  for (const [key, isValid] of Object.entries(SETTINGS_SHAPE)) {
+    if (!(key in raw)) continue;
+    if (isValid(raw[key])) settings[key] = raw[key];
+    else issues.push(`settings.${key}: invalid value, skipped`);
+  }
+  return settings as unknown as AppSettings;
+};
+
+const validateList = <T>(raw: unknown, label: string, validate: Validator<T>, issues: string[]): T[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    issues.push(`${label}: expected a list, skipped`);
+    return [];
+  }
+  const valid: T[] = [];
+  raw.forEach((item, i) => {
+    const result = validate(item);
+    if (typeof result === 'string') {
+      const id = isObject(item) && isString(item.id) ? ` (${item.id})` : '';
+      issues.push(`${label}[${i}]${id}: ${result}`);
+    } else {
+      valid.push(result);
+    }
+  });
+  return valid;
+};
+
+/**
+ * Upgrades raw backup data one version at a time. Keyed by the version being upgraded *to*.
+ */
+const BACKUP_MIGRATIONS: Record<number, (data: Record<string, any>) => Record<string, any>> = {
+  2: (data) => ({
+    ...data,
+    flashcards: Array.isArray(data.flashcards)
+      ? data.flashcards.map((c: any) => isObject(c) && isNumber(c.nextReview) ? migrateLegacyCard(c as Flashcard) : c)
+      : data.flashcards,
+    reviewLog: data.reviewLog || [],
+  }),
+  3: (data) => {
+    const backfill = (list: unknown, updatedAt: (item: Record<string, any>) => unknown) =>
+      Array.isArray(list) ? list.map(item => isObject(item) ? { ...item, updatedAt: updatedAt(item) } : item) : list;
+    return {
+      ...data,
+      articles: backfill(data.articles, a => a.processedAt),
+      flashcards: backfill(data.flashcards, c => c.lastReviewedAt || c.createdAt),
+      collections: backfill(data.collections, () => 0),
+    };
+  },
+  4: (data) => ({ ...data, knownLemmas: data.knownLemmas || [] }),
+  5: (data) => {
+    const migrate = (list: unknown, fn: (item: Record<string, any>) => unknown) =>
+      Array.isArray(list) ? list.map(item => isObject(item) ? fn(item) : item) : list;
+    return {
+      ...data,
+      articles: migrate(data.articles, a => ({
+        ...a,
+        language: a.language || DEFAULT_SOURCE_LANGUAGE,
+        segments: migrate(a.segments, migrateLegacySegment),
+      })),
+      segments: migrate(data.segments, migrateLegacySegment),
+      flashcards: migrate(data.flashcards, migrateTranslationField),
+    };
+  },
+};
+
+/**
+ * Validates a parsed backup file record-by-record and upgrades it to the current version.
+ * Invalid records are dropped and reported in `issues`; a file that is not a backup at all throws.
+ */
+export const parseBackup = (raw: unknown): { backup: BackupFile; sourceVersion: number; issues: string[] } => {
+  if (!isObject(raw)) throw new Error('Not a LinguaFlow backup file.');
+  if (raw.format !== undefined && raw.format !== BACKUP_FORMAT) throw new Error('Not a LinguaFlow backup file.');
+
+  const sourceVersion = isNumber(raw.version) ? raw.version : 1;
+  if (sourceVersion > BACKUP_VERSION) {
+    throw new Error(`This backup was created by a newer version of the app (format v${sourceVersion}). Please update first.`);
+  }
+  if (!['articles', 'segments', 'flashcards', 'collections', 'settings'].some(key => key in raw)) {
+    throw new Error('Backup file contains no data.');
+  }
+
+  let data: Record<string, any> = raw;
+  for (let v = sourceVersion + 1; v <= BACKUP_VERSION; v++) {
+    if (BACKUP_MIGRATIONS[v]) data = BACKUP_MIGRATIONS[v](data);
+  }
+
+  const issues: string[] = [];
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    timestamp: isNumber(data.timestamp) ? data.timestamp : Date.now(),
+    articles: validateList(data.articles, 'articles', validateArticle, issues),
+    segments: validateList(data.segments, 'segments', validateSegment, issues),
+    flashcards: validateList(data.flashcards, 'flashcards', validateFlashcard, issues),
+    settings: validateSettings(data.settings, issues),
+    collections: validateList(data.collections, 'collections', validateCollection, issues),
+    reviewLog: validateList(data.reviewLog, 'reviewLog', validateReviewLogEntry, issues),
+    knownLemmas: validateList(data.knownLemmas, 'knownLemmas', validateKnownLemma, issues),
+  };
+
+  return { backup, sourceVersion, issues };
+};
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (isObject(value)) {
+    return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const cardKey = (card: Flashcard) => `${card.articleId}\u0000${card.lemma.toLowerCase()}`;
+
+/**
+ * Finds the local card an incoming card corresponds to: same id, or failing that
+ * the same lemma in the same article (created independently on another device).
+ */
+const cardMatcher = (current: Flashcard[]) => {
+  const byId = new Map(current.map(c => [c.id, c]));
+  const byKey = new Map(current.map(c => [cardKey(c), c]));
+  return (card: Flashcard) => byId.get(card.id) || byKey.get(cardKey(card));
+};
+
+const idMatcher = <T extends { id: string }>(current: T[]) => {
+  const byId = new Map(current.map(r => [r.id, r]));
+  return (record: T) => byId.get(record.id);
+};
+
+const diffRecords = <T extends { id: string; updatedAt: number }>(
+  incoming: T[],
+  findLocal: (record: T) => T | undefined
+): EntityDiff<T> => {
+  const diff: EntityDiff<T> = { added: [], changed: [], conflicts: [], duplicates: [], unchanged: 0 };
+
+  for (const record of incoming) {
+    const local = findLocal(record);
+    if (!local) diff.added.push(record);
+    else if (local.id !== record.id) diff.duplicates.push(record);
+    else if (stableStringify(local) === stableStringify(record)) diff.unchanged++;
+    else if (local.updatedAt > record.updatedAt) diff.conflicts.push(record);
+    else diff.changed.push(record);
+  }
+  return diff;
+};
+
+/**
+ * Compares a validated backup with the current database contents without writing anything.
+ */
+export const previewImport = (
+  backup: BackupFile,
+  current: BackupFile,
+  sourceVersion: number,
+  issues: string[]
+): ImportPreview => {
+  const settings: SettingsChange[] = [];
+  if (backup.settings) {
+    for (const key of Object.keys(backup.settings) as (keyof AppSettings)[]) {
+      const incoming = backup.settings[key];
+      const local = current.settings?.[key];
+      if (stableStringify(incoming) !== stableStringify(local)) settings.push({ key, current: local, incoming });
+    }
+  }
+
+  const knownReviews = new Set(current.reviewLog.map(r => r.id));
+  const currentLemmas = new Set(current.knownLemmas.map(k => k.lemma));
+
+  return {
+    backup,
+    current,
+    sourceVersion,
+    issues,
+    articles: diffRecords(backup.articles, idMatcher(current.articles)),
+    flashcards: diffRecords(backup.flashcards, cardMatcher(current.flashcards)),
+    collections: diffRecords(backup.collections, idMatcher(current.collections)),
+    settings,
+    newReviews: backup.reviewLog.filter(r => !knownReviews.has(r.id)).length,
+    newKnownLemmas: backup.knownLemmas.filter(k => !currentLemmas.has(k.lemma)).length,
+  };
+};
+
+export type MergeStrategy = 'replace' | 'newest' | 'merge-history';
+
+export const MERGE_STRATEGIES: { id: MergeStrategy; label: string; description: string }[] = [
+  {
+    id: 'merge-history',
+    label: 'Merge review history',
+    description: 'Combine reviews from both devices. Each card keeps the progress of its most recent review.',
+  },
+  {
+    id: 'newest',
+    label: 'Keep newest per record',
+    description: 'For every article, card and collection, keep whichever copy was changed last.',
+  },
+  {
+    id: 'replace',
+    label: 'Replace all',
+    description: 'Delete everything on this device and restore the backup exactly.',
+  },
+];
+
+export interface ImportPlan {
+  strategy: MergeStrategy;
+  clearExisting: boolean;
+  articles: Article[];
+  segments: StoredSegment[];
+  flashcards: Flashcard[];
+  collections: Collection[];
+  reviewLog: ReviewLogEntry[];
+  knownLemmas: KnownLemma[];
+  settings?: AppSettings; // Written over the local settings; left out when they are kept
+  keptLocal: number; // Incoming records ignored because the local copy won
+}
+
+// Scheduling taken from the most recently reviewed copy; lapses keep the higher count
+const PROGRESS_FIELDS = ['stage', 'nextReview', 'ease', 'stability', 'lastReviewedAt'] as const;
+
+const copyField = <K extends keyof Flashcard>(target: Flashcard, source: Flashcard, field: K) => {
+  target[field] = source[field];
+};
+
+/**
+ * Works out exactly which records to write for the chosen strategy. Pure; the
+ * result is applied by `DatabaseService.importDatabase`. Settings carry no
+ * timestamps, so merging keeps the local ones unless `applySettings` is set;
+ * replacing always restores the backup's.
+ */
+export const planImport = (preview: ImportPreview, strategy: MergeStrategy, applySettings = false): ImportPlan => {
+  const { backup, current } = preview;
+
+  if (strategy === 'replace') {
+    return {
+      strategy,
+      clearExisting: true,
+      articles: backup.articles,
+      segments: backup.segments,
+      flashcards: backup.flashcards,
+      collections: backup.collections,
+      reviewLog: backup.reviewLog,
+      knownLemmas: backup.knownLemmas,
+      settings: backup.settings,
+      keptLocal: 0,
+    };
+  }
+
+  let keptLocal = 0;
+  const newer = <T extends { updatedAt: number }>(local: T | undefined, incoming: T) => {
+    if (local && local.updatedAt > incoming.updatedAt) {
+      keptLocal++;
+      return null;
+    }
+    return incoming;
+  };
+
+  const findArticle = idMatcher(current.articles);
+  const articles = backup.articles.map(a => newer(findArticle(a), a)).filter((a): a is Article => !!a);
+  const importedArticleIds = new Set(articles.map(a => a.id));
+  const segments = backup.segments.filter(s => importedArticleIds.has(s.articleId));
+
+  const findCollection = idMatcher(current.collections);
+  const collections = backup.collections.map(c => newer(findCollection(c), c)).filter((c): c is Collection => !!c);
+
+  // Review log entries follow their card to its local id when duplicates are merged
+  const cardIdMap = new Map<string, string>();
+  const findCard = cardMatcher(current.flashcards);
+  const flashcards: Flashcard[] = [];
+
+  for (const incoming of backup.flashcards) {
+    const local = findCard(incoming);
+    if (local) cardIdMap.set(incoming.id, local.id);
+    const candidate = local ? { ...incoming, id: local.id } : incoming;
+
+    if (strategy === 'newest' || !local) {
+      const winner = newer(local, candidate);
+      if (winner) flashcards.push(winner);
+      continue;
+    }
+
+    // merge-history: content from the newer copy, scheduling from the most recent review
+    const content = local.updatedAt > candidate.updatedAt ? local : candidate;
+    const progress = (local.lastReviewedAt || 0) > (candidate.lastReviewedAt || 0) ? local : candidate;
+    const merged: Flashcard = { ...content, lapses: Math.max(local.lapses || 0, candidate.lapses || 0) };
+    for (const field of PROGRESS_FIELDS) copyField(merged, progress, field);
+    merged.updatedAt = Math.max(local.updatedAt, candidate.updatedAt);
+
+    if (stableStringify(merged) === stableStringify(local)) keptLocal++;
+    else flashcards.push(merged);
+  }
+
+  const knownReviews = new Set(current.reviewLog.map(r => r.id));
+  const reviewLog = backup.reviewLog
+    .filter(r => !knownReviews.has(r.id))
+    .map(r => cardIdMap.has(r.cardId) ? { ...r, cardId: cardIdMap.get(r.cardId)! } : r);
+
+  // Known words only ever accumulate when merging
+  const currentLemmas = new Set(current.knownLemmas.map(k => k.lemma));
+  const knownLemmas = backup.knownLemmas.filter(k => !currentLemmas.has(k.lemma));
+
+  return {
+    strategy,
+    clearExisting: false,
+    articles,
+    segments,
+    flashcards,
+    collections,
+    reviewLog,
+    knownLemmas,
+    settings: applySettings ? backup.settings : undefined,
+    keptLocal,
+  };
+};
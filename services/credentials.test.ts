@@ -0,0 +1,59 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, afterEach } from 'vitest';
+import { nanoid } from 'nanoid';
+import { DatabaseService } from './db';
+import { encryptSecret, decryptSecret, WrongPassphraseError, setSessionKey, credentialStatus } from './credentials';
+import { MissingKeyError, isTaskReady, resolveTask } from './llm';
+import { AppSettings } from '../types';
+
+const settings = {
+  demoMode: false,
+  analysisProvider: 'gemini',
+  analysisModel: 'gemini-2.5-flash',
+  ttsProvider: 'openai',
+  ttsModel: 'tts-1',
+  openaiBaseUrl: 'http://localhost:11434/v1',
+} as AppSettings;
+
+describe('credentials', () => {
+  afterEach(() => {
+    setSessionKey('gemini', undefined);
+  });
+
+  it('round-trips a key through passphrase encryption', async () => {
+    const encrypted = await encryptSecret('AIza-secret', 'correct horse');
+
+    expect(encrypted.ciphertext).not.toContain('AIza');
+    expect(await decryptSecret(encrypted, 'correct horse')).toBe('AIza-secret');
+    await expect(decryptSecret(encrypted, 'wrong')).rejects.toBeInstanceOf(WrongPassphraseError);
+  });
+
+  it('reports encrypted keys as locked until unlocked for the session', async () => {
+    const stored = { provider: 'gemini' as const, encrypted: await encryptSecret('k', 'p'), updatedAt: 0 };
+
+    expect(credentialStatus('gemini', stored)).toBe('locked');
+    expect(credentialStatus('gemini', undefined)).toBe('missing');
+    setSessionKey('gemini', await decryptSecret(stored.encrypted, 'p'));
+    expect(credentialStatus('gemini', stored)).toBe('ready');
+  });
+
+  it('refuses to resolve a task whose provider has no key', () => {
+    expect(isTaskReady(settings, 'analysis')).toBe(false);
+    expect(() => resolveTask(settings, 'analysis')).toThrow(MissingKeyError);
+
+    // Local OpenAI-compatible servers work without a key, demo mode needs none
+    expect(isTaskReady(settings, 'tts')).toBe(true);
+    expect(resolveTask({ ...settings, demoMode: true }, 'analysis').provider.id).toBe('mock');
+
+    setSessionKey('gemini', 'AIza-secret');
+    expect(resolveTask(settings, 'analysis').provider.id).toBe('gemini');
+  });
+
+  it('keeps keys out of backups', async () => {
+    const db = new DatabaseService(`credentials-${nanoid()}`);
+    await db.saveCredential({ provider: 'gemini', apiKey: 'AIza-secret', updatedAt: 0 });
+
+    expect(await db.getCredentials()).toHaveLength(1);
+    expect(JSON.stringify(await db.exportDatabase())).not.toContain('AIza-secret');
+  });
+});
@@ -0,0 +1,67 @@
+import { EncryptedSecret, ProviderId, StoredCredential } from '../types';
+import { decodeBase64, encodeBase64 } from './audioUtils';
+
+const PBKDF2_ITERATIONS = 250_000;
+
+export type CredentialStatus = 'missing' | 'locked' | 'ready';
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase.');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypts a secret with AES-GCM under a key derived from the passphrase (PBKDF2-SHA-256).
+ */
+export const encryptSecret = async (secret: string, passphrase: string): Promise<EncryptedSecret> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(secret));
+  return {
+    ciphertext: encodeBase64(new Uint8Array(ciphertext)),
+    iv: encodeBase64(iv),
+    salt: encodeBase64(salt),
+  };
+};
+
+/**
+ * Throws WrongPassphraseError when the passphrase does not match (AES-GCM authentication fails).
+ */
+export const decryptSecret = async (encrypted: EncryptedSecret, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, decodeBase64(encrypted.salt));
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: decodeBase64(encrypted.iv) }, key, decodeBase64(encrypted.ciphertext));
+    return new TextDecoder().decode(plain);
+  } catch {
+    throw new WrongPassphraseError();
+  }
+};
+
+// Decrypted keys live in memory only, for the lifetime of the tab
+const sessionKeys = new Map<ProviderId, string>();
+
+export const setSessionKey = (provider: ProviderId, apiKey: string | undefined) => {
+  if (apiKey) sessionKeys.set(provider, apiKey);
+  else sessionKeys.delete(provider);
+};
+
+export const getSessionKey = (provider: ProviderId): string | undefined => sessionKeys.get(provider);
+
+export const credentialStatus = (provider: ProviderId, stored: StoredCredential | undefined): CredentialStatus => {
+  if (sessionKeys.has(provider)) return 'ready';
+  return stored?.encrypted ? 'locked' : 'missing';
+};
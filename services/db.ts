@@ -1,7 +1,9 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { Article, ArticleSegment, Flashcard, AppSettings, Collection } from '../types';
+import { Article, ArticleSegment, Flashcard, AppSettings, Collection, ReviewLogEntry, KnownLemma, ProviderId, StoredCredential, AnalysisJob, AiCacheEntry, UsageRecord, ArticleMedia } from '../types';
+import { LATEST_VERSION, runMigrations } from './migrations';
+import { BackupFile, BACKUP_FORMAT, BACKUP_VERSION, ImportPlan } from './backup';
 
-interface LinguaFlowDB extends DBSchema {
+export interface LinguaFlowDB extends DBSchema {
   articles: {
     key: string;
     value: Article;
@@ -31,32 +33,48 @@ interface LinguaFlowDB extends DBSchema {
     key: string;
     value: Collection;
   };
+  reviewLog: {
+    key: string;
+    value: ReviewLogEntry;
+    indexes: { 'by-card': string; 'by-date': number };
+  };
+  knownLemmas: {
+    key: string;
+    value: KnownLemma;
+  };
+  credentials: {
+    key: string;
+    value: StoredCredential;
+  };
+  analysisJobs: {
+    key: string;
+    value: AnalysisJob;
+  };
+  aiCache: {
+    key: string;
+    value: AiCacheEntry;
+    indexes: { 'by-used': number };
+  };
+  usage: {
+    key: string;
+    value: UsageRecord;
+    indexes: { 'by-date': number; 'by-article': string };
+  };
+  media: {
+    key: string;
+    value: ArticleMedia;
+  };
 }
 
 const DB_NAME = 'lingua_flow_db';
-const DB_VERSION = 1;
 
 export class DatabaseService {
   private dbPromise: Promise<IDBPDatabase<LinguaFlowDB>>;
 
-  constructor() {
-    this.dbPromise = openDB<LinguaFlowDB>(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        const articleStore = db.createObjectStore('articles', { keyPath: 'id' });
-        articleStore.createIndex('by-date', 'processedAt');
-
-        const segmentStore = db.createObjectStore('segments', { keyPath: 'id' });
-        segmentStore.createIndex('by-article', 'articleId');
-
-        const cardStore = db.createObjectStore('flashcards', { keyPath: 'id' });
-        cardStore.createIndex('by-article', 'articleId');
-        cardStore.createIndex('by-stage', 'stage');
-        cardStore.createIndex('by-review', 'nextReview');
-        cardStore.createIndex('by-type', 'type');
-        cardStore.createIndex('by-level', 'level');
-
-        db.createObjectStore('settings', { keyPath: 'id' });
-        db.createObjectStore('collections', { keyPath: 'id' });
+  constructor(dbName: string = DB_NAME) {
+    this.dbPromise = openDB<LinguaFlowDB>(dbName, LATEST_VERSION, {
+      upgrade(db, oldVersion, newVersion, transaction) {
+        return runMigrations(db, oldVersion, newVersion ?? LATEST_VERSION, transaction);
       },
     });
   }
@@ -79,7 +97,7 @@ export class DatabaseService {
     
     const lightweightArticle = {
         ...article,
-        segments: article.segments.map(s => ({ ...s, content: '', analyzedWords: [] }))
+        segments: article.segments.map(s => ({ ...s, content: '', analyzedWords: [], timedSentences: undefined, tokens: undefined }))
     };
 
     await tx.objectStore('articles').put(lightweightArticle);
@@ -107,7 +125,58 @@ export class DatabaseService {
     return segments.find(s => s.index === index);
   }
 
+  async getSegments(articleId: string): Promise<ArticleSegment[]> {
+    const db = await this.dbPromise;
+    const segments = await db.getAllFromIndex('segments', 'by-article', articleId);
+    return segments.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Swaps all segments of an article for a new set (after splitting it again)
+   * and updates the article's lightweight segment list to match.
+   */
+  async replaceSegments(articleId: string, segments: ArticleSegment[]): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['segments', 'articles'], 'readwrite');
+    const segmentStore = tx.objectStore('segments');
+    for (const key of await segmentStore.index('by-article').getAllKeys(articleId)) {
+      await segmentStore.delete(key);
+    }
+    for (const segment of segments) {
+      await segmentStore.put({ ...segment, articleId } as any);
+    }
+    const article = await tx.objectStore('articles').get(articleId);
+    if (article) {
+      await tx.objectStore('articles').put({
+        ...article,
+        segments: segments.map(s => ({ ...s, content: '', analyzedWords: [], timedSentences: undefined, tokens: undefined })),
+        updatedAt: Date.now(),
+      });
+    }
+    await tx.done;
+  }
+
+  /**
+   * Saves a segment and bumps its article's updatedAt so backup merges see the change.
+   * The article's lightweight segment list is kept in sync so `isAnalyzed` survives a reload.
+   */
   async updateSegment(segment: ArticleSegment): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['segments', 'articles'], 'readwrite');
+    await tx.objectStore('segments').put(segment);
+    const article = await tx.objectStore('articles').get((segment as any).articleId);
+    if (article) {
+      const segments = article.segments.map(s => s.index === segment.index ? { ...s, isAnalyzed: segment.isAnalyzed } : s);
+      await tx.objectStore('articles').put({ ...article, segments, updatedAt: Date.now() });
+    }
+    await tx.done;
+  }
+
+  /**
+   * Stores a segment's rebuilt token structure. It is derived from the content,
+   * so the article's updatedAt is left alone.
+   */
+  async saveSegmentTokens(segment: ArticleSegment): Promise<void> {
     const db = await this.dbPromise;
     await db.put('segments', segment);
   }
@@ -126,6 +195,199 @@ export class DatabaseService {
     await db.put('flashcards', card);
   }
   
+  /**
+   * Saves a graded card together with its review log entry in one transaction.
+   */
+  async recordReview(card: Flashcard, entry: ReviewLogEntry): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['flashcards', 'reviewLog'], 'readwrite');
+    await tx.objectStore('flashcards').put(card);
+    await tx.objectStore('reviewLog').put(entry);
+    await tx.done;
+  }
+
+  async getReviewHistory(cardId: string): Promise<ReviewLogEntry[]> {
+    const db = await this.dbPromise;
+    const entries = await db.getAllFromIndex('reviewLog', 'by-card', cardId);
+    return entries.sort((a, b) => a.reviewedAt - b.reviewedAt);
+  }
+
+  async getReviewLog(since?: number): Promise<ReviewLogEntry[]> {
+    const db = await this.dbPromise;
+    const range = since !== undefined ? IDBKeyRange.lowerBound(since) : undefined;
+    return db.getAllFromIndex('reviewLog', 'by-date', range);
+  }
+
+  /**
+   * Token usage is a per-device cost log and stays out of backups.
+   */
+  async addUsageRecord(record: UsageRecord): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('usage', record);
+  }
+
+  async getUsageRecords(since?: number): Promise<UsageRecord[]> {
+    const db = await this.dbPromise;
+    const range = since !== undefined ? IDBKeyRange.lowerBound(since) : undefined;
+    return db.getAllFromIndex('usage', 'by-date', range);
+  }
+
+  /**
+   * Audio and video files are far too large for backups and stay on this device.
+   */
+  async getArticleMedia(articleId: string): Promise<ArticleMedia | undefined> {
+    const db = await this.dbPromise;
+    return db.get('media', articleId);
+  }
+
+  async saveArticleMedia(media: ArticleMedia): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('media', media);
+  }
+
+  async getCollections(): Promise<Collection[]> {
+    const db = await this.dbPromise;
+    return db.getAll('collections');
+  }
+
+  async saveCollection(collection: Collection): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('collections', collection);
+  }
+
+  /**
+   * Deletes a collection and moves its articles back to "unsorted" in the same transaction.
+   */
+  async deleteCollection(id: string): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction(['collections', 'articles'], 'readwrite');
+    await tx.objectStore('collections').delete(id);
+    let cursor = await tx.objectStore('articles').openCursor();
+    while (cursor) {
+      if (cursor.value.collectionId === id) {
+        await cursor.update({ ...cursor.value, collectionId: undefined, updatedAt: Date.now() });
+      }
+      cursor = await cursor.continue();
+    }
+    await tx.done;
+  }
+
+  async setArticleCollection(articleId: string, collectionId: string | undefined): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction('articles', 'readwrite');
+    const article = await tx.store.get(articleId);
+    if (article) await tx.store.put({ ...article, collectionId, updatedAt: Date.now() });
+    await tx.done;
+  }
+
+  async getKnownLemmas(): Promise<KnownLemma[]> {
+    const db = await this.dbPromise;
+    return db.getAll('knownLemmas');
+  }
+
+  async addKnownLemmas(lemmas: string[]): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction('knownLemmas', 'readwrite');
+    const addedAt = Date.now();
+    for (const lemma of lemmas) {
+      await tx.store.put({ lemma, addedAt });
+    }
+    await tx.done;
+  }
+
+  async removeKnownLemmas(lemmas: string[]): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction('knownLemmas', 'readwrite');
+    for (const lemma of lemmas) {
+      await tx.store.delete(lemma);
+    }
+    await tx.done;
+  }
+
+  /**
+   * API keys stay on this device: they are deliberately left out of backups.
+   */
+  async getCredentials(): Promise<StoredCredential[]> {
+    const db = await this.dbPromise;
+    return db.getAll('credentials');
+  }
+
+  async saveCredential(credential: StoredCredential): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('credentials', credential);
+  }
+
+  async deleteCredential(provider: ProviderId): Promise<void> {
+    const db = await this.dbPromise;
+    await db.delete('credentials', provider);
+  }
+
+  /**
+   * Background jobs are device-local work in progress and are not part of backups.
+   */
+  async getAnalysisJobs(): Promise<AnalysisJob[]> {
+    const db = await this.dbPromise;
+    return db.getAll('analysisJobs');
+  }
+
+  async saveAnalysisJob(job: AnalysisJob): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('analysisJobs', job);
+  }
+
+  async deleteAnalysisJob(articleId: string): Promise<void> {
+    const db = await this.dbPromise;
+    await db.delete('analysisJobs', articleId);
+  }
+
+  /**
+   * The AI response cache can always be rebuilt, so it is not part of backups either.
+   */
+  async getAiCacheEntry(key: string): Promise<AiCacheEntry | undefined> {
+    const db = await this.dbPromise;
+    return db.get('aiCache', key);
+  }
+
+  async putAiCacheEntry(entry: AiCacheEntry): Promise<void> {
+    const db = await this.dbPromise;
+    await db.put('aiCache', entry);
+  }
+
+  async touchAiCacheEntry(key: string, lastUsedAt: number): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction('aiCache', 'readwrite');
+    const entry = await tx.store.get(key);
+    if (entry) await tx.store.put({ ...entry, lastUsedAt });
+    await tx.done;
+  }
+
+  /**
+   * Deletes least recently used entries until the cache fits in `maxBytes`.
+   */
+  async evictAiCache(maxBytes: number): Promise<void> {
+    const db = await this.dbPromise;
+    const tx = db.transaction('aiCache', 'readwrite');
+    const entries = await tx.store.index('by-used').getAll();
+    let total = entries.reduce((sum, e) => sum + e.size, 0);
+    for (const entry of entries) {
+      if (total <= maxBytes) break;
+      await tx.store.delete(entry.key);
+      total -= entry.size;
+    }
+    await tx.done;
+  }
+
+  async getAiCacheStats(): Promise<{ entries: number; bytes: number }> {
+    const db = await this.dbPromise;
+    const entries = await db.getAll('aiCache');
+    return { entries: entries.length, bytes: entries.reduce((sum, e) => sum + e.size, 0) };
+  }
+
+  async clearAiCache(): Promise<void> {
+    const db = await this.dbPromise;
+    await db.clear('aiCache');
+  }
+
   async getFlashcard(id: string): Promise<Flashcard | undefined> {
     const db = await this.dbPromise;
     return db.get('flashcards', id);
@@ -145,6 +407,16 @@ export class DatabaseService {
     return allNew.slice(0, limit);
   }
 
+  async getAllFlashcards(): Promise<Flashcard[]> {
+    const db = await this.dbPromise;
+    return db.getAll('flashcards');
+  }
+
+  async countDueFlashcards(until: number): Promise<number> {
+    const db = await this.dbPromise;
+    return db.countFromIndex('flashcards', 'by-review', IDBKeyRange.upperBound(until));
+  }
+
   async getAllFlashcardsCount(): Promise<number> {
     const db = await this.dbPromise;
     return db.count('flashcards');
@@ -178,7 +450,7 @@ export class DatabaseService {
         if (criteria.level && criteria.level !== 'all' && c.level !== criteria.level) match = false;
         if (criteria.search) {
              const q = criteria.search.toLowerCase();
-             if (!c.word.toLowerCase().includes(q) && !c.persianTranslation.includes(q)) match = false;
+             if (!c.word.toLowerCase().includes(q) && !c.translation?.toLowerCase().includes(q)) match = false;
         }
         return match;
     });
@@ -192,20 +464,24 @@ export class DatabaseService {
   }
 
   /**
-   * Exports the entire database to a JSON object.
+   * Exports the entire database to a backup object (see services/backup.ts for the format).
    */
-  async exportDatabase(): Promise<any> {
+  async exportDatabase(): Promise<BackupFile> {
     const db = await this.dbPromise;
-    const tx = db.transaction(['articles', 'segments', 'flashcards', 'settings', 'collections'], 'readonly');
+    const tx = db.transaction(['articles', 'segments', 'flashcards', 'settings', 'collections', 'reviewLog', 'knownLemmas'], 'readonly');
     
-    const data = {
-      version: 1,
+    const data: BackupFile = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
       timestamp: Date.now(),
       articles: await tx.objectStore('articles').getAll(),
-      segments: await tx.objectStore('segments').getAll(),
+      // Token structures are left out: they are rebuilt from the content on load
+      segments: (await tx.objectStore('segments').getAll()).map(({ tokens, ...segment }) => segment) as BackupFile['segments'],
       flashcards: await tx.objectStore('flashcards').getAll(),
-      settings: await tx.objectStore('settings').get('config'), // Assuming 'config' is the key
+      settings: await tx.objectStore('settings').get('config'),
       collections: await tx.objectStore('collections').getAll(),
+      reviewLog: await tx.objectStore('reviewLog').getAll(),
+      knownLemmas: await tx.objectStore('knownLemmas').getAll(),
     };
     
     await tx.done;
@@ -213,28 +489,43 @@ export class DatabaseService {
   }
 
   /**
-   * Imports a data object into the database.
-   * Uses upsert (put) to merge data.
+   * Applies an import plan built by `planImport` (see services/backup.ts).
+   * When the plan replaces the whole library, every backed-up store is cleared
+   * first, along with background analysis jobs and media of articles the backup
+   * does not contain. API keys, the AI response cache and usage records are
+   * device data that no backup carries, so they are kept.
    */
-  async importDatabase(data: any): Promise<void> {
+  async importDatabase(data: ImportPlan): Promise<void> {
     const db = await this.dbPromise;
-    const tx = db.transaction(['articles', 'segments', 'flashcards', 'settings', 'collections'], 'readwrite');
+    const storeNames = ['articles', 'segments', 'flashcards', 'settings', 'collections', 'reviewLog', 'knownLemmas'] as const;
+    const tx = db.transaction([...storeNames, 'analysisJobs', 'media'], 'readwrite');
 
-    if (data.articles) {
-      for (const item of data.articles) await tx.objectStore('articles').put(item);
-    }
-    if (data.segments) {
-      for (const item of data.segments) await tx.objectStore('segments').put(item);
+    if (data.clearExisting) {
+      for (const name of storeNames) await tx.objectStore(name).clear();
+      await tx.objectStore('analysisJobs').clear();
+      const restored = new Set(data.articles.map(a => a.id));
+      for (const articleId of await tx.objectStore('media').getAllKeys()) {
+        if (!restored.has(articleId)) await tx.objectStore('media').delete(articleId);
+      }
     }
-    if (data.flashcards) {
-      for (const item of data.flashcards) await tx.objectStore('flashcards').put(item);
-    }
-    if (data.collections) {
-      for (const item of data.collections) await tx.objectStore('collections').put(item);
+
+    for (const item of data.articles) await tx.objectStore('articles').put(item);
+    // An incoming article brings its full set of parts, which may be split differently from the local one
+    if (!data.clearExisting) {
+      const segmentIndex = tx.objectStore('segments').index('by-article');
+      for (const article of data.articles) {
+        for (const key of await segmentIndex.getAllKeys(article.id)) await tx.objectStore('segments').delete(key);
+      }
     }
+    for (const item of data.segments) await tx.objectStore('segments').put(item);
+    for (const item of data.flashcards) await tx.objectStore('flashcards').put(item);
+    for (const item of data.collections) await tx.objectStore('collections').put(item);
+    for (const item of data.reviewLog) await tx.objectStore('reviewLog').put(item);
+    for (const item of data.knownLemmas) await tx.objectStore('knownLemmas').put(item);
     if (data.settings) {
-       // @ts-ignore
-       await tx.objectStore('settings').put({ ...data.settings, id: 'config' });
+       const current = data.clearExisting ? undefined : await tx.objectStore('settings').get('config');
+       const settings: AppSettings & { id: string } = { ...current, ...data.settings, id: 'config' };
+       await tx.objectStore('settings').put(settings);
     }
 
     await tx.done;
@@ -0,0 +1,162 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { RawSegment } from './segmentation';
+import { htmlToText } from './html';
+
+/**
+ * EPUB 2 and 3 reader: follows the OPF spine for reading order and names
+ * chapters from the table of contents (EPUB 3 nav document or EPUB 2 NCX).
+ * Uses the browser's DOMParser.
+ */
+
+export interface EpubBook {
+  title: string;
+  author?: string;
+  language?: string; // As declared by the book, e.g. "en-GB"
+  cover?: Blob;
+  chapters: RawSegment[];
+}
+
+interface ManifestItem {
+  path: string; // Full path inside the archive
+  mediaType: string;
+  properties: string[];
+}
+
+const parseXml = (source: string): Document => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The EPUB contains malformed XML.');
+  return doc;
+};
+
+// Namespace prefixes differ between books (dc:title, opf:item, ...), so match local names only
+const elements = (root: Document | Element, localName: string): Element[] =>
+  Array.from(root.getElementsByTagName('*')).filter(el => el.localName === localName);
+
+const firstText = (root: Document | Element, localName: string): string | undefined =>
+  elements(root, localName)[0]?.textContent?.trim() || undefined;
+
+const dirname = (path: string) => path.slice(0, path.lastIndexOf('/') + 1);
+
+/**
+ * Resolves an href relative to the file it appears in; the fragment is dropped.
+ */
+export const resolvePath = (base: string, href: string): string => {
+  let target = href.split('#')[0];
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // A literal "%" in the file name
+  }
+  const parts = (dirname(base) + target).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part !== '.' && part !== '') resolved.push(part);
+  }
+  return resolved.join('/');
+};
+
+// Chapter titles by file path, in table-of-contents order; the first entry per file wins
+const readToc = (files: Record<string, Uint8Array>, manifest: Map<string, ManifestItem>, spineToc: string | null): Map<string, string> => {
+  const titles = new Map<string, string>();
+  const add = (base: string, href: string | null, label: string | null | undefined) => {
+    const title = label?.replace(/\s+/g, ' ').trim();
+    if (!href || !title) return;
+    const path = resolvePath(base, href);
+    if (!titles.has(path)) titles.set(path, title);
+  };
+
+  const nav = [...manifest.values()].find(item => item.properties.includes('nav'));
+  if (nav && files[nav.path]) {
+    const doc = new DOMParser().parseFromString(strFromU8(files[nav.path]), 'text/html');
+    const navs = Array.from(doc.getElementsByTagName('nav'));
+    const toc = navs.find(n => n.getAttribute('epub:type') === 'toc') || navs[0];
+    toc?.querySelectorAll('a[href]').forEach(a => add(nav.path, a.getAttribute('href'), a.textContent));
+    if (titles.size > 0) return titles;
+  }
+
+  const ncx = (spineToc && manifest.get(spineToc)) || [...manifest.values()].find(item => item.mediaType === 'application/x-dtbncx+xml');
+  if (ncx && files[ncx.path]) {
+    for (const point of elements(parseXml(strFromU8(files[ncx.path])), 'navPoint')) {
+      const content = elements(point, 'content')[0];
+      add(ncx.path, content?.getAttribute('src') ?? null, firstText(point, 'text'));
+    }
+  }
+  return titles;
+};
+
+const findCover = (opf: Document, manifest: Map<string, ManifestItem>): ManifestItem | undefined => {
+  const items = [...manifest.entries()];
+  // EPUB 3
+  const byProperty = items.find(([, item]) => item.properties.includes('cover-image'));
+  if (byProperty) return byProperty[1];
+  // EPUB 2: <meta name="cover" content="item-id"/>
+  const metaId = elements(opf, 'meta').find(m => m.getAttribute('name') === 'cover')?.getAttribute('content');
+  if (metaId && manifest.has(metaId)) return manifest.get(metaId);
+  return items.find(([id, item]) => item.mediaType.startsWith('image/') && /cover/i.test(id + item.path))?.[1];
+};
+
+/**
+ * Reads an .epub file. Spine documents listed in the table of contents start a
+ * new chapter; the ones in between (a chapter spread over several files) are
+ * appended to the chapter before them. Documents without text are skipped.
+ */
+export const parseEpub = (data: Uint8Array): EpubBook => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error('This file is not a valid EPUB (it could not be unzipped).');
+  }
+
+  const container = files['META-INF/container.xml'];
+  if (!container) throw new Error('This file is not a valid EPUB (META-INF/container.xml is missing).');
+  const opfPath = elements(parseXml(strFromU8(container)), 'rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath || !files[opfPath]) throw new Error('The EPUB package document is missing.');
+  const opf = parseXml(strFromU8(files[opfPath]));
+
+  const manifest = new Map<string, ManifestItem>();
+  for (const item of elements(opf, 'item')) {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (!id || !href) continue;
+    manifest.set(id, {
+      path: resolvePath(opfPath, href),
+      mediaType: item.getAttribute('media-type') || '',
+      properties: (item.getAttribute('properties') || '').split(/\s+/).filter(Boolean),
+    });
+  }
+
+  const spine = elements(opf, 'spine')[0];
+  if (!spine) throw new Error('The EPUB has no reading order (spine).');
+  const titles = readToc(files, manifest, spine.getAttribute('toc'));
+  const bookTitle = firstText(opf, 'title') || 'Untitled book';
+
+  const chapters: RawSegment[] = [];
+  for (const ref of elements(spine, 'itemref')) {
+    const item = manifest.get(ref.getAttribute('idref') || '');
+    if (!item || !files[item.path] || item.properties.includes('nav')) continue;
+    const html = strFromU8(files[item.path]);
+    const text = htmlToText(html);
+    const title = titles.get(item.path);
+    if (title || chapters.length === 0) {
+      if (!text) continue;
+      const heading = firstText(new DOMParser().parseFromString(html, 'text/html'), 'h1');
+      chapters.push({ title: title || heading || bookTitle, content: text });
+    } else if (text) {
+      chapters[chapters.length - 1].content += `\n\n${text}`;
+    }
+  }
+  if (chapters.length === 0) throw new Error('The EPUB contains no readable text.');
+
+  const coverItem = findCover(opf, manifest);
+  const coverData = coverItem && files[coverItem.path];
+
+  return {
+    title: bookTitle,
+    author: firstText(opf, 'creator'),
+    language: firstText(opf, 'language'),
+    cover: coverData ? new Blob([coverData], { type: coverItem!.mediaType }) : undefined,
+    chapters,
+  };
+};
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { documentKind, markdownToText } from './fileImport';
+
+describe('file import', () => {
+  it('recognises supported files by extension', () => {
+    expect(documentKind('Notes.MD')).toBe('markdown');
+    expect(documentKind('saved page.htm')).toBe('html');
+    expect(documentKind('scan.pdf')).toBe('pdf');
+    expect(documentKind('archive.zip')).toBeUndefined();
+  });
+
+  it('strips Markdown syntax but keeps headings and list items apart', () => {
+    const markdown = [
+      '---', 'title: Draft', '---',
+      '# The *Lighthouse*', '',
+      'A [keeper](https://example.com) lit the **lamp** with `oil`. ![photo](a.jpg)', '',
+      '```js', 'console.log(1);', '```', '',
+      '* first point', '* second point',
+    ].join('\n');
+
+    expect(markdownToText(markdown)).toBe('The Lighthouse\n\nA keeper lit the lamp with oil. \n\n- first point\n- second point');
+  });
+});
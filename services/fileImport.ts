@@ -0,0 +1,127 @@
+import { extractMainContent } from './html';
+
+/**
+ * Readers for documents dropped on the import page. Each returns the raw text
+ * page by page for the cleanup stage; only PDFs have more than one page.
+ */
+
+// Must match the pdfjs-dist version in package.json; the worker is fetched on first use.
+const PDFJS_VERSION = '5.6.205';
+
+export type DocumentKind = 'pdf' | 'html' | 'markdown' | 'text';
+
+export interface ImportedDocument {
+  kind: DocumentKind;
+  title?: string;
+  pages: string[];
+}
+
+const EXTENSIONS: Record<string, DocumentKind> = {
+  pdf: 'pdf',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+};
+
+export const DOCUMENT_ACCEPT = Object.keys(EXTENSIONS).map(ext => `.${ext}`).join(',');
+
+export const documentKind = (fileName: string): DocumentKind | undefined =>
+  EXTENSIONS[fileName.split('.').pop()?.toLowerCase() || ''];
+
+/**
+ * A readable title from a file name: "the_old_man-2.txt" → "the old man 2".
+ */
+export const fileTitle = (fileName: string): string => fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim();
+
+/**
+ * Plain text of a Markdown document: markup, links, images, code blocks and
+ * front matter are removed, headings become paragraphs of their own.
+ */
+export const markdownToText = (markdown: string): string =>
+  markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // Front matter
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '') // Fenced code
+    .replace(/<[^>\n]+>/g, '') // Inline HTML
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // Images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // Links
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+(.*?)[ \t]*#*$/gm, '\n$1\n') // Headings
+    .replace(/^[ \t]{0,3}([-*_])([ \t]*\1){2,}[ \t]*$/gm, '') // Horizontal rules
+    .replace(/^[ \t]{0,3}>[ \t]?/gm, '') // Block quotes
+    .replace(/^[ \t]*([-*+]|\d+[.)])[ \t]+/gm, '- ') // List items keep a plain marker
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// Text layer of each page; a vertical gap wider than a line starts a new paragraph
+const readPdf = async (data: ArrayBuffer): Promise<{ title?: string; pages: string[] }> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${PDFJS_VERSION}/build/pdf.worker.min.mjs`;
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      const lines: string[] = [];
+      let line = '';
+      let lineY: number | undefined;
+      let lineHeight = 0;
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        const y = item.transform[5];
+        if (line === '' && lineY !== undefined && lineHeight > 0 && lineY - y > lineHeight * 1.8) lines.push('');
+        if (line === '') lineY = y;
+        line += item.str;
+        lineHeight = Math.max(lineHeight, item.height);
+        if (item.hasEOL) {
+          lines.push(line);
+          line = '';
+          lineY = y;
+        }
+      }
+      if (line) lines.push(line);
+      pages.push(lines.join('\n'));
+      page.cleanup();
+    }
+    const { info } = await pdf.getMetadata();
+    const title = (info as { Title?: string } | undefined)?.Title?.trim();
+    return { title: title || undefined, pages };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Reads a PDF (text layer only; scanned pages have none), HTML, Markdown or plain-text file.
+ */
+export const readDocument = async (file: File): Promise<ImportedDocument> => {
+  const kind = documentKind(file.name);
+  if (!kind) throw new Error(`"${file.name}" is not a supported file type.`);
+  const fallbackTitle = fileTitle(file.name);
+
+  switch (kind) {
+    case 'pdf': {
+      const { title, pages } = await readPdf(await file.arrayBuffer());
+      if (!pages.some(p => p.trim())) throw new Error('This PDF has no text layer. Scanned documents need OCR first.');
+      return { kind, title: title || fallbackTitle, pages };
+    }
+    case 'html': {
+      const { title, text } = extractMainContent(await file.text());
+      return { kind, title: title || fallbackTitle, pages: [text] };
+    }
+    case 'markdown': {
+      const text = await file.text();
+      const heading = text.match(/^[ \t]{0,3}#[ \t]+(.+?)[ \t]*#*$/m)?.[1];
+      return { kind, title: heading ? markdownToText(heading) : fallbackTitle, pages: [markdownToText(text)] };
+    }
+    case 'text':
+      return { kind, title: fallbackTitle, pages: [await file.text()] };
+  }
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import { toDelimited, buildAnkiPackage } from './flashcardExport';
+import { loadSqlJs } from './sqlite';
+import { Flashcard } from '../types';
+
+const card = (overrides: Partial<Flashcard> = {}): Flashcard => ({
+  id: 'c1',
+  articleId: 'a1',
+  type: 'vocabulary',
+  word: 'ephemeral',
+  lemma: 'ephemeral',
+  phonetic: 'ɪˈfem(ə)rəl',
+  collocations: ['ephemeral beauty', 'ephemeral fame'],
+  context: 'Fame is "ephemeral", he said.',
+  level: 'C1',
+  definition: 'Lasting for a very short time.',
+  translation: 'زودگذر',
+  exampleSentence: 'Fashions are ephemeral.',
+  stage: 0,
+  nextReview: 0,
+  ease: 2.5,
+  stability: 0,
+  lapses: 0,
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('toDelimited', () => {
+  it('quotes CSV fields that contain delimiters, quotes or newlines', () => {
+    const csv = toDelimited([card({ definition: 'Short,\nbrief' })], ['word', 'context', 'definition'], ',');
+    expect(csv).toBe('﻿Word,Context,Definition\r\nephemeral,"Fame is ""ephemeral"", he said.","Short,\nbrief"');
+  });
+
+  it('flattens tabs and newlines in TSV and resolves the source column', () => {
+    const tsv = toDelimited([card({ definition: 'Short\tbrief\nline' })], ['word', 'definition', 'source'], '\t', () => 'My Book');
+    expect(tsv).toBe('﻿Word\tDefinition\tSource\r\nephemeral\tShort brief line\tMy Book');
+  });
+});
+
+describe('buildAnkiPackage', () => {
+  it('writes a collection with one note per card in the named deck', async () => {
+    const apkg = await buildAnkiPackage([card(), card({ id: 'c2', word: '<b>bold</b>', collocations: [] })], 'LinguaFlow::Test');
+    const files = unzipSync(apkg);
+    expect(Object.keys(files).sort()).toEqual(['collection.anki2', 'media']);
+    expect(strFromU8(files.media)).toBe('{}');
+
+    const SQL = await loadSqlJs();
+    const db = new SQL.Database(files['collection.anki2']);
+    try {
+      const notes = db.exec('SELECT flds, tags FROM notes ORDER BY id')[0].values;
+      expect(notes).toHaveLength(2);
+      expect(String(notes[0][0]).split('\x1f')).toEqual([
+        'ephemeral',
+        'ɪˈfem(ə)rəl',
+        'Lasting for a very short time.',
+        'زودگذر',
+        'Fame is &quot;ephemeral&quot;, he said.',
+        'Fashions are ephemeral.',
+        'ephemeral beauty<br>ephemeral fame',
+      ]);
+      expect(String(notes[1][0]).split('\x1f')[0]).toBe('&lt;b&gt;bold&lt;/b&gt;');
+      expect(notes[0][1]).toBe(' linguaflow vocabulary C1 ');
+
+      const decks = JSON.parse(String(db.exec('SELECT decks FROM col')[0].values[0][0]));
+      const deckIds = db.exec('SELECT DISTINCT did FROM cards')[0].values.map(r => String(r[0]));
+      expect(deckIds.map(id => decks[id].name)).toEqual(['LinguaFlow::Test']);
+    } finally {
+      db.close();
+    }
+  });
+});
@@ -0,0 +1,204 @@
+import { zipSync, strToU8 } from 'fflate';
+import { nanoid } from 'nanoid';
+import { Flashcard } from '../types';
+import { loadSqlJs } from './sqlite';
+import { DEFAULT_NATIVE_LANGUAGE, textDirection } from './languages';
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+  value: (card: Flashcard, articleTitle: string) => string;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'word', label: 'Word', value: c => c.word },
+  { id: 'lemma', label: 'Lemma', value: c => c.lemma },
+  { id: 'type', label: 'Type', value: c => c.type },
+  { id: 'level', label: 'Level', value: c => String(c.level ?? '') },
+  { id: 'partOfSpeech', label: 'Part of Speech', value: c => c.partOfSpeech || '' },
+  { id: 'phonetic', label: 'Phonetic', value: c => c.phonetic || '' },
+  { id: 'definition', label: 'Definition', value: c => c.definition },
+  { id: 'translation', label: 'Translation', value: c => c.translation },
+  { id: 'context', label: 'Context', value: c => c.context },
+  { id: 'exampleSentence', label: 'Example', value: c => c.exampleSentence },
+  { id: 'collocations', label: 'Collocations', value: c => (c.collocations || []).join('; ') },
+  { id: 'source', label: 'Source', value: (_c, title) => title },
+  { id: 'stage', label: 'Stage', value: c => String(c.stage) },
+  { id: 'nextReview', label: 'Next Review', value: c => new Date(c.nextReview).toISOString() },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = ['word', 'phonetic', 'definition', 'translation', 'context', 'exampleSentence'];
+
+const escapeDelimited = (value: string, delimiter: string) => {
+  if (delimiter === '\t') {
+    // TSV has no quoting convention that every tool understands; flatten instead
+    return value.replace(/[\t\r\n]+/g, ' ');
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Serializes cards as CSV (`,`) or TSV (`\t`) with a header row, in the given column order.
+ */
+export const toDelimited = (
+  cards: Flashcard[],
+  columnIds: string[],
+  delimiter: ',' | '\t',
+  getArticleTitle: (id: string) => string = () => ''
+): string => {
+  const columns = columnIds
+    .map(id => EXPORT_COLUMNS.find(c => c.id === id))
+    .filter((c): c is ExportColumn => !!c);
+
+  const rows = [columns.map(c => escapeDelimited(c.label, delimiter)).join(delimiter)];
+  for (const card of cards) {
+    const title = getArticleTitle(card.articleId);
+    rows.push(columns.map(c => escapeDelimited(c.value(card, title), delimiter)).join(delimiter));
+  }
+  // BOM so Excel opens UTF-8 (non-Latin text) correctly
+  return '\uFEFF' + rows.join('\r\n');
+};
+
+// --- Anki (.apkg) ---
+
+const ANKI_FIELDS = ['Word', 'Phonetic', 'Definition', 'Translation', 'Context', 'Example', 'Collocations'];
+
+const ANKI_FRONT = `<div class="word">{{Word}}</div>
+{{#Phonetic}}<div class="phonetic">/{{Phonetic}}/</div>{{/Phonetic}}
+{{#Context}}<div class="context">{{Context}}</div>{{/Context}}`;
+
+const ANKI_BACK = `{{FrontSide}}
+<hr id="answer">
+<div class="translation" dir="{{DIR}}">{{Translation}}</div>
+<div class="definition">{{Definition}}</div>
+{{#Example}}<div class="example">{{Example}}</div>{{/Example}}
+{{#Collocations}}<div class="collocations">{{Collocations}}</div>{{/Collocations}}`;
+
+const ANKI_CSS = `.card { font-family: Inter, Arial, sans-serif; font-size: 20px; text-align: center; color: #111827; background: #fff; }
+.word { font-size: 32px; font-weight: bold; }
+.phonetic { font-family: monospace; color: #6b7280; }
+.context, .example { font-style: italic; color: #4b5563; margin-top: 12px; font-size: 16px; }
+.translation { font-family: Vazirmatn, Tahoma, sans-serif; font-size: 24px; color: #0284c7; }
+.definition { margin-top: 8px; }
+.collocations { margin-top: 12px; font-size: 14px; color: #6b7280; }`;
+
+const ANKI_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Anki's duplicate check: first 8 hex digits of the SHA-1 of the sort field
+const fieldChecksum = async (value: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex, 16);
+};
+
+/**
+ * Builds an Anki .apkg (zip of a collection.anki2 SQLite database) with one note per card.
+ * Cards are exported as new; Anki schedules them from scratch.
+ */
+export const buildAnkiPackage = async (cards: Flashcard[], deckName: string, nativeLanguage = DEFAULT_NATIVE_LANGUAGE): Promise<Uint8Array> => {
+  const rtl = textDirection(nativeLanguage) === 'rtl';
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.run(ANKI_SCHEMA);
+
+    const now = Date.now();
+    const nowSec = Math.floor(now / 1000);
+    const modelId = now;
+    const deckId = now + 1;
+
+    const model = {
+      id: modelId,
+      name: 'LinguaFlow Card',
+      type: 0,
+      mod: nowSec,
+      usn: -1,
+      sortf: 0,
+      did: deckId,
+      tmpls: [{ name: 'Recognition', ord: 0, qfmt: ANKI_FRONT, afmt: ANKI_BACK.replace('{{DIR}}', rtl ? 'rtl' : 'ltr'), did: null, bqfmt: '', bafmt: '' }],
+      flds: ANKI_FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: rtl && name === 'Translation', font: 'Arial', size: 20, media: [] })),
+      css: ANKI_CSS,
+      latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      tags: [],
+      vers: [],
+      req: [[0, 'any', [0]]],
+    };
+
+    const deckBase = {
+      desc: '', mod: nowSec, usn: -1, collapsed: false, dyn: 0, conf: 1, extendNew: 10, extendRev: 50,
+      newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+    };
+    const decks = {
+      1: { ...deckBase, id: 1, name: 'Default' },
+      [deckId]: { ...deckBase, id: deckId, name: deckName },
+    };
+
+    const dconf = {
+      1: {
+        id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, separate: true, order: 1, perDay: 20, bury: true },
+        rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+      },
+    };
+
+    const conf = {
+      nextPos: cards.length + 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0, sortBackwards: false,
+      addToCur: true, curDeck: deckId, newBury: true, newSpread: 0, dueCounts: true, curModel: String(modelId), collapseTime: 1200,
+    };
+
+    db.run(
+      'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [nowSec, now, now, JSON.stringify(conf), JSON.stringify({ [modelId]: model }), JSON.stringify(decks), JSON.stringify(dconf), '{}']
+    );
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')');
+
+    for (let i = 0; i < cards.length; i++) {
+      const card = cards[i];
+      const fields = [
+        card.word,
+        card.phonetic || '',
+        card.definition,
+        card.translation,
+        card.context,
+        card.exampleSentence,
+      ].map(escapeHtml);
+      fields.push((card.collocations || []).map(escapeHtml).join('<br>'));
+
+      const noteId = now + i;
+      const tags = ` linguaflow ${card.type} ${String(card.level || '').replace(/\s+/g, '_')} `;
+      insertNote.run([noteId, nanoid(10), modelId, nowSec, tags, fields.join('\x1f'), card.word, await fieldChecksum(card.word)]);
+      insertCard.run([noteId, noteId, deckId, nowSec, i + 1]);
+    }
+    insertNote.free();
+    insertCard.free();
+
+    const collection = db.export();
+    return zipSync({
+      'collection.anki2': collection,
+      media: strToU8('{}'),
+    });
+  } finally {
+    db.close();
+  }
+};
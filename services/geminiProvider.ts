@@ -0,0 +1,110 @@
+import { GenerateContentResponse, GoogleGenAI, Modality, Schema, Type } from "@google/genai";
+import { JsonRequest, JsonSchema, LLMProvider, ProviderError, TokenUsage, cleanJson } from './llmProvider';
+
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: GEMINI_TYPES[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+});
+
+const wrapError = (error: any, signal?: AbortSignal): Error => {
+  if (error instanceof ProviderError || signal?.aborted) return error;
+  // The SDK embeds the HTTP status in `status` or in the message ("got status: 429")
+  const status = typeof error?.status === 'number' ? error.status : Number(/status:? (\d{3})/.exec(String(error?.message))?.[1]) || undefined;
+  return new ProviderError(error?.message || 'Gemini request failed', status);
+};
+
+const reportUsage = (response: GenerateContentResponse, onUsage?: (usage: TokenUsage) => void) => {
+  const usage = response.usageMetadata;
+  if (!usage || !onUsage) return;
+  onUsage({
+    promptTokens: usage.promptTokenCount || 0,
+    outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+  });
+};
+
+export const createGeminiProvider = (apiKey: string | undefined): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+
+    async generateJson<T>({ model, prompt, schema, signal, onUsage }: JsonRequest) {
+      let text: string;
+      try {
+        const response = await ai.models.generateContent({
+          model,
+          contents: prompt,
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(schema),
+            abortSignal: signal,
+          },
+        });
+        reportUsage(response, onUsage);
+        text = response.text || (schema.type === 'array' ? '[]' : '{}');
+      } catch (error) {
+        throw wrapError(error, signal);
+      }
+      try {
+        return JSON.parse(cleanJson(text)) as T;
+      } catch {
+        throw new ProviderError('The model did not return valid JSON.');
+      }
+    },
+
+    async generateText({ model, prompt, signal, onUsage }) {
+      try {
+        const response = await ai.models.generateContent({ model, contents: prompt, config: { abortSignal: signal } });
+        reportUsage(response, onUsage);
+        return response.text || '';
+      } catch (error) {
+        throw wrapError(error, signal);
+      }
+    },
+
+    async generateSpeech({ model, text, voice = 'Kore', signal, onUsage }) {
+      try {
+        // Kore is a robust standard voice for TTS tasks
+        const response = await ai.models.generateContent({
+          model,
+          contents: [{ parts: [{ text }] }],
+          config: {
+            abortSignal: signal,
+            responseModalities: [Modality.AUDIO],
+            speechConfig: {
+              voiceConfig: {
+                prebuiltVoiceConfig: { voiceName: voice },
+              },
+            },
+          },
+        });
+        reportUsage(response, onUsage);
+        return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+      } catch (error) {
+        throw wrapError(error, signal);
+      }
+    },
+
+    async verify() {
+      try {
+        await ai.models.list({ config: { pageSize: 1 } });
+      } catch (error) {
+        throw wrapError(error);
+      }
+    },
+  };
+};
@@ -1,85 +1,114 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { WordAnalysis, DifficultyLevel, AnalysisType } from "../types";
+import { WordAnalysis, AnalysisType, AiCacheTask, UsageTask, LearnerProfile } from "../types";
+import { filterKnownWords, knownLemmasInText } from "./knownWords";
+import { JsonSchema, ProviderError, TokenUsage } from "./llmProvider";
+import { TaskModel } from "./llm";
+import { RequestOptions, isAbortError, runRequest } from "./aiPipeline";
+import { ValidatedList, validateAnalysis, validatePronunciation, validateWordAnalysis } from "./aiValidation";
+import { cacheKey } from "./aiCache";
+import { renderPrompt, templateFor } from "./promptTemplates";
+import { DEFAULT_LANGUAGES, languageName } from "./languages";
+import { examInstruction } from "./learnerLevel";
+
+export type AnalysisResult = ValidatedList<WordAnalysis>;
+
+// Cancellation is expected, not an error worth logging
+const logFailure = (label: string, error: unknown) => {
+  if (!isAbortError(error)) console.error(label, error);
+};
+
+// Language names for the {sourceLanguage} and {nativeLanguage} placeholders
+const languageVariables = (llm: TaskModel) => {
+  const { source, native } = llm.languages || DEFAULT_LANGUAGES;
+  return { sourceLanguage: languageName(source), nativeLanguage: languageName(native) };
+};
 
-const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Serves a repeat request from the response cache when the task model has one.
+ * Only validated results are stored, so failures are always retried.
+ */
+const withCache = async <T>(llm: TaskModel, task: AiCacheTask, inputs: unknown[], run: () => Promise<T>): Promise<T> => {
+  if (!llm.cache) return run();
+  // The same model name on two OpenAI-compatible servers can be two different models
+  const key = await cacheKey(task, llm.provider.id, llm.provider.endpoint || '', llm.model, llm.languages || DEFAULT_LANGUAGES, ...inputs);
+  const hit = await llm.cache.get<T>(key);
+  if (hit !== undefined) return hit;
+  const result = await run();
+  await llm.cache.set(key, task, result);
+  return result;
+};
+
+/**
+ * Usage callback for one request, booked against the article or card in `options.source`.
+ * Cached answers make no request and so are never counted.
+ */
+const trackUsage = (llm: TaskModel, task: UsageTask, options: RequestOptions) => (usage: TokenUsage) => {
+  if (llm.provider.id === 'mock') return;
+  llm.usage?.record({ ...usage, ...options.source, task, provider: llm.provider.id, model: llm.model });
+};
 
-// Helper to clean JSON strings from markdown blocks
-const cleanJson = (text: string) => {
-  return text.replace(/```json/g, '').replace(/```/g, '').trim();
+const WORD_PROPERTIES: Record<string, JsonSchema> = {
+  word: { type: 'string' },
+  lemma: { type: 'string' },
+  phonetic: { type: 'string', description: "IPA pronunciation (vocabulary only)" },
+  partOfSpeech: { type: 'string' },
+  collocations: { 
+    type: 'array', 
+    items: { type: 'string' }
+  },
+  context: { type: 'string' },
+  level: { type: 'string' },
+  definition: { type: 'string' },
+  translation: { type: 'string' },
+  exampleSentence: { type: 'string' },
 };
 
 export const analyzeTextForVocabulary = async (
   text: string, 
-  userLevel: string = 'B1', 
-  modelName: string = 'gemini-2.5-flash',
-  enabledTypes: AnalysisType[] = ['vocabulary']
-): Promise<WordAnalysis[]> => {
-  const ai = getAI();
-  const prompt = `
-    Analyze the following English text for an upper-intermediate learner. 
-    Identify key items based on the following enabled categories: ${enabledTypes.join(', ')}.
-
-    1. **Vocabulary**: Identify words/phrases at CEFR level ${userLevel} or higher (B2, C1, C2). Ignore names/places.
-    2. **Grammar**: (If enabled) Identify complex sentence structures, inverted sentences, advanced conditional forms, or unique syntax usage.
-    3. **Literary**: (If enabled) Identify literary devices like metaphors, similes, symbolism, or foreshadowing.
-    4. **Historical**: (If enabled) Identify historical references, cultural allusions, or specific era-related terminology.
-
-    For EACH identified item, provide:
-    - type: One of ['vocabulary', 'grammar', 'literary', 'historical']
-    - word: The specific word or phrase (or the grammar pattern name).
-    - lemma: Root form (for vocabulary) or same as word.
-    - phonetic: IPA (only for vocabulary).
-    - partOfSpeech: (noun, verb, etc. for vocabulary; 'phrase' or 'clause' for others).
-    - collocations: List 2-3 phrases (mostly for vocabulary).
-    - context: The exact sentence it appeared in.
-    - level: CEFR level (B2-C2) or 'Advanced' for non-vocab.
-    - definition: Concise English definition or explanation of the grammar/literary concept.
-    - persianTranslation: Natural Persian translation or explanation.
-    - exampleSentence: A simplified example using the word or concept.
-
-    Return the result as a JSON array.
-  `;
+  learner: LearnerProfile, 
+  llm: TaskModel,
+  enabledTypes: AnalysisType[] = ['vocabulary'],
+  knownLemmas: string[] = [],
+  options: RequestOptions = {}
+): Promise<AnalysisResult> => {
+  const knownInText = knownLemmasInText(text, knownLemmas);
+  const template = templateFor('analysis', llm.prompts);
+  const prompt = renderPrompt(template, {
+    text,
+    level: learner.level,
+    targetExam: examInstruction(learner.targetExam),
+    enabledTypes: enabledTypes.join(', '),
+    ...languageVariables(llm),
+    knownWords: knownInText.length > 0
+      ? `The learner already knows these words; do NOT include them (or their inflected forms) as vocabulary items: ${knownInText.join(', ')}.`
+      : '',
+  });
+
+  const request = async () => validateAnalysis(await runRequest(signal => llm.provider.generateJson<unknown>({
+    model: llm.model,
+    signal,
+    onUsage: trackUsage(llm, 'analysis', options),
+    prompt,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['vocabulary', 'grammar', 'literary', 'historical'] },
+          ...WORD_PROPERTIES,
+        },
+        required: ['type', 'word', 'lemma', 'context', 'definition', 'translation', 'exampleSentence']
+      }
+    }
+  }), options, llm.limiter));
 
   try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: `${prompt}\n\nTEXT TO ANALYZE:\n${text}`,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              type: { type: Type.STRING, enum: ['vocabulary', 'grammar', 'literary', 'historical'] },
-              word: { type: Type.STRING },
-              lemma: { type: Type.STRING },
-              phonetic: { type: Type.STRING, description: "IPA pronunciation (vocabulary only)" },
-              partOfSpeech: { type: Type.STRING },
-              collocations: { 
-                type: Type.ARRAY, 
-                items: { type: Type.STRING }
-              },
-              context: { type: Type.STRING },
-              level: { type: Type.STRING },
-              definition: { type: Type.STRING },
-              persianTranslation: { type: Type.STRING },
-              exampleSentence: { type: Type.STRING },
-            },
-            required: ['type', 'word', 'lemma', 'context', 'definition', 'persianTranslation', 'exampleSentence']
-          }
-        }
-      }
-    });
-
-    const result = JSON.parse(cleanJson(response.text || '[]'));
-    // Ensure types are valid defaults if missing
-    return result.map((item: any) => ({
-       ...item,
-       type: item.type || 'vocabulary'
-    })) as WordAnalysis[];
+    // The prompt names the known words in the text, so a word unmarked later is not left out of a cached answer
+    const { items, issues } = await withCache(llm, 'analysis', [template, text, learner.level, learner.targetExam || '', [...enabledTypes].sort(), [...knownInText].sort()], request);
+
+    // The model does not always honour the exclusion list
+    return { items: filterKnownWords(items, knownLemmas), issues };
   } catch (error) {
-    console.error("Analysis Error:", error);
+    logFailure("Analysis Error:", error);
     throw error;
   }
 };
@@ -87,88 +116,72 @@ export const analyzeTextForVocabulary = async (
 export const analyzeSingleWord = async (
   targetWord: string,
   contextSentence: string,
-  modelName: string = 'gemini-2.5-flash'
+  llm: TaskModel,
+  options: RequestOptions = {}
 ): Promise<WordAnalysis> => {
-  const ai = getAI();
-  const prompt = `
-    Analyze the specific word "${targetWord}" found in this context: "${contextSentence}".
-    Provide a detailed vocabulary analysis for a language learner.
-    
-    Return the result as a single JSON object.
-  `;
+  const template = templateFor('word', llm.prompts);
+  const prompt = renderPrompt(template, { word: targetWord, context: contextSentence, ...languageVariables(llm) });
+
+  const request = async () => validateWordAnalysis(await runRequest(signal => llm.provider.generateJson<unknown>({
+    model: llm.model,
+    prompt,
+    signal,
+    onUsage: trackUsage(llm, 'word', options),
+    schema: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['vocabulary'] },
+        ...WORD_PROPERTIES,
+      },
+      required: ['word', 'lemma', 'partOfSpeech', 'context', 'definition', 'translation', 'exampleSentence']
+    }
+  }), options, llm.limiter), targetWord, contextSentence);
 
   try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            type: { type: Type.STRING, enum: ['vocabulary'] },
-            word: { type: Type.STRING },
-            lemma: { type: Type.STRING },
-            phonetic: { type: Type.STRING },
-            partOfSpeech: { type: Type.STRING },
-            collocations: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING } 
-            },
-            context: { type: Type.STRING },
-            level: { type: Type.STRING },
-            definition: { type: Type.STRING },
-            persianTranslation: { type: Type.STRING },
-            exampleSentence: { type: Type.STRING },
-          },
-          required: ['word', 'lemma', 'partOfSpeech', 'context', 'definition', 'persianTranslation', 'exampleSentence']
-        }
-      }
-    });
-
-    const result = JSON.parse(cleanJson(response.text || '{}'));
-    return { ...result, type: 'vocabulary' } as WordAnalysis;
+    return await withCache(llm, 'word', [template, targetWord, contextSentence], request);
   } catch (error) {
-    console.error("Single Word Analysis Error:", error);
+    logFailure("Single Word Analysis Error:", error);
     throw error;
   }
 };
 
-export const translateFullText = async (text: string, modelName: string = 'gemini-2.5-flash'): Promise<string> => {
-  const ai = getAI();
+export const translateFullText = async (text: string, llm: TaskModel, options: RequestOptions = {}): Promise<string> => {
+  const template = templateFor('translation', llm.prompts);
+  const prompt = renderPrompt(template, { text, ...languageVariables(llm) });
+
+  const request = async () => {
+    const translation = await runRequest(signal => llm.provider.generateText({
+      model: llm.model,
+      signal,
+      onUsage: trackUsage(llm, 'translation', options),
+      prompt,
+    }), options, llm.limiter);
+    if (!translation.trim()) throw new ProviderError('The model returned an empty translation.');
+    return translation;
+  };
+
   try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: `Translate the following English text into natural, fluent Persian. Maintain the tone and formatting.\n\n${text}`,
-    });
-    return response.text || '';
+    return await withCache(llm, 'translation', [template, text], request);
   } catch (error) {
-    console.error("Translation Error:", error);
+    logFailure("Translation Error:", error);
     throw error;
   }
 };
 
-export const generateSpeechFromText = async (text: string, modelName: string = 'gemini-2.5-flash-preview-tts'): Promise<string | null> => {
-  const ai = getAI();
+/**
+ * Resolves to null only when the provider answered without audio; failures are thrown.
+ */
+export const generateSpeechFromText = async (text: string, llm: TaskModel, options: RequestOptions = {}): Promise<string | null> => {
   try {
-    // Use Kore as it is a robust standard voice for TTS tasks
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' }, 
-          },
-        },
-      },
-    });
-    
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+    return await runRequest(signal => llm.provider.generateSpeech({
+      model: llm.model,
+      text,
+      signal,
+      onUsage: trackUsage(llm, 'tts', options),
+    }), options, llm.limiter);
   } catch (error) {
-    console.error("TTS Generation Error:", error);
-    return null;
+    logFailure("TTS Generation Error:", error);
+    throw error;
   }
 };
 
@@ -181,45 +194,42 @@ export interface PronunciationResult {
 export const evaluatePronunciation = async (
   originalText: string, 
   userTranscript: string, 
-  modelName: string = 'gemini-2.5-flash'
+  llm: TaskModel,
+  options: RequestOptions = {}
 ): Promise<PronunciationResult> => {
-  const ai = getAI();
-  const prompt = `
-    Compare the Original Text with the User's Spoken Transcript.
-    Rate the pronunciation accuracy on a scale of 0-100.
-    Provide specific feedback in Persian on how to improve.
-    Return a list of words from the original text indicating if they were correct, mispronounced, or missing.
-  `;
+  const prompt = renderPrompt(templateFor('pronunciation', llm.prompts), {
+    original: originalText,
+    transcript: userTranscript,
+    ...languageVariables(llm),
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: `${prompt}\n\nOriginal: "${originalText}"\nUser Said: "${userTranscript}"`,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER },
-            feedback: { type: Type.STRING },
-            correctedWords: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  word: { type: Type.STRING },
-                  status: { type: Type.STRING, enum: ['correct', 'mispronounced', 'missing'] }
-                }
+    const result = await runRequest(signal => llm.provider.generateJson<unknown>({
+      model: llm.model,
+      signal,
+      onUsage: trackUsage(llm, 'pronunciation', options),
+      prompt,
+      schema: {
+        type: 'object',
+        properties: {
+          score: { type: 'number' },
+          feedback: { type: 'string' },
+          correctedWords: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                word: { type: 'string' },
+                status: { type: 'string', enum: ['correct', 'mispronounced', 'missing'] }
               }
             }
           }
         }
       }
-    });
-
-    return JSON.parse(cleanJson(response.text || '{}')) as PronunciationResult;
+    }), options, llm.limiter);
+    return validatePronunciation(result);
   } catch (error) {
-    console.error("Pronunciation Eval Error:", error);
+    logFailure("Pronunciation Eval Error:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,97 @@
+/**
+ * Plain text from HTML (EPUB chapters, saved web pages). Uses the browser's DOMParser.
+ */
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'blockquote', 'pre', 'li', 'ul', 'ol',
+  'dd', 'dt', 'table', 'tr', 'figure', 'figcaption', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'br',
+]);
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg', 'math']);
+
+// Page chrome around the content of a web page
+const NOISE_SELECTOR = [
+  'nav', 'header', 'footer', 'aside', 'form', 'iframe', 'button', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[aria-hidden="true"]',
+].join(',');
+const NOISE_NAME = /comment|sidebar|footer|footnote-back|breadcrumb|\bnav|menu|share|social|related|promo|advert|\bads?\b|cookie|newsletter|subscribe/i;
+
+/**
+ * Visible text of a node with blank lines between paragraphs.
+ */
+export const nodeToText = (root: Node): string => {
+  const out: string[] = [];
+  const walk = (node: Node) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === Node.TEXT_NODE) {
+        out.push((child.textContent || '').replace(/\s+/g, ' '));
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        const tag = (child as Element).localName;
+        if (SKIPPED_TAGS.has(tag)) continue;
+        const block = BLOCK_TAGS.has(tag);
+        if (block) out.push('\n\n');
+        walk(child);
+        if (block) out.push('\n\n');
+      }
+    }
+  };
+  walk(root);
+  return out.join('')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+/**
+ * Visible text of an (X)HTML document with blank lines between paragraphs.
+ */
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return doc.body ? nodeToText(doc.body) : '';
+};
+
+// Readability-style score: paragraph text directly inside the element, half of it credited to the parent
+const findMainElement = (body: HTMLElement): Element => {
+  const marked = body.querySelector('article, main, [role="main"]');
+  if (marked && (marked.textContent || '').trim().length > 200) return marked;
+
+  const scores = new Map<Element, number>();
+  for (const p of Array.from(body.querySelectorAll('p'))) {
+    const length = (p.textContent || '').trim().length;
+    if (length < 25) continue;
+    const parent = p.parentElement;
+    if (!parent) continue;
+    scores.set(parent, (scores.get(parent) || 0) + length);
+    if (parent.parentElement) scores.set(parent.parentElement, (scores.get(parent.parentElement) || 0) + length / 2);
+  }
+  let best: Element = body;
+  let bestScore = 0;
+  scores.forEach((score, el) => {
+    if (score > bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * The article text of a saved web page without navigation, sidebars, comments and ads.
+ */
+export const extractMainContent = (html: string): { title?: string; text: string } => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const title = doc.querySelector('meta[property="og:title"]')?.getAttribute('content')?.trim()
+    || doc.querySelector('h1')?.textContent?.trim()
+    || doc.title.trim()
+    || undefined;
+  if (!doc.body) return { title, text: '' };
+
+  doc.body.querySelectorAll(NOISE_SELECTOR).forEach(el => el.remove());
+  doc.body.querySelectorAll('[class], [id]').forEach(el => {
+    if (el.matches('article, main') || el.querySelector('article, main')) return;
+    if (NOISE_NAME.test(`${el.getAttribute('class') || ''} ${el.id}`)) el.remove();
+  });
+
+  return { title, text: nodeToText(findMainElement(doc.body)) };
+};
@@ -0,0 +1,19 @@
+/**
+ * Downscales an image so its longest side is at most `maxSize` pixels and returns it
+ * as a JPEG data URL, small enough to keep in IndexedDB and in backups.
+ */
+export const imageToDataUrl = async (image: Blob, maxSize = 480): Promise<string> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported.");
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.85);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { parseWordList, filterKnownWords, knownLemmasInText } from './knownWords';
+import { WordAnalysis } from '../types';
+
+const item = (overrides: Partial<WordAnalysis>): WordAnalysis => ({
+  type: 'vocabulary',
+  word: '',
+  lemma: '',
+  collocations: [],
+  context: '',
+  level: 'B2',
+  definition: '',
+  translation: '',
+  exampleSentence: '',
+  ...overrides,
+});
+
+describe('known words', () => {
+  it('parses pasted lists into unique lowercase lemmas', () => {
+    expect(parseWordList(' Ubiquitous\nserendipity, ubiquitous;\n\n  Lucid ')).toEqual(['ubiquitous', 'serendipity', 'lucid']);
+  });
+
+  it('filters known vocabulary by lemma or surface form but keeps other item types', () => {
+    const items = [
+      item({ word: 'Wandered', lemma: 'wander' }),
+      item({ word: 'lucid', lemma: 'lucid' }),
+      item({ type: 'grammar', word: 'wander', lemma: 'wander' }),
+      item({ word: 'fleeting', lemma: 'fleeting' }),
+    ];
+
+    expect(filterKnownWords(items, ['WANDER', 'lucid']).map(i => `${i.type}:${i.word}`)).toEqual(['grammar:wander', 'vocabulary:fleeting']);
+  });
+
+  it('only sends known lemmas that occur in the text to the prompt', () => {
+    expect(knownLemmasInText('The hobbits wandered through the Shire.', ['wander', 'lucid', 'shire'])).toEqual(['wander', 'shire']);
+  });
+});
@@ -0,0 +1,36 @@
+import { WordAnalysis } from '../types';
+
+// Keep the prompt bounded even for learners with thousands of known words
+const MAX_PROMPT_KNOWN_LEMMAS = 300;
+
+export const normalizeLemma = (lemma: string) => lemma.trim().toLowerCase();
+
+/**
+ * Parses a pasted word list (one per line or comma-separated) into unique normalized lemmas.
+ */
+export const parseWordList = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\n,;]+/).map(normalizeLemma).filter(Boolean)));
+
+/**
+ * Only vocabulary items can be "known"; grammar and literary notes are always kept.
+ */
+export const isKnownWord = (item: WordAnalysis, known: Set<string>) =>
+  item.type === 'vocabulary' && (known.has(normalizeLemma(item.lemma)) || known.has(normalizeLemma(item.word)));
+
+export const filterKnownWords = (items: WordAnalysis[], known: Iterable<string>): WordAnalysis[] => {
+  const set = new Set(Array.from(known, normalizeLemma));
+  return set.size === 0 ? items : items.filter(item => !isKnownWord(item, set));
+};
+
+/**
+ * Picks the known lemmas worth mentioning in a prompt: those that (roughly) occur in the text.
+ */
+export const knownLemmasInText = (text: string, known: Iterable<string>): string[] => {
+  const lower = text.toLowerCase();
+  const found: string[] = [];
+  for (const lemma of known) {
+    if (lemma && lower.includes(lemma)) found.push(lemma);
+    if (found.length >= MAX_PROMPT_KNOWN_LEMMAS) break;
+  }
+  return found;
+};
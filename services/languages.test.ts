@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { countWords, joinSentences, languageInfo, scriptProps, splitSentences } from './languages';
+
+describe('languages', () => {
+  it('splits sentences by the rules of each script', () => {
+    expect(splitSentences('Dr. Smith arrived. "Are you sure?" she asked! Yes.', 'en').length).toBeGreaterThanOrEqual(3);
+    expect(splitSentences('今日は晴れです。明日は雨です。', 'ja')).toEqual(['今日は晴れです。', '明日は雨です。']);
+    expect(splitSentences('سلام. حالت چطور است؟ خوبم.', 'fa')).toEqual(['سلام.', 'حالت چطور است؟', 'خوبم.']);
+    expect(joinSentences(['今日は晴れです。', '明日は雨です。'], 'ja')).toBe('今日は晴れです。明日は雨です。');
+  });
+
+  it('counts words in unspaced languages and handles unknown codes', () => {
+    expect(countWords('The quick brown fox.', 'en')).toBe(4);
+    expect(countWords('我喜欢学习中文。', 'zh')).toBeGreaterThan(1);
+    expect(scriptProps('ar')).toEqual({ dir: 'rtl', lang: 'ar', className: 'font-persian text-right' });
+    expect(languageInfo('xx')).toEqual({ code: 'xx', name: 'xx', nativeName: 'xx', locale: 'xx' });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Languages the app can teach and explain in. Articles carry their own source
+ * language; the learner's native language is a setting. Codes are ISO 639-1.
+ */
+
+export interface LanguageInfo {
+  code: string;
+  name: string; // English name, used in prompts
+  nativeName: string;
+  locale: string; // BCP 47 tag for speech synthesis and recognition
+  rtl?: boolean;
+  unspaced?: boolean; // Words are not separated by spaces
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'en', name: 'English', nativeName: 'English', locale: 'en-US' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch', locale: 'de-DE' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español', locale: 'es-ES' },
+  { code: 'fr', name: 'French', nativeName: 'Français', locale: 'fr-FR' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano', locale: 'it-IT' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português', locale: 'pt-BR' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands', locale: 'nl-NL' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski', locale: 'pl-PL' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский', locale: 'ru-RU' },
+  { code: 'uk', name: 'Ukrainian', nativeName: 'Українська', locale: 'uk-UA' },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe', locale: 'tr-TR' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', locale: 'ar-SA', rtl: true },
+  { code: 'fa', name: 'Persian', nativeName: 'فارسی', locale: 'fa-IR', rtl: true },
+  { code: 'he', name: 'Hebrew', nativeName: 'עברית', locale: 'he-IL', rtl: true },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', locale: 'hi-IN' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文', locale: 'zh-CN', unspaced: true },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', locale: 'ja-JP', unspaced: true },
+  { code: 'ko', name: 'Korean', nativeName: '한국어', locale: 'ko-KR' },
+];
+
+export const DEFAULT_SOURCE_LANGUAGE = 'en';
+export const DEFAULT_NATIVE_LANGUAGE = 'fa';
+
+export interface LanguagePair {
+  source: string; // The language being learned
+  native: string; // The language explanations are given in
+}
+
+export const DEFAULT_LANGUAGES: LanguagePair = { source: DEFAULT_SOURCE_LANGUAGE, native: DEFAULT_NATIVE_LANGUAGE };
+
+/**
+ * Unknown codes (e.g. from a newer backup) still work, named by their code.
+ */
+export const languageInfo = (code: string): LanguageInfo =>
+  LANGUAGES.find(l => l.code === code) || { code, name: code, nativeName: code, locale: code };
+
+/**
+ * Supported language for a BCP 47 tag such as "en-GB" from file metadata, if any.
+ */
+export const matchLanguage = (tag?: string): string | undefined => {
+  const code = tag?.trim().toLowerCase().split(/[-_]/)[0];
+  return LANGUAGES.some(l => l.code === code) ? code : undefined;
+};
+
+export const languageName = (code: string): string => languageInfo(code).name;
+
+export const speechLocale = (code: string): string => languageInfo(code).locale;
+
+export const textDirection = (code: string): 'rtl' | 'ltr' => (languageInfo(code).rtl ? 'rtl' : 'ltr');
+
+/**
+ * Attributes for an element showing text in `code`; right-to-left scripts use the Vazirmatn font.
+ */
+export const scriptProps = (code: string) => {
+  const rtl = languageInfo(code).rtl;
+  return { dir: rtl ? 'rtl' as const : 'ltr' as const, lang: code, className: rtl ? 'font-persian text-right' : '' };
+};
+
+// Fallback for engines without Intl.Segmenter: Latin, CJK, Arabic and Devanagari sentence marks
+const SENTENCE_PATTERN = /[^.!?。！？؟।]+[.!?。！？؟।]+["'”’»)\]]*(\s+|$)|[^.!?。！？؟।]+$/g;
+
+/**
+ * Splits text into trimmed sentences using the language's rules.
+ */
+export const splitSentences = (text: string, code: string): string[] => {
+  const raw = typeof Intl.Segmenter === 'function'
+    ? Array.from(new Intl.Segmenter(speechLocale(code), { granularity: 'sentence' }).segment(text), s => s.segment)
+    : text.match(SENTENCE_PATTERN) || [];
+  return raw.map(s => s.trim()).filter(s => s.length > 0);
+};
+
+/**
+ * Word count for segment sizing; languages written without spaces are counted by the word segmenter.
+ */
+export const countWords = (text: string, code: string): number => {
+  if (languageInfo(code).unspaced && typeof Intl.Segmenter === 'function') {
+    let count = 0;
+    for (const s of new Intl.Segmenter(speechLocale(code), { granularity: 'word' }).segment(text)) {
+      if (s.isWordLike) count++;
+    }
+    return count;
+  }
+  return text.split(/\s+/).filter(Boolean).length;
+};
+
+/**
+ * Joins sentences back into running text.
+ */
+export const joinSentences = (sentences: string[], code: string): string =>
+  sentences.join(languageInfo(code).unspaced ? '' : ' ');
+
+/**
+ * Moves the English→Persian era `persianTranslation` field to `translation`.
+ * Shared by the schema migration and backup import.
+ */
+export const migrateTranslationField = <T extends Record<string, any>>(record: T): T => {
+  if (!('persianTranslation' in record)) return record;
+  const { persianTranslation, ...rest } = record;
+  return { ...rest, translation: rest.translation ?? persianTranslation } as unknown as T;
+};
+
+export const migrateLegacySegment = <T extends Record<string, any>>(segment: T): T => ({
+  ...migrateTranslationField(segment),
+  analyzedWords: Array.isArray(segment.analyzedWords) ? segment.analyzedWords.map(migrateTranslationField) : segment.analyzedWords,
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { estimateLevel, learnerProfile } from './learnerLevel';
+import { AppSettings, Flashcard, ReviewLogEntry } from '../types';
+
+const card = (id: string, level: string, stage = 1): Flashcard => ({
+  id,
+  articleId: 'a1',
+  type: 'vocabulary',
+  word: id,
+  lemma: id,
+  collocations: [],
+  context: '',
+  level,
+  definition: '',
+  translation: '',
+  exampleSentence: '',
+  stage,
+  nextReview: 0,
+  ease: 2.5,
+  stability: 0,
+  lapses: 0,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+// `passed` of `total` graduated reviews of the card
+const reviews = (cardId: string, total: number, passed: number): ReviewLogEntry[] =>
+  Array.from({ length: total }, (_, i) => ({
+    id: `${cardId}-${i}`,
+    cardId,
+    reviewedAt: i,
+    grade: i < passed ? 4 : 1,
+    previousInterval: 6,
+    nextInterval: 6,
+    responseTime: 0,
+  }));
+
+describe('learner level', () => {
+  it('keeps the chosen level until there are enough reviews', () => {
+    const estimate = estimateLevel('B2', [], [card('w', 'C1')], reviews('w', 5, 5));
+    expect(estimate).toMatchObject({ level: 'B2', knownWords: 0 });
+  });
+
+  it('moves up on strong recall and down on weak recall', () => {
+    const cards = [card('b2', 'B2'), card('c1', 'C1')];
+    expect(estimateLevel('B2', [], cards, reviews('c1', 20, 19)).level).toBe('C2');
+    expect(estimateLevel('B2', [], cards, reviews('b2', 20, 19)).level).toBe('C1');
+    expect(estimateLevel('B2', [], cards, reviews('b2', 20, 10))).toMatchObject({
+      level: 'B1',
+      reason: 'You recall only 50% of your B2 words.',
+    });
+  });
+
+  it('never drops below the level the vocabulary size suggests', () => {
+    const known = Array.from({ length: 1990 }, (_, i) => `word${i}`);
+    const learned = Array.from({ length: 10 }, (_, i) => card(`card${i}`, 'B1', 3));
+    expect(estimateLevel('A1', known, learned, [])).toMatchObject({ level: 'B2', knownWords: 2000 });
+  });
+
+  it('uses the estimate only in adaptive mode', () => {
+    const settings = { learnerLevel: 'B1', targetExam: ' IELTS ', adaptiveLevel: false } as AppSettings;
+    const estimate = { level: 'C1' as const, knownWords: 0, reason: '' };
+    expect(learnerProfile(settings, estimate)).toEqual({ level: 'B1', targetExam: 'IELTS' });
+    expect(learnerProfile({ ...settings, adaptiveLevel: true, targetExam: '' }, estimate)).toEqual({ level: 'C1', targetExam: undefined });
+  });
+});
@@ -0,0 +1,102 @@
+import { AppSettings, CefrLevel, Flashcard, LearnerProfile, ReviewLogEntry } from '../types';
+import { getRetentionBy } from './stats';
+
+/**
+ * The learner's CEFR level, either chosen in Settings or estimated from how
+ * well they recall the cards of each level and how many words they know.
+ */
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+export const CEFR_LABELS: Record<CefrLevel, string> = {
+  A1: 'Beginner',
+  A2: 'Elementary',
+  B1: 'Intermediate',
+  B2: 'Upper intermediate',
+  C1: 'Advanced',
+  C2: 'Proficient',
+};
+
+// Suggestions only; any exam name can be entered
+export const TARGET_EXAMS = [
+  'IELTS', 'TOEFL', 'Cambridge B2 First', 'Cambridge C1 Advanced', 'Cambridge C2 Proficiency',
+  'DELF/DALF', 'DELE', 'Goethe-Zertifikat', 'TestDaF', 'JLPT', 'HSK', 'TOPIK',
+];
+
+// Rough vocabulary size at which each level is reached; known words never push the estimate below it
+const VOCABULARY_SIZE: Record<CefrLevel, number> = { A1: 0, A2: 500, B1: 1000, B2: 2000, C1: 4000, C2: 8000 };
+
+export const ESTIMATE_WINDOW_DAYS = 90;
+const MIN_REVIEWS = 20; // Per level, before its recall counts
+const STRONG_RECALL = 0.9;
+const WEAK_RECALL = 0.7;
+const LEARNED_STAGE = 3; // "Young" and older cards count as known words
+
+export interface LevelEstimate {
+  level: CefrLevel;
+  knownWords: number;
+  reason: string;
+}
+
+export const isCefrLevel = (value: string): value is CefrLevel => CEFR_LEVELS.includes(value as CefrLevel);
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/**
+ * Moves `start` up when cards at or above it are recalled reliably, down when
+ * its own cards are not, and never below what the vocabulary size suggests.
+ * `logs` should cover the last ESTIMATE_WINDOW_DAYS.
+ */
+export const estimateLevel = (
+  start: CefrLevel,
+  knownLemmas: string[],
+  cards: Flashcard[],
+  logs: ReviewLogEntry[]
+): LevelEstimate => {
+  const vocabulary = cards.filter(c => c.type === 'vocabulary');
+  const known = new Set(knownLemmas);
+  for (const card of vocabulary) {
+    if (card.stage >= LEARNED_STAGE) known.add(card.lemma);
+  }
+  const knownWords = known.size;
+
+  const rows = getRetentionBy(logs, vocabulary, c => String(c.level))
+    .filter(r => r.reviews >= MIN_REVIEWS && isCefrLevel(r.key));
+
+  let index = CEFR_LEVELS.indexOf(start);
+  let reason = `Not enough reviews yet, so your chosen level ${start} is used.`;
+
+  const strong = rows.filter(r => r.rate >= STRONG_RECALL && CEFR_LEVELS.indexOf(r.key as CefrLevel) >= index).pop();
+  const current = rows.find(r => r.key === start);
+  if (strong) {
+    index = Math.min(CEFR_LEVELS.length - 1, CEFR_LEVELS.indexOf(strong.key as CefrLevel) + 1);
+    reason = `You recall ${percent(strong.rate)} of your ${strong.key} words.`;
+  } else if (current && current.rate < WEAK_RECALL) {
+    index = Math.max(0, index - 1);
+    reason = `You recall only ${percent(current.rate)} of your ${start} words.`;
+  } else if (current) {
+    reason = `You recall ${percent(current.rate)} of your ${start} words.`;
+  }
+
+  const floor = CEFR_LEVELS.reduce((best, level, i) => knownWords >= VOCABULARY_SIZE[level] ? i : best, 0);
+  if (floor > index) {
+    index = floor;
+    reason = `You know about ${knownWords} words.`;
+  }
+
+  return { level: CEFR_LEVELS[index], knownWords, reason };
+};
+
+/**
+ * The profile every analysis is tailored to.
+ */
+export const learnerProfile = (settings: AppSettings, estimate?: LevelEstimate | null): LearnerProfile => ({
+  level: settings.adaptiveLevel && estimate ? estimate.level : settings.learnerLevel,
+  targetExam: (settings.targetExam || '').trim() || undefined,
+});
+
+/**
+ * Fills the {targetExam} prompt placeholder.
+ */
+export const examInstruction = (exam?: string): string =>
+  exam ? `The learner is preparing for the ${exam} exam; prefer vocabulary and structures that exam tests.` : '';
@@ -0,0 +1,126 @@
+import { AppSettings, PromptTask, ProviderId } from '../types';
+import { LLMProvider } from './llmProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAIProvider } from './openaiProvider';
+import { createMockProvider } from './mockProvider';
+import { getSessionKey } from './credentials';
+import { RateLimiter, createRateLimiter } from './aiPipeline';
+import { AiCache } from './aiCache';
+import { UsageRecorder } from './usage';
+import { LanguagePair } from './languages';
+
+export type LLMTask = 'analysis' | 'translation' | 'pronunciation' | 'tts';
+
+/**
+ * What a service function needs to run one task: a backend and the model to ask for.
+ */
+export interface TaskModel {
+  provider: LLMProvider;
+  model: string;
+  limiter?: RateLimiter; // Shared by every task on the same provider
+  cache?: AiCache; // Serves repeat analyses, lookups and translations
+  usage?: UsageRecorder; // Logs the tokens each request consumed
+  prompts?: Partial<Record<PromptTask, string>>; // Template overrides from Settings
+  languages?: LanguagePair;
+}
+
+export const PROVIDERS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Cloud models via the Google GenAI API' },
+  { id: 'openai', label: 'OpenAI-compatible', description: 'OpenAI, Ollama, llama.cpp, LM Studio or any server with the same API' },
+];
+
+// Settings keys holding each task's provider and model
+export const TASK_SETTINGS: Record<LLMTask, { provider: 'analysisProvider' | 'translationProvider' | 'pronunciationProvider' | 'ttsProvider'; model: 'analysisModel' | 'translationModel' | 'pronunciationModel' | 'ttsModel' }> = {
+  analysis: { provider: 'analysisProvider', model: 'analysisModel' },
+  translation: { provider: 'translationProvider', model: 'translationModel' },
+  pronunciation: { provider: 'pronunciationProvider', model: 'pronunciationModel' },
+  tts: { provider: 'ttsProvider', model: 'ttsModel' },
+};
+
+// Providers that cannot make any request without a key
+const KEY_REQUIRED: Record<ProviderId, boolean> = { gemini: true, openai: false };
+
+/**
+ * Raised instead of calling a provider that needs an API key nobody entered (or unlocked) yet.
+ */
+export class MissingKeyError extends Error {
+  constructor(public readonly provider: ProviderId) {
+    super(`No API key configured for ${PROVIDERS.find(p => p.id === provider)?.label || provider}. Add one in Settings.`);
+    this.name = 'MissingKeyError';
+  }
+}
+
+/**
+ * `apiKey` overrides the stored key, e.g. to test one before saving it.
+ */
+export const createProvider = (id: ProviderId, settings: AppSettings, apiKey = getSessionKey(id)): LLMProvider => {
+  switch (id) {
+    case 'openai':
+      return createOpenAIProvider(settings.openaiBaseUrl, apiKey);
+    case 'gemini':
+    default:
+      return createGeminiProvider(apiKey);
+  }
+};
+
+export const hasApiKey = (provider: ProviderId): boolean => Boolean(getSessionKey(provider));
+
+const taskProvider = (settings: AppSettings, task: LLMTask): ProviderId => settings[TASK_SETTINGS[task].provider] || 'gemini';
+
+/**
+ * Whether a task can run right now; components use it to show the no-key state instead of failing.
+ */
+export const isTaskReady = (settings: AppSettings, task: LLMTask): boolean => {
+  const provider = taskProvider(settings, task);
+  return settings.demoMode || !KEY_REQUIRED[provider] || hasApiKey(provider);
+};
+
+// Registered by the app once the database is open, like the session keys in credentials.ts
+let responseCache: AiCache | undefined;
+
+export const setResponseCache = (cache: AiCache | undefined) => {
+  responseCache = cache;
+};
+
+let usageRecorder: UsageRecorder | undefined;
+
+export const setUsageRecorder = (recorder: UsageRecorder | undefined) => {
+  usageRecorder = recorder;
+};
+
+const limiters = new Map<string, RateLimiter>();
+
+// One limiter per provider and limit configuration, so changed settings take effect for new requests
+const limiterFor = (provider: ProviderId, settings: AppSettings): RateLimiter => {
+  const concurrency = settings.maxConcurrentRequests || 1;
+  const requestsPerMinute = settings.requestsPerMinute || 0;
+  const key = `${provider}:${concurrency}:${requestsPerMinute}`;
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = createRateLimiter({ concurrency, requestsPerMinute });
+    limiters.set(key, limiter);
+  }
+  return limiter;
+};
+
+/**
+ * Resolves the provider and model configured for a task in Settings.
+ * `sourceLanguage` is the language of the article being worked on; it defaults to the import language.
+ * Demo mode overrides every task with the offline mock provider.
+ * Throws MissingKeyError when the provider needs a key that is not available.
+ */
+export const resolveTask = (settings: AppSettings, task: LLMTask, sourceLanguage?: string): TaskModel => {
+  const languages = { source: sourceLanguage || settings.defaultSourceLanguage, native: settings.nativeLanguage };
+  if (settings.demoMode) return { provider: createMockProvider(), model: 'demo', prompts: settings.promptTemplates, languages };
+  const provider = taskProvider(settings, task);
+  if (!isTaskReady(settings, task)) throw new MissingKeyError(provider);
+  return {
+    provider: createProvider(provider, settings),
+    model: settings[TASK_SETTINGS[task].model],
+    limiter: limiterFor(provider, settings),
+    cache: responseCache,
+    usage: usageRecorder,
+    prompts: settings.promptTemplates,
+    languages,
+  };
+};
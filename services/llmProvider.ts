@@ -0,0 +1,74 @@
+import { ProviderId } from '../types';
+
+/**
+ * Provider-neutral contract for the AI features. Service functions in
+ * geminiService.ts only talk to this interface; concrete backends live in
+ * geminiProvider.ts and openaiProvider.ts and are picked per task in llm.ts.
+ */
+
+export type { ProviderId };
+
+/**
+ * Minimal JSON Schema subset that every backend can express.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number; // Includes reasoning tokens, which are billed as output
+}
+
+interface BaseRequest {
+  model: string;
+  signal?: AbortSignal;
+  /** Called with the token counts the backend reported, when it reports any. */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface JsonRequest extends BaseRequest {
+  prompt: string;
+  schema: JsonSchema;
+}
+
+export interface TextRequest extends BaseRequest {
+  prompt: string;
+}
+
+export interface SpeechRequest extends BaseRequest {
+  text: string;
+  voice?: string;
+}
+
+export interface LLMProvider {
+  id: ProviderId | 'mock'; // 'mock' replays fixtures in demo mode and tests
+  endpoint?: string; // Server address, for providers where it is configurable
+  generateJson<T>(request: JsonRequest): Promise<T>;
+  generateText(request: TextRequest): Promise<string>;
+  /** Base64-encoded 16-bit mono PCM at 24 kHz, or null if the backend returned no audio. */
+  generateSpeech(request: SpeechRequest): Promise<string | null>;
+  /** Cheap authenticated request used by Settings to test a key; throws ProviderError on failure. */
+  verify(): Promise<void>;
+}
+
+/**
+ * Raised by providers for failed requests; `status` is the HTTP status when there was one
+ * and `retryAfterMs` the server's Retry-After hint.
+ */
+export class ProviderError extends Error {
+  constructor(message: string, public readonly status?: number, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// Helper to clean JSON strings from markdown blocks
+export const cleanJson = (text: string) => {
+  return text.replace(/```json/g, '').replace(/```/g, '').trim();
+};
@@ -0,0 +1,120 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { openDB } from 'idb';
+import { nanoid } from 'nanoid';
+import { DatabaseService } from './db';
+import { MIGRATIONS, LATEST_VERSION } from './migrations';
+import { createFixtureDatabase, V1_FIXTURE, V2_FIXTURE, V9_FIXTURE, LEGACY_REVIEWED_AT } from './__fixtures__/legacyDatabases';
+import { migrateTranslationField } from './languages';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const openService = async (name: string) => {
+  const service = new DatabaseService(name);
+  // Force the upgrade to run before assertions
+  await service.getSettings();
+  return service;
+};
+
+const inspectSchema = async (name: string) => {
+  const db = await openDB(name);
+  const stores = Array.from(db.objectStoreNames).sort();
+  const indexes: Record<string, string[]> = {};
+  const tx = db.transaction(stores, 'readonly');
+  for (const store of stores) {
+    indexes[store] = Array.from(tx.objectStore(store).indexNames).sort();
+  }
+  await tx.done;
+  const version = db.version;
+  db.close();
+  return { version, stores, indexes };
+};
+
+describe('migration registry', () => {
+  it('is ordered and contiguous from version 1', () => {
+    MIGRATIONS.forEach((m, i) => expect(m.version).toBe(i + 1));
+    expect(LATEST_VERSION).toBe(MIGRATIONS.length);
+  });
+
+  it('creates the full schema on a fresh install', async () => {
+    const name = `fresh-${nanoid()}`;
+    await openService(name);
+
+    const schema = await inspectSchema(name);
+    expect(schema.version).toBe(LATEST_VERSION);
+    expect(schema.stores).toEqual(['aiCache', 'analysisJobs', 'articles', 'collections', 'credentials', 'flashcards', 'knownLemmas', 'media', 'reviewLog', 'segments', 'settings', 'usage']);
+    expect(schema.indexes.flashcards).toEqual(['by-article', 'by-level', 'by-review', 'by-stage', 'by-type']);
+    expect(schema.indexes.reviewLog).toEqual(['by-card', 'by-date']);
+  });
+
+  it('upgrades every older version to the same schema as a fresh install', async () => {
+    const freshName = `fresh-${nanoid()}`;
+    await openService(freshName);
+    const fresh = await inspectSchema(freshName);
+
+    for (let version = 1; version < LATEST_VERSION; version++) {
+      const name = `v${version}-${nanoid()}`;
+      await createFixtureDatabase(name, { version, stores: {} });
+      await openService(name);
+      expect(await inspectSchema(name)).toEqual(fresh);
+    }
+  });
+});
+
+describe('v1 → latest', () => {
+  it('backfills SM-2 fields from the doubling scheduler without losing progress', async () => {
+    const name = `v1-${nanoid()}`;
+    await createFixtureDatabase(name, V1_FIXTURE);
+    const service = await openService(name);
+
+    const learned = await service.getFlashcard('card-learned');
+    expect(learned).toMatchObject({ stage: 3, ease: 2.5, stability: 8, lapses: 0 });
+    expect(learned?.nextReview).toBe(LEGACY_REVIEWED_AT + 8 * DAY_MS);
+    expect(learned?.lastReviewedAt).toBe(LEGACY_REVIEWED_AT);
+    expect(learned?.updatedAt).toBe(LEGACY_REVIEWED_AT);
+
+    const fresh = await service.getFlashcard('card-new');
+    expect(fresh).toMatchObject({ stage: 0, stability: 0, lapses: 0 });
+    expect(fresh?.lastReviewedAt).toBeUndefined();
+  });
+
+  it('keeps articles, segments and settings intact', async () => {
+    const name = `v1-${nanoid()}`;
+    await createFixtureDatabase(name, V1_FIXTURE);
+    const service = await openService(name);
+
+    const articles = await service.getArticles();
+    expect(articles.map(a => a.title)).toEqual(['Legacy Article']);
+    expect(articles[0].updatedAt).toBe(articles[0].processedAt);
+    expect((await service.getSegment('article-1', 0))?.content).toBe('A sentence with a word.');
+    expect((await service.getSettings())?.segmentLength).toBe(800);
+  });
+});
+
+describe('v2 → latest', () => {
+  it('adds an empty review log and leaves SM-2 scheduling untouched', async () => {
+    const name = `v2-${nanoid()}`;
+    await createFixtureDatabase(name, V2_FIXTURE);
+    const service = await openService(name);
+
+    expect(await service.getFlashcard('card-sm2')).toEqual({ ...migrateTranslationField(V2_FIXTURE.stores.flashcards[0]), updatedAt: LEGACY_REVIEWED_AT });
+    expect(await service.getReviewHistory('card-sm2')).toEqual([]);
+  });
+});
+
+describe('v9 → latest', () => {
+  it('renames Persian translations and marks existing articles as English', async () => {
+    const name = `v9-${nanoid()}`;
+    await createFixtureDatabase(name, V9_FIXTURE);
+    const service = await openService(name);
+
+    expect((await service.getArticle('article-1'))?.language).toBe('en');
+    const segment = await service.getSegment('article-1', 0);
+    expect(segment?.translation).toBe('یک جمله با یک کلمه.');
+    expect(segment?.analyzedWords[0].translation).toBe('ترجمه');
+    expect(segment).not.toHaveProperty('persianTranslation');
+    const card = await service.getFlashcard('card-sm2');
+    expect(card?.translation).toBe('ترجمه');
+    expect(card).not.toHaveProperty('persianTranslation');
+  });
+});
@@ -0,0 +1,178 @@
+import { IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import { LinguaFlowDB } from './db';
+import { migrateLegacyCard } from './scheduler';
+import { DEFAULT_SOURCE_LANGUAGE, migrateLegacySegment, migrateTranslationField } from './languages';
+
+export type UpgradeTransaction = IDBPTransaction<LinguaFlowDB, StoreNames<LinguaFlowDB>[], 'versionchange'>;
+
+/**
+ * A single schema step. `migrate` runs inside the versionchange transaction
+ * and must only await IndexedDB requests on that transaction, otherwise the
+ * transaction auto-commits before the step finishes.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBPDatabase<LinguaFlowDB>, tx: UpgradeTransaction) => Promise<void> | void;
+}
+
+/**
+ * Ordered registry of schema migrations. Never edit a released step;
+ * append a new one with the next version number instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial stores',
+    migrate: (db) => {
+      const articleStore = db.createObjectStore('articles', { keyPath: 'id' });
+      articleStore.createIndex('by-date', 'processedAt');
+
+      const segmentStore = db.createObjectStore('segments', { keyPath: 'id' });
+      segmentStore.createIndex('by-article', 'articleId');
+
+      const cardStore = db.createObjectStore('flashcards', { keyPath: 'id' });
+      cardStore.createIndex('by-article', 'articleId');
+      cardStore.createIndex('by-stage', 'stage');
+      cardStore.createIndex('by-review', 'nextReview');
+      cardStore.createIndex('by-type', 'type');
+      cardStore.createIndex('by-level', 'level');
+
+      db.createObjectStore('settings', { keyPath: 'id' });
+      db.createObjectStore('collections', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 2,
+    description: 'Backfill SM-2 scheduling fields from stage/nextReview',
+    migrate: async (_db, tx) => {
+      let cursor = await tx.objectStore('flashcards').openCursor();
+      while (cursor) {
+        await cursor.update(migrateLegacyCard(cursor.value));
+        cursor = await cursor.continue();
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Review log store',
+    migrate: (db) => {
+      const logStore = db.createObjectStore('reviewLog', { keyPath: 'id' });
+      logStore.createIndex('by-card', 'cardId');
+      logStore.createIndex('by-date', 'reviewedAt');
+    },
+  },
+  {
+    version: 4,
+    description: 'Backfill updatedAt on articles, flashcards and collections',
+    migrate: async (_db, tx) => {
+      let cards = await tx.objectStore('flashcards').openCursor();
+      while (cards) {
+        await cards.update({ ...cards.value, updatedAt: cards.value.lastReviewedAt || cards.value.createdAt });
+        cards = await cards.continue();
+      }
+      let articles = await tx.objectStore('articles').openCursor();
+      while (articles) {
+        await articles.update({ ...articles.value, updatedAt: articles.value.processedAt });
+        articles = await articles.continue();
+      }
+      let collections = await tx.objectStore('collections').openCursor();
+      while (collections) {
+        await collections.update({ ...collections.value, updatedAt: 0 });
+        collections = await collections.continue();
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Known lemmas store',
+    migrate: (db) => {
+      db.createObjectStore('knownLemmas', { keyPath: 'lemma' });
+    },
+  },
+  {
+    version: 6,
+    description: 'Per-device API credentials store',
+    migrate: (db) => {
+      db.createObjectStore('credentials', { keyPath: 'provider' });
+    },
+  },
+  {
+    version: 7,
+    description: 'Background analysis jobs store',
+    migrate: (db) => {
+      db.createObjectStore('analysisJobs', { keyPath: 'articleId' });
+    },
+  },
+  {
+    version: 8,
+    description: 'AI response cache store',
+    migrate: (db) => {
+      const cacheStore = db.createObjectStore('aiCache', { keyPath: 'key' });
+      cacheStore.createIndex('by-used', 'lastUsedAt');
+    },
+  },
+  {
+    version: 9,
+    description: 'Token usage store',
+    migrate: (db) => {
+      const usageStore = db.createObjectStore('usage', { keyPath: 'id' });
+      usageStore.createIndex('by-date', 'at');
+      usageStore.createIndex('by-article', 'articleId');
+    },
+  },
+  {
+    version: 10,
+    description: 'Rename persianTranslation to translation and tag articles with their source language',
+    migrate: async (_db, tx) => {
+      let articles = await tx.objectStore('articles').openCursor();
+      while (articles) {
+        const article = articles.value;
+        await articles.update({
+          ...article,
+          language: article.language || DEFAULT_SOURCE_LANGUAGE,
+          segments: article.segments.map(migrateLegacySegment),
+        });
+        articles = await articles.continue();
+      }
+      let segments = await tx.objectStore('segments').openCursor();
+      while (segments) {
+        await segments.update(migrateLegacySegment(segments.value));
+        segments = await segments.continue();
+      }
+      let cards = await tx.objectStore('flashcards').openCursor();
+      while (cards) {
+        await cards.update(migrateTranslationField(cards.value));
+        cards = await cards.continue();
+      }
+    },
+  },
+  {
+    version: 11,
+    description: 'Media attached to subtitle imports',
+    migrate: (db) => {
+      db.createObjectStore('media', { keyPath: 'articleId' });
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Runs every registered migration above `oldVersion` up to and including `newVersion`, in order.
+ */
+export const runMigrations = async (
+  db: IDBPDatabase<LinguaFlowDB>,
+  oldVersion: number,
+  newVersion: number,
+  tx: UpgradeTransaction,
+  migrations: Migration[] = MIGRATIONS
+): Promise<void> => {
+  const pending = migrations
+    .filter(m => m.version > oldVersion && m.version <= newVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    await migration.migrate(db, tx);
+  }
+};
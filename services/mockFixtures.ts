@@ -0,0 +1,147 @@
+import { WordAnalysis } from '../types';
+import { PronunciationResult } from './geminiService';
+
+/**
+ * Responses recorded from the live analysis, translation and pronunciation prompts
+ * for the bundled demo text. The mock provider replays the first fixture whose
+ * `match` occurs in the prompt it receives.
+ */
+export interface MockFixture {
+  match: string;
+  response: unknown;
+}
+
+export interface MockFixtureSet {
+  json: MockFixture[];
+  text: MockFixture[];
+}
+
+export const DEMO_ARTICLE = {
+  title: 'The Lighthouse Keeper',
+  text: `For thirty years, Elias had kept the lighthouse on the northern cliffs. Each evening he climbed the spiral staircase, trimmed the wick and watched the beam sweep across the restless water. Visitors assumed the job was lonely, but Elias found the solitude exhilarating rather than bleak. Had he known how quickly the automated lamps would arrive, he might have savoured those nights even more. When the letter finally came, he read it twice, folded it carefully and placed it beside the logbook. The sea, indifferent as ever, kept breaking against the rocks below.`,
+};
+
+const DEMO_ANALYSIS: WordAnalysis[] = [
+  {
+    type: 'vocabulary',
+    word: 'restless',
+    lemma: 'restless',
+    phonetic: '/ˈrestləs/',
+    partOfSpeech: 'adjective',
+    collocations: ['restless night', 'grow restless', 'restless energy'],
+    context: 'Each evening he climbed the spiral staircase, trimmed the wick and watched the beam sweep across the restless water.',
+    level: 'B2',
+    definition: 'Never still or calm; constantly moving.',
+    translation: 'ناآرام',
+    exampleSentence: 'The restless child kept looking out of the window.',
+  },
+  {
+    type: 'vocabulary',
+    word: 'solitude',
+    lemma: 'solitude',
+    phonetic: '/ˈsɒlɪtjuːd/',
+    partOfSpeech: 'noun',
+    collocations: ['in solitude', 'peace and solitude', 'seek solitude'],
+    context: 'Visitors assumed the job was lonely, but Elias found the solitude exhilarating rather than bleak.',
+    level: 'C1',
+    definition: 'The state of being alone, especially when it is peaceful.',
+    translation: 'خلوت؛ تنهایی',
+    exampleSentence: 'She enjoys the solitude of early mornings.',
+  },
+  {
+    type: 'vocabulary',
+    word: 'exhilarating',
+    lemma: 'exhilarating',
+    phonetic: '/ɪɡˈzɪləreɪtɪŋ/',
+    partOfSpeech: 'adjective',
+    collocations: ['an exhilarating experience', 'exhilarating ride', 'find something exhilarating'],
+    context: 'Visitors assumed the job was lonely, but Elias found the solitude exhilarating rather than bleak.',
+    level: 'C1',
+    definition: 'Making you feel very happy, lively and excited.',
+    translation: 'نشاط‌آور؛ هیجان‌انگیز',
+    exampleSentence: 'Sailing in a strong wind is exhilarating.',
+  },
+  {
+    type: 'vocabulary',
+    word: 'bleak',
+    lemma: 'bleak',
+    phonetic: '/bliːk/',
+    partOfSpeech: 'adjective',
+    collocations: ['bleak future', 'bleak landscape', 'look bleak'],
+    context: 'Visitors assumed the job was lonely, but Elias found the solitude exhilarating rather than bleak.',
+    level: 'C1',
+    definition: 'Cold, empty and without hope or comfort.',
+    translation: 'دلگیر؛ ناامیدکننده',
+    exampleSentence: 'The future looked bleak after the factory closed.',
+  },
+  {
+    type: 'vocabulary',
+    word: 'savoured',
+    lemma: 'savour',
+    phonetic: '/ˈseɪvə/',
+    partOfSpeech: 'verb',
+    collocations: ['savour the moment', 'savour the taste', 'savour victory'],
+    context: 'Had he known how quickly the automated lamps would arrive, he might have savoured those nights even more.',
+    level: 'C1',
+    definition: 'To enjoy something slowly so that you appreciate it fully.',
+    translation: 'لذت بردن؛ مزه‌مزه کردن',
+    exampleSentence: 'He savoured every moment of the holiday.',
+  },
+  {
+    type: 'grammar',
+    word: 'Had he known how quickly the automated lamps would arrive',
+    lemma: 'inverted third conditional',
+    partOfSpeech: 'clause',
+    collocations: [],
+    context: 'Had he known how quickly the automated lamps would arrive, he might have savoured those nights even more.',
+    level: 'Advanced',
+    definition: "Inversion of 'If he had known', used in formal or literary style for an unreal past condition.",
+    translation: 'شرطی نوع سوم با وارونگی؛ معادل «اگر می‌دانست»',
+    exampleSentence: 'Had I left earlier, I would have caught the train.',
+  },
+  {
+    type: 'literary',
+    word: 'The sea, indifferent as ever',
+    lemma: 'personification',
+    partOfSpeech: 'phrase',
+    collocations: [],
+    context: 'The sea, indifferent as ever, kept breaking against the rocks below.',
+    level: 'Advanced',
+    definition: "The sea is given a human attitude, suggesting nature's detachment from the keeper's loss.",
+    translation: 'جان‌بخشی (تشخیص)',
+    exampleSentence: 'The wind whispered through the empty streets.',
+  },
+];
+
+const DEMO_WORD: WordAnalysis = {
+  type: 'vocabulary',
+  word: 'wick',
+  lemma: 'wick',
+  phonetic: '/wɪk/',
+  partOfSpeech: 'noun',
+  collocations: ['trim the wick', 'candle wick', 'light the wick'],
+  context: 'Each evening he climbed the spiral staircase, trimmed the wick and watched the beam sweep across the restless water.',
+  level: 'C1',
+  definition: 'The string in a candle or oil lamp that burns when lit.',
+  translation: 'فتیله',
+  exampleSentence: 'She lit the wick of the old oil lamp.',
+};
+
+const DEMO_PRONUNCIATION: PronunciationResult = {
+  score: 75,
+  feedback: 'صدای «ی» در هجای دوم را کشیده‌تر تلفظ کنید و تکیه را روی هجای اول بگذارید.',
+  correctedWords: [{ word: 'solitude', status: 'mispronounced' }],
+};
+
+const DEMO_TRANSLATION = `الیاس سی سال از فانوس دریایی روی صخره‌های شمالی نگهداری کرده بود. هر شب از پلکان مارپیچ بالا می‌رفت، فتیله را مرتب می‌کرد و چرخش نور را بر آب ناآرام تماشا می‌کرد. بازدیدکنندگان گمان می‌کردند این کار تنهایی‌آور است، اما الیاس خلوت را نه دلگیر که نشاط‌آور می‌یافت. اگر می‌دانست چراغ‌های خودکار چه زود از راه می‌رسند، شاید از آن شب‌ها بیشتر لذت می‌برد. وقتی سرانجام نامه رسید، دو بار آن را خواند، با دقت تا کرد و کنار دفتر وقایع گذاشت. دریا، بی‌اعتنا مثل همیشه، همچنان بر صخره‌های پایین می‌کوبید.`;
+
+export const MOCK_FIXTURES: MockFixtureSet = {
+  json: [
+    { match: 'Original: "solitude"', response: DEMO_PRONUNCIATION },
+    { match: 'the specific word "wick"', response: DEMO_WORD },
+    { match: 'For thirty years, Elias had kept the lighthouse', response: DEMO_ANALYSIS },
+  ],
+  text: [
+    { match: 'For thirty years, Elias had kept the lighthouse', response: DEMO_TRANSLATION },
+  ],
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { createMockProvider } from './mockProvider';
+import { DEMO_ARTICLE, MOCK_FIXTURES } from './mockFixtures';
+import { analyzeTextForVocabulary, analyzeSingleWord, translateFullText, generateSpeechFromText, evaluatePronunciation } from './geminiService';
+import { decodeBase64 } from './audioUtils';
+import { resolveTask } from './llm';
+import { AppSettings } from '../types';
+
+const llm = { provider: createMockProvider(), model: 'demo' };
+
+describe('mock provider', () => {
+  it('replays the recorded analysis for the demo text', async () => {
+    const { items, issues } = await analyzeTextForVocabulary(DEMO_ARTICLE.text, { level: 'B2' }, llm, ['vocabulary', 'grammar', 'literary']);
+
+    expect(items.map(i => i.lemma)).toEqual([
+      'restless', 'solitude', 'exhilarating', 'bleak', 'savour', 'inverted third conditional', 'personification',
+    ]);
+    expect(items.find(i => i.lemma === 'savour')?.translation).toBe('لذت بردن؛ مزه‌مزه کردن');
+    expect(issues).toEqual([]);
+  });
+
+  it('hands out copies so results can be edited safely', async () => {
+    const { items: [first] } = await analyzeTextForVocabulary(DEMO_ARTICLE.text, { level: 'B2' }, llm);
+    first.definition = 'edited';
+
+    const { items: [again] } = await analyzeTextForVocabulary(DEMO_ARTICLE.text, { level: 'B2' }, llm);
+    expect(again.definition).not.toBe('edited');
+    expect((MOCK_FIXTURES.json[2].response as { definition: string }[])[0].definition).not.toBe('edited');
+  });
+
+  it('derives deterministic answers for unrecorded input', async () => {
+    const text = 'The committee postponed the unprecedented announcement. Everyone waited.';
+    const first = (await analyzeTextForVocabulary(text, { level: 'B2' }, llm)).items;
+    const second = (await analyzeTextForVocabulary(text, { level: 'B2' }, llm)).items;
+
+    expect(first).toEqual(second);
+    expect(first.map(i => i.word)).toEqual(['committee', 'postponed', 'unprecedented', 'announcement']);
+    expect(first[2]).toMatchObject({ level: 'C1', context: 'The committee postponed the unprecedented announcement.' });
+  });
+
+  it('covers single words, translation and pronunciation', async () => {
+    expect(await analyzeSingleWord('wick', 'He trimmed the wick.', llm)).toMatchObject({ lemma: 'wick', translation: 'فتیله' });
+    expect(await analyzeSingleWord('Harbour', 'They reached the harbour.', llm)).toMatchObject({ lemma: 'harbour', context: 'They reached the harbour.' });
+
+    expect(await translateFullText(DEMO_ARTICLE.text, llm)).toContain('فانوس دریایی');
+    expect(await translateFullText('Hello there.', llm)).toBe('[Demo translation]\n\nHello there.');
+
+    const result = await evaluatePronunciation('The sea was calm', 'the sea calm', llm);
+    expect(result.score).toBe(75);
+    expect(result.correctedWords.find(w => w.word === 'was')?.status).toBe('missing');
+  });
+
+  it('returns 16-bit PCM audio whose length follows the text', async () => {
+    const short = decodeBase64((await generateSpeechFromText('Hi', llm))!);
+    const long = decodeBase64((await generateSpeechFromText('A rather longer sentence to read aloud', llm))!);
+
+    expect(short.length % 2).toBe(0);
+    expect(long.length).toBeGreaterThan(short.length);
+  });
+
+  it('is used for every task in demo mode', () => {
+    const settings = { demoMode: true, analysisProvider: 'openai', ttsProvider: 'gemini' } as AppSettings;
+
+    expect(resolveTask(settings, 'analysis').provider.id).toBe('mock');
+    expect(resolveTask(settings, 'tts').provider.id).toBe('mock');
+    expect(resolveTask({ ...settings, demoMode: false }, 'analysis').provider.id).toBe('openai');
+  });
+});
@@ -0,0 +1,121 @@
+import { JsonRequest, LLMProvider } from './llmProvider';
+import { encodeBase64 } from './audioUtils';
+import { MOCK_FIXTURES, MockFixture, MockFixtureSet } from './mockFixtures';
+
+const SAMPLE_RATE = 24000;
+
+const replay = (fixtures: MockFixture[], prompt: string) => {
+  const fixture = fixtures.find(f => prompt.includes(f.match));
+  // Hand out copies so callers can mutate results without corrupting the fixtures
+  return fixture ? structuredClone(fixture.response) : undefined;
+};
+
+// The service prompts append the user's text after a blank line
+const promptInput = (prompt: string) => {
+  const marker = prompt.lastIndexOf('TEXT TO ANALYZE:');
+  if (marker >= 0) return prompt.slice(marker + 'TEXT TO ANALYZE:'.length).trim();
+  const parts = prompt.trim().split('\n\n');
+  return parts[parts.length - 1].trim();
+};
+
+const sentenceOf = (text: string, word: string) =>
+  text.split(/(?<=[.!?])\s+/).find(s => s.includes(word))?.trim() || word;
+
+/**
+ * Stand-in analysis for texts without a recording: the first few long lowercase words.
+ */
+const fallbackAnalysis = (text: string) => {
+  const seen = new Set<string>();
+  const words = (text.match(/\b[a-z][a-z'-]{7,}\b/g) || []).filter(w => !seen.has(w) && seen.add(w));
+  return words.slice(0, 6).map(word => ({
+    type: 'vocabulary',
+    word,
+    lemma: word,
+    partOfSpeech: 'word',
+    collocations: [],
+    context: sentenceOf(text, word),
+    level: word.length >= 10 ? 'C1' : 'B2',
+    definition: `Demo mode: no recorded definition for "${word}".`,
+    translation: `(demo) ${word}`,
+    exampleSentence: sentenceOf(text, word),
+  }));
+};
+
+const fallbackWord = (prompt: string) => {
+  const word = /word "([^"]+)"/.exec(prompt)?.[1] || 'word';
+  const context = /context: "([^"]*)"/.exec(prompt)?.[1] || word;
+  return {
+    type: 'vocabulary',
+    word,
+    lemma: word.toLowerCase(),
+    partOfSpeech: 'word',
+    collocations: [],
+    context,
+    level: 'B2',
+    definition: `Demo mode: no recorded definition for "${word}".`,
+    translation: `(demo) ${word}`,
+    exampleSentence: context,
+  };
+};
+
+/**
+ * Scores by word overlap so the result still depends on what was said.
+ */
+const fallbackPronunciation = (prompt: string) => {
+  const tokens = (s: string) => s.toLowerCase().match(/[a-z']+/g) || [];
+  const original = /Original: "([\s\S]*?)"\n/.exec(prompt)?.[1] || '';
+  const spoken = new Set(tokens(/User Said: "([\s\S]*?)"$/.exec(prompt.trim())?.[1] || ''));
+  const correctedWords = tokens(original).map(word => ({
+    word,
+    status: spoken.has(word) ? 'correct' : 'missing',
+  }));
+  const correct = correctedWords.filter(w => w.status === 'correct').length;
+  return {
+    score: correctedWords.length ? Math.round((correct / correctedWords.length) * 100) : 0,
+    feedback: 'Demo mode: this score only compares the words that were recognised.',
+    correctedWords,
+  };
+};
+
+/**
+ * A short, quiet tone whose length follows the text, so playback controls can be exercised.
+ */
+const demoTone = (text: string): string => {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const samples = Math.round(SAMPLE_RATE * Math.min(0.3 + words * 0.15, 4));
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const fade = Math.min(1, i / 480, (samples - i) / 480);
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * 330 * i) / SAMPLE_RATE) * 3000 * fade);
+  }
+  return encodeBase64(new Uint8Array(pcm.buffer));
+};
+
+/**
+ * Offline provider for demo mode and tests. Replays recorded fixtures when a prompt
+ * matches one and otherwise derives a deterministic answer from the prompt itself,
+ * so the same input always yields the same output and nothing leaves the browser.
+ */
+export const createMockProvider = (fixtures: MockFixtureSet = MOCK_FIXTURES): LLMProvider => ({
+  id: 'mock',
+
+  async generateJson<T>({ prompt, schema }: JsonRequest) {
+    const recorded = replay(fixtures.json, prompt);
+    if (recorded !== undefined) return recorded as T;
+    if (schema.type === 'array') return fallbackAnalysis(promptInput(prompt)) as T;
+    if (schema.properties && 'score' in schema.properties) return fallbackPronunciation(prompt) as T;
+    return fallbackWord(prompt) as T;
+  },
+
+  async generateText({ prompt }) {
+    const recorded = replay(fixtures.text, prompt);
+    if (typeof recorded === 'string') return recorded;
+    return `[Demo translation]\n\n${promptInput(prompt)}`;
+  },
+
+  async generateSpeech({ text }) {
+    return demoTone(text);
+  },
+
+  async verify() {},
+});
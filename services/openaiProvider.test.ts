@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createOpenAIProvider } from './openaiProvider';
+import { ProviderError } from './llmProvider';
+
+const chatResponse = (content: string) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+
+describe('OpenAI-compatible provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('wraps array schemas in an object and unwraps the result', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(chatResponse('{"result":[{"word":"lucid"}]}'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createOpenAIProvider('http://localhost:11434/v1/');
+    const result = await provider.generateJson<{ word: string }[]>({
+      model: 'llama3.1',
+      prompt: 'Analyze',
+      schema: { type: 'array', items: { type: 'object', properties: { word: { type: 'string' } } } },
+    });
+
+    expect(result).toEqual([{ word: 'lucid' }]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    const body = JSON.parse(init.body);
+    expect(body.response_format.json_schema.schema.properties.result.type).toBe('array');
+  });
+
+  it('accepts a bare array from servers that ignore the wrapper', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(chatResponse('```json\n[{"word":"lucid"}]\n```')));
+
+    const provider = createOpenAIProvider('http://localhost:8080/v1');
+    const result = await provider.generateJson({ model: 'm', prompt: 'p', schema: { type: 'array', items: { type: 'string' } } });
+
+    expect(result).toEqual([{ word: 'lucid' }]);
+  });
+
+  it('reports the HTTP status of failed requests', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('slow down', { status: 429, statusText: 'Too Many Requests' })));
+
+    const provider = createOpenAIProvider('http://localhost:8080/v1');
+    const error = await provider.generateText({ model: 'm', prompt: 'p' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.status).toBe(429);
+  });
+});
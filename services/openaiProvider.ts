@@ -0,0 +1,100 @@
+import { JsonRequest, JsonSchema, LLMProvider, ProviderError, TokenUsage, cleanJson } from './llmProvider';
+import { encodeBase64 } from './audioUtils';
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible endpoint
+
+/**
+ * Talks to any server implementing the OpenAI REST API: OpenAI itself, Ollama,
+ * llama.cpp's server, LM Studio, vLLM. Uses `fetch` only, so no SDK is bundled.
+ */
+export const createOpenAIProvider = (baseUrl: string, apiKey?: string): LLMProvider => {
+  const root = (baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+
+  const request = async (path: string, body?: unknown, signal?: AbortSignal): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, {
+        method: body === undefined ? 'GET' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal,
+      });
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      throw new ProviderError(`Could not reach ${root}. Is the server running? (${error?.message || error})`);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new ProviderError(
+        `${response.status} ${response.statusText}: ${detail.slice(0, 300)}`,
+        response.status,
+        retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
+    }
+    return response;
+  };
+
+  const complete = async (
+    model: string,
+    prompt: string,
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void,
+    extra: Record<string, unknown> = {}
+  ): Promise<string> => {
+    const response = await request('/chat/completions', {
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      ...extra,
+    }, signal);
+    const data = await response.json();
+    if (data.usage && onUsage) {
+      onUsage({ promptTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 });
+    }
+    return data.choices?.[0]?.message?.content || '';
+  };
+
+  return {
+    id: 'openai',
+    endpoint: root,
+
+    async generateJson<T>({ model, prompt, schema, signal, onUsage }: JsonRequest) {
+      // Structured output requires an object at the root, so arrays are wrapped
+      const wrapped = schema.type !== 'object';
+      const rootSchema: JsonSchema = wrapped
+        ? { type: 'object', properties: { result: schema }, required: ['result'] }
+        : schema;
+
+      const text = await complete(model, `${prompt}\n\nRespond with JSON only.`, signal, onUsage, {
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema: rootSchema } },
+      });
+
+      let parsed: any;
+      try {
+        parsed = JSON.parse(cleanJson(text));
+      } catch {
+        throw new ProviderError('The model did not return valid JSON.');
+      }
+      // Some local servers ignore the wrapper and return the bare array
+      return (wrapped && parsed && !Array.isArray(parsed) && 'result' in parsed ? parsed.result : parsed) as T;
+    },
+
+    async generateText({ model, prompt, signal, onUsage }) {
+      return complete(model, prompt, signal, onUsage);
+    },
+
+    async generateSpeech({ model, text, voice = 'alloy', signal }) {
+      // `pcm` is 24 kHz 16-bit mono, the same format Gemini returns
+      const response = await request('/audio/speech', { model, input: text, voice, response_format: 'pcm' }, signal);
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      return bytes.length > 0 ? encodeBase64(bytes) : null;
+    },
+
+    async verify() {
+      await request('/models');
+    },
+  };
+};
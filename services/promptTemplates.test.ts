@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PROMPTS, missingVariables, parsePromptTemplates, renderPrompt, serializePromptTemplates, templateFor,
+} from './promptTemplates';
+import { analyzeSingleWord, translateFullText } from './geminiService';
+import { createMockProvider } from './mockProvider';
+import { LLMProvider } from './llmProvider';
+
+// Mock provider that keeps every prompt it was sent
+const recordingProvider = () => {
+  const mock = createMockProvider();
+  const prompts: string[] = [];
+  const provider: LLMProvider = {
+    ...mock,
+    generateJson: request => { prompts.push(request.prompt); return mock.generateJson(request); },
+    generateText: request => { prompts.push(request.prompt); return mock.generateText(request); },
+  };
+  return { provider, prompts };
+};
+
+describe('prompt templates', () => {
+  it('fills known placeholders and leaves others untouched', () => {
+    expect(renderPrompt('Translate {text} into {nativeLanguage}. Format: {"a": 1} {unknown}', { text: 'hi', nativeLanguage: 'German' }))
+      .toBe('Translate hi into German. Format: {"a": 1} {unknown}');
+    expect(missingVariables('word', 'Explain {word}.')).toEqual(['context']);
+    expect(missingVariables('word', DEFAULT_PROMPTS.word)).toEqual([]);
+  });
+
+  it('sends user overrides and falls back to the defaults', async () => {
+    const { provider, prompts } = recordingProvider();
+    const overrides = { translation: 'Render {text} in plain {nativeLanguage} for children.' };
+
+    await translateFullText('Hello there.', { provider, model: 'demo', prompts: overrides });
+    await analyzeSingleWord('wick', 'He trimmed the wick.', { provider, model: 'demo', prompts: overrides });
+
+    expect(prompts[0]).toBe('Render Hello there. in plain Persian for children.');
+    expect(prompts[1]).toContain('Analyze the specific word "wick" found in this context: "He trimmed the wick."');
+    expect(templateFor('translation', { translation: '   ' })).toBe(DEFAULT_PROMPTS.translation);
+  });
+
+  it('names the article and native languages in the prompts', async () => {
+    const { provider, prompts } = recordingProvider();
+    const languages = { source: 'de', native: 'ja' };
+
+    await translateFullText('Guten Morgen.', { provider, model: 'demo', languages });
+    await analyzeSingleWord('Morgen', 'Guten Morgen.', { provider, model: 'demo', languages });
+
+    expect(prompts[0]).toContain('Japanese');
+    expect(prompts[1]).toContain('German');
+  });
+
+  it('round-trips exported templates and drops unchanged defaults', () => {
+    const overrides = { analysis: `${DEFAULT_PROMPTS.analysis}\nKeep definitions under ten words.` };
+    const file = JSON.parse(serializePromptTemplates(overrides));
+
+    expect(Object.keys(file.templates)).toEqual(['analysis', 'word', 'translation', 'pronunciation']);
+    expect(parsePromptTemplates(file)).toEqual(overrides);
+  });
+
+  it('rejects foreign files and templates without their input', () => {
+    expect(() => parsePromptTemplates({ format: 'linguaflow-backup' })).toThrow('Not a LinguaFlow prompt template file.');
+    expect(() => parsePromptTemplates({ format: 'linguaflow-prompts', version: 1, templates: { translation: 'Translate.' } }))
+      .toThrow('missing {text}');
+  });
+});
@@ -0,0 +1,169 @@
+import { PromptTask } from '../types';
+
+/**
+ * Prompt templates for the AI tasks. `{name}` placeholders are filled in by
+ * geminiService; users can override any template in Settings and share their
+ * set as a JSON file.
+ */
+
+export const PROMPT_TASKS: PromptTask[] = ['analysis', 'word', 'translation', 'pronunciation'];
+
+export const PROMPT_TASK_LABELS: Record<PromptTask, string> = {
+  analysis: 'Text analysis',
+  word: 'Word lookup',
+  translation: 'Translation',
+  pronunciation: 'Pronunciation feedback',
+};
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+  required?: boolean; // Without it the prompt cannot see the input
+}
+
+export const PROMPT_VARIABLES: Record<PromptTask, PromptVariable[]> = {
+  analysis: [
+    { name: 'text', description: 'The text to analyze', required: true },
+    { name: 'level', description: "The learner's CEFR level" },
+    { name: 'targetExam', description: 'Instruction naming the exam the learner prepares for (empty if none)' },
+    { name: 'enabledTypes', description: 'Enabled item types, e.g. "vocabulary, grammar"' },
+    { name: 'sourceLanguage', description: 'Language of the text' },
+    { name: 'nativeLanguage', description: 'Language for translations and explanations' },
+    { name: 'knownWords', description: 'Instruction listing known words found in the text (empty if none)' },
+  ],
+  word: [
+    { name: 'word', description: 'The selected word', required: true },
+    { name: 'context', description: 'The sentence it appears in', required: true },
+    { name: 'sourceLanguage', description: 'Language of the word' },
+    { name: 'nativeLanguage', description: 'Language for the translation' },
+  ],
+  translation: [
+    { name: 'text', description: 'The text to translate', required: true },
+    { name: 'sourceLanguage', description: 'Language of the text' },
+    { name: 'nativeLanguage', description: 'Target language' },
+  ],
+  pronunciation: [
+    { name: 'original', description: 'The text the learner read aloud', required: true },
+    { name: 'transcript', description: 'What speech recognition heard', required: true },
+    { name: 'sourceLanguage', description: 'Language being spoken' },
+    { name: 'nativeLanguage', description: 'Language for the feedback' },
+  ],
+};
+
+// The closing "TEXT TO ANALYZE:", `word "..."` and "Original:/User Said:" lines are also what demo mode reads
+export const DEFAULT_PROMPTS: Record<PromptTask, string> = {
+  analysis: `Analyze the following {sourceLanguage} text for a learner at CEFR level {level}.
+Identify key items based on the following enabled categories: {enabledTypes}.
+
+1. **Vocabulary**: Identify words/phrases at CEFR level {level} or higher. Skip easier words. Ignore names/places.
+2. **Grammar**: (If enabled) Identify complex sentence structures, inverted sentences, advanced conditional forms, or unique syntax usage.
+3. **Literary**: (If enabled) Identify literary devices like metaphors, similes, symbolism, or foreshadowing.
+4. **Historical**: (If enabled) Identify historical references, cultural allusions, or specific era-related terminology.
+
+For EACH identified item, provide:
+- type: One of ['vocabulary', 'grammar', 'literary', 'historical']
+- word: The specific word or phrase (or the grammar pattern name).
+- lemma: Root form (for vocabulary) or same as word.
+- phonetic: IPA (only for vocabulary).
+- partOfSpeech: (noun, verb, etc. for vocabulary; 'phrase' or 'clause' for others).
+- collocations: List 2-3 phrases (mostly for vocabulary).
+- context: The exact sentence it appeared in.
+- level: CEFR level (A1-C2) or 'Advanced' for non-vocab.
+- definition: Concise definition in simple {sourceLanguage}, or explanation of the grammar/literary concept.
+- translation: Natural {nativeLanguage} translation or explanation.
+- exampleSentence: A simplified example using the word or concept.
+
+{targetExam}
+{knownWords}
+Return the result as a JSON array.
+
+TEXT TO ANALYZE:
+{text}`,
+
+  word: `Analyze the specific word "{word}" found in this context: "{context}".
+Provide a detailed vocabulary analysis for a learner of {sourceLanguage}, with the translation field in {nativeLanguage}.
+
+Return the result as a single JSON object.`,
+
+  translation: `Translate the following {sourceLanguage} text into natural, fluent {nativeLanguage}. Maintain the tone and formatting.
+
+{text}`,
+
+  pronunciation: `Compare the Original {sourceLanguage} Text with the User's Spoken Transcript.
+Rate the pronunciation accuracy on a scale of 0-100.
+Provide specific feedback in {nativeLanguage} on how to improve.
+Return a list of words from the original text indicating if they were correct, mispronounced, or missing.
+
+Original: "{original}"
+User Said: "{transcript}"`,
+};
+
+// Inputs for the "Test on sample text" preview in Settings
+export const SAMPLE_VARIABLES: Record<PromptTask, Record<string, string>> = {
+  analysis: {
+    text: 'The old lighthouse keeper trimmed the wick with meticulous care, though the storm had long since abated and no ship would brave the treacherous strait before dawn.',
+  },
+  word: { word: 'abated', context: 'The storm had long since abated.' },
+  translation: { text: 'The storm had long since abated, and the harbour lay quiet under a pale moon.' },
+  pronunciation: {
+    original: 'The storm had long since abated.',
+    transcript: 'the storm had long since abate',
+  },
+};
+
+/**
+ * The user's override for a task, or the built-in template.
+ */
+export const templateFor = (task: PromptTask, overrides: Partial<Record<PromptTask, string>> = {}): string =>
+  overrides[task]?.trim() ? overrides[task]! : DEFAULT_PROMPTS[task];
+
+/**
+ * Replaces `{name}` with `variables[name]`; unknown placeholders (e.g. JSON examples) are left as written.
+ */
+export const renderPrompt = (template: string, variables: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => (name in variables ? variables[name] : match));
+
+/**
+ * Required variables the template does not use.
+ */
+export const missingVariables = (task: PromptTask, template: string): string[] =>
+  PROMPT_VARIABLES[task].filter(v => v.required && !template.includes(`{${v.name}}`)).map(v => v.name);
+
+export const PROMPTS_FORMAT = 'linguaflow-prompts';
+export const PROMPTS_VERSION = 1;
+
+/**
+ * Every task's effective template, so the file is complete on its own.
+ */
+export const serializePromptTemplates = (overrides: Partial<Record<PromptTask, string>>): string =>
+  JSON.stringify({
+    format: PROMPTS_FORMAT,
+    version: PROMPTS_VERSION,
+    templates: Object.fromEntries(PROMPT_TASKS.map(task => [task, templateFor(task, overrides)])),
+  }, null, 2);
+
+/**
+ * Validates an exported template file and returns the overrides to store.
+ * Templates equal to the built-in ones are dropped so they follow future default changes.
+ */
+export const parsePromptTemplates = (raw: unknown): Partial<Record<PromptTask, string>> => {
+  if (typeof raw !== 'object' || raw === null || (raw as any).format !== PROMPTS_FORMAT) {
+    throw new Error('Not a LinguaFlow prompt template file.');
+  }
+  const { version, templates } = raw as { version?: unknown; templates?: unknown };
+  if (typeof version === 'number' && version > PROMPTS_VERSION) {
+    throw new Error(`These templates were created by a newer version of the app (format v${version}). Please update first.`);
+  }
+  if (typeof templates !== 'object' || templates === null) throw new Error('The file contains no templates.');
+
+  const overrides: Partial<Record<PromptTask, string>> = {};
+  for (const [task, template] of Object.entries(templates)) {
+    if (!PROMPT_TASKS.includes(task as PromptTask) || typeof template !== 'string') continue;
+    const missing = missingVariables(task as PromptTask, template);
+    if (missing.length > 0) {
+      throw new Error(`The ${PROMPT_TASK_LABELS[task as PromptTask]} template is missing ${missing.map(v => `{${v}}`).join(', ')}.`);
+    }
+    if (template !== DEFAULT_PROMPTS[task as PromptTask]) overrides[task as PromptTask] = template;
+  }
+  return overrides;
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { Flashcard } from '../types';
+import { createSchedulingState, formatInterval, migrateLegacyCard, previewIntervals, scheduleReview } from './scheduler';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 15, 12);
+
+const card = (overrides: Partial<Flashcard> = {}): Flashcard => ({
+  id: 'c1',
+  articleId: 'a1',
+  type: 'vocabulary',
+  word: 'lucid',
+  lemma: 'lucid',
+  collocations: [],
+  context: '',
+  level: 'B2',
+  definition: '',
+  translation: '',
+  exampleSentence: '',
+  ...createSchedulingState(NOW),
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+// A card on a 10-day interval that is due now
+const mature = () => card({ stage: 3, stability: 10, ease: 2.5, lastReviewedAt: NOW - 10 * DAY, nextReview: NOW });
+const days = (ms: number) => Math.round(ms / DAY);
+
+describe('scheduler', () => {
+  it('orders the grades Again < Hard < Good < Easy', () => {
+    const intervals = previewIntervals(mature(), NOW);
+    expect(intervals[1]).toBe(10 * 60 * 1000);
+    expect([days(intervals[3]), days(intervals[4]), days(intervals[5])]).toEqual([12, 25, 34]);
+
+    // A new card graded Hard comes back the same day instead of graduating
+    const fresh = previewIntervals(card(), NOW);
+    expect(fresh[3]).toBe(6 * 60 * 60 * 1000);
+    expect([days(fresh[4]), days(fresh[5])]).toEqual([1, 4]);
+    const hard = { ...card(), ...scheduleReview(card(), 3, NOW) };
+    expect(hard).toMatchObject({ stage: 0, stability: 0, ease: 2.5 });
+    expect(scheduleReview(hard, 4, NOW + 6 * 60 * 60 * 1000)).toMatchObject({ stage: 1, stability: 1 });
+  });
+
+  it('sends a lapsed card back to relearning and keeps the ease above the floor', () => {
+    const lapsed = scheduleReview(mature(), 1, NOW);
+    expect(lapsed).toMatchObject({ stage: 0, stability: 0, lapses: 1, ease: 2.3, nextReview: NOW + 10 * 60 * 1000 });
+
+    const hardest = card({ stage: 3, stability: 10, ease: 1.3, lastReviewedAt: NOW - 10 * DAY });
+    expect(scheduleReview(hardest, 1, NOW).ease).toBe(1.3);
+    expect(scheduleReview(hardest, 3, NOW).ease).toBe(1.3);
+  });
+
+  it('credits late reviews with the longer gap but early reviews only in proportion', () => {
+    const late = card({ stage: 3, stability: 10, ease: 2.5, lastReviewedAt: NOW - 20 * DAY });
+    expect(scheduleReview(late, 4, NOW).stability).toBe(50);
+
+    const halfway = card({ stage: 3, stability: 10, ease: 2.5, lastReviewedAt: NOW - 5 * DAY });
+    expect(scheduleReview(halfway, 4, NOW).stability).toBe(18); // 10 + (25 - 10) / 2
+
+    // Grading a new card Good again and again within minutes does not stretch its interval
+    let current = card();
+    for (let i = 0; i < 6; i++) {
+      const at = NOW + i * 60 * 1000;
+      current = { ...current, ...scheduleReview(current, 4, at) };
+    }
+    expect(current.stability).toBe(1);
+  });
+
+  it('formats intervals for the grade buttons', () => {
+    expect(formatInterval(10 * 60 * 1000)).toBe('10m');
+    expect(formatInterval(3 * 60 * 60 * 1000)).toBe('3h');
+    expect(formatInterval(DAY)).toBe('1d');
+    expect(formatInterval(60 * DAY)).toBe('2mo');
+    expect(formatInterval(730 * DAY)).toBe('2.0y');
+  });
+
+  it('migrates cards from the doubling scheduler, capping their interval', () => {
+    const legacy = (stage: number) => ({ ...card({ stage, nextReview: NOW }), ease: undefined, stability: undefined } as unknown as Flashcard);
+    expect(migrateLegacyCard(legacy(3))).toMatchObject({ stage: 3, ease: 2.5, stability: 8, lapses: 0, lastReviewedAt: NOW - 8 * DAY });
+    expect(migrateLegacyCard(legacy(20)).stability).toBe(365 * 5);
+    expect(migrateLegacyCard(legacy(0))).toMatchObject({ stability: 0, lastReviewedAt: undefined });
+
+    const current = mature();
+    expect(migrateLegacyCard(current)).toBe(current);
+  });
+});
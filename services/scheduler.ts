@@ -0,0 +1,153 @@
+import { Flashcard } from '../types';
+
+/**
+ * SM-2 based spaced repetition scheduler.
+ *
+ * Grades follow the SM-2 quality scale (0-5). Anything below 3 counts as a
+ * lapse and sends the card back into relearning; 3-5 are successful recalls
+ * whose interval grows with the card's ease factor.
+ */
+
+export type ReviewGrade = 1 | 3 | 4 | 5;
+
+export const GRADES: { value: ReviewGrade; label: string }[] = [
+  { value: 1, label: 'Again' },
+  { value: 3, label: 'Hard' },
+  { value: 4, label: 'Good' },
+  { value: 5, label: 'Easy' },
+];
+
+export type SchedulingState = Pick<Flashcard, 'stage' | 'nextReview' | 'ease' | 'stability' | 'lapses' | 'lastReviewedAt'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // The Review screen also requeues lapsed cards at the end of the session
+const HARD_STEP_MS = 6 * 60 * 60 * 1000; // "Hard" on a card still in (re)learning shows it again later the same day
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 365 * 5;
+const HARD_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+
+/**
+ * Scheduling fields for a card that has never been reviewed.
+ */
+export const createSchedulingState = (now: number = Date.now()): SchedulingState => ({
+  stage: 0,
+  nextReview: now,
+  ease: DEFAULT_EASE,
+  stability: 0,
+  lapses: 0,
+});
+
+/**
+ * Derives scheduler fields for cards created by the old doubling scheduler,
+ * which only stored `stage` and `nextReview` (interval was 2^stage days).
+ * Cards that already carry an ease factor are returned unchanged.
+ */
+export const migrateLegacyCard = <T extends Flashcard>(card: T): T => {
+  if (typeof card.ease === 'number' && typeof card.stability === 'number') return card;
+
+  const stage = card.stage || 0;
+  const stability = stage > 0 ? Math.min(Math.pow(2, stage), MAX_INTERVAL_DAYS) : 0;
+  return {
+    ...card,
+    stage,
+    ease: DEFAULT_EASE,
+    stability,
+    lapses: card.lapses || 0,
+    lastReviewedAt: stage > 0 ? card.nextReview - stability * DAY_MS : undefined,
+  };
+};
+
+const nextEase = (ease: number, grade: number) => {
+  const updated = ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+  return Math.max(MIN_EASE, Math.round(updated * 100) / 100);
+};
+
+/**
+ * Computes the scheduling state after grading a card.
+ */
+export const scheduleReview = (card: Flashcard, grade: number, now: number = Date.now()): SchedulingState => {
+  const current = migrateLegacyCard(card);
+
+  if (grade < 3) {
+    return {
+      stage: 0,
+      nextReview: now + RELEARN_DELAY_MS,
+      ease: Math.max(MIN_EASE, current.ease - 0.2),
+      stability: 0,
+      lapses: current.lapses + 1,
+      lastReviewedAt: now,
+    };
+  }
+
+  if (grade === 3 && current.stage === 0) {
+    return {
+      stage: 0,
+      nextReview: now + HARD_STEP_MS,
+      ease: current.ease,
+      stability: 0,
+      lapses: current.lapses,
+      lastReviewedAt: now,
+    };
+  }
+
+  const stage = current.stage + 1;
+  const ease = nextEase(current.ease, grade);
+
+  // Reward recalls that happened later than scheduled: the card survived a longer gap.
+  const elapsedDays = current.lastReviewedAt ? Math.max(0, (now - current.lastReviewedAt) / DAY_MS) : 0;
+  const effectiveStability = Math.max(current.stability, elapsedDays);
+  // Recalls before the due date only earn the share of the growth that the elapsed time covers
+  const dueRatio = current.lastReviewedAt && current.stability > 0 ? Math.min(1, elapsedDays / current.stability) : 1;
+
+  let interval: number;
+  if (stage === 1) {
+    interval = grade === 5 ? 4 : 1;
+  } else if (stage === 2) {
+    interval = grade === 3 ? 3 : grade === 5 ? 8 : 6;
+  } else if (grade === 3) {
+    interval = effectiveStability * HARD_MULTIPLIER;
+  } else {
+    interval = effectiveStability * ease * (grade === 5 ? EASY_BONUS : 1);
+  }
+
+  if (dueRatio < 1) {
+    // An early review never shortens the interval, but need not lengthen it either
+    interval = current.stability + (interval - current.stability) * dueRatio;
+    interval = Math.min(MAX_INTERVAL_DAYS, Math.max(Math.round(interval), current.stability, 1));
+  } else {
+    // Always move forward by at least a day so "Hard" never shrinks the interval below the previous one.
+    interval = Math.min(MAX_INTERVAL_DAYS, Math.max(Math.round(interval), Math.min(current.stability + 1, MAX_INTERVAL_DAYS), 1));
+  }
+
+  return {
+    stage,
+    nextReview: now + interval * DAY_MS,
+    ease,
+    stability: interval,
+    lapses: current.lapses,
+    lastReviewedAt: now,
+  };
+};
+
+/**
+ * Time until the next review for each available grade, used to label the grade buttons.
+ */
+export const previewIntervals = (card: Flashcard, now: number = Date.now()): Record<ReviewGrade, number> => {
+  const result = {} as Record<ReviewGrade, number>;
+  for (const { value } of GRADES) {
+    result[value] = scheduleReview(card, value, now).nextReview - now;
+  }
+  return result;
+};
+
+export const formatInterval = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const days = ms / DAY_MS;
+  if (days < 1) return `${Math.round(minutes / 60)}h`;
+  if (days < 30) return `${Math.round(days)}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { ArticleSegment } from '../types';
+import { chaptersToSegments, hardMaximum, resegment, segmentText, splitText } from './segmentation';
+
+const sentences = (count: number) => Array.from({ length: count }, (_, i) => `Sentence number ${i + 1} has six words.`).join(' ');
+
+describe('chaptersToSegments', () => {
+  it('keeps short chapters whole and splits long ones evenly under the cap', () => {
+    const segments = chaptersToSegments([
+      { title: 'Prologue', content: 'A short opening.\n\nWith two paragraphs.' },
+      { title: 'Chapter 1', content: sentences(50) }, // 300 words
+    ], 120, 'en');
+
+    expect(segments.map(s => s.title)).toEqual(['Prologue', 'Chapter 1 (1/3)', 'Chapter 1 (2/3)', 'Chapter 1 (3/3)']);
+    expect(segments[0].content).toBe('A short opening.\n\nWith two paragraphs.');
+    for (const part of segments.slice(1)) {
+      expect(part.content.split(' ').length).toBeLessThanOrEqual(120);
+    }
+    expect(segments.slice(1).map(s => s.content).join(' ')).toBe(sentences(50));
+  });
+});
+
+const paragraph = (label: string, sentences: number) =>
+  Array.from({ length: sentences }, (_, i) => `${label} sentence ${i + 1} has six words.`).join(' ');
+
+describe('segmentText', () => {
+  it('keeps paragraphs and cuts before a heading rather than after it', () => {
+    const text = [paragraph('First', 5), paragraph('Second', 4), 'A New Chapter', paragraph('Third', 5), paragraph('Fourth', 5)].join('\n\n');
+    const parts = segmentText(text, 60, 'en');
+
+    expect(parts.map(p => p.title)).toEqual(['Part 1', 'Part 2']);
+    expect(parts[0].content).toBe([paragraph('First', 5), paragraph('Second', 4)].join('\n\n'));
+    expect(parts[1].content.startsWith('A New Chapter\n\n')).toBe(true);
+    expect(parts.map(p => p.content).join('\n\n')).toBe(text);
+  });
+
+  it('splits text without punctuation or line breaks under the hard maximum', () => {
+    const text = Array.from({ length: 500 }, (_, i) => `word${i}`).join(' ');
+    const parts = splitText(text, 100, 'en');
+
+    expect(parts.length).toBeGreaterThanOrEqual(4);
+    for (const part of parts) expect(part.split(' ').length).toBeLessThanOrEqual(hardMaximum(100));
+    expect(parts.join(' ')).toBe(text);
+  });
+
+  it('cuts after quoted speech, not at the sentence ends inside it', () => {
+    const text = '"I will go. You stay. We meet later. Agreed?" Ann left the room quickly. Then it rained.';
+    expect(splitText(text, 8, 'en', 12)).toEqual(['"I will go. You stay. We meet later. Agreed?"', 'Ann left the room quickly. Then it rained.']);
+  });
+});
+
+describe('resegment', () => {
+  const segment = (index: number, content: string, overrides: Partial<ArticleSegment> = {}): ArticleSegment => ({
+    id: `s${index}`,
+    index,
+    title: `Part ${index + 1}`,
+    content,
+    analyzedWords: [],
+    approvedWordIds: [],
+    isAnalyzed: false,
+    ...overrides,
+  });
+  const word = (lemma: string, context: string) => ({
+    type: 'vocabulary' as const, word: lemma, lemma, collocations: [], context, level: 'B2',
+    definition: '', translation: '', exampleSentence: '',
+  });
+
+  it('moves analyzed words and approvals to the part containing their sentence', () => {
+    const first = paragraph('Alpha', 10);
+    const second = paragraph('Beta', 10);
+    const old = [
+      segment(0, first, { isAnalyzed: true, translation: 'T1', analyzedWords: [word('alpha', 'Alpha sentence 9 has six words.')], approvedWordIds: ['alpha'] }),
+      segment(1, second, { isAnalyzed: true, analyzedWords: [word('beta', 'Beta sentence 2 has six words.')] }),
+    ];
+
+    const merged = resegment(old, 200, 'en');
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ index: 0, title: 'Part 1', content: `${first}\n\n${second}`, isAnalyzed: true, approvedWordIds: ['alpha'] });
+    expect(merged[0].analyzedWords.map(w => w.lemma)).toEqual(['alpha', 'beta']);
+    expect(merged[0].translation).toBeUndefined();
+
+    const split = resegment([{ ...merged[0], id: 'm' }, segment(1, paragraph('Gamma', 10))], 30, 'en');
+    expect(split).toHaveLength(6);
+    expect(split[0].content).toBe(paragraph('Alpha', 5));
+    expect(split[2].content).toBe(paragraph('Beta', 5));
+    expect(split.map(s => s.analyzedWords.map(w => w.lemma))).toEqual([[], ['alpha'], ['beta'], [], [], []]);
+    expect(split.map(s => s.isAnalyzed)).toEqual([true, true, true, true, false, false]);
+    expect(split[1].approvedWordIds).toEqual(['alpha']);
+  });
+
+  it('keeps every translation when re-split with the same part length', () => {
+    const parts = segmentText(`${paragraph('Alpha', 14)}\n\n${paragraph('Beta', 14)}`, 80, 'en');
+    expect(parts).toHaveLength(2);
+    const old = parts.map((p, i) => segment(i, p.content, { translation: `T${i + 1}`, isAnalyzed: true }));
+
+    const again = resegment(old, 80, 'en');
+    expect(again.map(s => s.content)).toEqual(old.map(s => s.content));
+    expect(again.map(s => s.translation)).toEqual(['T1', 'T2']);
+  });
+
+  it('keeps chapter titles and regroups subtitle sentences by time', () => {
+    const chapters = resegment([
+      segment(0, paragraph('One', 20), { title: 'Chapter 1 (1/2)' }),
+      segment(1, paragraph('Two', 20), { title: 'Chapter 1 (2/2)' }),
+      segment(2, paragraph('Three', 5), { title: 'Chapter 2' }),
+    ], 300, 'en');
+    expect(chapters.map(s => s.title)).toEqual(['Chapter 1', 'Chapter 2']);
+
+    const timed = (text: string, start: number) => ({ text, start, end: start + 2 });
+    const subtitles = resegment([
+      segment(0, 'One two. Three four.', { timedSentences: [timed('One two.', 0), timed('Three four.', 2)] }),
+      segment(1, 'Five six.', { timedSentences: [timed('Five six.', 4)] }),
+    ], 10, 'en');
+    expect(subtitles).toHaveLength(1);
+    expect(subtitles[0].title).toBe('Part 1 (0:00–0:06)');
+    expect(subtitles[0].timedSentences).toHaveLength(3);
+  });
+});
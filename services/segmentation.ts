@@ -0,0 +1,339 @@
+import { ArticleSegment, TimedSentence } from '../types';
+import { countWords, languageInfo, speechLocale } from './languages';
+import { groupTimedSentences } from './subtitles';
+import { endsSentence, isHeading } from './tokenizer';
+
+/**
+ * Splitting imported text into the parts ("segments") the Reader shows one at a time.
+ *
+ * Parts are cut between words, never inside one, and the text between cuts is
+ * kept exactly as written, so paragraphs, headings and dialogue lines survive.
+ * Every gap between two words is a possible cut with a strength: before a
+ * heading, then paragraph ends, line breaks, sentence ends, clause ends and
+ * finally any space. A part ends at the strongest cut near the target length,
+ * and never runs past the hard maximum even in text without punctuation.
+ */
+
+export interface RawSegment {
+  title: string;
+  content: string;
+}
+
+export type NewSegment = Omit<ArticleSegment, 'id'>;
+
+interface Range {
+  start: number; // Character offsets, end exclusive
+  end: number;
+}
+
+interface Cut {
+  position: number; // Where the earlier part ends
+  strength: number;
+}
+
+const CUT_HEADING = 4;
+const CUT_PARAGRAPH = 3;
+const CUT_LINE = 2;
+const CUT_SENTENCE = 1;
+const CUT_CLAUSE = 0;
+const CUT_WORD = -1;
+const CUT_AFTER_HEADING = -2; // A heading stays with the text it introduces
+
+// Parts shorter than this share of the target are only made when nothing else fits
+const MIN_RATIO = 0.5;
+// A remainder up to this share of the target is not split off into a tiny last part
+const FINISH_RATIO = 1.25;
+
+/**
+ * Longest a part may get when aiming for `wordsPerSegment`.
+ */
+export const hardMaximum = (wordsPerSegment: number): number => Math.ceil(wordsPerSegment * 1.5);
+
+const CLAUSE_END = /[,;:—–，；：、]["'”’»)\]]*$/;
+// Punctuation after a word in scripts without spaces belongs to the part before the cut
+const CLOSERS = /^[.!?。！？؟।…,;:、，；："'”’»)\]】」』]*/;
+const PARAGRAPH_BREAK = /\n[ \t]*\n\s*/g;
+
+// Expected closing mark for each opening quotation mark
+const QUOTE_PAIRS: Record<string, string> = { '"': '"', '“': '”', '„': '“', '«': '»' };
+
+// Word positions, counted the same way as `countWords`
+const wordRanges = (text: string, language: string): Range[] => {
+  if (languageInfo(language).unspaced && typeof Intl.Segmenter === 'function') {
+    return Array.from(new Intl.Segmenter(speechLocale(language), { granularity: 'word' }).segment(text))
+      .filter(s => s.isWordLike)
+      .map(s => ({ start: s.index, end: s.index + s.segment.length }));
+  }
+  return Array.from(text.matchAll(/\S+/g), m => ({ start: m.index!, end: m.index! + m[0].length }));
+};
+
+// Tracks open quotations word by word; quotes do not carry over a line break
+const createQuoteTracker = () => {
+  let open: string[] = [];
+  return {
+    read(text: string) {
+      for (const char of text) {
+        if (open.length > 0 && char === open[open.length - 1]) open.pop();
+        else if (QUOTE_PAIRS[char]) open.push(QUOTE_PAIRS[char]);
+        else if (char === '”' || char === '»') open.pop();
+      }
+    },
+    reset() {
+      open = [];
+    },
+    get inside() {
+      return open.length > 0;
+    },
+  };
+};
+
+const paragraphRanges = (text: string): Range[] => {
+  const ranges: Range[] = [];
+  let start = 0;
+  for (const m of text.matchAll(PARAGRAPH_BREAK)) {
+    ranges.push({ start, end: m.index! });
+    start = m.index! + m[0].length;
+  }
+  ranges.push({ start, end: text.length });
+  return ranges;
+};
+
+// The cut after each word but the last, scored by what separates it from the next one
+const findCuts = (text: string, words: Range[]): Cut[] => {
+  const cuts: Cut[] = [];
+  const quotes = createQuoteTracker();
+  const paragraphs = paragraphRanges(text);
+  const headings = paragraphs.map(r => isHeading(text.slice(r.start, r.end)));
+  // Index of the paragraph containing `offset`; offsets must not decrease between calls
+  let p = 0;
+  const paragraphAt = (offset: number) => {
+    while (p < paragraphs.length - 1 && paragraphs[p + 1].start <= offset) p++;
+    return p;
+  };
+
+  for (let i = 0; i < words.length - 1; i++) {
+    const gap = text.slice(words[i].end, words[i + 1].start);
+    const position = words[i].end + (gap.match(CLOSERS)?.[0].length || 0);
+    const word = text.slice(words[i].start, position);
+    const next = text.slice(words[i + 1].start, words[i + 1].end);
+    quotes.read(word);
+
+    const current = paragraphAt(words[i].start);
+    const following = paragraphAt(words[i + 1].start);
+
+    let strength = CUT_WORD;
+    if (following !== current) {
+      if (headings[current]) strength = CUT_AFTER_HEADING;
+      else if (headings[following]) strength = CUT_HEADING;
+      else strength = CUT_PARAGRAPH;
+      quotes.reset();
+    } else if (gap.includes('\n')) {
+      strength = CUT_LINE;
+      quotes.reset();
+    } else if (endsSentence(word, next)) {
+      strength = quotes.inside ? CUT_CLAUSE : CUT_SENTENCE;
+    } else if (CLAUSE_END.test(word) || /[—–]/.test(gap)) {
+      strength = CUT_CLAUSE;
+    }
+    cuts.push({ position, strength });
+  }
+  return cuts;
+};
+
+/**
+ * Character ranges of the parts of `text`. Each part ends at the cut that best
+ * combines strength and closeness to `wordsPerSegment`, within half the target
+ * and `maxWords`.
+ */
+const splitRanges = (text: string, wordsPerSegment: number, language: string, maxWords = hardMaximum(wordsPerSegment)): Range[] => {
+  const words = wordRanges(text, language);
+  if (words.length === 0) return [];
+  const cuts = findCuts(text, words);
+  const target = Math.max(1, wordsPerSegment);
+  const max = Math.max(target, maxWords);
+  const min = Math.max(1, Math.floor(target * MIN_RATIO));
+
+  const ranges: Range[] = [];
+  let first = 0; // First word of the current part
+  let start = 0;
+  while (true) {
+    const remaining = words.length - first;
+    if (remaining <= Math.min(max, Math.ceil(target * FINISH_RATIO))) {
+      ranges.push({ start, end: text.length });
+      return ranges;
+    }
+    // Leave at least `min` words for the part after this one
+    let lo = first + min - 1;
+    let hi = Math.min(first + Math.min(max, remaining - min) - 1, cuts.length - 1);
+    if (hi < lo) {
+      lo = first;
+      hi = Math.min(first + max - 1, cuts.length - 1);
+    }
+    let best = lo;
+    let bestScore = -Infinity;
+    for (let i = lo; i <= hi; i++) {
+      const score = cuts[i].strength - (2 * Math.abs(i - first + 1 - target)) / target;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+    ranges.push({ start, end: cuts[best].position });
+    start = cuts[best].position;
+    first = best + 1;
+  }
+};
+
+const sliceRanges = (text: string, ranges: Range[]): string[] => ranges.map(r => text.slice(r.start, r.end).trim());
+
+/**
+ * Line endings unified, spaces and tabs inside lines collapsed and runs of
+ * blank lines reduced to one; line and paragraph breaks are kept.
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Splits text into parts of about `wordsPerSegment` words (at most `maxWords`),
+ * preferring to cut at headings, paragraphs, lines and sentences in that order.
+ */
+export const splitText = (text: string, wordsPerSegment: number, language: string, maxWords?: number): string[] => {
+  const normalized = normalizeText(text);
+  return sliceRanges(normalized, splitRanges(normalized, wordsPerSegment, language, maxWords));
+};
+
+/**
+ * Parts of a pasted or imported text, titled "Part 1", "Part 2", ...
+ */
+export const segmentText = (text: string, wordsPerSegment: number, language: string): RawSegment[] =>
+  splitText(text, wordsPerSegment, language).map((content, index) => ({ title: `Part ${index + 1}`, content }));
+
+// A chapter over the hard maximum is split into parts of even length
+const chapterRanges = (content: string, wordsPerSegment: number, language: string): Range[] => {
+  const words = countWords(content, language);
+  if (words <= hardMaximum(wordsPerSegment)) return [{ start: 0, end: content.length }];
+  const target = Math.ceil(words / Math.ceil(words / wordsPerSegment));
+  return splitRanges(content, target, language, hardMaximum(wordsPerSegment));
+};
+
+const numberedTitles = (title: string, count: number): string[] =>
+  count === 1 ? [title] : Array.from({ length: count }, (_, i) => `${title} (${i + 1}/${count})`);
+
+/**
+ * One segment per chapter; chapters too long for one part are split into
+ * parts of even length and numbered, e.g. "Chapter 3 (2/4)".
+ */
+export const chaptersToSegments = (chapters: RawSegment[], wordsPerSegment: number, language: string): RawSegment[] =>
+  chapters.flatMap(chapter => {
+    const content = normalizeText(chapter.content);
+    const parts = sliceRanges(content, chapterRanges(content, wordsPerSegment, language));
+    const titles = numberedTitles(chapter.title, parts.length);
+    return parts.map((part, i) => ({ title: titles[i], content: part }));
+  });
+
+interface PlannedSegment extends Range {
+  title: string;
+  content: string;
+  timedSentences?: TimedSentence[];
+}
+
+// Old parts as ranges of the text they were cut from, and the new parts cut from the same text
+const plan = (segments: ArticleSegment[], wordsPerSegment: number, language: string): { old: Range[]; planned: PlannedSegment[] } => {
+  // Subtitle imports are regrouped by sentence, so ranges count sentences
+  if (segments.every(s => s.timedSentences?.length)) {
+    const old: Range[] = [];
+    let count = 0;
+    for (const s of segments) {
+      old.push({ start: count, end: count + s.timedSentences!.length });
+      count += s.timedSentences!.length;
+    }
+    let start = 0;
+    const planned = groupTimedSentences(segments.flatMap(s => s.timedSentences!), wordsPerSegment, language).map(group => {
+      const range = { start, end: start + group.timedSentences.length };
+      start = range.end;
+      return { ...group, ...range };
+    });
+    return { old, planned };
+  }
+
+  // Book parts are numbered per chapter ("Chapter 3 (2/4)"); plain texts are all "Part n"
+  const chapterOf = (title: string) => title.replace(/ \(\d+\/\d+\)$/, '');
+  const plain = segments.every(s => /^Part \d+$/.test(s.title));
+  const old: Range[] = [];
+  const chapters: { title: string; start: number; end: number }[] = [];
+  let text = '';
+  for (const s of segments) {
+    if (text) text += '\n\n';
+    const range = { start: text.length, end: text.length + s.content.length };
+    text += s.content;
+    old.push(range);
+    const last = chapters[chapters.length - 1];
+    if (last && (plain || chapterOf(s.title) === last.title)) last.end = range.end;
+    else chapters.push({ title: chapterOf(s.title), ...range });
+  }
+
+  const planned: PlannedSegment[] = [];
+  for (const chapter of chapters) {
+    const content = text.slice(chapter.start, chapter.end);
+    const ranges = plain ? splitRanges(content, wordsPerSegment, language) : chapterRanges(content, wordsPerSegment, language);
+    const titles = plain ? ranges.map((_, i) => `Part ${i + 1}`) : numberedTitles(chapter.title, ranges.length);
+    // Ranges start at the cut, before the paragraph break; trimmed they line up with the old parts
+    ranges.forEach((r, i) => {
+      const raw = content.slice(r.start, r.end);
+      const start = chapter.start + r.start + raw.length - raw.trimStart().length;
+      const part = raw.trim();
+      planned.push({ title: titles[i], content: part, start, end: start + part.length });
+    });
+  }
+  return { old, planned };
+};
+
+/**
+ * Splits an article again with a new part length. Each analyzed word moves to
+ * the new part that contains its sentence, keeping its approval; a new part
+ * counts as analyzed only if every old part it overlaps was, and keeps a
+ * translation only if it is unchanged. Flashcards belong to the article, not
+ * to a part, so they stay linked.
+ */
+export const resegment = (segments: ArticleSegment[], wordsPerSegment: number, language: string): NewSegment[] => {
+  const ordered = [...segments].sort((a, b) => a.index - b.index);
+  const { old, planned } = plan(ordered, wordsPerSegment, language);
+  const overlaps = (a: Range, b: Range) => a.start < b.end && b.start < a.end;
+
+  const result: NewSegment[] = planned.map((p, index) => {
+    const sources = ordered.filter((_, i) => overlaps(old[i], p));
+    const source = sources.length === 1 ? old[ordered.indexOf(sources[0])] : undefined;
+    const same = !!source && source.start === p.start && source.end === p.end;
+    return {
+      index,
+      title: p.title,
+      content: p.content,
+      analyzedWords: [],
+      approvedWordIds: [],
+      translation: same ? sources[0].translation : undefined,
+      isAnalyzed: sources.length > 0 && sources.every(s => s.isAnalyzed),
+      timedSentences: p.timedSentences,
+    };
+  });
+
+  ordered.forEach((segment, i) => {
+    const candidates = result.filter((_, k) => overlaps(old[i], planned[k]));
+    if (candidates.length === 0) return;
+    for (const item of segment.analyzedWords) {
+      const target = candidates.find(c => item.context && c.content.includes(item.context))
+        || candidates.find(c => c.content.toLowerCase().includes(item.word.toLowerCase()))
+        || candidates[0];
+      if (!target.analyzedWords.some(w => w.lemma === item.lemma && w.type === item.type)) target.analyzedWords.push(item);
+      if (segment.approvedWordIds.includes(item.lemma) && !target.approvedWordIds.includes(item.lemma)) {
+        target.approvedWordIds.push(item.lemma);
+      }
+    }
+  });
+
+  return result;
+};
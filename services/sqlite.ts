@@ -0,0 +1,24 @@
+import initSqlJs, { SqlJsStatic } from 'sql.js';
+
+// Must match the sql.js version in package.json; the wasm binary is fetched on first use.
+const SQL_JS_VERSION = '1.14.2';
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Lazily loads the sql.js WebAssembly build. Used to read and write SQLite
+ * files (Anki packages, Kindle vocab.db) entirely in the browser.
+ */
+export const loadSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlPromise) {
+    const inBrowser = typeof window !== 'undefined';
+    sqlPromise = initSqlJs(inBrowser
+      ? { locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/sql.js@${SQL_JS_VERSION}/dist/${file}` }
+      : undefined
+    ).catch(error => {
+      sqlPromise = null;
+      throw error;
+    });
+  }
+  return sqlPromise;
+};
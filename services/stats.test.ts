@@ -0,0 +1,114 @@
+// Day boundaries are local; a zone with daylight saving time catches 24-hour arithmetic
+process.env.TZ = 'Europe/Berlin';
+
+import { describe, it, expect } from 'vitest';
+import { Flashcard, ReviewLogEntry } from '../types';
+import { getDailyReviewCounts, getDueForecast, getMaturityBreakdown, getRetentionBy, getReviewStreak, startOfDay } from './stats';
+
+// Local time in Berlin; clocks went forward on 30 March 2025, so that day had 23 hours
+const at = (day: number, hour = 12, minute = 0) => new Date(2025, 2, day, hour, minute).getTime();
+
+const card = (id: string, overrides: Partial<Flashcard> = {}): Flashcard => ({
+  id,
+  articleId: 'a1',
+  type: 'vocabulary',
+  word: id,
+  lemma: id,
+  collocations: [],
+  context: '',
+  level: 'B2',
+  definition: '',
+  translation: '',
+  exampleSentence: '',
+  nextReview: at(1),
+  stage: 0,
+  ease: 2.5,
+  stability: 0,
+  lapses: 0,
+  createdAt: at(1),
+  updatedAt: at(1),
+  ...overrides,
+});
+
+let logId = 0;
+const log = (reviewedAt: number, overrides: Partial<ReviewLogEntry> = {}): ReviewLogEntry => ({
+  id: `r${logId++}`,
+  cardId: 'c1',
+  reviewedAt,
+  grade: 4,
+  previousInterval: 1,
+  nextInterval: 3,
+  responseTime: 0,
+  ...overrides,
+});
+
+describe('stats', () => {
+  it('buckets by local calendar day across a daylight saving change', () => {
+    expect(startOfDay(at(30, 23, 30))).toBe(at(30, 0));
+
+    const forecast = getDueForecast([
+      card('overdue', { nextReview: at(27) }),
+      card('tonight', { nextReview: at(29, 23, 59) }),
+      card('dst-day', { nextReview: at(30, 0, 30) }),
+      card('after', { nextReview: at(31, 10) }),
+      card('later', { nextReview: at(31, 10) + 40 * 24 * 60 * 60 * 1000 }),
+    ], 3, at(29, 22));
+    expect(forecast).toEqual([
+      { date: at(29, 0), count: 2 },
+      { date: at(30, 0), count: 1 },
+      { date: at(31, 0), count: 1 },
+    ]);
+
+    const daily = getDailyReviewCounts([
+      log(at(20)),
+      log(at(29, 23, 30)),
+      log(at(30, 0, 10)),
+      log(at(30, 23, 50)),
+      log(at(31, 8)),
+    ], 3, at(31, 12));
+    expect(daily).toEqual([
+      { date: at(29, 0), count: 1 },
+      { date: at(30, 0), count: 2 },
+      { date: at(31, 0), count: 1 },
+    ]);
+  });
+
+  it('keeps the streak until the end of today and tracks the longest run', () => {
+    const logs = [at(20), at(21), at(28, 23, 45), at(29, 0, 15), at(30, 7)].map(t => log(t));
+
+    expect(getReviewStreak(logs, at(31, 9))).toEqual({ current: 3, longest: 3 });
+    expect(getReviewStreak([...logs, log(at(31, 8))], at(31, 9))).toEqual({ current: 4, longest: 4 });
+    expect(getReviewStreak(logs, at(32, 9))).toEqual({ current: 0, longest: 3 });
+    expect(getReviewStreak([], at(31))).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('measures retention on graduated cards only, grouped by key', () => {
+    const cards = [card('c1'), card('c2', { type: 'grammar' })];
+    const rows = getRetentionBy([
+      log(at(1), { cardId: 'c1', grade: 4 }),
+      log(at(2), { cardId: 'c1', grade: 1 }),
+      log(at(3), { cardId: 'c1', grade: 1, previousInterval: 0 }), // Still learning
+      log(at(4), { cardId: 'c2', grade: 5 }),
+      log(at(5), { cardId: 'deleted', grade: 1 }),
+    ], cards, c => c.type);
+
+    expect(rows).toEqual([
+      { key: 'grammar', reviews: 1, passed: 1, rate: 1 },
+      { key: 'vocabulary', reviews: 2, passed: 1, rate: 0.5 },
+    ]);
+  });
+
+  it('sorts cards into maturity buckets', () => {
+    const counts = getMaturityBreakdown([
+      card('new'),
+      card('lapsed', { lastReviewedAt: at(2), lapses: 1 }),
+      card('hard-step', { lastReviewedAt: at(2) }),
+      card('learning', { stage: 2 }),
+      card('young', { stage: 3 }),
+      card('mature', { stage: 5 }),
+      card('older', { stage: 9 }),
+    ]).map(b => [b.label, b.count]);
+
+    expect(counts).toEqual([['New', 2], ['Relearning', 1], ['Learning', 1], ['Young', 1], ['Mature', 2]]);
+  });
+});
@@ -0,0 +1,140 @@
+import { Flashcard, ReviewLogEntry } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DayBucket {
+  date: number; // Local midnight timestamp
+  count: number;
+}
+
+export interface RetentionRow {
+  key: string;
+  reviews: number;
+  passed: number;
+  rate: number; // 0-1
+}
+
+export interface MaturityBucket {
+  label: string;
+  stages: string;
+  count: number;
+}
+
+export const startOfDay = (timestamp: number): number => {
+  const d = new Date(timestamp);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Local midnight `days` calendar days later; adding 24h steps would drift off midnight across DST changes
+const addDays = (dayStart: number, days: number): number => {
+  const d = new Date(dayStart);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+};
+
+/**
+ * Number of cards falling due on each of the next `days` days.
+ * Overdue cards are counted on the first day.
+ */
+export const getDueForecast = (cards: Flashcard[], days = 30, now = Date.now()): DayBucket[] => {
+  const today = startOfDay(now);
+  const buckets: DayBucket[] = Array.from({ length: days }, (_, i) => ({ date: addDays(today, i), count: 0 }));
+
+  for (const card of cards) {
+    const offset = Math.max(0, Math.round((startOfDay(card.nextReview) - today) / DAY_MS));
+    if (offset < days) buckets[offset].count++;
+  }
+  return buckets;
+};
+
+/**
+ * True retention: share of passed reviews among cards that had already graduated
+ * (previous interval > 0). Reviews of new or relearning cards are excluded so the
+ * figure reflects long-term memory rather than same-day repetition.
+ */
+export const getRetentionBy = (
+  logs: ReviewLogEntry[],
+  cards: Flashcard[],
+  keyOf: (card: Flashcard) => string
+): RetentionRow[] => {
+  const cardMap = new Map(cards.map(c => [c.id, c]));
+  const rows = new Map<string, RetentionRow>();
+
+  for (const entry of logs) {
+    if (entry.previousInterval <= 0) continue;
+    const card = cardMap.get(entry.cardId);
+    if (!card) continue;
+
+    const key = keyOf(card);
+    const row = rows.get(key) || { key, reviews: 0, passed: 0, rate: 0 };
+    row.reviews++;
+    if (entry.grade >= 3) row.passed++;
+    rows.set(key, row);
+  }
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, rate: row.reviews ? row.passed / row.reviews : 0 }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+};
+
+/**
+ * Reviews per day for the last `days` days, oldest first.
+ */
+export const getDailyReviewCounts = (logs: ReviewLogEntry[], days = 30, now = Date.now()): DayBucket[] => {
+  const today = startOfDay(now);
+  const first = addDays(today, -(days - 1));
+  const buckets: DayBucket[] = Array.from({ length: days }, (_, i) => ({ date: addDays(first, i), count: 0 }));
+
+  for (const entry of logs) {
+    const offset = Math.round((startOfDay(entry.reviewedAt) - first) / DAY_MS);
+    if (offset >= 0 && offset < days) buckets[offset].count++;
+  }
+  return buckets;
+};
+
+/**
+ * Consecutive days with at least one review, ending today (or yesterday if
+ * nothing has been reviewed yet today, so the streak is not lost mid-day).
+ */
+export const getReviewStreak = (logs: ReviewLogEntry[], now = Date.now()): { current: number; longest: number } => {
+  const days = new Set(logs.map(l => startOfDay(l.reviewedAt)));
+  if (days.size === 0) return { current: 0, longest: 0 };
+
+  const sorted = Array.from(days).sort((a, b) => a - b);
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < sorted.length; i++) {
+    // Round to tolerate DST shifts between local midnights
+    run = Math.round((sorted[i] - sorted[i - 1]) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const today = startOfDay(now);
+  let cursor = days.has(today) ? today : startOfDay(today - DAY_MS / 2);
+  let current = 0;
+  while (days.has(cursor)) {
+    current++;
+    cursor = startOfDay(cursor - DAY_MS / 2);
+  }
+
+  return { current, longest };
+};
+
+export const getMaturityBreakdown = (cards: Flashcard[]): MaturityBucket[] => {
+  const buckets: MaturityBucket[] = [
+    { label: 'New', stages: 'Stage 0, never learned', count: 0 },
+    { label: 'Relearning', stages: 'Stage 0, lapsed', count: 0 },
+    { label: 'Learning', stages: 'Stage 1-2', count: 0 },
+    { label: 'Young', stages: 'Stage 3-4', count: 0 },
+    { label: 'Mature', stages: 'Stage 5+', count: 0 },
+  ];
+
+  for (const card of cards) {
+    if (card.stage <= 0) buckets[card.lapses > 0 ? 1 : 0].count++;
+    else if (card.stage <= 2) buckets[2].count++;
+    else if (card.stage <= 4) buckets[3].count++;
+    else buckets[4].count++;
+  }
+  return buckets;
+};
@@ -0,0 +1,105 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { nanoid } from 'nanoid';
+import { DatabaseService } from './db';
+import { createMockProvider } from './mockProvider';
+import { DEMO_ARTICLE } from './mockFixtures';
+import { analyzeTextForVocabulary, analyzeSingleWord } from './geminiService';
+import { addLookedUpWord, approveWords, reviewCard, saveSegmentAnalysis } from './studyFlow';
+import { Article, ArticleSegment } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const llm = { provider: createMockProvider(), model: 'demo' };
+
+// Runs the same study-flow functions AppContext uses, against a throwaway database; only the import is set up by hand
+const importArticle = async (db: DatabaseService, now: number) => {
+  const segment: ArticleSegment = {
+    id: nanoid(),
+    index: 0,
+    title: 'Part 1',
+    content: DEMO_ARTICLE.text,
+    analyzedWords: [],
+    approvedWordIds: [],
+    isAnalyzed: false,
+  };
+  const article: Article = { id: nanoid(), title: DEMO_ARTICLE.title, segments: [segment], language: 'en', processedAt: now, updatedAt: now };
+  await db.addArticle(article, [segment]);
+  return article.id;
+};
+
+const analyzeSegment = async (db: DatabaseService, articleId: string, knownLemmas: string[] = []) => {
+  const segment = (await db.getSegment(articleId, 0))!;
+  const { items } = await analyzeTextForVocabulary(segment.content, { level: 'B2' }, llm, ['vocabulary', 'grammar', 'literary'], knownLemmas);
+  await saveSegmentAnalysis(db, articleId, 0, items);
+  return items;
+};
+
+describe('import → analyze → approve → review', () => {
+  it('turns approved analysis items into scheduled cards', async () => {
+    const db = new DatabaseService(`flow-${nanoid()}`);
+    const now = Date.now();
+
+    const articleId = await importArticle(db, now);
+    const analysis = await analyzeSegment(db, articleId);
+    expect(analysis).toHaveLength(7);
+    expect((await db.getSegment(articleId, 0))?.isAnalyzed).toBe(true);
+
+    await approveWords(db, articleId, 0, ['solitude', 'bleak', 'inverted third conditional'], now);
+    expect((await db.getSegment(articleId, 0))?.approvedWordIds).toHaveLength(3);
+    expect(await db.getAllFlashcardsCount()).toBe(3);
+
+    const due = await db.getDueFlashcards();
+    expect(due.map(c => c.lemma).sort()).toEqual(['bleak', 'inverted third conditional', 'solitude']);
+
+    const reviewed = (await reviewCard(db, due.find(c => c.lemma === 'solitude')!.id, 5, 0, now))!;
+    expect(reviewed.nextReview).toBeGreaterThan(now);
+    expect(await db.getReviewHistory(reviewed.id)).toHaveLength(1);
+
+    // A lapse logs the ten minutes until the card comes back, not its reset stability
+    const lapsed = (await reviewCard(db, reviewed.id, 1, 0, now))!;
+    const [entry] = (await db.getReviewHistory(lapsed.id)).filter(e => e.grade === 1);
+    expect(entry.nextInterval * DAY_MS).toBeCloseTo(10 * 60 * 1000);
+    expect(entry.previousInterval).toBe(reviewed.stability);
+    expect(await reviewCard(db, 'missing', 4)).toBeUndefined();
+    expect(await db.countDueFlashcards(now)).toBe(2);
+    expect(await db.countDueFlashcards(now + DAY_MS)).toBe(3);
+  });
+
+  it('leaves known words out of the analysis', async () => {
+    const db = new DatabaseService(`flow-${nanoid()}`);
+    await db.addKnownLemmas(['bleak', 'savour']);
+    const known = (await db.getKnownLemmas()).map(k => k.lemma);
+
+    const articleId = await importArticle(db, Date.now());
+    const analysis = await analyzeSegment(db, articleId, known);
+
+    expect(analysis.map(w => w.lemma)).not.toContain('bleak');
+    expect(analysis.map(w => w.lemma)).not.toContain('savour');
+    expect(analysis).toHaveLength(5);
+  });
+
+  it('adds a word looked up while reading', async () => {
+    const db = new DatabaseService(`flow-${nanoid()}`);
+    const now = Date.now();
+    const articleId = await importArticle(db, now);
+
+    const word = await analyzeSingleWord('wick', 'trimmed the wick', llm);
+    await addLookedUpWord(db, articleId, 0, word, now);
+
+    const [card] = await db.getAllFlashcards();
+    expect(card).toMatchObject({ lemma: 'wick', articleId, stage: 0 });
+    expect((await db.getSegment(articleId, 0))?.approvedWordIds).toContain('wick');
+  });
+
+  it('searches cards by word or translation, ignoring case and missing translations', async () => {
+    const db = new DatabaseService(`flow-${nanoid()}`);
+    const now = Date.now();
+    const articleId = await importArticle(db, now);
+    const word = await analyzeSingleWord('wick', 'trimmed the wick', llm);
+    await addLookedUpWord(db, articleId, 0, { ...word, word: 'Lantern', lemma: 'lantern', translation: 'Laterne' }, now);
+    await addLookedUpWord(db, articleId, 0, { ...word, translation: undefined as unknown as string }, now);
+
+    expect((await db.queryFlashcards({ search: 'LATERNE' })).map(c => c.lemma)).toEqual(['lantern']);
+    expect((await db.queryFlashcards({ search: 'wic' })).map(c => c.lemma)).toEqual(['wick']);
+  });
+});
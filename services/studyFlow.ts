@@ -0,0 +1,91 @@
+import { nanoid } from 'nanoid';
+import { Flashcard, WordAnalysis } from '../types';
+import { DatabaseService } from './db';
+import { createSchedulingState, scheduleReview } from './scheduler';
+
+/**
+ * The storage steps between reading and reviewing: saving a part's analysis,
+ * turning approved items into flashcards and recording reviews. AppContext
+ * calls these with the app database and keeps its React state in step.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type StudyDatabase = Pick<DatabaseService, 'getSegment' | 'updateSegment' | 'addFlashcards' | 'getFlashcard' | 'recordReview'>;
+
+/**
+ * A new, unscheduled card for an analysis item.
+ */
+export const newFlashcard = (word: WordAnalysis, articleId: string, now: number = Date.now()): Flashcard => ({
+  ...word,
+  ...createSchedulingState(now),
+  id: nanoid(),
+  articleId,
+  createdAt: now,
+  updatedAt: now,
+});
+
+/**
+ * Stores the analysis of a part and marks it analyzed. Returns false if the part does not exist.
+ */
+export const saveSegmentAnalysis = async (db: StudyDatabase, articleId: string, segmentIndex: number, analysis: WordAnalysis[]): Promise<boolean> => {
+  const segment = await db.getSegment(articleId, segmentIndex);
+  if (!segment) return false;
+  await db.updateSegment({ ...segment, analyzedWords: analysis, isAnalyzed: true });
+  return true;
+};
+
+/**
+ * Creates cards for the selected items of a part's analysis and records the selection.
+ */
+export const approveWords = async (db: StudyDatabase, articleId: string, segmentIndex: number, lemmas: string[], now: number = Date.now()): Promise<Flashcard[]> => {
+  const segment = await db.getSegment(articleId, segmentIndex);
+  if (!segment) return [];
+
+  const cards = segment.analyzedWords
+    .filter(w => lemmas.includes(w.lemma))
+    .map(w => newFlashcard(w, articleId, now));
+  await db.addFlashcards(cards);
+  await db.updateSegment({ ...segment, approvedWordIds: lemmas });
+  return cards;
+};
+
+/**
+ * Adds a word looked up while reading to the part's analysis, approved, and creates its card.
+ */
+export const addLookedUpWord = async (db: StudyDatabase, articleId: string, segmentIndex: number, analysis: WordAnalysis, now: number = Date.now()): Promise<Flashcard | undefined> => {
+  const segment = await db.getSegment(articleId, segmentIndex);
+  if (!segment) return undefined;
+
+  if (!segment.analyzedWords.some(w => w.lemma === analysis.lemma)) {
+    await db.updateSegment({
+      ...segment,
+      analyzedWords: [...segment.analyzedWords, analysis],
+      approvedWordIds: [...segment.approvedWordIds, analysis.lemma],
+    });
+  }
+  const card = newFlashcard(analysis, articleId, now);
+  await db.addFlashcards([card]);
+  return card;
+};
+
+/**
+ * Grades a card, saving its new schedule together with a review log entry.
+ */
+export const reviewCard = async (db: StudyDatabase, cardId: string, grade: number, responseTime = 0, now: number = Date.now()): Promise<Flashcard | undefined> => {
+  const card = await db.getFlashcard(cardId);
+  if (!card) return undefined;
+
+  const updated = { ...card, ...scheduleReview(card, grade, now), updatedAt: now };
+  await db.recordReview(updated, {
+    id: nanoid(),
+    cardId,
+    reviewedAt: now,
+    grade,
+    previousInterval: card.stability || 0,
+    // The time actually scheduled, also for a lapse whose stability is reset to 0
+    nextInterval: (updated.nextReview - now) / DAY_MS,
+    responseTime,
+  });
+  return updated;
+};
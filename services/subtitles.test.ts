@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { cuesToSentences, groupTimedSentences, parseSubtitles, sentenceAt } from './subtitles';
+
+const SRT = [
+  '1',
+  '00:00:01,000 --> 00:00:03,000',
+  '<i>Good evening.</i> Tonight we look',
+  '',
+  '2',
+  '00:00:03,500 --> 00:00:05,500',
+  'at the stars. [music]',
+  '',
+  '3',
+  '00:00:06,000 --> 00:00:07,000',
+  '♪ ♪',
+  '',
+].join('\r\n');
+
+const VTT = [
+  'WEBVTT',
+  '',
+  'NOTE written by hand',
+  '',
+  'STYLE',
+  '::cue { color: yellow }',
+  '',
+  'intro',
+  '00:01.000 --> 00:02.500 line:90% align:center',
+  '<v Anna>Hello there</v>',
+  '',
+  '00:02.500 --> 00:04.000',
+  'Hello there',
+  '',
+  '01:00:00.000 --> 01:00:01.250',
+  'how are you',
+].join('\n');
+
+describe('parseSubtitles', () => {
+  it('reads SRT cues without markup or sound descriptions', () => {
+    expect(parseSubtitles(SRT)).toEqual([
+      { start: 1, end: 3, text: 'Good evening. Tonight we look' },
+      { start: 3.5, end: 5.5, text: 'at the stars.' },
+    ]);
+  });
+
+  it('reads VTT cues, skipping header, notes and styles and merging repeated lines', () => {
+    expect(parseSubtitles(VTT)).toEqual([
+      { start: 1, end: 4, text: 'Hello there' },
+      { start: 3600, end: 3601.25, text: 'how are you' },
+    ]);
+  });
+
+  it('rejects files without cues', () => {
+    expect(() => parseSubtitles('WEBVTT\n\nNOTE nothing here')).toThrow(/No subtitle cues/);
+  });
+});
+
+describe('timed sentences', () => {
+  it('re-splits cues into sentences with interpolated times', () => {
+    const sentences = cuesToSentences(parseSubtitles(SRT), 'en');
+    expect(sentences.map(s => s.text)).toEqual(['Good evening.', 'Tonight we look at the stars.']);
+    expect(sentences[0].start).toBe(1);
+    // "Good evening." is 13 of the cue's 29 characters
+    expect(sentences[0].end).toBeCloseTo(1 + 2 * 13 / 29, 2);
+    expect(sentences[1].start).toBeGreaterThan(sentences[0].end);
+    expect(sentences[1].end).toBe(5.5);
+
+    expect(sentenceAt(sentences, 0.5)).toBe(-1);
+    expect(sentenceAt(sentences, 2.9)).toBe(1);
+    expect(sentenceAt(sentences, 9)).toBe(1);
+  });
+
+  it('keeps unpunctuated captions one sentence per cue and groups them with time ranges', () => {
+    const cues = [
+      { start: 0, end: 2, text: 'so today we are going' },
+      { start: 2, end: 4, text: 'to talk about bread' },
+      { start: 65, end: 67, text: 'and how to bake it' },
+    ];
+    const sentences = cuesToSentences(cues, 'en');
+    expect(sentences).toEqual(cues);
+
+    const parts = groupTimedSentences(sentences, 8, 'en');
+    expect(parts.map(p => p.title)).toEqual(['Part 1 (0:00–0:04)', 'Part 2 (1:05–1:07)']);
+    expect(parts[0].content).toBe('so today we are going to talk about bread');
+    expect(parts[1].timedSentences).toEqual([cues[2]]);
+  });
+});
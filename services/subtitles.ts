@@ -0,0 +1,168 @@
+import { TimedSentence } from '../types';
+import { countWords, joinSentences, languageInfo } from './languages';
+import { findSentences } from './tokenizer';
+
+/**
+ * SubRip (.srt) and WebVTT (.vtt) subtitles: parsing cues, turning them into
+ * timed sentences and grouping those into parts.
+ */
+
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number;
+  text: string;
+}
+
+export interface TimedSegment {
+  title: string;
+  content: string;
+  timedSentences: TimedSentence[];
+}
+
+export const SUBTITLE_ACCEPT = '.srt,.vtt';
+
+export const isSubtitleFile = (fileName: string): boolean => /\.(srt|vtt)$/i.test(fileName);
+
+// "00:01:02,500 --> 00:01:04,000" (SRT) or "01:02.500 --> 01:04.000 line:90%" (VTT)
+const TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const SENTENCE_PUNCTUATION = /[.!?。！？؟।…]/;
+
+/**
+ * Seconds in a cue timestamp such as "01:02:03,450" or "02:03.45".
+ */
+export const parseTimestamp = (value: string): number => {
+  const [clock, fraction = '0'] = value.trim().split(/[.,]/);
+  const seconds = clock.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds + Number(fraction.padEnd(3, '0').slice(0, 3)) / 1000;
+};
+
+/**
+ * "m:ss", or "h:mm:ss" from an hour on.
+ */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// Styling tags, VTT voice and karaoke timestamps, ASS overrides like {\an8} and sound descriptions like [music]
+const cleanCueText = (lines: string[]): string =>
+  lines.join(' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/\[[^\]]*\]|♪/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Cues of an SRT or VTT file in time order. Headers, NOTE/STYLE blocks and
+ * cue numbers are skipped, and a cue repeating the previous one (as rolling
+ * captions do) extends it instead.
+ */
+export const parseSubtitles = (source: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  const blocks = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n[ \t]*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingLine = lines.findIndex(line => TIMING.test(line));
+    if (timingLine === -1) continue;
+    const [, from, to] = lines[timingLine].match(TIMING)!;
+    const text = cleanCueText(lines.slice(timingLine + 1));
+    if (!text) continue;
+    cues.push({ start: parseTimestamp(from), end: parseTimestamp(to), text });
+  }
+
+  cues.sort((a, b) => a.start - b.start);
+  const merged: SubtitleCue[] = [];
+  for (const cue of cues) {
+    const last = merged[merged.length - 1];
+    if (last && last.text === cue.text && cue.start <= last.end + 0.5) {
+      last.end = Math.max(last.end, cue.end);
+    } else {
+      merged.push({ ...cue });
+    }
+  }
+  if (merged.length === 0) throw new Error('No subtitle cues were found in this file.');
+  return merged;
+};
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Re-splits the cue text into sentences and times each one. A sentence that
+ * starts or ends inside a cue gets a time interpolated by its character
+ * position. Subtitles without any sentence punctuation (automatic captions)
+ * keep one sentence per cue.
+ */
+export const cuesToSentences = (cues: SubtitleCue[], language: string): TimedSentence[] => {
+  if (!cues.some(cue => SENTENCE_PUNCTUATION.test(cue.text))) {
+    return cues.map(({ text, start, end }) => ({ text, start, end }));
+  }
+
+  const separator = languageInfo(language).unspaced ? '' : ' ';
+  const spans: { from: number; to: number; cue: SubtitleCue }[] = [];
+  let text = '';
+  for (const cue of cues) {
+    if (text) text += separator;
+    spans.push({ from: text.length, to: text.length + cue.text.length, cue });
+    text += cue.text;
+  }
+
+  const timeAt = (offset: number, isEnd: boolean): number => {
+    const span = spans.find(s => (isEnd ? offset <= s.to : offset < s.to)) || spans[spans.length - 1];
+    const ratio = Math.min(1, Math.max(0, (offset - span.from) / Math.max(1, span.to - span.from)));
+    return round(span.cue.start + ratio * (span.cue.end - span.cue.start));
+  };
+
+  return findSentences(text, language).map(([from, to]) => ({
+    text: text.slice(from, to),
+    start: timeAt(from, false),
+    end: timeAt(to, true),
+  }));
+};
+
+/**
+ * Groups timed sentences into parts of about `wordsPerSegment` words, titled
+ * with the time range they cover.
+ */
+export const groupTimedSentences = (sentences: TimedSentence[], wordsPerSegment: number, language: string): TimedSegment[] => {
+  const groups: TimedSentence[][] = [];
+  let current: TimedSentence[] = [];
+  let words = 0;
+  for (const sentence of sentences) {
+    current.push(sentence);
+    words += countWords(sentence.text, language);
+    if (words >= wordsPerSegment) {
+      groups.push(current);
+      current = [];
+      words = 0;
+    }
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups.map((group, i) => ({
+    title: `Part ${i + 1} (${formatTimestamp(group[0].start)}–${formatTimestamp(group[group.length - 1].end)})`,
+    content: joinSentences(group.map(s => s.text), language),
+    timedSentences: group,
+  }));
+};
+
+/**
+ * Index of the sentence being spoken at `time`: the last one that has started,
+ * so the highlight stays put during pauses between cues. -1 before the first.
+ */
+export const sentenceAt = (sentences: TimedSentence[], time: number): number => {
+  let index = -1;
+  for (let i = 0; i < sentences.length; i++) {
+    if (sentences[i].start > time) break;
+    index = i;
+  }
+  return index;
+};
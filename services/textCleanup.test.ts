@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CLEANUP, cleanupPages, cleanupText } from './textCleanup';
+
+// Three PDF pages with a running header, page numbers and a paragraph spanning pages
+const PAGES = [
+  'THE LIGHTHOUSE — Chapter 1\nThe keeper climbed the stairs every eve-\nning to light the lamp.\n\n1',
+  'THE LIGHTHOUSE — Chapter 1\nNobody in the village remembered a night\nwithout its beam.¹ The storms came in au-\n2',
+  'THE LIGHTHOUSE — Chapter 2\ntumn.[3]\n\nIn spring the ships returned.\n3',
+];
+
+describe('text cleanup', () => {
+  it('removes running headers and page numbers and rejoins split words', () => {
+    const { text, report } = cleanupPages(PAGES);
+
+    expect(text).toBe(
+      'The keeper climbed the stairs every evening to light the lamp.\n\n'
+      + 'Nobody in the village remembered a night without its beam. The storms came in autumn.\n\n'
+      + 'In spring the ships returned.'
+    );
+    expect(report).toMatchObject({ removeHeaders: 3, removePageNumbers: 3, dehyphenate: 2, removeFootnoteMarkers: 2 });
+  });
+
+  it('keeps paragraphs of unwrapped text and leaves numbers in sentences alone', () => {
+    const long = 'This paragraph is written on a single line, as plain-text files often are, so it is much longer than a wrapped line would be. It ends here.';
+    const { text } = cleanupText(`${long}\n${long}\nIn 1984, 12 people saw 3.5 metres of water.`);
+
+    expect(text.split('\n\n')).toEqual([long, long, 'In 1984, 12 people saw 3.5 metres of water.']);
+  });
+
+  it('only removes page numbers from the edges of PDF pages', () => {
+    const poem = 'The year the war began\n\n1984\n\nwas the year we left';
+    expect(cleanupText(poem, { ...DEFAULT_CLEANUP, unwrapLines: false }).text).toBe(poem);
+
+    const { text, report } = cleanupPages(['12\nFirst line\n\n1984\n\nmix\nLast line\n13'], { ...DEFAULT_CLEANUP, unwrapLines: false });
+    expect(text).toBe('First line\n\n1984\n\nmix\nLast line');
+    expect(report.removePageNumbers).toBe(2);
+  });
+
+  it('skips the steps that are turned off', () => {
+    const { text, report } = cleanupText('A word split by a hyphen at the end of a li-\nne.', { ...DEFAULT_CLEANUP, dehyphenate: false, unwrapLines: false });
+
+    expect(text).toBe('A word split by a hyphen at the end of a li-\nne.');
+    expect(report.dehyphenate).toBe(0);
+  });
+});
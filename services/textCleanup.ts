@@ -0,0 +1,152 @@
+/**
+ * Repairs text extracted from PDFs and other layouted sources before it is
+ * segmented: running headers and footers, page numbers, words hyphenated at
+ * line ends, footnote markers and hard line wraps.
+ */
+
+export interface CleanupOptions {
+  removeHeaders: boolean; // Lines repeated at the top or bottom of most pages
+  removePageNumbers: boolean;
+  dehyphenate: boolean;
+  removeFootnoteMarkers: boolean;
+  unwrapLines: boolean; // Rejoin lines that were wrapped to the page width
+}
+
+export const DEFAULT_CLEANUP: CleanupOptions = {
+  removeHeaders: true,
+  removePageNumbers: true,
+  dehyphenate: true,
+  removeFootnoteMarkers: true,
+  unwrapLines: true,
+};
+
+export const CLEANUP_LABELS: Record<keyof CleanupOptions, string> = {
+  removeHeaders: 'Headers and footers',
+  removePageNumbers: 'Page numbers',
+  dehyphenate: 'Words split by a line-end hyphen',
+  removeFootnoteMarkers: 'Footnote markers',
+  unwrapLines: 'Line breaks inside paragraphs',
+};
+
+export type CleanupReport = Record<keyof CleanupOptions, number>;
+
+export interface CleanupResult {
+  text: string;
+  report: CleanupReport;
+}
+
+const PAGE_NUMBER = /^(page\s+)?(\d{1,4}|(?=[ivxlcdm])m{0,3}(cm|cd|d?c{0,3})(xc|xl|l?x{0,3})(ix|iv|v?i{0,3}))(\s*(of|\/)\s*\d{1,4})?$|^[-–—]\s*\d{1,4}\s*[-–—]$/i;
+const EDGE_LINES = 2; // Lines at each end of a page checked for headers and footers
+const SENTENCE_END = /[.!?:;"”’»)\]…]$/;
+const LIST_ITEM = /^([-*•–]|\d{1,3}[.)])\s/;
+
+// Headers usually differ only in the page or chapter number
+const headerKey = (line: string) => line.trim().toLowerCase().replace(/\d+/g, '#');
+
+const edgeIndexes = (lines: string[]): number[] => {
+  const content = lines.map((line, i) => line.trim() ? i : -1).filter(i => i >= 0);
+  return [...new Set([...content.slice(0, EDGE_LINES), ...content.slice(-EDGE_LINES)])];
+};
+
+const removeRunningHeaders = (pages: string[][], report: CleanupReport): string[][] => {
+  if (pages.length < 3) return pages;
+  const counts = new Map<string, number>();
+  for (const lines of pages) {
+    const keys = new Set(edgeIndexes(lines).map(i => headerKey(lines[i])));
+    keys.forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+  }
+  const threshold = Math.max(3, Math.ceil(pages.length / 2));
+  return pages.map(lines => {
+    const drop = new Set(edgeIndexes(lines).filter(i => (counts.get(headerKey(lines[i])) || 0) >= threshold));
+    report.removeHeaders += drop.size;
+    return lines.filter((_, i) => !drop.has(i));
+  });
+};
+
+// Lines longer than most are full-width; a short line ending a sentence ends its paragraph
+const wrapWidth = (lines: string[]): number => {
+  const lengths = lines.map(l => l.length).filter(l => l > 0).sort((a, b) => a - b);
+  return lengths.length ? lengths[Math.floor(lengths.length * 0.9)] : 0;
+};
+
+const unwrap = (text: string, report: CleanupReport): string => {
+  const lines = text.split('\n').map(l => l.trim());
+  const width = wrapWidth(lines);
+  // One paragraph per line, nothing to rejoin
+  if (width > 120) return lines.filter(Boolean).join('\n\n');
+
+  const paragraphs: string[] = [];
+  let current = '';
+  let previous = '';
+  for (const line of lines) {
+    if (!line) {
+      if (current) paragraphs.push(current);
+      current = '';
+      continue;
+    }
+    const endsParagraph = SENTENCE_END.test(previous) && previous.length < width * 0.8;
+    if (!current) {
+      current = line;
+    } else if (endsParagraph || LIST_ITEM.test(line)) {
+      paragraphs.push(current);
+      current = line;
+    } else {
+      current += ' ' + line;
+      report.unwrapLines++;
+    }
+    previous = line;
+  }
+  if (current) paragraphs.push(current);
+  return paragraphs.join('\n\n');
+};
+
+/**
+ * Cleans PDF text given page by page (one string per page, lines separated by
+ * "\n", blank lines between paragraphs). Pages are needed to recognise
+ * running headers and page numbers.
+ */
+export const cleanupPages = (pages: string[], options: CleanupOptions = DEFAULT_CLEANUP): CleanupResult => {
+  const report: CleanupReport = { removeHeaders: 0, removePageNumbers: 0, dehyphenate: 0, removeFootnoteMarkers: 0, unwrapLines: 0 };
+  let pageLines = pages.map(page => page.replace(/\r\n?/g, '\n').split('\n'));
+
+  // Only the first or last line of a page can be its number; elsewhere "1984" or "mix" is text
+  if (options.removePageNumbers) {
+    pageLines = pageLines.map(lines => {
+      const content = lines.map((line, i) => line.trim() ? i : -1).filter(i => i >= 0);
+      const edges = [content[0], content[content.length - 1]].filter(i => i !== undefined);
+      const drop = new Set(edges.filter(i => PAGE_NUMBER.test(lines[i].trim())));
+      report.removePageNumbers += drop.size;
+      return lines.filter((_, i) => !drop.has(i));
+    });
+  }
+  if (options.removeHeaders) pageLines = removeRunningHeaders(pageLines, report);
+
+  // A paragraph may run on to the next page, so pages are joined like lines
+  let text = pageLines.map(lines => lines.join('\n')).join('\n').replace(/\u00AD/g, '');
+
+  if (options.dehyphenate) {
+    text = text.replace(/(\p{L})[-\u2010]\n\s*(\p{Ll})/gu, (_, before, after) => {
+      report.dehyphenate++;
+      return before + after;
+    });
+  }
+  if (options.removeFootnoteMarkers) {
+    text = text
+      .replace(/[\u00B9\u00B2\u00B3\u2070\u2074-\u2079]+/g, () => { report.removeFootnoteMarkers++; return ''; })
+      .replace(/(\p{L}|[.,;:!?"”’)])\[\d{1,3}\]/gu, (_, before) => { report.removeFootnoteMarkers++; return before; })
+      .replace(/(\p{L}[.,;:!?"”’)])\d{1,3}(?=\s|$)/gu, (_, before) => { report.removeFootnoteMarkers++; return before; });
+  }
+
+  text = options.unwrapLines
+    ? unwrap(text, report)
+    : text.split('\n').map(l => l.trim()).join('\n').replace(/\n{3,}/g, '\n\n');
+
+  return { text: text.trim(), report };
+};
+
+/**
+ * Cleans text that has no pages (plain text, Markdown, HTML or pasted text),
+ * so nothing is removed as a page number.
+ */
+export const cleanupText = (text: string, options: CleanupOptions = DEFAULT_CLEANUP): CleanupResult =>
+  cleanupPages([text], { ...options, removePageNumbers: false });
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { buildSentences, endsSentence, findSentences, findWords, lookupKeys, matchPhrases, phraseKey, tokenKey, tokenizeSegment } from './tokenizer';
+
+const words = (text: string, language = 'en') => findWords(text, language).map(([start, end]) => text.slice(start, end));
+const sentences = (text: string, language = 'en') => findSentences(text, language).map(([start, end]) => text.slice(start, end));
+
+describe('tokenizer', () => {
+  it('does not end sentences at abbreviations, initials, quoted speech or a trailing ellipsis', () => {
+    expect(endsSentence('Mr.', 'Smith')).toBe(false);
+    expect(endsSentence('e.g.', 'Paris')).toBe(false);
+    expect(endsSentence('J.', 'Tolkien')).toBe(false);
+    expect(endsSentence('well...', 'maybe')).toBe(false);
+    expect(endsSentence('"Stop!"', 'he')).toBe(false);
+    expect(endsSentence('home.', 'Then')).toBe(true);
+    expect(endsSentence('wait…', '“Who')).toBe(true);
+
+    expect(sentences('Mr. Smith met Dr. Jones at 5 p.m. on Friday. “Is it late?” she asked. Yes.')).toEqual([
+      'Mr. Smith met Dr. Jones at 5 p.m. on Friday.',
+      '“Is it late?” she asked.',
+      'Yes.',
+    ]);
+    expect(sentences('The answer was no. She left. See p. 12 and No. 5 in the list. Prices rose ca. 1500.')).toEqual([
+      'The answer was no.',
+      'She left.',
+      'See p. 12 and No. 5 in the list.',
+      'Prices rose ca. 1500.',
+    ]);
+    expect(sentences('Chapter One\nIt was cold')).toEqual(['Chapter One', 'It was cold']);
+    expect(sentences('今日は晴れです。明日は雨です。', 'ja')).toEqual(['今日は晴れです。', '明日は雨です。']);
+    expect(sentences('سلام. حالت چطور است؟ خوبم.', 'fa')).toEqual(['سلام.', 'حالت چطور است؟', 'خوبم.']);
+  });
+
+  it('keeps contractions, hyphenated words and dotted abbreviations whole', () => {
+    expect(words('“Don’t,” she said — it’s a well-known U.S. case, e.g. 2024’s.')).toEqual(
+      ['Don’t', 'she', 'said', 'it’s', 'a', 'well-known', 'U.S.', 'case', 'e.g.', '2024’s'],
+    );
+    expect(words("L'homme dell'anno, aujourd'hui.", 'fr')).toEqual(["L'", 'homme', "dell'", 'anno', "aujourd'hui"]);
+    expect(words('我喜欢学习中文。', 'zh').join('')).toBe('我喜欢学习中文');
+
+    expect(tokenKey('Don’t')).toBe("don't");
+    expect(lookupKeys("john's")).toEqual(["john's", 'john']);
+    expect(phraseKey('Give Up!', 'en')).toBe('give up');
+  });
+
+  it('builds display sentences with their words and layout', () => {
+    const content = 'A Title\n\nShe didn’t give up. He did.\nThe end.';
+    const view = buildSentences(content, tokenizeSegment({ content }, 'en'));
+    expect(view.map(s => [s.text, s.breakBefore, s.heading])).toEqual([
+      ['A Title', undefined, true],
+      ['She didn’t give up.', 'paragraph', false],
+      ['He did.', undefined, false],
+      ['The end.', 'line', false],
+    ]);
+    expect(view[1].tokens.map(t => t.key)).toEqual(['she', "didn't", 'give', 'up']);
+    expect(view[2].tokens[0]).toMatchObject({ index: 6, text: 'He', start: content.indexOf('He') });
+
+    const phrases = new Map([['give up', 'card']]);
+    expect(matchPhrases(view[1].tokens.map(t => t.key), phrases, 2)).toEqual([{ from: 2, to: 4, value: 'card' }]);
+  });
+
+  it('keeps timed sentences as the sentences of subtitle parts', () => {
+    const segment = {
+      content: 'so today we are going to talk about bread',
+      timedSentences: [
+        { text: 'so today we are going', start: 0, end: 2 },
+        { text: 'to talk about bread', start: 2, end: 4 },
+      ],
+    };
+    const view = buildSentences(segment.content, tokenizeSegment(segment, 'en'));
+    expect(view.map(s => s.text)).toEqual(['so today we are going', 'to talk about bread']);
+    expect(view[1].tokens).toHaveLength(4);
+  });
+});
@@ -0,0 +1,222 @@
+import { ArticleSegment, SegmentTokens } from '../types';
+import { languageInfo, speechLocale } from './languages';
+
+/**
+ * Words and sentences of a segment as character offsets into its content.
+ * The structure is stored with the segment and shared by everything that
+ * works on the text word by word or sentence by sentence: highlighting,
+ * word lookup, selections, speech and pronunciation practice.
+ */
+
+// Bump when tokenization changes; stored structures from older versions are rebuilt on load
+export const TOKENIZER_VERSION = 2;
+
+export interface Token {
+  index: number; // Position among the segment's words
+  text: string; // As written
+  key: string; // Lookup form, see `tokenKey`
+  start: number;
+  end: number;
+}
+
+export interface SentenceView {
+  text: string;
+  start: number;
+  end: number;
+  tokens: Token[];
+  breakBefore?: 'paragraph' | 'line';
+  heading: boolean; // A paragraph of its own that reads as a heading
+}
+
+// Abbreviations whose period does not end a sentence (compared lowercase, without the final period)
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'mx', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'rev', 'hon', 'gen', 'col', 'capt', 'lt', 'sgt',
+  'e.g', 'i.e', 'cf', 'vs', 'approx', 'fig', 'figs', 'vol', 'ch',
+  'inc', 'ltd', 'corp', 'dept', 'a.m', 'p.m', 'u.s', 'u.k', 'jan', 'feb', 'mar', 'apr', 'jun', 'jul',
+  'aug', 'sep', 'sept', 'oct', 'nov', 'dec', 'z.b', 'd.h', 'bzw', 'sra', 'sres', 'etc',
+]);
+
+// Abbreviations that are also ordinary words ("no", "ca"), so they only count before a number: "No. 5", "p. 12"
+const NUMBER_ABBREVIATIONS = new Set(['no', 'nos', 'nr', 'p', 'pp', 'ca']);
+
+const TERMINAL = /[.!?。！？؟।…]["'”’»)\]]*$/;
+const OPENERS = /^["'“‘«„(\[¿¡—–-]+/;
+
+// Dotted abbreviations ("e.g.", "U.S.") or letters and digits joined by apostrophes and hyphens ("don't", "well-known")
+const WORD = /(?:\p{L}\.){2,}|[\p{L}\p{M}\p{N}]+(?:['’‐-][\p{L}\p{M}\p{N}]+)*/gu;
+// Elided articles and prepositions written onto the next word ("l'homme", "dell'anno")
+const ELISION = /^\p{L}{1,6}['’](?=\p{L})/u;
+const ELIDING_LANGUAGES = new Set(['fr', 'it']);
+
+/**
+ * Whether `word` (with any punctuation attached) ends a sentence, given the
+ * word after it. Abbreviations such as "Mr." and "e.g." (or "No." before a
+ * number), initials and an ellipsis followed by a lowercase word do not.
+ */
+export const endsSentence = (word: string, next: string): boolean => {
+  if (!TERMINAL.test(word)) return false;
+  const bare = word.replace(OPENERS, '');
+  if (/^\p{Lu}\.$/u.test(bare)) return false; // An initial, as in "J. R. R. Tolkien"
+  const abbreviation = bare.toLowerCase().replace(/\.$/, '');
+  const following = next.replace(OPENERS, '');
+  if (ABBREVIATIONS.has(abbreviation)) return false;
+  if (NUMBER_ABBREVIATIONS.has(abbreviation) && /^\d/.test(following)) return false;
+  return !/^\p{Ll}/u.test(following);
+};
+
+/**
+ * Whether a paragraph reads as a heading: a single short line without closing
+ * punctuation that is not a line of dialogue, or a Markdown heading.
+ */
+export const isHeading = (paragraph: string): boolean => {
+  const text = paragraph.trim();
+  if (/^#{1,6}\s/.test(text)) return true;
+  if (!text || text.includes('\n') || text.length > 100) return false;
+  if (OPENERS.test(text) || /[.,;:!?…"”»)]$/.test(text)) return false;
+  return text.split(/\s+/).length <= 12;
+};
+
+/**
+ * Lowercase with typographic apostrophes and hyphens made plain, so "Don’t"
+ * and "don't" look up the same card.
+ */
+export const tokenKey = (text: string): string =>
+  text.normalize('NFC').toLowerCase().replace(/[’‘ʼ`]/g, "'").replace(/‐/g, '-');
+
+/**
+ * Keys to try when looking a word up: the word itself, then without a possessive "'s".
+ */
+export const lookupKeys = (key: string): string[] =>
+  key.endsWith("'s") ? [key, key.slice(0, -2)] : [key];
+
+/**
+ * Word offsets in `text`. Punctuation, numbers and symbols are not words.
+ */
+export const findWords = (text: string, language: string): [number, number][] => {
+  if (languageInfo(language).unspaced && typeof Intl.Segmenter === 'function') {
+    return Array.from(new Intl.Segmenter(speechLocale(language), { granularity: 'word' }).segment(text))
+      .filter(s => s.isWordLike && /\p{L}/u.test(s.segment))
+      .map(s => [s.index, s.index + s.segment.length]);
+  }
+  const words: [number, number][] = [];
+  const elides = ELIDING_LANGUAGES.has(language);
+  for (const match of text.matchAll(WORD)) {
+    if (!/\p{L}/u.test(match[0])) continue;
+    const start = match.index!;
+    const end = start + match[0].length;
+    const elided = elides ? match[0].match(ELISION)?.[0].length : undefined;
+    if (elided) words.push([start, start + elided], [start + elided, end]);
+    else words.push([start, end]);
+  }
+  return words;
+};
+
+/**
+ * Sentence offsets in `text`, without surrounding spaces. A line break always
+ * ends a sentence, so headings and dialogue lines stand alone.
+ */
+export const findSentences = (text: string, language: string): [number, number][] => {
+  const sentences: [number, number][] = [];
+  const useSegmenter = languageInfo(language).unspaced && typeof Intl.Segmenter === 'function';
+
+  for (const line of text.matchAll(/[^\n]+/g)) {
+    const offset = line.index!;
+    if (useSegmenter) {
+      for (const s of new Intl.Segmenter(speechLocale(language), { granularity: 'sentence' }).segment(line[0])) {
+        const body = s.segment.trim();
+        const start = offset + s.index + (s.segment.length - s.segment.trimStart().length);
+        if (body) sentences.push([start, start + body.length]);
+      }
+      continue;
+    }
+    const chunks = Array.from(line[0].matchAll(/\S+/g));
+    let start = -1;
+    chunks.forEach((chunk, i) => {
+      if (start === -1) start = offset + chunk.index!;
+      const next = chunks[i + 1];
+      if (!next || endsSentence(chunk[0], next[0])) {
+        sentences.push([start, offset + chunk.index! + chunk[0].length]);
+        start = -1;
+      }
+    });
+  }
+  return sentences;
+};
+
+/**
+ * The stored structure of a segment. Subtitle parts keep their timed
+ * sentences as they are, so sentence n is always cue-timed sentence n.
+ */
+export const tokenizeSegment = (segment: Pick<ArticleSegment, 'content' | 'timedSentences'>, language: string): SegmentTokens => {
+  const { content, timedSentences } = segment;
+  let sentences: [number, number][];
+  if (timedSentences) {
+    let cursor = 0;
+    sentences = timedSentences.map(({ text }) => {
+      const found = content.indexOf(text, cursor);
+      const start = found === -1 ? cursor : found;
+      cursor = Math.min(content.length, start + text.length);
+      return [start, cursor];
+    });
+  } else {
+    sentences = findSentences(content, language);
+  }
+  return { version: TOKENIZER_VERSION, words: findWords(content, language), sentences };
+};
+
+/**
+ * Sentences with their words, and the paragraph layout around them, for display.
+ */
+export const buildSentences = (content: string, structure: SegmentTokens): SentenceView[] => {
+  const tokens: Token[] = structure.words.map(([start, end], index) => {
+    const text = content.slice(start, end);
+    return { index, text, key: tokenKey(text), start, end };
+  });
+  const blankLine = /\n[ \t]*\n/;
+  let next = 0;
+
+  return structure.sentences.map(([start, end], i, all) => {
+    while (next < tokens.length && tokens[next].start < start) next++;
+    const first = next;
+    while (next < tokens.length && tokens[next].end <= end) next++;
+
+    const before = content.slice(i > 0 ? all[i - 1][1] : 0, start);
+    const after = content.slice(end, i < all.length - 1 ? all[i + 1][0] : content.length);
+    const text = content.slice(start, end);
+    const alone = (i === 0 || blankLine.test(before)) && (i === all.length - 1 || blankLine.test(after));
+    return {
+      text,
+      start,
+      end,
+      tokens: tokens.slice(first, next),
+      breakBefore: i === 0 ? undefined : blankLine.test(before) ? 'paragraph' : before.includes('\n') ? 'line' : undefined,
+      heading: alone && isHeading(text),
+    };
+  });
+};
+
+/**
+ * Lookup key of a multi-word expression, matching the keys of its tokens joined by spaces.
+ */
+export const phraseKey = (text: string, language: string): string =>
+  findWords(text, language).map(([start, end]) => tokenKey(text.slice(start, end))).join(' ');
+
+/**
+ * Runs of consecutive keys that form a known phrase, longest first and
+ * without overlaps. `to` is exclusive.
+ */
+export const matchPhrases = <T>(keys: string[], phrases: Map<string, T>, maxLength: number): { from: number; to: number; value: T }[] => {
+  const matches: { from: number; to: number; value: T }[] = [];
+  if (phrases.size === 0) return matches;
+  for (let from = 0; from < keys.length; from++) {
+    for (let length = Math.min(maxLength, keys.length - from); length >= 2; length--) {
+      const value = phrases.get(keys.slice(from, from + length).join(' '));
+      if (value !== undefined) {
+        matches.push({ from, to: from + length, value });
+        from += length - 1;
+        break;
+      }
+    }
+  }
+  return matches;
+};
@@ -0,0 +1,100 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { nanoid } from 'nanoid';
+import { DatabaseService } from './db';
+import { budgetWarning, costOf, createUsageRecorder, dayKey, summarizeUsage } from './usage';
+import { analyzeSingleWord, translateFullText } from './geminiService';
+import { createMockProvider } from './mockProvider';
+import { LLMProvider } from './llmProvider';
+import { UsageRecord } from '../types';
+
+const PRICES = { 'model-a': { input: 1, output: 4 } };
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  id: nanoid(),
+  at: new Date(2025, 2, 10, 12).getTime(),
+  provider: 'gemini',
+  model: 'model-a',
+  task: 'analysis',
+  promptTokens: 1000,
+  outputTokens: 500,
+  ...overrides,
+});
+
+// Mock answers reported as coming from a real backend with fixed token counts
+const meteredProvider = (): LLMProvider => {
+  const mock = createMockProvider();
+  return {
+    ...mock,
+    id: 'gemini',
+    generateJson: request => {
+      request.onUsage?.({ promptTokens: 120, outputTokens: 80 });
+      return mock.generateJson(request);
+    },
+    generateText: request => {
+      request.onUsage?.({ promptTokens: 50, outputTokens: 60 });
+      return mock.generateText(request);
+    },
+  };
+};
+
+const waitForRecords = async (db: DatabaseService, count: number) => {
+  for (let i = 0; i < 50; i++) {
+    const records = await db.getUsageRecords();
+    if (records.length >= count) return records;
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  return db.getUsageRecords();
+};
+
+describe('usage accounting', () => {
+  it('prices tokens per million and treats unknown models as free', () => {
+    expect(costOf(record({}), PRICES)).toBeCloseTo(0.003);
+    expect(costOf(record({ model: 'local-llama' }), PRICES)).toBe(0);
+  });
+
+  it('totals usage per model, task, day and article', () => {
+    const laterDay = new Date(2025, 2, 11, 9).getTime();
+    const report = summarizeUsage([
+      record({ articleId: 'a1' }),
+      record({ task: 'translation', articleId: 'a1', at: laterDay }),
+      record({ model: 'local-llama', task: 'tts', cardId: 'c1' }),
+    ], PRICES);
+
+    expect(report.total).toMatchObject({ calls: 3, promptTokens: 3000, outputTokens: 1500 });
+    expect(report.total.cost).toBeCloseTo(0.006);
+    expect(report.byModel['local-llama'].cost).toBe(0);
+    expect(report.byTask.analysis?.calls).toBe(1);
+    expect(report.byTask.tts?.calls).toBe(1);
+    expect(report.byTask.translation?.calls).toBe(1);
+    expect(Object.keys(report.byDay)).toEqual([dayKey(record({}).at), dayKey(laterDay)]);
+    expect(Object.keys(report.byArticle)).toEqual(['a1']);
+    expect(report.byArticle.a1.calls).toBe(2);
+  });
+
+  it('warns only when the budget is nearly or fully spent', () => {
+    expect(budgetWarning(50, 0, 'Preparing')).toBeNull();
+    expect(budgetWarning(7, 10, 'Preparing')).toBeNull();
+    expect(budgetWarning(8, 10, 'Preparing')).toContain('of your monthly AI budget');
+    expect(budgetWarning(12, 10, 'Preparing')).toContain('over your monthly AI budget');
+  });
+
+  it('records provider-reported tokens against the source article', async () => {
+    const db = new DatabaseService(`usage-${nanoid()}`);
+    const llm = { provider: meteredProvider(), model: 'model-a', usage: createUsageRecorder(db) };
+
+    await analyzeSingleWord('wick', 'He trimmed the wick.', llm, { source: { articleId: 'a1' } });
+    await translateFullText('Hello there.', llm, { source: { articleId: 'a1' } });
+    // The offline mock reports nothing worth billing
+    await translateFullText('Hello there.', { ...llm, provider: createMockProvider() });
+
+    const records = await waitForRecords(db, 2);
+    expect(records).toHaveLength(2);
+    expect(records.map(r => r.task).sort()).toEqual(['translation', 'word']);
+    expect(records.every(r => r.articleId === 'a1' && r.provider === 'gemini' && r.model === 'model-a')).toBe(true);
+    expect(records.find(r => r.task === 'word')).toMatchObject({ promptTokens: 120, outputTokens: 80 });
+
+    const since = Date.now() + 1000;
+    expect(await db.getUsageRecords(since)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { nanoid } from 'nanoid';
+import { ModelPrice, UsageRecord, UsageTask } from '../types';
+import { DatabaseService } from './db';
+
+/**
+ * Token accounting: every AI call the providers report usage for is logged
+ * with its model, task and the article or card it served, and priced with the
+ * user-editable table in Settings.
+ */
+
+// List prices in USD per million tokens; users adjust them in Settings. Local models are free.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+};
+
+export const USAGE_TASK_LABELS: Record<UsageTask, string> = {
+  analysis: 'Text analysis',
+  word: 'Word lookups',
+  translation: 'Translation',
+  tts: 'AI voice',
+  pronunciation: 'Pronunciation',
+};
+
+export interface UsageRecorder {
+  record(entry: Omit<UsageRecord, 'id' | 'at'>): void;
+}
+
+/**
+ * Recording never blocks or fails the AI call it describes; write errors are only logged.
+ */
+export const createUsageRecorder = (
+  db: Pick<DatabaseService, 'addUsageRecord'>,
+  onRecord?: (record: UsageRecord) => void
+): UsageRecorder => ({
+  record(entry) {
+    const record: UsageRecord = { ...entry, id: nanoid(), at: Date.now() };
+    db.addUsageRecord(record)
+      .then(() => onRecord?.(record))
+      .catch(e => console.warn("Failed to record token usage", e));
+  },
+});
+
+/**
+ * Cost in USD; models missing from the price table count as free.
+ */
+export const costOf = (record: Pick<UsageRecord, 'model' | 'promptTokens' | 'outputTokens'>, prices: Record<string, ModelPrice>): number => {
+  const price = prices[record.model];
+  if (!price) return 0;
+  return (record.promptTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+};
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface UsageReport {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byTask: Partial<Record<UsageTask, UsageTotals>>;
+  byDay: Record<string, UsageTotals>; // Local date, YYYY-MM-DD
+  byArticle: Record<string, UsageTotals>; // Calls made for an article; card audio is left out
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, outputTokens: 0, cost: 0 });
+
+export const dayKey = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const startOfMonth = (now = Date.now()): number => {
+  const d = new Date(now);
+  return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+};
+
+export const summarizeUsage = (records: UsageRecord[], prices: Record<string, ModelPrice>): UsageReport => {
+  const report: UsageReport = { total: emptyTotals(), byModel: {}, byTask: {}, byDay: {}, byArticle: {} };
+  for (const record of records) {
+    const cost = costOf(record, prices);
+    const groups = [
+      report.total,
+      report.byModel[record.model] ??= emptyTotals(),
+      report.byTask[record.task] ??= emptyTotals(),
+      report.byDay[dayKey(record.at)] ??= emptyTotals(),
+    ];
+    if (record.articleId) groups.push(report.byArticle[record.articleId] ??= emptyTotals());
+    for (const totals of groups) {
+      totals.calls++;
+      totals.promptTokens += record.promptTokens;
+      totals.outputTokens += record.outputTokens;
+      totals.cost += cost;
+    }
+  }
+  return report;
+};
+
+export const formatCost = (usd: number): string => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+/**
+ * Confirmation text for starting `action` once this month's spend reaches 80% of the budget;
+ * null when there is no budget or plenty of it left.
+ */
+export const budgetWarning = (spent: number, budget: number, action: string): string | null => {
+  if (budget <= 0 || spent < budget * 0.8) return null;
+  const status = spent >= budget
+    ? `You have spent ${formatCost(spent)}, over your monthly AI budget of ${formatCost(budget)}.`
+    : `You have spent ${formatCost(spent)} of your monthly AI budget of ${formatCost(budget)}.`;
+  return `${status} ${action} will add to it. Continue?`;
+};
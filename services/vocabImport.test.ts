@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parseDelimitedFile, parseKindleVocabDb, guessMapping, rowsToAnalyses, mergeEnrichment } from './vocabImport';
+import { loadSqlJs } from './sqlite';
+import { WordAnalysis } from '../types';
+
+describe('parseDelimitedFile', () => {
+  it('reads a CSV with a header row and quoted fields', () => {
+    const table = parseDelimitedFile('\uFEFFWord,Definition,Translation\r\nephemeral,"Lasting a short time, briefly",زودگذر\r\n"say ""hi""",greet,سلام\r\n');
+
+    expect(table.hasHeaderRow).toBe(true);
+    expect(table.headers).toEqual(['Word', 'Definition', 'Translation']);
+    expect(table.rows).toEqual([
+      ['ephemeral', 'Lasting a short time, briefly', 'زودگذر'],
+      ['say "hi"', 'greet', 'سلام'],
+    ]);
+    expect(guessMapping(table)).toEqual(['word', 'definition', 'translation']);
+  });
+
+  it('honours Anki plain-text export directives and strips HTML', () => {
+    const text = '#separator:tab\n#html:true\n#tags column:3\nlucid\tClear and <b>easy</b> to understand<br>\tvocab\n';
+    const table = parseDelimitedFile(text);
+
+    expect(table.hasHeaderRow).toBe(false);
+    expect(table.rows).toEqual([['lucid', 'Clear and easy to understand', 'vocab']]);
+    // Headerless files fall back to Anki's front/back layout
+    expect(guessMapping(table)).toEqual(['word', 'definition', '']);
+  });
+});
+
+describe('rowsToAnalyses', () => {
+  it('maps columns, skips empty words and de-duplicates by lemma', () => {
+    const table = parseDelimitedFile('Term\tIPA\tCollocations\tLevel\nRun\t/rʌn/\trun out; run into\tb1\nrun\t\t\t\n\t\t\t\n');
+    const items = rowsToAnalyses(table, guessMapping(table));
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      type: 'vocabulary',
+      word: 'Run',
+      lemma: 'run',
+      phonetic: 'rʌn',
+      collocations: ['run out', 'run into'],
+      level: 'B1',
+      definition: '',
+    });
+  });
+
+  it('lets imported values win over AI enrichment', () => {
+    const [item] = rowsToAnalyses(parseDelimitedFile('word,definition\nlucid,my own note\n'), ['word', 'definition']);
+    const enriched: WordAnalysis = {
+      ...item,
+      phonetic: 'ˈluːsɪd',
+      definition: 'Expressed clearly.',
+      translation: 'روشن',
+      collocations: ['lucid explanation'],
+    };
+
+    expect(mergeEnrichment(item, enriched)).toMatchObject({
+      definition: 'my own note',
+      phonetic: 'ˈluːsɪd',
+      translation: 'روشن',
+      collocations: ['lucid explanation'],
+    });
+  });
+});
+
+describe('parseKindleVocabDb', () => {
+  it('reads lookups with their usage sentence', async () => {
+    const SQL = await loadSqlJs();
+    const db = new SQL.Database();
+    db.run(`
+      CREATE TABLE WORDS (id TEXT PRIMARY KEY, word TEXT, stem TEXT, lang TEXT, category INTEGER, timestamp INTEGER, profileid TEXT);
+      CREATE TABLE LOOKUPS (id TEXT PRIMARY KEY, word_key TEXT, book_key TEXT, dict_key TEXT, pos TEXT, usage TEXT, timestamp INTEGER);
+      CREATE TABLE BOOK_INFO (id TEXT PRIMARY KEY, asin TEXT, guid TEXT, lang TEXT, title TEXT, authors TEXT);
+      INSERT INTO WORDS VALUES ('en:wandered', 'wandered', 'wander', 'en', 0, 1, '');
+      INSERT INTO BOOK_INFO VALUES ('b1', 'X', 'g', 'en', 'The Hobbit', 'Tolkien');
+      INSERT INTO LOOKUPS VALUES ('l1', 'en:wandered', 'b1', '', '', 'He wandered off alone.', 2);
+    `);
+    const data = db.export();
+    db.close();
+
+    const table = await parseKindleVocabDb(data);
+    expect(table.rows).toEqual([['wandered', 'wander', 'He wandered off alone.', 'The Hobbit']]);
+
+    const [item] = rowsToAnalyses(table, guessMapping(table));
+    expect(item).toMatchObject({ word: 'wandered', lemma: 'wander', context: 'He wandered off alone.' });
+  });
+
+  it('rejects unrelated SQLite files', async () => {
+    const SQL = await loadSqlJs();
+    const db = new SQL.Database();
+    db.run('CREATE TABLE other (id INTEGER)');
+    const data = db.export();
+    db.close();
+
+    await expect(parseKindleVocabDb(data)).rejects.toThrow('Kindle');
+  });
+});
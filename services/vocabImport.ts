@@ -0,0 +1,265 @@
+import { WordAnalysis, AnalysisType } from '../types';
+import { loadSqlJs } from './sqlite';
+
+/**
+ * Parsers for existing vocabulary lists. Every source is normalized to a
+ * header row plus string rows, which the user then maps onto WordAnalysis fields.
+ */
+
+// Cards imported from word lists belong to this synthetic, segment-less article
+export const IMPORTED_ARTICLE_ID = 'imported';
+export const IMPORTED_ARTICLE_TITLE = 'Imported Vocabulary';
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+  hasHeaderRow: boolean; // Whether `headers` came from the file or were generated
+}
+
+export type MappableField = keyof WordAnalysis;
+export type ColumnMapping = (MappableField | '')[];
+
+export const MAPPABLE_FIELDS: { id: MappableField; label: string }[] = [
+  { id: 'word', label: 'Word' },
+  { id: 'lemma', label: 'Lemma' },
+  { id: 'definition', label: 'Definition' },
+  { id: 'translation', label: 'Translation' },
+  { id: 'phonetic', label: 'Phonetic (IPA)' },
+  { id: 'partOfSpeech', label: 'Part of Speech' },
+  { id: 'context', label: 'Context Sentence' },
+  { id: 'exampleSentence', label: 'Example' },
+  { id: 'collocations', label: 'Collocations' },
+  { id: 'level', label: 'Level' },
+  { id: 'type', label: 'Type' },
+];
+
+const HEADER_ALIASES: Record<MappableField, string[]> = {
+  word: ['word', 'front', 'term', 'expression', 'vocabulary', 'vocab'],
+  lemma: ['lemma', 'stem', 'root', 'base', 'baseform'],
+  definition: ['definition', 'meaning', 'back', 'explanation', 'gloss'],
+  translation: ['translation', 'persian', 'persiantranslation', 'farsi', 'native'],
+  phonetic: ['phonetic', 'ipa', 'pronunciation', 'reading'],
+  partOfSpeech: ['pos', 'partofspeech', 'wordclass'],
+  context: ['context', 'sentence', 'usage', 'quote'],
+  exampleSentence: ['example', 'examplesentence', 'examples'],
+  collocations: ['collocations', 'phrases', 'collocation'],
+  level: ['level', 'cefr', 'difficulty'],
+  type: ['type', 'category'],
+};
+
+const ANALYSIS_TYPES: AnalysisType[] = ['vocabulary', 'grammar', 'literary', 'historical'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const stripHtml = (value: string) =>
+  value
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+
+/**
+ * Splits delimited text into rows, honouring double-quoted fields (RFC 4180).
+ */
+export const splitDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const detectDelimiter = (sample: string): string => {
+  const firstLines = sample.split(/\r?\n/).slice(0, 5).join('\n');
+  const counts = ['\t', ';', ','].map(d => ({ d, n: firstLines.split(d).length - 1 }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 0 ? counts[0].d : '\t';
+};
+
+// A header row is mostly recognizable field names; a data row may contain one by chance
+const looksLikeHeader = (row: string[]) => {
+  const cells = row.filter(cell => cell.trim() !== '');
+  const known = cells.filter(cell => guessField(cell) !== '').length;
+  return known > 0 && known * 2 >= cells.length;
+};
+
+const ANKI_SEPARATORS: Record<string, string> = { tab: '\t', comma: ',', semicolon: ';', space: ' ', pipe: '|', colon: ':' };
+
+/**
+ * Parses CSV/TSV files and Anki "Notes in Plain Text" exports. Anki's `#key:value`
+ * header lines (separator, html, columns) are honoured when present.
+ */
+export const parseDelimitedFile = (text: string): ParsedTable => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const directives: Record<string, string> = {};
+  while (lines.length && /^#[a-z ]+:/i.test(lines[0])) {
+    const [key, ...rest] = lines.shift()!.slice(1).split(':');
+    directives[key.trim().toLowerCase()] = rest.join(':').trim();
+  }
+
+  const body = lines.join('\n');
+  const separator = directives.separator
+    ? ANKI_SEPARATORS[directives.separator.toLowerCase()] || directives.separator
+    : detectDelimiter(body);
+  const isHtml = directives.html === 'true';
+
+  let rows = splitDelimited(body, separator);
+  if (isHtml) rows = rows.map(r => r.map(stripHtml));
+
+  const width = Math.max(0, ...rows.map(r => r.length));
+  let headers: string[];
+  let hasHeaderRow = false;
+
+  if (directives.columns) {
+    headers = directives.columns.split(separator).map(h => h.trim());
+  } else if (rows.length > 0 && looksLikeHeader(rows[0])) {
+    headers = rows.shift()!.map(h => h.trim());
+    hasHeaderRow = true;
+  } else {
+    headers = Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  }
+
+  return { headers, rows, hasHeaderRow: hasHeaderRow || !!directives.columns };
+};
+
+/**
+ * Reads a Kindle Vocabulary Builder database (`vocab.db`): one row per lookup,
+ * with the sentence the word was looked up in as its usage.
+ */
+export const parseKindleVocabDb = async (data: Uint8Array): Promise<ParsedTable> => {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(data);
+  try {
+    const result = db.exec(`
+      SELECT w.word, w.stem, l.usage, b.title
+      FROM LOOKUPS l
+      JOIN WORDS w ON l.word_key = w.id
+      LEFT JOIN BOOK_INFO b ON l.book_key = b.id
+      ORDER BY l.timestamp
+    `);
+    const rows = (result[0]?.values || []).map(r => r.map(v => v == null ? '' : String(v)));
+    return { headers: ['Word', 'Stem', 'Usage', 'Book'], rows, hasHeaderRow: true };
+  } catch {
+    throw new Error("This does not look like a Kindle vocab.db file.");
+  } finally {
+    db.close();
+  }
+};
+
+export const guessField = (header: string): MappableField | '' => {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return '';
+  for (const [field, aliases] of Object.entries(HEADER_ALIASES) as [MappableField, string[]][]) {
+    if (aliases.includes(normalized)) return field;
+  }
+  return '';
+};
+
+/**
+ * Suggests a mapping from headers; when nothing matches, assumes Anki's usual front/back layout.
+ */
+export const guessMapping = (table: ParsedTable): ColumnMapping => {
+  const mapping: ColumnMapping = table.headers.map(guessField);
+  // Each field may only be mapped once
+  const seen = new Set<string>();
+  const unique = mapping.map(f => (f && !seen.has(f) ? (seen.add(f), f) : ''));
+
+  if (!unique.includes('word')) {
+    const firstFree = unique.findIndex(f => f === '');
+    if (firstFree >= 0) unique[firstFree] = 'word';
+    const secondFree = unique.findIndex(f => f === '');
+    if (secondFree >= 0 && !unique.includes('definition')) unique[secondFree] = 'definition';
+  }
+  return unique;
+};
+
+/**
+ * Applies the column mapping. Rows without a word are skipped; duplicates (by lemma) keep the first.
+ */
+export const rowsToAnalyses = (table: ParsedTable, mapping: ColumnMapping): WordAnalysis[] => {
+  const results: WordAnalysis[] = [];
+  const seen = new Set<string>();
+
+  for (const row of table.rows) {
+    const fields: Partial<Record<MappableField, string>> = {};
+    mapping.forEach((field, i) => {
+      if (field && row[i] !== undefined && row[i].trim() !== '') fields[field] = row[i].trim();
+    });
+
+    const word = fields.word;
+    if (!word) continue;
+    const lemma = (fields.lemma || word).toLowerCase();
+    if (seen.has(lemma)) continue;
+    seen.add(lemma);
+
+    const type = (fields.type || '').toLowerCase() as AnalysisType;
+    results.push({
+      type: ANALYSIS_TYPES.includes(type) ? type : 'vocabulary',
+      word,
+      lemma,
+      phonetic: fields.phonetic?.replace(/^\/|\/$/g, ''),
+      partOfSpeech: fields.partOfSpeech,
+      collocations: fields.collocations ? fields.collocations.split(/\s*[;\n|]\s*/).filter(Boolean) : [],
+      context: fields.context || '',
+      level: fields.level?.toUpperCase() || '',
+      definition: fields.definition || '',
+      translation: fields.translation || '',
+      exampleSentence: fields.exampleSentence || '',
+    });
+  }
+  return results;
+};
+
+export const needsEnrichment = (item: WordAnalysis) =>
+  !item.definition || !item.translation || !item.phonetic;
+
+/**
+ * Fills only the fields the imported row left empty, so user-provided data always wins.
+ */
+export const mergeEnrichment = (item: WordAnalysis, enriched: WordAnalysis): WordAnalysis => ({
+  ...item,
+  phonetic: item.phonetic || enriched.phonetic,
+  partOfSpeech: item.partOfSpeech || enriched.partOfSpeech,
+  collocations: item.collocations.length ? item.collocations : enriched.collocations || [],
+  context: item.context || enriched.context || '',
+  level: item.level || enriched.level || '',
+  definition: item.definition || enriched.definition || '',
+  translation: item.translation || enriched.translation || '',
+  exampleSentence: item.exampleSentence || enriched.exampleSentence || '',
+});
@@ -1,41 +1,120 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Article, ArticleSegment, Collection, Flashcard, AppState, WordAnalysis, AppSettings, AnalysisType } from '../types';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { Article, ArticleSegment, Collection, Flashcard, AppState, WordAnalysis, AppSettings, AnalysisType, ReviewLogEntry, ProviderId, StoredCredential, AnalysisJob, UsageRecord, LearnerProfile, ArticleMedia } from '../types';
 import { nanoid } from 'nanoid';
 import { dbService } from '../services/db';
+import { addLookedUpWord, approveWords, newFlashcard, reviewCard, saveSegmentAnalysis } from '../services/studyFlow';
+import { downloadBlob } from '../services/download';
+import { ImportPreview, MergeStrategy, parseBackup, planImport, previewImport } from '../services/backup';
+import { IMPORTED_ARTICLE_ID, IMPORTED_ARTICLE_TITLE } from '../services/vocabImport';
+import { normalizeLemma } from '../services/knownWords';
+import { DEFAULT_OPENAI_BASE_URL } from '../services/openaiProvider';
+import { CredentialStatus, credentialStatus, decryptSecret, encryptSecret, setSessionKey } from '../services/credentials';
+import { AnalysisQueue, createAnalysisQueue } from '../services/analysisQueue';
+import { createAiCache } from '../services/aiCache';
+import { setResponseCache, setUsageRecorder } from '../services/llm';
+import { DEFAULT_NATIVE_LANGUAGE, DEFAULT_SOURCE_LANGUAGE } from '../services/languages';
+import { ESTIMATE_WINDOW_DAYS, LevelEstimate, estimateLevel, learnerProfile } from '../services/learnerLevel';
+import { resegment } from '../services/segmentation';
+import { TOKENIZER_VERSION, tokenizeSegment } from '../services/tokenizer';
+import { DEFAULT_MODEL_PRICES, budgetWarning, createUsageRecorder, startOfMonth, summarizeUsage } from '../services/usage';
+
+export interface NewArticleOptions {
+  id?: string;
+  collectionId?: string;
+  language?: string; // Defaults to the import language from Settings
+  author?: string;
+  coverImage?: string;
+}
 
 interface AppContextType {
   articles: Article[];
   collections: Collection[];
+  knownLemmas: string[];
   settings: AppSettings;
+  credentials: Record<ProviderId, CredentialStatus>;
+  analysisJobs: Record<string, AnalysisJob>;
+  learner: LearnerProfile; // Level and exam every analysis is tailored to
+  levelEstimate: LevelEstimate | null; // Only computed while the adaptive level is on
   isLoading: boolean;
   
-  addArticle: (title: string, segments: ArticleSegment[], collectionId?: string) => Promise<string>;
-  addCollection: (name: string, description?: string) => void;
+  addArticle: (title: string, segments: ArticleSegment[], options?: NewArticleOptions) => Promise<string>;
+  addCollection: (name: string, description?: string, coverImage?: string) => Promise<string>;
+  updateCollection: (id: string, changes: Partial<Omit<Collection, 'id' | 'updatedAt'>>) => Promise<void>;
+  deleteCollection: (id: string) => Promise<void>;
+  setArticleCollection: (articleId: string, collectionId: string | undefined) => Promise<void>;
+  resegmentArticle: (articleId: string, wordsPerSegment: number) => Promise<void>;
   updateSettings: (newSettings: Partial<AppSettings>) => Promise<void>;
+  markLemmasKnown: (lemmas: string[]) => Promise<void>;
+  unmarkLemmasKnown: (lemmas: string[]) => Promise<void>;
+  saveApiKey: (provider: ProviderId, apiKey: string, passphrase?: string) => Promise<void>;
+  unlockApiKey: (provider: ProviderId, passphrase: string) => Promise<void>;
+  clearApiKey: (provider: ProviderId) => Promise<void>;
+
+  queueArticleAnalysis: (articleId: string, translate: boolean) => Promise<void>;
+  pauseAnalysisJob: (articleId: string) => Promise<void>;
+  resumeAnalysisJob: (articleId: string) => Promise<void>;
+  cancelAnalysisJob: (articleId: string) => Promise<void>;
+  prioritizeAnalysis: (articleId: string, segmentIndex: number) => Promise<boolean>;
+  getAiCacheStats: () => Promise<{ entries: number; bytes: number }>;
+  clearAiCache: () => Promise<void>;
+  getUsageRecords: (since?: number) => Promise<UsageRecord[]>;
+  getBudgetWarning: (action: string) => Promise<string | null>;
+  refreshLevelEstimate: () => Promise<void>;
   
   getSegment: (articleId: string, index: number) => Promise<ArticleSegment | undefined>;
+  getArticleMedia: (articleId: string) => Promise<ArticleMedia | undefined>;
+  attachArticleMedia: (articleId: string, file: File) => Promise<void>;
   updateSegmentTranslation: (articleId: string, segmentIndex: number, translation: string) => Promise<void>;
   updateSegmentAnalysis: (articleId: string, segmentIndex: number, analysis: WordAnalysis[]) => Promise<void>;
   
   approveWordsForSegment: (articleId: string, segmentIndex: number, selectedLemmas: string[]) => Promise<void>;
   addCustomWordToSegment: (articleId: string, segmentIndex: number, analysis: WordAnalysis) => Promise<void>;
-  markCardReviewed: (cardId: string, quality: number) => Promise<void>;
+  importVocabulary: (items: WordAnalysis[]) => Promise<{ added: number; skipped: number }>;
+  markCardReviewed: (cardId: string, quality: number, responseTime?: number) => Promise<Flashcard | undefined>;
+  getReviewHistory: (cardId: string) => Promise<ReviewLogEntry[]>;
+  getReviewLog: (since?: number) => Promise<ReviewLogEntry[]>;
+  getAllFlashcards: () => Promise<Flashcard[]>;
+  getDueCount: (until?: number) => Promise<number>;
   
   getCardsForSession: (mode: 'due' | 'new' | 'all', filters: any, limit?: number) => Promise<Flashcard[]>;
   searchFlashcards: (filters: { articleId?: string, type?: string, level?: string, search?: string, limit?: number, offset?: number }) => Promise<Flashcard[]>;
   getArticleMetadata: (id: string) => Article | undefined;
 
   exportUserData: () => Promise<void>;
-  importUserData: (file: File) => Promise<void>;
+  previewUserData: (file: File) => Promise<ImportPreview>;
+  importUserData: (preview: ImportPreview, strategy: MergeStrategy, applySettings?: boolean) => Promise<void>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
+const NO_CREDENTIALS: Record<ProviderId, CredentialStatus> = { gemini: 'missing', openai: 'missing' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sortCollections = (list: Collection[]) => [...list].sort((a, b) => a.name.localeCompare(b.name));
+
 const DEFAULT_SETTINGS: AppSettings = {
   analysisModel: 'gemini-2.5-flash',
   translationModel: 'gemini-2.5-flash',
   ttsModel: 'gemini-2.5-flash-preview-tts',
   pronunciationModel: 'gemini-2.5-flash',
+  analysisProvider: 'gemini',
+  translationProvider: 'gemini',
+  ttsProvider: 'gemini',
+  pronunciationProvider: 'gemini',
+  openaiBaseUrl: DEFAULT_OPENAI_BASE_URL,
+  demoMode: false,
+  maxConcurrentRequests: 2,
+  requestsPerMinute: 10, // Gemini free tier
+  aiCacheMaxMb: 20,
+  modelPrices: DEFAULT_MODEL_PRICES,
+  monthlyBudget: 0, // No budget
+  promptTemplates: {}, // Built-in prompts for every task
+  nativeLanguage: DEFAULT_NATIVE_LANGUAGE,
+  defaultSourceLanguage: DEFAULT_SOURCE_LANGUAGE,
+  learnerLevel: 'B2',
+  targetExam: '', // No exam
+  adaptiveLevel: false,
   ttsEngine: 'gemini',
   segmentLength: 1200, 
   enabledTypes: ['vocabulary', 'grammar', 'literary', 'historical']
@@ -44,20 +123,78 @@ const DEFAULT_SETTINGS: AppSettings = {
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [articles, setArticles] = useState<Article[]>([]);
   const [collections, setCollections] = useState<Collection[]>([]);
+  const [knownLemmas, setKnownLemmas] = useState<string[]>([]);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [credentials, setCredentials] = useState<Record<ProviderId, CredentialStatus>>(NO_CREDENTIALS);
+  const [storedCredentials, setStoredCredentials] = useState<StoredCredential[]>([]);
+  const [analysisJobs, setAnalysisJobs] = useState<Record<string, AnalysisJob>>({});
+  const [levelEstimate, setLevelEstimate] = useState<LevelEstimate | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  const learner = learnerProfile(settings, levelEstimate);
+
+  // The queue outlives renders, so it reads the current settings, known words and level through refs
+  const settingsRef = useRef(settings);
+  const knownLemmasRef = useRef(knownLemmas);
+  const learnerRef = useRef(learner);
+  settingsRef.current = settings;
+  knownLemmasRef.current = knownLemmas;
+  learnerRef.current = learner;
+  const queueRef = useRef<AnalysisQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createAnalysisQueue({
+      db: dbService,
+      getSettings: () => settingsRef.current,
+      getKnownLemmas: () => knownLemmasRef.current,
+      getLearner: () => learnerRef.current,
+      onJobChange: (articleId, job) => setAnalysisJobs(prev => {
+        const next = { ...prev };
+        if (job) next[articleId] = job;
+        else delete next[articleId];
+        return next;
+      }),
+      onSegmentChange: (articleId, segment) => setArticles(prev => prev.map(a => a.id !== articleId ? a : {
+        ...a,
+        segments: a.segments.map(s => s.index === segment.index ? { ...s, isAnalyzed: segment.isAnalyzed } : s),
+      })),
+    });
+  }
+  const queue = queueRef.current;
+
+  // Every resolved task model shares one response cache, limited by the current setting
+  useEffect(() => {
+    setResponseCache(createAiCache(dbService, () => settingsRef.current.aiCacheMaxMb));
+    return () => setResponseCache(undefined);
+  }, []);
+
+  useEffect(() => {
+    setUsageRecorder(createUsageRecorder(dbService));
+    return () => setUsageRecorder(undefined);
+  }, []);
+
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [dbArticles, dbSettings] = await Promise.all([
+        const [dbArticles, dbSettings, dbKnown, dbCollections, dbCredentials] = await Promise.all([
           dbService.getArticles(),
-          dbService.getSettings()
+          dbService.getSettings(),
+          dbService.getKnownLemmas(),
+          dbService.getCollections(),
+          dbService.getCredentials()
         ]);
         setArticles(dbArticles.reverse());
+        setCollections(sortCollections(dbCollections));
+        setKnownLemmas(dbKnown.map(k => k.lemma));
+        knownLemmasRef.current = dbKnown.map(k => k.lemma);
         if (dbSettings) {
             setSettings({ ...DEFAULT_SETTINGS, ...dbSettings });
+            settingsRef.current = { ...DEFAULT_SETTINGS, ...dbSettings };
         }
+        // Plain keys are usable right away; encrypted ones wait for the passphrase
+        dbCredentials.forEach(c => { if (c.apiKey) setSessionKey(c.provider, c.apiKey); });
+        refreshCredentials(dbCredentials);
+        // Jobs interrupted by the last reload carry on in the background
+        await queue.restore();
       } catch (e) {
         console.error("Failed to load DB data", e);
       } finally {
@@ -67,51 +204,140 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     loadData();
   }, []);
 
-  const addCollection = (name: string, description?: string) => {
-    const newCol: Collection = { id: nanoid(), name, description };
-    setCollections(prev => [...prev, newCol]);
+  // A new or unlocked key (or demo mode) lets jobs that were waiting for one continue
+  useEffect(() => {
+    if (!isLoading) queue.kick();
+  }, [credentials, settings.demoMode]);
+
+  const refreshLevelEstimate = async () => {
+    const [cards, logs] = await Promise.all([
+      dbService.getAllFlashcards(),
+      dbService.getReviewLog(Date.now() - ESTIMATE_WINDOW_DAYS * DAY_MS),
+    ]);
+    setLevelEstimate(estimateLevel(settingsRef.current.learnerLevel, knownLemmasRef.current, cards, logs));
+  };
+
+  // Reviews in between are picked up on the next load or from Settings
+  useEffect(() => {
+    if (isLoading || !settings.adaptiveLevel) return;
+    refreshLevelEstimate().catch(e => console.error("Failed to estimate level", e));
+  }, [isLoading, settings.adaptiveLevel, settings.learnerLevel, knownLemmas.length]);
+
+  const addCollection = async (name: string, description?: string, coverImage?: string): Promise<string> => {
+    const newCol: Collection = { id: nanoid(), name, description, coverImage, updatedAt: Date.now() };
+    await dbService.saveCollection(newCol);
+    setCollections(prev => sortCollections([...prev, newCol]));
+    return newCol.id;
+  };
+
+  const updateCollection = async (id: string, changes: Partial<Omit<Collection, 'id' | 'updatedAt'>>) => {
+    const existing = collections.find(c => c.id === id);
+    if (!existing) return;
+    const updated: Collection = { ...existing, ...changes, updatedAt: Date.now() };
+    await dbService.saveCollection(updated);
+    setCollections(prev => sortCollections(prev.map(c => c.id === id ? updated : c)));
+  };
+
+  /**
+   * Removes the collection only; its articles and cards stay in the library, unsorted.
+   */
+  const deleteCollection = async (id: string) => {
+    await dbService.deleteCollection(id);
+    setCollections(prev => prev.filter(c => c.id !== id));
+    setArticles(prev => prev.map(a => a.collectionId === id ? { ...a, collectionId: undefined } : a));
   };
 
-  const addArticle = async (title: string, segments: ArticleSegment[], collectionId?: string): Promise<string> => {
-    const id = nanoid();
+  const setArticleCollection = async (articleId: string, collectionId: string | undefined) => {
+    await dbService.setArticleCollection(articleId, collectionId);
+    setArticles(prev => prev.map(a => a.id === articleId ? { ...a, collectionId, updatedAt: Date.now() } : a));
+  };
+
+  const addArticle = async (title: string, segments: ArticleSegment[], options: NewArticleOptions = {}): Promise<string> => {
+    // A preset `id` lets the importer book the first part's analysis against the article before it is saved
+    const { id = nanoid(), collectionId, language = settings.defaultSourceLanguage, author, coverImage } = options;
+    const tokenized = segments.map(s => ({ ...s, tokens: tokenizeSegment(s, language) }));
     const newArticle: Article = {
       id,
       title,
-      segments: segments, // Important: We save this to DB, but Context state keeps it light
+      segments: tokenized, // Important: We save this to DB, but Context state keeps it light
       collectionId,
+      language,
+      author,
+      coverImage,
       processedAt: Date.now(),
+      updatedAt: Date.now(),
     };
     
-    await dbService.addArticle(newArticle, segments);
+    await dbService.addArticle(newArticle, tokenized);
     
     // Keep memory light: don't store content in React state
     const lightweightArticle = {
         ...newArticle,
-        segments: segments.map(s => ({ ...s, content: '', analyzedWords: [] }))
+        segments: segments.map(s => ({ ...s, content: '', analyzedWords: [], timedSentences: undefined, tokens: undefined }))
     };
     setArticles(prev => [lightweightArticle, ...prev]);
     
     return id;
   };
 
+  /**
+   * Splits an article again with a different part length. Its background job
+   * refers to the old part numbers, so it is dropped, and restarted if it was active.
+   */
+  const resegmentArticle = async (articleId: string, wordsPerSegment: number) => {
+    const article = await dbService.getArticle(articleId);
+    if (!article) return;
+    const job = analysisJobs[articleId];
+    const restartJob = job && (job.status === 'queued' || job.status === 'running');
+    if (job) await queue.cancel(articleId);
+
+    const segments = resegment(await dbService.getSegments(articleId), wordsPerSegment, article.language)
+      .map(s => ({ ...s, id: nanoid(), tokens: tokenizeSegment(s, article.language) }));
+    await dbService.replaceSegments(articleId, segments);
+    setArticles(prev => prev.map(a => a.id !== articleId ? a : {
+      ...a,
+      segments: segments.map(s => ({ ...s, content: '', analyzedWords: [], timedSentences: undefined, tokens: undefined })),
+      updatedAt: Date.now(),
+    }));
+
+    if (restartJob) await queueArticleAnalysis(articleId, job.translate);
+  };
+
+  // Segments saved before the tokenizer, or by an older version of it, get their structure rebuilt on first load
   const getSegment = async (articleId: string, index: number) => {
-    return dbService.getSegment(articleId, index);
+    const segment = await dbService.getSegment(articleId, index);
+    if (!segment || segment.tokens?.version === TOKENIZER_VERSION) return segment;
+    const article = await dbService.getArticle(articleId);
+    const upgraded = { ...segment, tokens: tokenizeSegment(segment, article?.language || settings.defaultSourceLanguage) };
+    await dbService.saveSegmentTokens(upgraded);
+    return upgraded;
+  };
+
+  const getArticleMedia = async (articleId: string) => {
+    return dbService.getArticleMedia(articleId);
+  };
+
+  // Replaces any earlier file; the article itself is unchanged, so nothing is synced
+  const attachArticleMedia = async (articleId: string, file: File) => {
+    await dbService.saveArticleMedia({
+      articleId,
+      name: file.name,
+      type: file.type,
+      data: file,
+      addedAt: Date.now(),
+    });
   };
 
   const updateSegmentTranslation = async (articleId: string, segmentIndex: number, translation: string) => {
     const segment = await dbService.getSegment(articleId, segmentIndex);
     if (segment) {
-        const updated = { ...segment, persianTranslation: translation };
+        const updated = { ...segment, translation };
         await dbService.updateSegment(updated);
     }
   };
 
   const updateSegmentAnalysis = async (articleId: string, segmentIndex: number, analysis: WordAnalysis[]) => {
-    const segment = await dbService.getSegment(articleId, segmentIndex);
-    if (segment) {
-        const updated = { ...segment, analyzedWords: analysis, isAnalyzed: true };
-        await dbService.updateSegment(updated);
-        
+    if (await saveSegmentAnalysis(dbService, articleId, segmentIndex, analysis)) {
         setArticles(prev => prev.map(a => {
             if (a.id !== articleId) return a;
             const newSegs = a.segments.map(s => s.index === segmentIndex ? { ...s, isAnalyzed: true } : s);
@@ -121,69 +347,58 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const approveWordsForSegment = async (articleId: string, segmentIndex: number, selectedLemmas: string[]) => {
-    const segment = await dbService.getSegment(articleId, segmentIndex);
-    if (!segment) return;
-
-    const newFlashcards: Flashcard[] = segment.analyzedWords
-      .filter(w => selectedLemmas.includes(w.lemma))
-      .map(w => ({
-        ...w,
-        id: nanoid(),
-        articleId,
-        nextReview: Date.now(),
-        stage: 0,
-        createdAt: Date.now(),
-      }));
-    
-    await dbService.addFlashcards(newFlashcards);
-    
-    const updatedSegment = { ...segment, approvedWordIds: selectedLemmas };
-    await dbService.updateSegment(updatedSegment);
+    await approveWords(dbService, articleId, segmentIndex, selectedLemmas);
   };
 
   const addCustomWordToSegment = async (articleId: string, segmentIndex: number, analysis: WordAnalysis) => {
-    const segment = await dbService.getSegment(articleId, segmentIndex);
-    if (!segment) return;
-
-    const exists = segment.analyzedWords.some(w => w.lemma === analysis.lemma);
-    if (!exists) {
-        const updatedSegment = {
-            ...segment,
-            analyzedWords: [...segment.analyzedWords, analysis],
-            approvedWordIds: [...segment.approvedWordIds, analysis.lemma]
-        };
-        await dbService.updateSegment(updatedSegment);
+    await addLookedUpWord(dbService, articleId, segmentIndex, analysis);
+  };
+
+  /**
+   * Adds cards from an external word list under the synthetic "Imported" source,
+   * skipping lemmas that already have a card anywhere in the library.
+   */
+  const importVocabulary = async (items: WordAnalysis[]) => {
+    if (!articles.some(a => a.id === IMPORTED_ARTICLE_ID) && !(await dbService.getArticle(IMPORTED_ARTICLE_ID))) {
+      const source: Article = {
+        id: IMPORTED_ARTICLE_ID,
+        title: IMPORTED_ARTICLE_TITLE,
+        segments: [],
+        language: settings.defaultSourceLanguage,
+        processedAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      await dbService.addArticle(source, []);
+      setArticles(prev => [source, ...prev]);
     }
 
-    const newCard: Flashcard = {
-        ...analysis,
-        id: nanoid(),
-        articleId,
-        nextReview: Date.now(),
-        stage: 0,
-        createdAt: Date.now(),
-    };
-    await dbService.addFlashcards([newCard]);
+    const existing = new Set((await dbService.getAllFlashcards()).map(c => c.lemma.toLowerCase()));
+    const newCards: Flashcard[] = items
+      .filter(w => !existing.has(w.lemma.toLowerCase()))
+      .map(w => newFlashcard(w, IMPORTED_ARTICLE_ID));
+
+    await dbService.addFlashcards(newCards);
+    return { added: newCards.length, skipped: items.length - newCards.length };
   };
 
-  const markCardReviewed = async (cardId: string, quality: number) => {
-      const card = await dbService.getFlashcard(cardId);
-      if (!card) return;
-      
-      let newStage = card.stage;
-      let intervalDays = 1;
+  const markCardReviewed = async (cardId: string, quality: number, responseTime = 0) => {
+      return reviewCard(dbService, cardId, quality, responseTime);
+  };
 
-      if (quality >= 3) {
-        newStage += 1;
-        intervalDays = Math.pow(2, newStage);
-      } else {
-        newStage = 0;
-        intervalDays = 0;
-      }
+  const getReviewHistory = async (cardId: string) => {
+      return dbService.getReviewHistory(cardId);
+  };
 
-      const nextReview = Date.now() + (intervalDays * 24 * 60 * 60 * 1000);
-      const updated = { ...card, stage: newStage, nextReview };
-      await dbService.updateFlashcard(updated);
+  const getReviewLog = async (since?: number) => {
+      return dbService.getReviewLog(since);
+  };
+
+  const getAllFlashcards = async () => {
+      return dbService.getAllFlashcards();
+  };
+
+  const getDueCount = async (until = Date.now()) => {
+      return dbService.countDueFlashcards(until);
   };
 
   const updateSettings = async (newSettings: Partial<AppSettings>) => {
@@ -192,27 +407,117 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     await dbService.saveSettings(updated);
   };
 
+  /**
+   * Known lemmas are excluded from future analyses; cards that already exist are left alone.
+   */
+  const markLemmasKnown = async (lemmas: string[]) => {
+    const normalized = Array.from(new Set(lemmas.map(normalizeLemma).filter(Boolean)));
+    const fresh = normalized.filter(l => !knownLemmas.includes(l));
+    if (fresh.length === 0) return;
+    await dbService.addKnownLemmas(fresh);
+    setKnownLemmas(prev => [...prev, ...fresh]);
+  };
+
+  const unmarkLemmasKnown = async (lemmas: string[]) => {
+    const normalized = lemmas.map(normalizeLemma);
+    await dbService.removeKnownLemmas(normalized);
+    setKnownLemmas(prev => prev.filter(l => !normalized.includes(l)));
+  };
+
+  const refreshCredentials = (stored: StoredCredential[]) => {
+    setStoredCredentials(stored);
+    setCredentials({
+      gemini: credentialStatus('gemini', stored.find(c => c.provider === 'gemini')),
+      openai: credentialStatus('openai', stored.find(c => c.provider === 'openai')),
+    });
+  };
+
+  /**
+   * Stores the key on this device only. With a passphrase it is encrypted at rest
+   * and stays unlocked for the current session.
+   */
+  const saveApiKey = async (provider: ProviderId, apiKey: string, passphrase?: string) => {
+    const credential: StoredCredential = passphrase
+      ? { provider, encrypted: await encryptSecret(apiKey, passphrase), updatedAt: Date.now() }
+      : { provider, apiKey, updatedAt: Date.now() };
+    await dbService.saveCredential(credential);
+    setSessionKey(provider, apiKey);
+    refreshCredentials([...storedCredentials.filter(c => c.provider !== provider), credential]);
+  };
+
+  const unlockApiKey = async (provider: ProviderId, passphrase: string) => {
+    const stored = storedCredentials.find(c => c.provider === provider);
+    if (!stored?.encrypted) return;
+    setSessionKey(provider, await decryptSecret(stored.encrypted, passphrase));
+    refreshCredentials(storedCredentials);
+  };
+
+  const clearApiKey = async (provider: ProviderId) => {
+    await dbService.deleteCredential(provider);
+    setSessionKey(provider, undefined);
+    refreshCredentials(storedCredentials.filter(c => c.provider !== provider));
+  };
+
+  /**
+   * Prepares every part of an article in the background: parts that still need
+   * analysis, or every part when translations are requested too.
+   */
+  const queueArticleAnalysis = async (articleId: string, translate: boolean) => {
+    // Read from the database: an article added a moment ago may not be in state yet
+    const article = await dbService.getArticle(articleId);
+    if (!article) return;
+    const indexes = article.segments.filter(s => translate || !s.isAnalyzed).map(s => s.index);
+    if (indexes.length > 0) await queue.enqueue(articleId, indexes, translate);
+  };
+
+  const getAiCacheStats = async () => {
+    return dbService.getAiCacheStats();
+  };
+
+  const clearAiCache = async () => {
+    await dbService.clearAiCache();
+  };
+
+  const getUsageRecords = async (since?: number) => {
+    return dbService.getUsageRecords(since);
+  };
+
+  /**
+   * Confirmation text when this month's spend is close to or over the budget, else null.
+   */
+  const getBudgetWarning = async (action: string) => {
+    const { monthlyBudget, modelPrices } = settingsRef.current;
+    if (!monthlyBudget) return null;
+    const { total } = summarizeUsage(await dbService.getUsageRecords(startOfMonth()), modelPrices);
+    return budgetWarning(total.cost, monthlyBudget, action);
+  };
+
   const searchFlashcards = async (filters: any) => {
       return dbService.queryFlashcards(filters);
   };
 
   const getCardsForSession = async (mode: 'due' | 'new' | 'all', filters: any, limit = 50) => {
+      // Fetch every candidate and cap after filtering, so narrow filters still fill the session
       let cards: Flashcard[] = [];
       if (mode === 'due') {
-          cards = await dbService.getDueFlashcards(limit);
+          cards = await dbService.getDueFlashcards(Infinity);
       } else if (mode === 'new') {
-          cards = await dbService.getNewFlashcards(limit);
+          cards = await dbService.getNewFlashcards(Infinity);
       } else {
-          cards = await dbService.queryFlashcards({ ...filters, limit });
+          cards = await dbService.queryFlashcards(filters);
       }
       
       // Filter by article/type/level if mode was specific
       if (filters.type && filters.type !== 'all') cards = cards.filter(c => c.type === filters.type);
       if (filters.level && filters.level !== 'all') cards = cards.filter(c => c.level === filters.level);
       if (filters.articleId && filters.articleId !== 'all') cards = cards.filter(c => c.articleId === filters.articleId);
+      if (filters.collectionId && filters.collectionId !== 'all') {
+          const inCollection = new Set(articles.filter(a => a.collectionId === filters.collectionId).map(a => a.id));
+          cards = cards.filter(c => inCollection.has(c.articleId));
+      }
       
       // Shuffle
-      return cards.sort(() => Math.random() - 0.5);
+      return cards.slice(0, limit).sort(() => Math.random() - 0.5);
   };
 
   const getArticleMetadata = (id: string) => articles.find(a => a.id === id);
@@ -222,39 +527,53 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       const data = await dbService.exportDatabase();
       const jsonString = JSON.stringify(data, null, 2);
       const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `linguaflow-backup-${new Date().toISOString().slice(0,10)}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `linguaflow-backup-${new Date().toISOString().slice(0,10)}.json`);
     } catch (e) {
       console.error("Export failed", e);
       alert("Export failed. Check console.");
     }
   };
 
-  const importUserData = async (file: File) => {
+  /**
+   * Parses and validates a backup file and diffs it against the current library.
+   * Nothing is written; pass the result to importUserData to apply it.
+   */
+  const previewUserData = async (file: File): Promise<ImportPreview> => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch (e) {
+      throw new Error("The file is not valid JSON.");
+    }
+    const { backup, sourceVersion, issues } = parseBackup(raw);
+    const current = await dbService.exportDatabase();
+    return previewImport(backup, current, sourceVersion, issues);
+  };
+
+  const importUserData = async (preview: ImportPreview, strategy: MergeStrategy, applySettings = false) => {
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
-      await dbService.importDatabase(data);
+      // A restore removes the articles the background jobs work on
+      if (strategy === 'replace') {
+        for (const articleId of Object.keys(analysisJobs)) await queue.cancel(articleId);
+      }
+      await dbService.importDatabase(planImport(preview, strategy, applySettings));
       
       // Reload in-memory state
-      const [dbArticles, dbSettings] = await Promise.all([
+      const [dbArticles, dbSettings, dbKnown, dbCollections] = await Promise.all([
         dbService.getArticles(),
-        dbService.getSettings()
+        dbService.getSettings(),
+        dbService.getKnownLemmas(),
+        dbService.getCollections()
       ]);
       setArticles(dbArticles.reverse());
+      setCollections(sortCollections(dbCollections));
+      setKnownLemmas(dbKnown.map(k => k.lemma));
       if (dbSettings) setSettings({ ...DEFAULT_SETTINGS, ...dbSettings });
       
       alert("Import successful!");
     } catch (e) {
       console.error("Import failed", e);
-      alert("Import failed. Invalid file format.");
+      alert("Import failed. Check console.");
     }
   };
 
@@ -262,21 +581,53 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     <AppContext.Provider value={{
       articles,
       collections,
+      knownLemmas,
       settings,
+      credentials,
+      analysisJobs,
+      learner,
+      levelEstimate,
       isLoading,
       addArticle,
       addCollection,
+      updateCollection,
+      deleteCollection,
+      setArticleCollection,
+      resegmentArticle,
       updateSettings,
+      markLemmasKnown,
+      unmarkLemmasKnown,
+      saveApiKey,
+      unlockApiKey,
+      clearApiKey,
+      queueArticleAnalysis,
+      pauseAnalysisJob: queue.pause,
+      resumeAnalysisJob: queue.resume,
+      cancelAnalysisJob: queue.cancel,
+      prioritizeAnalysis: queue.prioritize,
+      getAiCacheStats,
+      clearAiCache,
+      getUsageRecords,
+      getBudgetWarning,
+      refreshLevelEstimate,
       getSegment,
+      getArticleMedia,
+      attachArticleMedia,
       updateSegmentTranslation,
       updateSegmentAnalysis,
       approveWordsForSegment,
       addCustomWordToSegment,
+      importVocabulary,
       markCardReviewed,
+      getReviewHistory,
+      getReviewLog,
+      getAllFlashcards,
+      getDueCount,
       searchFlashcards,
       getCardsForSession,
       getArticleMetadata,
       exportUserData,
+      previewUserData,
       importUserData
     }}>
       {children}
@@ -17,7 +17,7 @@ export interface WordAnalysis {
   context: string; // The sentence it appeared in
   level: DifficultyLevel | string; // CEFR or 'Advanced'
   definition: string; // Explanation/Definition
-  persianTranslation: string;
+  translation: string; // In the learner's native language
   exampleSentence: string;
 }
 
@@ -25,8 +25,37 @@ export interface Flashcard extends WordAnalysis {
   id: string;
   articleId: string;
   nextReview: number; // Timestamp
-  stage: number; // For SRS (Spaced Repetition System)
+  stage: number; // Consecutive successful reviews (0 = new or relearning)
+  ease: number; // SM-2 ease factor, lower means harder
+  stability: number; // Current interval in days
+  lapses: number; // Times the card was forgotten
+  lastReviewedAt?: number; // Timestamp
   createdAt: number;
+  updatedAt: number; // Last local change, used to merge backups
+}
+
+export interface ReviewLogEntry {
+  id: string;
+  cardId: string;
+  reviewedAt: number; // Timestamp
+  grade: number; // SM-2 quality (0-5)
+  previousInterval: number; // Days
+  nextInterval: number; // Days
+  responseTime: number; // Milliseconds from showing the card to grading it
+}
+
+// A sentence of a subtitle import and when it is spoken in the original media
+export interface TimedSentence {
+  text: string;
+  start: number; // Seconds from the start of the media
+  end: number;
+}
+
+// Word and sentence boundaries in a segment's content, built by services/tokenizer.ts
+export interface SegmentTokens {
+  version: number; // Tokenizer version that produced it
+  words: [number, number][]; // Start and end offset of each word
+  sentences: [number, number][]; // Start and end offset of each sentence
 }
 
 export interface ArticleSegment {
@@ -36,8 +65,73 @@ export interface ArticleSegment {
   content: string;
   analyzedWords: WordAnalysis[];
   approvedWordIds: string[];
-  persianTranslation?: string;
+  translation?: string; // Full translation into the learner's native language
   isAnalyzed: boolean;
+  timedSentences?: TimedSentence[]; // Subtitle imports only; the tokenizer keeps these as the sentences
+  tokens?: SegmentTokens; // Rebuilt when missing or outdated
+}
+
+export interface KnownLemma {
+  lemma: string; // Normalized (lowercase) lemma
+  addedAt: number;
+}
+
+export interface EncryptedSecret {
+  ciphertext: string; // Base64 AES-GCM output
+  iv: string;
+  salt: string; // PBKDF2 salt for the passphrase
+}
+
+export interface StoredCredential {
+  provider: ProviderId;
+  apiKey?: string; // Set when the key is stored without a passphrase
+  encrypted?: EncryptedSecret;
+  updatedAt: number;
+}
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'paused' | 'failed' | 'done';
+
+export interface AnalysisJob {
+  articleId: string; // One job per article
+  status: AnalysisJobStatus;
+  translate: boolean; // Also pre-translate every part
+  pending: number[]; // Segment indexes still to process, in order
+  total: number;
+  error?: string; // Last failure, or why a queued job is waiting
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AiCacheTask = 'analysis' | 'word' | 'translation';
+
+export interface AiCacheEntry {
+  key: string; // SHA-256 of the task, provider, model and request inputs
+  task: AiCacheTask;
+  value: unknown; // Validated result as returned by the service function
+  size: number; // Approximate bytes, for the size limit
+  createdAt: number;
+  lastUsedAt: number; // Least recently used entries are evicted first
+}
+
+export type UsageTask = 'analysis' | 'word' | 'translation' | 'tts' | 'pronunciation';
+
+export interface UsageRecord {
+  id: string;
+  at: number; // Timestamp of the call
+  provider: ProviderId;
+  model: string;
+  task: UsageTask;
+  promptTokens: number;
+  outputTokens: number;
+  articleId?: string; // What the call was for, when known
+  cardId?: string;
+}
+
+export type UsageSource = Pick<UsageRecord, 'articleId' | 'cardId'>;
+
+export interface ModelPrice {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million output tokens
 }
 
 export interface Article {
@@ -45,7 +139,20 @@ export interface Article {
   title: string;
   segments: ArticleSegment[];
   collectionId?: string;
+  language: string; // Source language code, e.g. 'en'
+  author?: string; // Imported books only
+  coverImage?: string; // Data URL, imported books only
   processedAt: number;
+  updatedAt: number; // Last change to the article or any of its segments
+}
+
+// Audio or video attached to a subtitle import, kept on this device only
+export interface ArticleMedia {
+  articleId: string;
+  name: string; // Original file name
+  type: string; // MIME type
+  data: Blob;
+  addedAt: number;
 }
 
 export interface Collection {
@@ -53,6 +160,19 @@ export interface Collection {
   name: string;
   description?: string;
   coverImage?: string;
+  updatedAt: number;
+}
+
+export type ProviderId = 'gemini' | 'openai'; // 'openai' = any OpenAI-compatible server
+
+export type PromptTask = 'analysis' | 'word' | 'translation' | 'pronunciation';
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+// What an analysis is tailored to
+export interface LearnerProfile {
+  level: CefrLevel;
+  targetExam?: string; // e.g. "IELTS"
 }
 
 export interface AppSettings {
@@ -60,7 +180,24 @@ export interface AppSettings {
   translationModel: string;
   ttsModel: string;
   pronunciationModel: string;
-  ttsEngine: 'gemini' | 'native';
+  analysisProvider: ProviderId;
+  translationProvider: ProviderId;
+  ttsProvider: ProviderId;
+  pronunciationProvider: ProviderId;
+  openaiBaseUrl: string;
+  demoMode: boolean; // Replays recorded responses instead of calling any provider
+  maxConcurrentRequests: number; // Per provider
+  requestsPerMinute: number; // Per provider, 0 = unlimited
+  aiCacheMaxMb: number; // Size limit of the AI response cache, 0 = disabled
+  modelPrices: Record<string, ModelPrice>; // Keyed by model ID
+  monthlyBudget: number; // USD, 0 = no budget
+  promptTemplates: Partial<Record<PromptTask, string>>; // Overrides of the built-in prompts
+  nativeLanguage: string; // Language of translations and explanations
+  defaultSourceLanguage: string; // Preselected language for new imports
+  learnerLevel: CefrLevel; // Used unless adaptiveLevel is on
+  targetExam: string; // '' = none
+  adaptiveLevel: boolean; // Estimate the level from reviews and known words
+  ttsEngine: 'gemini' | 'native'; // 'gemini' = AI voice from ttsProvider
   segmentLength: number; // Words per segment
   enabledTypes: AnalysisType[]; // What types to generate
 }